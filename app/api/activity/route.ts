@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getRecentActivityEvents } from '@/lib/activity';
-import { normalizeRepoUrl } from '@/lib/github';
-import { getLocks } from '@/lib/locks';
+import { expireLapsedLocks, getLocks } from '@/lib/locks';
+import { authorizeRepoAccess, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
 
 export const dynamic = 'force-dynamic';
 
@@ -20,6 +21,12 @@ export async function GET(request: NextRequest) {
     }
 
     const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, await resolveRequestPrincipal(request), 'viewer');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    await expireLapsedLocks(normalizedRepoUrl, branch);
     const activityEvents = await getRecentActivityEvents(normalizedRepoUrl, branch, limit);
     const locks = await getLocks(normalizedRepoUrl, branch);
 
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createAgentToken, isAgentNameBoundTo, listAgentTokens, revokeAgentToken } from '@/lib/agent-tokens';
+import { getMissingFields, isNonEmptyString, toBodyRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+async function getSessionLogin(): Promise<string | null> {
+  try {
+    const session = await getServerSession(authOptions);
+    return session?.user?.login || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET() {
+  try {
+    const login = await getSessionLogin();
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ owner_login: login, tokens: await listAgentTokens(login) });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('agent_tokens list error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const login = await getSessionLogin();
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const missing = getMissingFields(body, ['agent_name']);
+    if (missing.length > 0 || !isNonEmptyString(body.agent_name)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const agentName = body.agent_name.trim();
+    if (!isAgentNameBoundTo(agentName, login)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid agent name',
+          details: `Agent names must look like "(model)-(word)-${login.toLowerCase()}"`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const created = await createAgentToken(login, agentName);
+    if (!created) {
+      return NextResponse.json(
+        {
+          error: 'Agent name taken',
+          details: `"${agentName}" already belongs to another owner; pick a different word`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const { token, record } = created;
+    // The raw token is only ever returned here; KV keeps its hash.
+    return NextResponse.json({ success: true, token, record }, { status: 201 });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('agent_tokens create error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const login = await getSessionLogin();
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    if (!isNonEmptyString(body.token_id)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const revoked = await revokeAgentToken(login, body.token_id.trim());
+    if (!revoked) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, revoked: body.token_id.trim() });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('agent_tokens revoke error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
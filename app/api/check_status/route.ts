@@ -1,25 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getGitHubQuotaErrorMessage,
-  getGitHubQuotaResetMs,
-  getRepoHeadCached,
-  isGitHubQuotaError,
-  normalizeRepoUrl,
-  parseRepoUrl,
-} from '@/lib/github';
+import { AGENT_UNAUTHORIZED_PAYLOAD, authenticateAgentRequest } from '@/lib/agent-tokens';
+import { getGitHubQuotaErrorMessage, getGitHubQuotaResetMs, isGitHubQuotaError } from '@/lib/github';
 import { GraphService } from '@/lib/graph-service';
-import { getLocks, type LockEntry } from '@/lib/locks';
-import { getMissingFields, isNonEmptyString, normalizeFilePaths, toBodyRecord } from '@/lib/validation';
+import { findCoupledNeighbors, findNeighborLocks, getLockPolicy } from '@/lib/lock-policy';
+import { isPatternScope, lockScopesOverlap, normalizeLockScope } from '@/lib/lock-scope';
+import { expireLapsedLocks, getLockQueue, getLocks, type FileLock } from '@/lib/locks';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { getBranchHeadCached, normalizeRepoUrl } from '@/lib/repo-providers';
+import {
+  getMissingFields,
+  isNonEmptyString,
+  normalizeFilePaths,
+  parseCoordinationStatus,
+  toBodyRecord,
+} from '@/lib/validation';
 
 export const dynamic = 'force-dynamic';
 
-type EnrichedLockEntry = LockEntry & {
+type EnrichedLockEntry = FileLock & {
   user: string;
   lock_type: 'DIRECT' | 'NEIGHBOR';
+  covered_by?: string;
 };
 
 export async function POST(request: NextRequest) {
   try {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return NextResponse.json(AGENT_UNAUTHORIZED_PAYLOAD, { status: 401 });
+    }
+
     const body = toBodyRecord(await request.json());
     const missing = getMissingFields(body, ['repo_url', 'branch', 'file_paths', 'agent_head']);
 
@@ -29,10 +39,14 @@ export async function POST(request: NextRequest) {
 
     const repoUrl = body.repo_url;
     const branch = body.branch;
-    const filePaths = normalizeFilePaths(body.file_paths);
+    const filePaths = normalizeFilePaths(body.file_paths)?.map(normalizeLockScope) ?? null;
     const agentHead = body.agent_head;
+    // The status the caller means to lock with; only writes conflict with other readers.
+    const intendedStatus = body.status === undefined ? 'READING' : parseCoordinationStatus(body.status);
 
     if (
+      intendedStatus === null ||
+      intendedStatus === 'OPEN' ||
       !isNonEmptyString(repoUrl) ||
       !isNonEmptyString(branch) ||
       !isNonEmptyString(agentHead) ||
@@ -44,30 +58,65 @@ export async function POST(request: NextRequest) {
 
     const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
     const normalizedBranch = branch.trim() || 'main';
-    const requestingUser =
-      request.headers.get('x-github-user') ||
-      request.headers.get('x-github-username') ||
-      '';
+    const access = await authorizeRepoAccess(
+      normalizedRepoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'viewer',
+    );
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const requestingUser = agent.agentName;
 
-    const { owner, repo } = parseRepoUrl(normalizedRepoUrl);
-    const repoHead = await getRepoHeadCached(owner, repo, normalizedBranch);
+    const repoHead = await getBranchHeadCached(normalizedRepoUrl, normalizedBranch);
 
     const isStale = agentHead !== repoHead;
-    const allLocks = await getLocks(normalizedRepoUrl, normalizedBranch);
-    const requestedFilePaths = new Set(filePaths);
+    await expireLapsedLocks(normalizedRepoUrl, normalizedBranch);
+    const [allLocks, queue] = await Promise.all([
+      getLocks(normalizedRepoUrl, normalizedBranch),
+      getLockQueue(normalizedRepoUrl, normalizedBranch, filePaths),
+    ]);
     const enrichedLocks: Record<string, EnrichedLockEntry> = {};
+    const hasOtherHolder = (lock: FileLock | undefined) =>
+      Boolean(lock?.holders.some((holder) => holder.user_id !== requestingUser));
 
     for (const filePath of filePaths) {
       const lock = allLocks[filePath];
-      if (!lock) {
-        continue;
+      if (lock) {
+        enrichedLocks[filePath] = {
+          ...lock,
+          user: lock.user_id,
+          lock_type: 'DIRECT',
+        };
       }
 
-      enrichedLocks[filePath] = {
-        ...lock,
-        user: lock.user_id,
-        lock_type: 'DIRECT',
-      };
+      for (const [scope, scopeLock] of Object.entries(allLocks)) {
+        if (scope === filePath || !lockScopesOverlap(filePath, scope)) {
+          continue;
+        }
+
+        if (isPatternScope(filePath)) {
+          // A directory/glob request is blocked by anything already locked inside it.
+          enrichedLocks[scope] ??= { ...scopeLock, user: scopeLock.user_id, lock_type: 'DIRECT' };
+        } else if (!hasOtherHolder(enrichedLocks[filePath])) {
+          enrichedLocks[filePath] = {
+            ...scopeLock,
+            user: scopeLock.user_id,
+            lock_type: 'DIRECT',
+            covered_by: scope,
+          };
+        } else {
+          // Another agent already holds the file: fold the covering holders in so a writer on the covering
+          // scope still conflicts, and let that writer front the entry when the existing holders only read.
+          const existing = enrichedLocks[filePath];
+          const holders = [...existing.holders, ...scopeLock.holders];
+          enrichedLocks[filePath] =
+            existing.status !== 'WRITING' && scopeLock.status === 'WRITING'
+              ? { ...scopeLock, holders, user: scopeLock.user_id, lock_type: 'DIRECT', covered_by: scope }
+              : { ...existing, holders };
+        }
+      }
     }
 
     try {
@@ -75,28 +124,23 @@ export async function POST(request: NextRequest) {
       const cachedGraph = await graphService.getCached();
 
       if (cachedGraph) {
-        const neighborPaths = new Set<string>();
+        const policy = await getLockPolicy(normalizedRepoUrl);
 
-        for (const edge of cachedGraph.edges) {
-          if (requestedFilePaths.has(edge.source) && !requestedFilePaths.has(edge.target)) {
-            neighborPaths.add(edge.target);
-          }
-
-          if (requestedFilePaths.has(edge.target) && !requestedFilePaths.has(edge.source)) {
-            neighborPaths.add(edge.source);
+        for (const { neighbor, includeSymbols } of findCoupledNeighbors(cachedGraph, filePaths, 1, policy)) {
+          if (enrichedLocks[neighbor]) {
+            continue;
           }
-        }
 
-        for (const neighborPath of neighborPaths) {
-          const lock = allLocks[neighborPath];
-          if (!lock || enrichedLocks[neighborPath]) {
+          const match = findNeighborLocks(allLocks, neighbor, includeSymbols)[0];
+          if (!match) {
             continue;
           }
 
-          enrichedLocks[neighborPath] = {
-            ...lock,
-            user: lock.user_id,
+          enrichedLocks[neighbor] = {
+            ...match.lock,
+            user: match.lock.user_id,
             lock_type: 'NEIGHBOR',
+            ...(match.scope !== neighbor ? { covered_by: match.scope } : {}),
           };
         }
       }
@@ -104,9 +148,17 @@ export async function POST(request: NextRequest) {
       // Graph cache is optional for check_status; skip neighbor detection on read errors.
     }
 
-    const conflictingLocks = Object.entries(enrichedLocks).filter(
-      ([, lock]) => lock.user_id !== requestingUser,
-    );
+    // Shared reads are granted by acquireLocks, so other readers are listed in `locks` but only conflict
+    // with an intended write on the same scope; neighbours only conflict through their writers.
+    const conflictingLocks = Object.entries(enrichedLocks)
+      .map(([filePath, lock]) => {
+        const otherHolders = lock.holders.filter((candidate) => candidate.user_id !== requestingUser);
+        const holder =
+          otherHolders.find((candidate) => candidate.status === 'WRITING') ??
+          (intendedStatus === 'WRITING' && lock.lock_type === 'DIRECT' ? otherHolders[0] : undefined);
+        return holder ? ([filePath, lock, holder] as const) : null;
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
 
     let status = 'OK';
     if (isStale) status = 'STALE';
@@ -132,12 +184,16 @@ export async function POST(request: NextRequest) {
         reason: `Your local repo is behind. Current HEAD: ${repoHead}`,
       };
     } else if (conflictingLocks.length > 0) {
-      const [filePath, firstLock] = conflictingLocks[0];
+      const [filePath, firstLock, holder] = conflictingLocks[0];
+      const otherHolders = firstLock.holders.filter((candidate) => candidate.user_id !== requestingUser).length;
+      const others = otherHolders > 1 ? ` and ${otherHolders - 1} other${otherHolders === 2 ? '' : 's'}` : '';
       orchestration = {
         type: 'orchestration_command',
         action: 'SWITCH_TASK',
         command: null,
-        reason: `File '${filePath}' is locked by ${firstLock.user_name} (${firstLock.lock_type})`,
+        reason: `File '${filePath}' is locked by ${holder.user_name}${others}${
+          firstLock.covered_by ? ` via '${firstLock.covered_by}'` : ''
+        } (${firstLock.lock_type}, ${holder.status})`,
       };
     }
 
@@ -145,6 +201,7 @@ export async function POST(request: NextRequest) {
       status,
       repo_head: repoHead,
       locks: enrichedLocks,
+      queue,
       warnings: isStale ? [`STALE_BRANCH: Your branch is behind origin/${normalizedBranch}`] : [],
       orchestration,
     });
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { clearActivityEvents } from '@/lib/activity';
-import { normalizeRepoUrl } from '@/lib/github';
 import { releaseAllLocks } from '@/lib/locks';
+import { authorizeRepoAccess, getSessionPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
 import { getMissingFields, isNonEmptyString, toBodyRecord } from '@/lib/validation';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = toBodyRecord(await request.json());
     const missing = getMissingFields(body, ['repo_url', 'branch']);
     if (missing.length > 0) {
@@ -22,6 +28,11 @@ export async function POST(request: NextRequest) {
 
     const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
     const normalizedBranch = branch.trim() || 'main';
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
     const [locksResult, activityResult] = await Promise.all([
       releaseAllLocks(normalizedRepoUrl, normalizedBranch),
       clearActivityEvents(normalizedRepoUrl, normalizedBranch),
@@ -1,49 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
+import { groupNodesByPackage } from '@/lib/graph-query';
 import { GraphService } from '@/lib/graph-service';
-import { authOptions } from '@/lib/auth';
 import { getRecentActivityEvents } from '@/lib/activity';
-import {
-  getGitHubQuotaErrorMessage,
-  getGitHubQuotaResetMs,
-  isGitHubQuotaError,
-  normalizeRepoUrl,
-} from '@/lib/github';
+import { getGitHubQuotaErrorMessage, getGitHubQuotaResetMs, isGitHubQuotaError } from '@/lib/github';
+import { authorizeRepoAccess, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
-    let accessToken: string | undefined;
-    try {
-      const session = await getServerSession(authOptions);
-      accessToken = session?.accessToken;
-    } catch {
-      accessToken = undefined;
-    }
-
     const { searchParams } = new URL(request.url);
     const repoUrl = searchParams.get('repo_url');
     const branch = searchParams.get('branch')?.trim() || 'main';
     const regenerate = searchParams.get('regenerate') === 'true';
+    const groupBy = searchParams.get('group_by');
 
     if (!repoUrl) {
       return NextResponse.json({ error: 'repo_url is required' }, { status: 400 });
     }
 
+    if (groupBy && groupBy !== 'package') {
+      return NextResponse.json({ error: 'Invalid filter', details: 'group_by must be package' }, { status: 400 });
+    }
+
     const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
-    const service = new GraphService(normalizedRepoUrl, branch, accessToken);
+    const principal = await resolveRequestPrincipal(request);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'viewer');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const service = new GraphService(normalizedRepoUrl, branch, principal?.accessToken);
     const graph = await service.get(regenerate);
     const activityEvents = await getRecentActivityEvents(normalizedRepoUrl, branch);
 
     return NextResponse.json(
       {
         ...graph,
+        ...(groupBy === 'package' ? { package_groups: groupNodesByPackage(graph) } : {}),
         activity_events: activityEvents,
       },
       {
       headers: {
-        'Cache-Control': 'public, max-age=10, s-maxage=30, stale-while-revalidate=60',
+        'Cache-Control': 'private, max-age=10',
       },
       },
     );
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeImpact, parseImpactFilePaths } from '@/lib/impact';
+import { authorizeRepoAccess, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import { parsePositiveInteger } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const repoUrl = searchParams.get('repo_url');
+    const branch = searchParams.get('branch')?.trim() || 'main';
+    const filePaths = parseImpactFilePaths([...searchParams.getAll('file_paths'), ...searchParams.getAll('file_path')]);
+    const rawDepth = searchParams.get('depth');
+    const depth = rawDepth ? parsePositiveInteger(rawDepth) : null;
+
+    if (!repoUrl) {
+      return NextResponse.json({ error: 'repo_url is required' }, { status: 400 });
+    }
+
+    if (filePaths.length === 0) {
+      return NextResponse.json({ error: 'file_paths is required' }, { status: 400 });
+    }
+
+    if (rawDepth && depth === null) {
+      return NextResponse.json({ error: 'depth must be a positive integer' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, await resolveRequestPrincipal(request), 'viewer');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const report = await analyzeImpact(normalizedRepoUrl, branch, filePaths, depth);
+
+    return NextResponse.json(
+      { repo_url: normalizedRepoUrl, branch, depth, ...report },
+      {
+        headers: {
+          'Cache-Control': 'no-store, max-age=0',
+        },
+      },
+    );
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[API] Impact analysis error:', error);
+    return NextResponse.json({ error: 'Failed to analyze impact', details }, { status: 500 });
+  }
+}
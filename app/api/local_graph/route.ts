@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GraphService } from '@/lib/graph-service';
+import {
+  getLocalGraphRoots,
+  getLocalRepoOriginUrl,
+  isValidGitBranchName,
+  resolveAllowedLocalGraphPath,
+} from '@/lib/local-git-source';
+import { authorizeRepoAccess, getSessionPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import { getMissingFields, isNonEmptyString, toBodyRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+// Builds and caches the graph of repo_url/branch from a git checkout or bare repository on the server.
+// Later graph reads for that branch keep using the local path until it is removed with DELETE.
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const missing = getMissingFields(body, ['repo_url', 'branch', 'local_path']);
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const repoUrl = body.repo_url;
+    const branch = body.branch;
+    const localPath = body.local_path;
+    if (!isNonEmptyString(repoUrl) || !isNonEmptyString(branch) || !isNonEmptyString(localPath)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedBranch = branch.trim() || 'main';
+    if (!isValidGitBranchName(normalizedBranch)) {
+      return NextResponse.json({ error: 'Invalid branch name' }, { status: 400 });
+    }
+
+    const resolvedPath = getLocalGraphRoots().length > 0 ? await resolveAllowedLocalGraphPath(localPath.trim()) : null;
+    if (!resolvedPath) {
+      return NextResponse.json(
+        { error: 'local_path must be an absolute path under RELAY_LOCAL_GRAPH_ROOTS' },
+        { status: 400 },
+      );
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    // The roots are shared by every repo, so admin rights on repo_url only cover a clone of repo_url.
+    if ((await getLocalRepoOriginUrl(resolvedPath)) !== normalizedRepoUrl) {
+      return NextResponse.json(
+        { error: 'local_path must be a clone of repo_url (its origin remote must point at repo_url)' },
+        { status: 400 },
+      );
+    }
+
+    const service = new GraphService(normalizedRepoUrl, normalizedBranch);
+    const previous = await service.getLocalSourceConfig();
+    const source = { type: 'local' as const, path: resolvedPath, worktree: body.worktree === true };
+    await service.setLocalSourceConfig(source);
+
+    try {
+      const graph = await service.generate(true);
+      return NextResponse.json({
+        success: true,
+        repo_url: normalizedRepoUrl,
+        branch: normalizedBranch,
+        source,
+        version: graph.version,
+        metadata: graph.metadata,
+      });
+    } catch (error) {
+      // A path that is not a git repository (or lacks the branch) must not replace a working source.
+      await service.setLocalSourceConfig(previous);
+      const details = error instanceof Error ? error.message : 'Unknown error';
+      return NextResponse.json({ error: 'Failed to build graph from local_path', details }, { status: 422 });
+    }
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('local_graph error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+// Switches repo_url/branch back to GitHub; the next graph read rebuilds from the remote branch.
+export async function DELETE(request: NextRequest) {
+  try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    if (!isNonEmptyString(body.repo_url) || !isNonEmptyString(body.branch)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(body.repo_url);
+    const normalizedBranch = body.branch.trim() || 'main';
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const service = new GraphService(normalizedRepoUrl, normalizedBranch);
+    if (!(await service.getLocalSourceConfig())) {
+      return NextResponse.json({ error: 'No local graph source configured' }, { status: 404 });
+    }
+
+    await service.setLocalSourceConfig(null);
+    return NextResponse.json({ success: true, repo_url: normalizedRepoUrl, branch: normalizedBranch });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('local_graph delete error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_LOCK_POLICY,
+  MAX_NEIGHBOR_DEPTH,
+  getLockPolicy,
+  parseNeighborDepth,
+  parseNeighborLockMode,
+  setLockPolicy,
+} from '@/lib/lock-policy';
+import { authorizeRepoAccess, getSessionPrincipal, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import { isNonEmptyString, toBodyRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const repoUrl = new URL(request.url).searchParams.get('repo_url');
+    if (!repoUrl) {
+      return NextResponse.json({ error: 'repo_url is required' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, await resolveRequestPrincipal(request), 'viewer');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    return NextResponse.json({ repo_url: normalizedRepoUrl, policy: await getLockPolicy(normalizedRepoUrl) });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('lock_policy read error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const mode = parseNeighborLockMode(body.neighbor_mode);
+    const hasDepth = typeof body.neighbor_depth !== 'undefined' && body.neighbor_depth !== null;
+    const depth = hasDepth ? parseNeighborDepth(body.neighbor_depth) : DEFAULT_LOCK_POLICY.neighbor_depth;
+
+    if (!isNonEmptyString(body.repo_url) || !mode) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const ignoreTypeOnlyEdges = body.ignore_type_only_edges ?? DEFAULT_LOCK_POLICY.ignore_type_only_edges;
+    if (typeof ignoreTypeOnlyEdges !== 'boolean') {
+      return NextResponse.json({ error: 'ignore_type_only_edges must be a boolean' }, { status: 400 });
+    }
+
+    if (depth === null) {
+      return NextResponse.json(
+        { error: `neighbor_depth must be an integer between 1 and ${MAX_NEIGHBOR_DEPTH}` },
+        { status: 400 },
+      );
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(body.repo_url);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const policy = await setLockPolicy(
+      normalizedRepoUrl,
+      { neighbor_mode: mode, neighbor_depth: depth, ignore_type_only_edges: ignoreTypeOnlyEdges },
+      principal.login,
+    );
+    return NextResponse.json({ success: true, repo_url: normalizedRepoUrl, policy });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('lock_policy update error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_UNAUTHORIZED_PAYLOAD, authenticateAgentRequest } from '@/lib/agent-tokens';
+import { expireLapsedLocks, formatLockWaitState, getLockWaitState } from '@/lib/locks';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import { getMissingFields, isNonEmptyString, normalizeFilePaths, toBodyRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return NextResponse.json(AGENT_UNAUTHORIZED_PAYLOAD, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const missing = getMissingFields(body, ['repo_url', 'branch', 'file_paths']);
+
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const repoUrl = body.repo_url;
+    const branch = body.branch;
+    const filePaths = normalizeFilePaths(body.file_paths);
+
+    if (!isNonEmptyString(repoUrl) || !isNonEmptyString(branch) || !filePaths || filePaths.length === 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const normalizedBranch = branch.trim() || 'main';
+    const access = await authorizeRepoAccess(
+      normalizedRepoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'agent',
+    );
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const userId = agent.agentName;
+
+    // The sweep hands lapsed locks to waiters, so polling here also drives the queue forward.
+    await expireLapsedLocks(normalizedRepoUrl, normalizedBranch);
+    const waitState = await getLockWaitState(normalizedRepoUrl, normalizedBranch, filePaths, userId);
+
+    return NextResponse.json(formatLockWaitState(waitState));
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('lock_queue error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
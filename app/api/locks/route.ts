@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listActiveLocks, parseLockGrouping, parseLockStatusFilter } from '@/lib/lock-listing';
+import { authorizeRepoAccess, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const repoUrl = searchParams.get('repo_url');
+    const branch = searchParams.get('branch')?.trim() || 'main';
+    const status = parseLockStatusFilter(searchParams.get('status'));
+    const groupBy = parseLockGrouping(searchParams.get('group_by'));
+
+    if (!repoUrl) {
+      return NextResponse.json({ error: 'repo_url is required' }, { status: 400 });
+    }
+
+    if (status === undefined || groupBy === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid filter', details: 'status must be READING or WRITING; group_by must be file or agent' },
+        { status: 400 },
+      );
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, await resolveRequestPrincipal(request), 'viewer');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const listing = await listActiveLocks(normalizedRepoUrl, branch, {
+      pathPrefix: searchParams.get('path_prefix'),
+      status,
+      groupBy,
+    });
+
+    return NextResponse.json(
+      { repo_url: normalizedRepoUrl, branch, ...listing },
+      {
+        headers: {
+          'Cache-Control': 'no-store, max-age=0',
+        },
+      },
+    );
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[API] Locks list error:', error);
+    return NextResponse.json({ error: 'Failed to list locks', details }, { status: 500 });
+  }
+}
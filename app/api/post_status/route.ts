@@ -1,27 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getGitHubQuotaErrorMessage,
-  getGitHubQuotaResetMs,
-  getRepoHeadCached,
-  isGitHubQuotaError,
-  normalizeRepoUrl,
-  parseRepoUrl,
-} from '@/lib/github';
+import { AGENT_UNAUTHORIZED_PAYLOAD, authenticateAgentRequest } from '@/lib/agent-tokens';
+import { getGitHubQuotaErrorMessage, getGitHubQuotaResetMs, isGitHubQuotaError } from '@/lib/github';
 import { GraphService } from '@/lib/graph-service';
 import { publishActivityEvents } from '@/lib/activity';
-import { acquireLocks, releaseLocks } from '@/lib/locks';
+import { acquireLocks, clampLockTtl, expireLapsedLocks, releaseLocks } from '@/lib/locks';
+import {
+  describeNeighborConflict,
+  evaluateNeighborLockPolicy,
+  findGuardedNeighborConflict,
+  type CoupledNeighbor,
+  type NeighborWriteConflict,
+} from '@/lib/lock-policy';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { getBranchHeadCached, normalizeRepoUrl } from '@/lib/repo-providers';
 import {
   getMissingFields,
   isNonEmptyString,
   normalizeFilePaths,
   parseCoordinationStatus,
+  parsePositiveInteger,
   toBodyRecord,
 } from '@/lib/validation';
 
 export const dynamic = 'force-dynamic';
 
+function makeNeighborConflictResponse(conflicts: NeighborWriteConflict[]) {
+  return NextResponse.json({
+    success: false,
+    neighbor_conflicts: conflicts,
+    orchestration: {
+      type: 'orchestration_command',
+      action: 'SWITCH_TASK',
+      command: null,
+      reason: `NEIGHBOR_CONFLICT: ${describeNeighborConflict(conflicts[0])}`,
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return NextResponse.json(AGENT_UNAUTHORIZED_PAYLOAD, { status: 401 });
+    }
+
     const body = toBodyRecord(await request.json());
     const missing = getMissingFields(body, ['repo_url', 'branch', 'file_paths', 'status', 'message']);
 
@@ -36,6 +58,9 @@ export async function POST(request: NextRequest) {
     const message = body.message;
     const agentHead = body.agent_head;
     const newRepoHead = body.new_repo_head;
+    const hasTtl = typeof body.ttl_ms !== 'undefined' && body.ttl_ms !== null;
+    const ttlMs = hasTtl ? parsePositiveInteger(body.ttl_ms) : null;
+    const wait = body.wait === true || body.wait === 'true';
 
     if (
       !isNonEmptyString(repoUrl) ||
@@ -48,20 +73,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    if (hasTtl && ttlMs === null) {
+      return NextResponse.json({ error: 'ttl_ms must be a positive integer' }, { status: 400 });
+    }
+
     const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
     const normalizedBranch = branch.trim() || 'main';
-    const userId =
-      request.headers.get('x-github-user') ||
-      request.headers.get('x-github-username') ||
-      'anonymous';
-    const userName =
-      request.headers.get('x-github-username') ||
-      request.headers.get('x-github-user') ||
-      'Anonymous';
-
-    const { owner, repo } = parseRepoUrl(normalizedRepoUrl);
-    const repoHead = await getRepoHeadCached(owner, repo, normalizedBranch);
+    const access = await authorizeRepoAccess(
+      normalizedRepoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'agent',
+    );
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const userId = agent.agentName;
+    const userName = agent.agentName;
+
+    const repoHead = await getBranchHeadCached(normalizedRepoUrl, normalizedBranch);
     const eventTimestamp = Date.now();
+    await expireLapsedLocks(normalizedRepoUrl, normalizedBranch);
 
     if (status === 'OPEN') {
       if (isNonEmptyString(newRepoHead) && isNonEmptyString(agentHead) && newRepoHead === agentHead) {
@@ -104,7 +136,8 @@ export async function POST(request: NextRequest) {
           const releasedPaths = new Set(filePaths);
           const dependencyPaths = new Set<string>();
 
-          for (const edge of cachedGraph.edges) {
+          // Released symbol scopes match the symbol-usage edges of the files that import them.
+          for (const edge of [...cachedGraph.edges, ...(cachedGraph.symbol_edges ?? [])]) {
             if (releasedPaths.has(edge.target) && !releasedPaths.has(edge.source)) {
               dependencyPaths.add(edge.source);
             }
@@ -168,6 +201,21 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      let neighborConflicts: NeighborWriteConflict[] = [];
+      let neighborGuards: CoupledNeighbor[] = [];
+      if (status === 'WRITING') {
+        const neighborPolicy = await evaluateNeighborLockPolicy(normalizedRepoUrl, normalizedBranch, filePaths, userId);
+        neighborConflicts = neighborPolicy.conflicts;
+
+        if (neighborPolicy.policy.neighbor_mode === 'block') {
+          if (neighborConflicts.length > 0) {
+            return makeNeighborConflictResponse(neighborConflicts);
+          }
+          // A neighbour may be claimed after the read above; the lock script re-checks these atomically.
+          neighborGuards = neighborPolicy.neighbors;
+        }
+      }
+
       const lockResult = await acquireLocks({
         repoUrl: normalizedRepoUrl,
         branch: normalizedBranch,
@@ -177,14 +225,51 @@ export async function POST(request: NextRequest) {
         status,
         message,
         agentHead: effectiveAgentHead,
+        ttlMs: ttlMs ?? undefined,
+        wait,
+        neighborGuards,
       });
 
+      if (!lockResult.success && lockResult.queued) {
+        const positions = Object.entries(lockResult.queuePositions ?? {})
+          .map(([filePath, position]) => `${filePath} (#${position})`)
+          .join(', ');
+
+        return NextResponse.json({
+          success: false,
+          queued: true,
+          queue_positions: lockResult.queuePositions ?? {},
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'WAIT',
+            command: null,
+            reason: `Queued behind ${lockResult.conflictingUser ?? 'another agent'}: ${positions}. Call wait_for_lock to receive the handoff.`,
+          },
+        });
+      }
+
+      const guardedConflict =
+        !lockResult.success && lockResult.reason === 'NEIGHBOR_CONFLICT'
+          ? findGuardedNeighborConflict(neighborGuards, {
+              neighbor: lockResult.conflictingFile,
+              scope: lockResult.conflictingScope,
+              userId: lockResult.conflictingUser,
+            })
+          : null;
+      if (guardedConflict) {
+        return makeNeighborConflictResponse([guardedConflict]);
+      }
+
       if (!lockResult.success) {
         const reason =
           lockResult.reason === 'FILE_CONFLICT' &&
           isNonEmptyString(lockResult.conflictingFile) &&
           isNonEmptyString(lockResult.conflictingUser)
-            ? `${lockResult.reason}: ${lockResult.conflictingFile} locked by ${lockResult.conflictingUser}`
+            ? `${lockResult.reason}: ${lockResult.conflictingFile} locked by ${lockResult.conflictingUser}${
+                lockResult.conflictingScope && lockResult.conflictingScope !== lockResult.conflictingFile
+                  ? ` via ${lockResult.conflictingScope}`
+                  : ''
+              }`
             : lockResult.reason || 'Failed to acquire lock';
 
         return NextResponse.json({
@@ -216,6 +301,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         locks: lockResult.locks,
+        lock_ttl_ms: clampLockTtl(ttlMs),
+        ...(neighborConflicts.length > 0
+          ? {
+              neighbor_conflicts: neighborConflicts,
+              warnings: neighborConflicts.map((conflict) => `NEIGHBOR_WRITING: ${describeNeighborConflict(conflict)}`),
+            }
+          : {}),
         orchestration: {
           type: 'orchestration_command',
           action: 'PROCEED',
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_UNAUTHORIZED_PAYLOAD, authenticateAgentRequest } from '@/lib/agent-tokens';
+import { MAX_LOCK_TTL_MS, clampLockTtl, expireLapsedLocks, renewLocks } from '@/lib/locks';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import {
+  getMissingFields,
+  isNonEmptyString,
+  normalizeFilePaths,
+  parsePositiveInteger,
+  toBodyRecord,
+} from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return NextResponse.json(AGENT_UNAUTHORIZED_PAYLOAD, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const missing = getMissingFields(body, ['repo_url', 'branch', 'file_paths']);
+
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const repoUrl = body.repo_url;
+    const branch = body.branch;
+    const filePaths = normalizeFilePaths(body.file_paths);
+    const hasTtl = typeof body.ttl_ms !== 'undefined' && body.ttl_ms !== null;
+    const ttlMs = hasTtl ? parsePositiveInteger(body.ttl_ms) : null;
+
+    if (!isNonEmptyString(repoUrl) || !isNonEmptyString(branch) || !filePaths || filePaths.length === 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (hasTtl && ttlMs === null) {
+      return NextResponse.json({ error: 'ttl_ms must be a positive integer' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const normalizedBranch = branch.trim() || 'main';
+    const access = await authorizeRepoAccess(
+      normalizedRepoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'agent',
+    );
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const userId = agent.agentName;
+
+    // Lapse anything already past expiry first so a renewal can never resurrect it.
+    await expireLapsedLocks(normalizedRepoUrl, normalizedBranch);
+    const result = await renewLocks(normalizedRepoUrl, normalizedBranch, filePaths, userId, ttlMs ?? undefined);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'STOP',
+            command: null,
+            reason: 'Failed to renew locks',
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    const lockTtlMs = clampLockTtl(ttlMs);
+
+    if (result.missing.length > 0) {
+      return NextResponse.json({
+        success: false,
+        renewed: result.renewed,
+        missing: result.missing,
+        lock_ttl_ms: lockTtlMs,
+        max_lock_ttl_ms: MAX_LOCK_TTL_MS,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'STOP',
+          command: null,
+          reason: `Locks no longer held: ${result.missing.join(', ')}. Run check_status and post_status again before editing.`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      renewed: result.renewed,
+      missing: [],
+      lock_ttl_ms: lockTtlMs,
+      max_lock_ttl_ms: MAX_LOCK_TTL_MS,
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'PROCEED',
+        command: null,
+        reason: 'Locks renewed',
+      },
+    });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('renew_locks error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
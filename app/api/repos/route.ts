@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRepoAccess, getSessionPrincipal, resolveRequestPrincipal } from '@/lib/repo-access';
+import { normalizeRepoUrl } from '@/lib/repo-providers';
+import { listRegisteredRepositories, registerRepository, unregisterRepository } from '@/lib/repo-registry';
+import { isNonEmptyString, toBodyRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await resolveRequestPrincipal(request);
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ repos: await listRegisteredRepositories() });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('repos list error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    if (!isNonEmptyString(body.repo_url)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(body.repo_url);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const repo = await registerRepository(normalizedRepoUrl, principal.login);
+    return NextResponse.json({ success: true, repo }, { status: 201 });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('repos register error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const principal = await getSessionPrincipal();
+    if (!principal) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    if (!isNonEmptyString(body.repo_url)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(body.repo_url);
+    const access = await authorizeRepoAccess(normalizedRepoUrl, principal, 'admin');
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const removed = await unregisterRepository(normalizedRepoUrl);
+    if (!removed) {
+      return NextResponse.json({ error: 'Repository not registered' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, repo_url: normalizedRepoUrl });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('repos unregister error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_UNAUTHORIZED_PAYLOAD, authenticateAgentRequest } from '@/lib/agent-tokens';
+import { getGitHubQuotaErrorMessage, getGitHubQuotaResetMs, isGitHubQuotaError } from '@/lib/github';
+import { publishActivityEvents } from '@/lib/activity';
+import { clampLockTtl, expireLapsedLocks, updateLocks } from '@/lib/locks';
+import {
+  describeNeighborConflict,
+  evaluateNeighborLockPolicy,
+  findGuardedNeighborConflict,
+  type NeighborWriteConflict,
+} from '@/lib/lock-policy';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { getBranchHeadCached, normalizeRepoUrl } from '@/lib/repo-providers';
+import {
+  getMissingFields,
+  isNonEmptyString,
+  normalizeLockTransitions,
+  parsePositiveInteger,
+  toBodyRecord,
+} from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+function makeNeighborConflictResponse(conflicts: NeighborWriteConflict[]) {
+  return NextResponse.json({
+    success: false,
+    neighbor_conflicts: conflicts,
+    orchestration: {
+      type: 'orchestration_command',
+      action: 'SWITCH_TASK',
+      command: null,
+      reason: `NEIGHBOR_CONFLICT: ${describeNeighborConflict(conflicts[0])}. No transitions were applied.`,
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return NextResponse.json(AGENT_UNAUTHORIZED_PAYLOAD, { status: 401 });
+    }
+
+    const body = toBodyRecord(await request.json());
+    const missing = getMissingFields(body, ['repo_url', 'branch', 'transitions', 'message']);
+
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const repoUrl = body.repo_url;
+    const branch = body.branch;
+    const transitions = normalizeLockTransitions(body.transitions);
+    const message = body.message;
+    const agentHead = body.agent_head;
+    const hasTtl = typeof body.ttl_ms !== 'undefined' && body.ttl_ms !== null;
+    const ttlMs = hasTtl ? parsePositiveInteger(body.ttl_ms) : null;
+
+    if (!isNonEmptyString(repoUrl) || !isNonEmptyString(branch) || !isNonEmptyString(message) || !transitions) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (hasTtl && ttlMs === null) {
+      return NextResponse.json({ error: 'ttl_ms must be a positive integer' }, { status: 400 });
+    }
+
+    const writes = transitions.some((transition) => transition.status === 'WRITING');
+    if (writes && !isNonEmptyString(agentHead)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+    const normalizedBranch = branch.trim() || 'main';
+    const access = await authorizeRepoAccess(
+      normalizedRepoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'agent',
+    );
+    if (!access.allowed) {
+      return NextResponse.json(access.payload, { status: 403 });
+    }
+
+    const userId = agent.agentName;
+    const userName = agent.agentName;
+
+    const repoHead = await getBranchHeadCached(normalizedRepoUrl, normalizedBranch);
+
+    if (writes && agentHead !== repoHead) {
+      return NextResponse.json({
+        success: false,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'PULL',
+          command: 'git pull --rebase',
+          reason: 'Your local repo is behind remote',
+          metadata: {
+            remote_head: repoHead,
+            your_head: agentHead,
+          },
+        },
+      });
+    }
+
+    const eventTimestamp = Date.now();
+    await expireLapsedLocks(normalizedRepoUrl, normalizedBranch);
+
+    const neighborPolicy = await evaluateNeighborLockPolicy(
+      normalizedRepoUrl,
+      normalizedBranch,
+      transitions.filter((transition) => transition.status === 'WRITING').map((transition) => transition.filePath),
+      userId,
+    );
+    const neighborConflicts = neighborPolicy.conflicts;
+    const blocksNeighbors = neighborPolicy.policy.neighbor_mode === 'block';
+
+    if (neighborConflicts.length > 0 && blocksNeighbors) {
+      return makeNeighborConflictResponse(neighborConflicts);
+    }
+    // A neighbour may be claimed after the read above; the lock script re-checks these atomically.
+    const neighborGuards = blocksNeighbors ? neighborPolicy.neighbors : [];
+
+    const result = await updateLocks({
+      repoUrl: normalizedRepoUrl,
+      branch: normalizedBranch,
+      transitions,
+      userId,
+      userName,
+      message,
+      agentHead: isNonEmptyString(agentHead) ? agentHead : repoHead,
+      ttlMs: ttlMs ?? undefined,
+      neighborGuards,
+    });
+
+    if (!result.success && result.reason === 'DUPLICATE_SCOPE') {
+      return NextResponse.json(
+        { error: 'Duplicate transition', details: `${result.conflictingFile} appears more than once` },
+        { status: 400 },
+      );
+    }
+
+    const guardedConflict =
+      !result.success && result.reason === 'NEIGHBOR_CONFLICT'
+        ? findGuardedNeighborConflict(neighborGuards, {
+            neighbor: result.conflictingFile,
+            scope: result.conflictingScope,
+            userId: result.conflictingUser,
+          })
+        : null;
+    if (guardedConflict) {
+      return makeNeighborConflictResponse([guardedConflict]);
+    }
+
+    if (!result.success) {
+      const reason =
+        result.reason === 'FILE_CONFLICT' &&
+        isNonEmptyString(result.conflictingFile) &&
+        isNonEmptyString(result.conflictingUser)
+          ? `${result.reason}: ${result.conflictingFile} locked by ${result.conflictingUser}${
+              result.conflictingScope && result.conflictingScope !== result.conflictingFile
+                ? ` via ${result.conflictingScope}`
+                : ''
+            }. No transitions were applied.`
+          : result.reason || 'Failed to update locks';
+
+      return NextResponse.json({
+        success: false,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'SWITCH_TASK',
+          command: null,
+          reason,
+        },
+      });
+    }
+
+    // One event per transition, all sharing the batch timestamp and message, written in one LPUSH.
+    const activityTransitions = [
+      ...result.locks.map((lock) => ({ filePath: lock.file_path, status: lock.status })),
+      ...result.released.map((filePath) => ({ filePath, status: 'OPEN' as const })),
+    ];
+    try {
+      await publishActivityEvents({
+        repoUrl: normalizedRepoUrl,
+        branch: normalizedBranch,
+        transitions: activityTransitions,
+        userId,
+        userName,
+        message,
+        timestamp: eventTimestamp,
+      });
+    } catch (activityError) {
+      console.error('update_locks activity publish failed:', activityError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      locks: result.locks,
+      released: result.released,
+      lock_ttl_ms: clampLockTtl(ttlMs),
+      ...(neighborConflicts.length > 0
+        ? {
+            neighbor_conflicts: neighborConflicts,
+            warnings: neighborConflicts.map((conflict) => `NEIGHBOR_WRITING: ${describeNeighborConflict(conflict)}`),
+          }
+        : {}),
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'PROCEED',
+        command: null,
+        reason: 'Lock transitions applied',
+      },
+    });
+  } catch (error) {
+    if (isGitHubQuotaError(error)) {
+      const retryAtMs = getGitHubQuotaResetMs(error);
+      return NextResponse.json(
+        {
+          error: 'GitHub API rate limit exceeded',
+          details: getGitHubQuotaErrorMessage(error),
+          retry_after_ms: retryAtMs ?? undefined,
+        },
+        { status: 429 },
+      );
+    }
+
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    console.error('update_locks error:', error);
+    return NextResponse.json({ error: 'Internal server error', details }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import React, { ChangeEvent, useRef, useState } from 'react';
 import { Download, FileJson, Moon, RefreshCw, RotateCcw, Settings2, Sun, Upload, X } from 'lucide-react';
+import AgentTokensSection from './AgentTokensSection';
 
 const QUICK_INTERVALS = [10, 30, 60, 120];
 
@@ -248,6 +249,8 @@ export default function AdminPanel({
                         />
                     </section>
 
+                    <AgentTokensSection isDark={isDark} />
+
                     <section>
                         <h3 className={`flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.16em] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
                             <FileJson className="h-3.5 w-3.5" />
@@ -0,0 +1,125 @@
+import React, { FormEvent, useState } from 'react';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { useAgentTokens } from '../hooks/useAgentTokens';
+
+interface AgentTokensSectionProps {
+    isDark: boolean;
+}
+
+function formatTimestamp(value: number | null): string {
+    return value ? new Date(value).toLocaleString() : 'never';
+}
+
+export default function AgentTokensSection({ isDark }: AgentTokensSectionProps) {
+    const { tokens, ownerLogin, loading, error, createToken, revokeToken } = useAgentTokens(true);
+    const [agentName, setAgentName] = useState('');
+    const [createdToken, setCreatedToken] = useState<string | null>(null);
+    const [feedback, setFeedback] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const suffix = ownerLogin ? `-${ownerLogin.toLowerCase()}` : '';
+
+    const onCreate = async (event: FormEvent) => {
+        event.preventDefault();
+        if (!agentName.trim()) {
+            return;
+        }
+
+        setBusy(true);
+        setFeedback(null);
+        setCreatedToken(null);
+        const result = await createToken(agentName.trim());
+        setBusy(false);
+
+        if (result.error) {
+            setFeedback(result.error);
+            return;
+        }
+
+        setAgentName('');
+        setCreatedToken(result.token ?? null);
+    };
+
+    const onRevoke = async (tokenId: string, name: string) => {
+        setBusy(true);
+        const revokeError = await revokeToken(tokenId);
+        setBusy(false);
+        setFeedback(revokeError ?? `Revoked token for ${name}.`);
+    };
+
+    return (
+        <section>
+            <h3 className={`flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.16em] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                <KeyRound className="h-3.5 w-3.5" />
+                Agent Tokens
+            </h3>
+            <p className={`mt-1 text-xs ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                Agents authenticate with <code>Authorization: Bearer &lt;token&gt;</code>. Names must end in{' '}
+                <code>{suffix || '-<your github login>'}</code>.
+            </p>
+
+            {error && (
+                <p className={`mt-2 rounded-lg border px-2.5 py-1.5 text-[11px] ${isDark ? 'border-zinc-700 bg-zinc-900 text-zinc-300' : 'border-zinc-200 bg-zinc-50 text-zinc-600'}`}>
+                    {error}
+                </p>
+            )}
+
+            {!error && (
+                <form onSubmit={onCreate} className="mt-2 flex items-center gap-2">
+                    <input
+                        value={agentName}
+                        onChange={(event) => setAgentName(event.target.value)}
+                        placeholder={`gpt5-orchid${suffix}`}
+                        className={`min-w-0 flex-1 border rounded-lg px-3 py-1.5 text-xs outline-none transition-colors ${isDark ? 'border-zinc-700 bg-zinc-800 text-zinc-100 placeholder:text-zinc-500 focus:border-zinc-500' : 'border-zinc-200 bg-white text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500'}`}
+                    />
+                    <button
+                        type="submit"
+                        disabled={busy || loading || !agentName.trim()}
+                        className={`inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs font-semibold transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${isDark ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-200 hover:bg-emerald-500/20' : 'border-emerald-300 bg-emerald-50 text-emerald-700 hover:bg-emerald-100'}`}
+                    >
+                        Create
+                    </button>
+                </form>
+            )}
+
+            {createdToken && (
+                <div className={`mt-2 rounded-lg border px-2.5 py-1.5 text-[11px] ${isDark ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-100' : 'border-emerald-300 bg-emerald-50 text-emerald-800'}`}>
+                    <p className="font-semibold">Copy this token now. It will not be shown again.</p>
+                    <code className="mt-1 block break-all select-all">{createdToken}</code>
+                </div>
+            )}
+
+            {feedback && (
+                <p className={`mt-2 rounded-lg border px-2.5 py-1.5 text-[11px] ${isDark ? 'border-zinc-700 bg-zinc-900 text-zinc-300' : 'border-zinc-200 bg-zinc-50 text-zinc-600'}`}>
+                    {feedback}
+                </p>
+            )}
+
+            {tokens.length > 0 && (
+                <ul className="mt-2 space-y-1.5">
+                    {tokens.map((token) => (
+                        <li
+                            key={token.id}
+                            className={`flex items-center justify-between gap-2 rounded-lg border px-2.5 py-1.5 text-xs ${isDark ? 'border-zinc-700 bg-zinc-900' : 'border-zinc-200 bg-zinc-50'}`}
+                        >
+                            <div className="min-w-0">
+                                <p className="truncate font-semibold">{token.agent_name}</p>
+                                <p className={`text-[11px] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                                    Created {formatTimestamp(token.created_at)} · last used {formatTimestamp(token.last_used_at)}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => onRevoke(token.id, token.agent_name)}
+                                disabled={busy}
+                                className={`rounded-md p-1 transition-colors disabled:opacity-60 ${isDark ? 'text-rose-300 hover:bg-rose-500/20' : 'text-rose-600 hover:bg-rose-50'}`}
+                                aria-label={`Revoke token for ${token.agent_name}`}
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
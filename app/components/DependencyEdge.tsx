@@ -1,6 +1,15 @@
 import React, { memo, useCallback, useMemo } from 'react';
 import { BaseEdge, EdgeProps, getBezierPath, useStore } from 'reactflow';
 import { getEdgeParams } from '../utils/graphUtils';
+import type { GraphEdgeType } from '../hooks/useGraphData';
+
+// Solid for runtime imports; type-only edges are faint dots, dynamic imports dashed, re-exports dash-dot.
+const EDGE_CLASS_STYLES: Record<GraphEdgeType, { dasharray?: string; widthScale: number; opacityScale: number }> = {
+    runtime: { widthScale: 1, opacityScale: 1 },
+    'type-only': { dasharray: '1 4', widthScale: 0.8, opacityScale: 0.55 },
+    dynamic: { dasharray: '7 4', widthScale: 1, opacityScale: 0.85 },
+    're-export': { dasharray: '10 3 2 3', widthScale: 1.1, opacityScale: 1 },
+};
 
 const DependencyEdge = ({
     sourceX,
@@ -34,8 +43,10 @@ const DependencyEdge = ({
     });
 
     const isNew = data?.isNew;
+    const edgeClass = EDGE_CLASS_STYLES[data?.edgeType as GraphEdgeType] ?? EDGE_CLASS_STYLES.runtime;
     const strokeColor = normalizeStroke(style.stroke);
-    const baseWidth = typeof style.strokeWidth === 'number' ? style.strokeWidth : 1.2;
+    const baseWidth = (typeof style.strokeWidth === 'number' ? style.strokeWidth : 1.2) * edgeClass.widthScale;
+    const baseOpacity = typeof style.opacity === 'number' ? style.opacity : 1;
     const flowHighlight = useMemo(() => {
         const width = Math.max(1, baseWidth * 0.72);
         const opacity = isNew ? 0.55 : 0.32;
@@ -60,7 +71,8 @@ const DependencyEdge = ({
                     ...style,
                     stroke: strokeColor,
                     strokeWidth: isNew ? Math.max(2, baseWidth) : baseWidth,
-                    strokeDasharray: isNew ? '6 4' : undefined,
+                    strokeDasharray: isNew ? '6 4' : edgeClass.dasharray,
+                    opacity: baseOpacity * edgeClass.opacityScale,
                     filter: 'none',
                     transition: 'stroke 1.8s ease-out, stroke-width 1.8s ease-out, filter 1.8s ease-out',
                 }}
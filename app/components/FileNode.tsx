@@ -8,6 +8,7 @@ interface FileNodeProps {
         lockStatus?: 'READING' | 'WRITING';
         lockUserId?: string;
         lockUserName?: string;
+        lockHolderCount?: number;
         lockColor?: string;
         isUpdated?: boolean;
         isSearchMatch?: boolean;
@@ -16,13 +17,15 @@ interface FileNodeProps {
 }
 
 const FileNode = ({ data }: FileNodeProps) => {
-    const { fileName, lockStatus, lockUserName, lockColor, isUpdated, isSearchMatch, path, isDark } = data;
+    const { fileName, lockStatus, lockUserName, lockHolderCount, lockColor, isUpdated, isSearchMatch, path, isDark } = data;
 
     const isTaken = !!lockStatus;
     const resolvedPath = path ?? fileName;
     const displayName = getDisplayFileName(resolvedPath);
     const folderPath = getFolderPath(resolvedPath);
     const folderLabel = folderPath || '(repo root)';
+    const extraHolders = Math.max(0, (lockHolderCount ?? 0) - 1);
+    const holderLabel = `${lockUserName || 'Unknown user'}${extraHolders > 0 ? ` +${extraHolders}` : ''}`;
 
     const accentColor = lockColor ?? (isDark ? '#71717a' : '#a1a1aa');
     const borderColor = isTaken ? accentColor : isDark ? '#71717a' : '#a1a1aa';
@@ -100,9 +103,9 @@ const FileNode = ({ data }: FileNodeProps) => {
                         </span>
                         <span
                             className={`truncate text-[9px] ${isDark ? 'text-zinc-300' : 'text-zinc-700'}`}
-                            title={lockUserName || 'Unknown user'}
+                            title={holderLabel}
                         >
-                            {lockUserName || 'Unknown user'}
+                            {holderLabel}
                         </span>
                     </div>
                 )}
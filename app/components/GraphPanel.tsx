@@ -14,7 +14,7 @@ import ReactFlow, {
 import 'reactflow/dist/style.css';
 import { Search, X } from 'lucide-react';
 
-import { DependencyGraph, LockEntry } from '../hooks/useGraphData';
+import { DependencyGraph, LockEntry, getLockHolders } from '../hooks/useGraphData';
 import FileNode from './FileNode';
 import DependencyEdge from './DependencyEdge';
 import ControlDock from './ControlDock';
@@ -344,7 +344,7 @@ export default function GraphPanel({
 
         const activityCutoff = nowMs - ACTIVE_AGENT_TTL_MS;
         const grouped = new Map<string, { name: string; lockCount: number }>();
-        for (const lock of Object.values(graph.locks)) {
+        for (const lock of Object.values(graph.locks).flatMap(getLockHolders)) {
             if (lock.timestamp < activityCutoff) {
                 continue;
             }
@@ -388,6 +388,7 @@ export default function GraphPanel({
                     lockStatus: lock?.status,
                     lockUserId: lock?.user_id,
                     lockUserName: lock?.user_name,
+                    lockHolderCount: lock ? getLockHolders(lock).length : 0,
                     lockColor: lock ? getLockStatusColor(lock.status) : undefined,
                     isUpdated,
                     isSearchMatch: searchMatchedNodeId === node.id,
@@ -449,6 +450,7 @@ export default function GraphPanel({
                 },
                 data: {
                     isNew,
+                    edgeType: edge.type,
                 },
             };
         });
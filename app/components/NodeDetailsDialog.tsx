@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
-import { ArrowUpRight, Copy, FileCode2, GitFork, Lock, Timer, Users, X } from 'lucide-react';
-import { GraphNode, LockEntry } from '../hooks/useGraphData';
+import { ArrowUpRight, Copy, FileCode2, GitFork, Lock, Radar, Timer, Users, X } from 'lucide-react';
+import { GraphNode, LockEntry, getLockHolders } from '../hooks/useGraphData';
+import { useImpactAnalysis } from '../hooks/useImpactAnalysis';
 
 interface NodeDetailsDialogProps {
     isOpen: boolean;
@@ -27,6 +28,7 @@ export default function NodeDetailsDialog({
     isDark,
 }: NodeDetailsDialogProps) {
     const [copiedPath, setCopiedPath] = useState(false);
+    const impact = useImpactAnalysis(isOpen && node ? node.id : null, repoUrl, branch);
 
     if (!node) return null;
 
@@ -37,7 +39,10 @@ export default function NodeDetailsDialog({
         : (isDark ? 'text-zinc-300 bg-zinc-900 border-zinc-700' : 'text-zinc-600 bg-zinc-50 border-zinc-200');
     const expiresInSeconds = lock ? Math.max(0, Math.round((lock.expiry - Date.now()) / 1000)) : null;
     const githubFileUrl = toGitHubFileUrl(repoUrl, branch, node.id);
-    const statusLabel = lock ? `${lock.status}${lock.user_name ? ` · ${lock.user_name}` : ''}` : 'AVAILABLE';
+    const holders = lock ? getLockHolders(lock) : [];
+    const statusLabel = lock
+        ? `${lock.status}${lock.user_name ? ` · ${lock.user_name}` : ''}${holders.length > 1 ? ` +${holders.length - 1}` : ''}`
+        : 'AVAILABLE';
 
     const handleCopyPath = async () => {
         if (typeof navigator === 'undefined' || !navigator.clipboard) {
@@ -72,7 +77,7 @@ export default function NodeDetailsDialog({
                                         {statusLabel}
                                     </span>
                                     <span className={`text-[11px] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
-                                        {node.language || 'text'} · {node.size ? `${(node.size / 1024).toFixed(1)} KB` : 'Unknown size'}
+                                        {node.package ? `${node.package} · ` : ''}{node.language || 'text'} · {node.size ? `${(node.size / 1024).toFixed(1)} KB` : 'Unknown size'}
                                     </span>
                                 </div>
                             </div>
@@ -93,8 +98,18 @@ export default function NodeDetailsDialog({
                                 <div className="absolute bottom-0 left-0 top-0 w-1" style={{ backgroundColor: neutralTone(lock.user_id) }} />
                                 <div className={`flex items-center gap-2 text-sm font-semibold ${isDark ? 'text-zinc-100' : 'text-zinc-700'}`}>
                                     <Users className="h-4 w-4" />
-                                    <span>Locked by {lock.user_name}</span>
+                                    <span>Locked by {holders.map((holder) => holder.user_name).join(', ')}</span>
                                 </div>
+                                {holders.length > 1 && (
+                                    <ul className={`mt-2 space-y-1 text-xs ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                                        {holders.map((holder) => (
+                                            <li key={holder.user_id} className="flex items-center justify-between gap-2">
+                                                <span className="truncate" title={holder.message}>{holder.user_name}</span>
+                                                <span className="font-semibold">{holder.status}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
                                 <p className={`mt-1 text-sm italic ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>
                                     "{lock.message || 'No intent message set.'}"
                                 </p>
@@ -149,6 +164,38 @@ export default function NodeDetailsDialog({
                             </div>
                         </div>
 
+                        <div className={`rounded-xl border p-3 ${isDark ? 'border-zinc-700' : 'border-zinc-200'}`}>
+                            <h4 className={`mb-2 flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-[0.12em] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                                <Radar className="h-3.5 w-3.5" />
+                                Blast Radius ({impact.dependents.length}{impact.locked > 0 ? ` · ${impact.locked} locked` : ''})
+                            </h4>
+                            <ul className="custom-scrollbar max-h-44 space-y-1.5 overflow-y-auto pr-2">
+                                {impact.loading && <li className={`text-xs italic ${isDark ? 'text-zinc-500' : 'text-zinc-400'}`}>Analyzing…</li>}
+                                {!impact.loading && impact.error && <li className={`text-xs italic ${isDark ? 'text-zinc-500' : 'text-zinc-400'}`}>{impact.error}</li>}
+                                {!impact.loading && !impact.error && impact.dependents.length === 0 && <li className={`text-xs italic ${isDark ? 'text-zinc-500' : 'text-zinc-400'}`}>Nothing imports this file</li>}
+                                {impact.dependents.map((entry) => (
+                                    <li
+                                        key={entry.file_path}
+                                        className={`flex items-center justify-between gap-2 rounded-md border px-2 py-1.5 text-xs ${isDark ? 'border-zinc-700 bg-zinc-800 text-zinc-200' : 'border-zinc-200 bg-zinc-50 text-zinc-600'}`}
+                                        title={entry.via ? `${entry.file_path} imports ${entry.via}` : entry.file_path}
+                                    >
+                                        <span className="truncate">{entry.file_path}</span>
+                                        <span className="flex shrink-0 items-center gap-1.5">
+                                            {entry.lock && (
+                                                <span className={`inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-[10px] font-semibold ${isDark ? 'border-zinc-600 bg-zinc-700 text-zinc-100' : 'border-zinc-300 bg-zinc-200 text-zinc-800'}`}>
+                                                    <Lock className="h-3 w-3" />
+                                                    {entry.lock.status} · {entry.lock.holders.map((holder) => holder.user_name).join(', ')}
+                                                </span>
+                                            )}
+                                            <span className={`text-[10px] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                                                {entry.depth} hop{entry.depth === 1 ? '' : 's'}
+                                            </span>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+
                         <div className={`rounded-xl border p-3 ${isDark ? 'border-zinc-700 bg-zinc-900' : 'border-zinc-200 bg-white'}`}>
                             <h4 className={`mb-2 text-[11px] font-semibold uppercase tracking-[0.12em] ${isDark ? 'text-zinc-400' : 'text-zinc-500'}`}>
                                 Actions
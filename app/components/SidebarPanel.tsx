@@ -1,7 +1,7 @@
 import React, { UIEvent, useEffect, useMemo, useRef, useState } from 'react';
 import * as ScrollArea from '@radix-ui/react-scroll-area';
 import { Activity, Clock, User } from 'lucide-react';
-import { ActivityEvent, LockEntry } from '../hooks/useGraphData';
+import { ActivityEvent, LockEntry, getLockHolders } from '../hooks/useGraphData';
 
 interface SidebarPanelProps {
     activities: ActivityEvent[];
@@ -26,7 +26,7 @@ export default function SidebarPanel({ activities, locks, isDark }: SidebarPanel
         const developers = new Map<string, { name: string; lockCount: number; lastActive: number }>();
         const activityCutoff = nowMs - ACTIVE_AGENT_TTL_MS;
 
-        for (const lock of Object.values(locks)) {
+        for (const lock of Object.values(locks).flatMap(getLockHolders)) {
             if (lock.timestamp < activityCutoff) {
                 continue;
             }
@@ -285,6 +285,8 @@ function actionDescription(activity: ActivityEvent): string {
             return 'updated intent for';
         case 'lock_reassigned':
             return 'reassigned work on';
+        case 'lock_expired':
+            return 'let the lock lapse on';
         default:
             return 'touched';
     }
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface AgentToken {
+    id: string;
+    agent_name: string;
+    owner_login: string;
+    created_at: number;
+    last_used_at: number | null;
+}
+
+type TokenPayload = {
+    owner_login?: string;
+    tokens?: AgentToken[];
+    token?: string;
+    error?: string;
+    details?: string;
+};
+
+function describeError(payload: TokenPayload | null, fallback: string): string {
+    const message = payload?.error ?? fallback;
+    return payload?.details ? `${message}: ${payload.details}` : message;
+}
+
+export function useAgentTokens(enabled: boolean) {
+    const [tokens, setTokens] = useState<AgentToken[]>([]);
+    const [ownerLogin, setOwnerLogin] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await fetch('/api/agent_tokens', { cache: 'no-store' });
+            const payload = (await response.json().catch(() => null)) as TokenPayload | null;
+            if (!response.ok) {
+                setError(
+                    response.status === 401
+                        ? 'Sign in with GitHub to manage agent tokens.'
+                        : describeError(payload, `Failed to load tokens (${response.status})`),
+                );
+                setTokens([]);
+                return;
+            }
+
+            setError(null);
+            setOwnerLogin(payload?.owner_login ?? null);
+            setTokens(Array.isArray(payload?.tokens) ? payload.tokens : []);
+        } catch (fetchError) {
+            setError(fetchError instanceof Error ? fetchError.message : 'Failed to load tokens');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (enabled) {
+            void refresh();
+        }
+    }, [enabled, refresh]);
+
+    const createToken = useCallback(async (agentName: string): Promise<{ token?: string; error?: string }> => {
+        try {
+            const response = await fetch('/api/agent_tokens', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ agent_name: agentName }),
+            });
+            const payload = (await response.json().catch(() => null)) as TokenPayload | null;
+            if (!response.ok || !payload?.token) {
+                return { error: describeError(payload, `Failed to create token (${response.status})`) };
+            }
+
+            await refresh();
+            return { token: payload.token };
+        } catch (createError) {
+            return { error: createError instanceof Error ? createError.message : 'Failed to create token' };
+        }
+    }, [refresh]);
+
+    const revokeToken = useCallback(async (tokenId: string): Promise<string | null> => {
+        try {
+            const response = await fetch('/api/agent_tokens', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token_id: tokenId }),
+            });
+            const payload = (await response.json().catch(() => null)) as TokenPayload | null;
+            if (!response.ok) {
+                return describeError(payload, `Failed to revoke token (${response.status})`);
+            }
+
+            await refresh();
+            return null;
+        } catch (revokeError) {
+            return revokeError instanceof Error ? revokeError.message : 'Failed to revoke token';
+        }
+    }, [refresh]);
+
+    return { tokens, ownerLogin, loading, error, refresh, createToken, revokeToken };
+}
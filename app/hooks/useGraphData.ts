@@ -7,15 +7,18 @@ export interface GraphNode {
     type: 'file';
     size?: number;
     language?: string;
+    package?: string;
 }
 
+export type GraphEdgeType = 'runtime' | 'type-only' | 'dynamic' | 're-export';
+
 export interface GraphEdge {
     source: string;
     target: string;
-    type: 'import';
+    type: GraphEdgeType;
 }
 
-export interface LockEntry {
+export interface LockHolder {
     user_id: string;
     user_name: string;
     status: 'READING' | 'WRITING';
@@ -24,6 +27,10 @@ export interface LockEntry {
     expiry: number;
 }
 
+export interface LockEntry extends LockHolder {
+    holders?: LockHolder[];
+}
+
 export interface GraphActivityEvent {
     id: string;
     file_path: string;
@@ -32,6 +39,7 @@ export interface GraphActivityEvent {
     status: 'OPEN' | 'READING' | 'WRITING';
     message: string;
     timestamp: number;
+    event?: 'lock_expired';
 }
 
 export interface DependencyGraph {
@@ -49,7 +57,7 @@ export interface DependencyGraph {
 
 export type ActivityEvent = {
     id: string;
-    type: 'status_open' | 'status_reading' | 'status_writing' | 'lock_acquired' | 'lock_released' | 'lock_reassigned' | 'message_updated';
+    type: 'status_open' | 'status_reading' | 'status_writing' | 'lock_acquired' | 'lock_released' | 'lock_reassigned' | 'lock_expired' | 'message_updated';
     filePath: string;
     userId: string;
     userName: string;
@@ -504,7 +512,7 @@ function parseBackendActivityEvents(value: unknown): ActivityEvent[] | null {
 
         parsed.push({
             id: event.id,
-            type: activityTypeForStatus(event.status),
+            type: event.event === 'lock_expired' ? 'lock_expired' : activityTypeForStatus(event.status),
             filePath: event.file_path,
             userId: event.user_id,
             userName: event.user_name,
@@ -529,23 +537,17 @@ function parseLockEntries(value: unknown): Record<string, LockEntry> | null {
             continue;
         }
 
-        const lock = rawLock as Partial<LockEntry>;
-        if (
-            typeof filePath === 'string' &&
-            typeof lock.user_id === 'string' &&
-            typeof lock.user_name === 'string' &&
-            (lock.status === 'READING' || lock.status === 'WRITING') &&
-            typeof lock.message === 'string' &&
-            typeof lock.timestamp === 'number' &&
-            typeof lock.expiry === 'number'
-        ) {
+        const lock = parseLockHolder(rawLock);
+        if (typeof filePath === 'string' && lock) {
+            const rawHolders = (rawLock as Partial<LockEntry>).holders;
+            const holders = Array.isArray(rawHolders)
+                ? rawHolders
+                    .map((holder) => parseLockHolder(holder))
+                    .filter((holder): holder is LockHolder => holder !== null)
+                : [];
             parsed[filePath] = {
-                user_id: lock.user_id,
-                user_name: lock.user_name,
-                status: lock.status,
-                message: lock.message,
-                timestamp: lock.timestamp,
-                expiry: lock.expiry,
+                ...lock,
+                holders: holders.length > 0 ? holders : [lock],
             };
         }
     }
@@ -553,6 +555,37 @@ function parseLockEntries(value: unknown): Record<string, LockEntry> | null {
     return parsed;
 }
 
+function parseLockHolder(value: unknown): LockHolder | null {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+
+    const lock = value as Partial<LockHolder>;
+    if (
+        typeof lock.user_id !== 'string' ||
+        typeof lock.user_name !== 'string' ||
+        (lock.status !== 'READING' && lock.status !== 'WRITING') ||
+        typeof lock.message !== 'string' ||
+        typeof lock.timestamp !== 'number' ||
+        typeof lock.expiry !== 'number'
+    ) {
+        return null;
+    }
+
+    return {
+        user_id: lock.user_id,
+        user_name: lock.user_name,
+        status: lock.status,
+        message: lock.message,
+        timestamp: lock.timestamp,
+        expiry: lock.expiry,
+    };
+}
+
+export function getLockHolders(lock: LockEntry): LockHolder[] {
+    return lock.holders && lock.holders.length > 0 ? lock.holders : [lock];
+}
+
 function haveLocksChanged(
     current: Record<string, LockEntry>,
     next: Record<string, LockEntry>,
@@ -575,7 +608,8 @@ function haveLocksChanged(
             currentLock.status !== nextLock.status ||
             currentLock.message !== nextLock.message ||
             currentLock.timestamp !== nextLock.timestamp ||
-            currentLock.expiry !== nextLock.expiry
+            currentLock.expiry !== nextLock.expiry ||
+            getLockHolders(currentLock).length !== getLockHolders(nextLock).length
         ) {
             return true;
         }
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+
+export interface ImpactedFile {
+    file_path: string;
+    depth: number;
+    via: string | null;
+    lock: {
+        status: 'READING' | 'WRITING';
+        covered_by?: string;
+        holders: Array<{ user_id: string; user_name: string; status: 'READING' | 'WRITING'; message: string }>;
+    } | null;
+}
+
+type ImpactPayload = {
+    available?: boolean;
+    reason?: string;
+    dependents?: ImpactedFile[];
+    locked?: number;
+    error?: string;
+    details?: string;
+};
+
+export interface ImpactState {
+    dependents: ImpactedFile[];
+    locked: number;
+    loading: boolean;
+    error: string | null;
+}
+
+const EMPTY_IMPACT: ImpactState = { dependents: [], locked: 0, loading: false, error: null };
+
+// Fetches the transitive blast radius of filePath; pass null to skip (e.g. while the dialog is closed).
+export function useImpactAnalysis(filePath: string | null, repoUrl: string, branch: string): ImpactState {
+    const [state, setState] = useState<ImpactState>(EMPTY_IMPACT);
+
+    useEffect(() => {
+        if (!filePath || !repoUrl) {
+            setState(EMPTY_IMPACT);
+            return;
+        }
+
+        let cancelled = false;
+        setState({ ...EMPTY_IMPACT, loading: true });
+
+        const query = new URLSearchParams({ repo_url: repoUrl, branch: branch || 'main', file_paths: filePath });
+        fetch(`/api/impact?${query.toString()}`, { cache: 'no-store' })
+            .then(async (response) => {
+                const payload = (await response.json().catch(() => null)) as ImpactPayload | null;
+                if (cancelled) {
+                    return;
+                }
+                if (!response.ok) {
+                    const message = payload?.error ?? `Failed to load impact (${response.status})`;
+                    setState({ ...EMPTY_IMPACT, error: payload?.details ? `${message}: ${payload.details}` : message });
+                    return;
+                }
+                if (!payload?.available) {
+                    setState({ ...EMPTY_IMPACT, error: payload?.reason ?? 'Impact analysis unavailable' });
+                    return;
+                }
+                setState({
+                    dependents: Array.isArray(payload.dependents) ? payload.dependents : [],
+                    locked: typeof payload.locked === 'number' ? payload.locked : 0,
+                    loading: false,
+                    error: null,
+                });
+            })
+            .catch((fetchError) => {
+                if (!cancelled) {
+                    setState({ ...EMPTY_IMPACT, error: fetchError instanceof Error ? fetchError.message : 'Failed to load impact' });
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [filePath, repoUrl, branch]);
+
+    return state;
+}
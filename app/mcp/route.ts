@@ -1,12 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAgentRequest } from '@/lib/agent-tokens';
+import { GraphService } from '@/lib/graph-service';
+import { DEFAULT_GRAPH_QUERY_DEPTH, MAX_GRAPH_QUERY_DEPTH, queryDependencyGraph } from '@/lib/graph-query';
+import { analyzeImpact, parseImpactFilePaths } from '@/lib/impact';
+import { listActiveLocks, parseLockGrouping, parseLockStatusFilter } from '@/lib/lock-listing';
+import { expireLapsedLocks, formatLockWaitState, getLockWaitState } from '@/lib/locks';
+import {
+  RELAY_RESOURCE_TEMPLATES,
+  ResourceReads,
+  getResourceFingerprint,
+  listRelayResources,
+  parseRelayResourceUri,
+  readRelayResource,
+  type RelayResourceRef,
+} from '@/lib/mcp-resources';
+import {
+  PROMPT_DEFINITIONS,
+  isCoordinationPromptName,
+  parsePromptFilePaths,
+  renderCoordinationPrompt,
+} from '@/lib/mcp-prompts';
+import {
+  addMcpSubscription,
+  createMcpSession,
+  deleteMcpSession,
+  getMcpSession,
+  getMcpSubscriptions,
+  recordMcpFingerprints,
+  removeMcpSubscription,
+  touchMcpSession,
+  type McpSession,
+} from '@/lib/mcp-sessions';
+import { authorizeRepoAccess } from '@/lib/repo-access';
+import { getDefaultBranchCached, normalizeRepoUrl } from '@/lib/repo-providers';
+import { isRepositoryRegistered, listRegisteredRepositories } from '@/lib/repo-registry';
+import { normalizeFilePaths, parsePositiveInteger } from '@/lib/validation';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
+// Seconds; must outlast wait_for_lock (MAX_WAIT_TIMEOUT_MS) and the notification stream.
+export const maxDuration = 60;
 
 const MCP_PROTOCOL_VERSION = '2024-11-05';
-const DEFAULT_MCP_BRANCH = 'master';
-const FALLBACK_MCP_BRANCH = 'main';
-const STANDARDIZED_REPO_URL = 'https://github.com/luljaj/RelayDevFest';
+const DEFAULT_WAIT_TIMEOUT_MS = 20_000;
+const MAX_WAIT_TIMEOUT_MS = 55_000;
+const WAIT_POLL_INTERVAL_MS = 500;
+const MAX_WAIT_POLL_INTERVAL_MS = 4_000;
+const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+// Streams end before the platform limit; clients reconnect with the same session and lose nothing
+// because the last notified fingerprints live in KV.
+const MCP_STREAM_MAX_DURATION_MS = 50_000;
+const MCP_STREAM_POLL_INTERVAL_MS = 2_000;
+const MCP_STREAM_KEEPALIVE_MS = 15_000;
+const RESOURCE_URI_HINT = 'relay://{owner}/{repo}/{branch}/{locks|graph|activity}[?paths=a.ts,b.ts]';
 const MCP_SERVER_INFO = {
   name: 'relay-mcp',
   version: '1.0.0',
@@ -48,31 +94,37 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
     inputSchema: {
       type: 'object',
       additionalProperties: false,
-      required: ['username', 'file_paths', 'agent_head', 'repo_url'],
+      required: ['file_paths', 'agent_head', 'repo_url'],
       properties: {
         username: {
           type: 'string',
           description:
-            'Stable agent identity used for lock attribution. Choose once as "(model)-(random word)-(agent owner github username)" (e.g., "gpt5-orchid-lukauljaj") and keep it unchanged across calls.',
+            'Optional. Locks are attributed to the agent bound to the bearer token; when given, this must match that agent name.',
           pattern: '^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$',
         },
         file_paths: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of file paths (e.g., ["src/auth.ts", "src/db.ts"])',
+          description:
+            'List of file paths, exported symbols as "path#Symbol", directory prefixes or globs (e.g., ["src/auth.ts", "lib/parser.ts#parseImports", "app/components/", "app/api/**"])',
         },
         agent_head: {
           type: 'string',
           description: 'Current git HEAD SHA',
         },
+        status: {
+          type: 'string',
+          enum: ['READING', 'WRITING'],
+          description:
+            'Lock status you intend to take - "READING" (default) only conflicts with writers, "WRITING" also conflicts with readers',
+        },
         repo_url: {
           type: 'string',
-          description: 'Repository URL',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
         },
         branch: {
           type: 'string',
-          description: `Git branch name (default: "${DEFAULT_MCP_BRANCH}")`,
-          default: DEFAULT_MCP_BRANCH,
+          description: "Git branch name (default: the repository's default branch)",
         },
       },
     },
@@ -87,18 +139,19 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
     inputSchema: {
       type: 'object',
       additionalProperties: false,
-      required: ['username', 'file_paths', 'status', 'message', 'agent_head', 'repo_url'],
+      required: ['file_paths', 'status', 'message', 'agent_head', 'repo_url'],
       properties: {
         username: {
           type: 'string',
           description:
-            'Stable agent identity used for lock attribution. Choose once as "(model)-(random word)-(agent owner github username)" (e.g., "gpt5-orchid-lukauljaj") and keep it unchanged across calls.',
+            'Optional. Locks are attributed to the agent bound to the bearer token; when given, this must match that agent name.',
           pattern: '^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$',
         },
         file_paths: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of file paths (e.g., ["src/auth.ts"])',
+          description:
+            'File paths, exported symbols as "path#Symbol", directory prefixes ending in "/" or glob patterns to lock (e.g., ["src/auth.ts", "lib/parser.ts#parseImports", "app/api/**"]). Symbol locks only conflict with the same symbol, its file and the files that use it.',
         },
         status: {
           type: 'string',
@@ -114,18 +167,276 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
         },
         repo_url: {
           type: 'string',
-          description: 'Repository URL',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
         },
         branch: {
           type: 'string',
-          description: `Git branch name (default: "${DEFAULT_MCP_BRANCH}")`,
-          default: DEFAULT_MCP_BRANCH,
+          description: "Git branch name (default: the repository's default branch)",
         },
         new_repo_head: {
           anyOf: [{ type: 'string' }, { type: 'null' }],
           description: 'New HEAD SHA after push (required for OPEN status)',
           default: null,
         },
+        ttl_ms: {
+          type: 'integer',
+          description: 'Requested lock lifetime in milliseconds (default 300000, clamped to the server maximum)',
+        },
+        wait: {
+          type: 'boolean',
+          description: 'On conflict, join the FIFO wait queue instead of switching task; then call wait_for_lock',
+          default: false,
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'update_locks',
+    description:
+      'Apply several lock transitions atomically (e.g. downgrade a.ts to READING, release b.ts, lock c.ts for WRITING). Either every transition applies or none does.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['transitions', 'message', 'repo_url'],
+      properties: {
+        username: {
+          type: 'string',
+          description:
+            'Optional. Locks are attributed to the agent bound to the bearer token; when given, this must match that agent name.',
+          pattern: '^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$',
+        },
+        transitions: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['file_path', 'status'],
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'File path, directory prefix or glob; each scope may appear once',
+              },
+              status: {
+                type: 'string',
+                enum: ['READING', 'WRITING', 'OPEN'],
+                description: 'New status for this scope; OPEN releases it',
+              },
+            },
+          },
+        },
+        message: {
+          type: 'string',
+          description: 'What you are doing; recorded on every transition',
+        },
+        agent_head: {
+          type: 'string',
+          description: 'Current git HEAD SHA (required when any transition is WRITING)',
+        },
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
+        ttl_ms: {
+          type: 'integer',
+          description: 'Lock TTL in milliseconds for the claimed scopes (clamped to 30s-30min, default 5min)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'renew_locks',
+    description:
+      'Extend the expiry of locks you already hold without changing their status. Call periodically during long edits.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['file_paths', 'repo_url'],
+      properties: {
+        username: {
+          type: 'string',
+          description:
+            'Optional. Locks are attributed to the agent bound to the bearer token; when given, this must match that agent name.',
+          pattern: '^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$',
+        },
+        file_paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Locked file paths to renew (e.g., ["src/auth.ts"])',
+        },
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
+        ttl_ms: {
+          type: 'integer',
+          description: 'Requested lock lifetime in milliseconds (default 300000, clamped to the server maximum)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'wait_for_lock',
+    description:
+      'Block until locks you queued for with post_status(wait=true) are handed to you, or until the timeout passes.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['file_paths', 'repo_url'],
+      properties: {
+        username: {
+          type: 'string',
+          description:
+            'Optional. Locks are attributed to the agent bound to the bearer token; when given, this must match that agent name.',
+          pattern: '^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$',
+        },
+        file_paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'The file paths you queued for (e.g., ["src/auth.ts"])',
+        },
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
+        timeout_ms: {
+          type: 'integer',
+          description: `How long to wait in milliseconds (default ${DEFAULT_WAIT_TIMEOUT_MS}, max ${MAX_WAIT_TIMEOUT_MS})`,
+          default: DEFAULT_WAIT_TIMEOUT_MS,
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'query_graph',
+    description:
+      "Query the dependency graph: a file's direct imports and importers, its transitive dependents, and optionally the shortest import path to another file. Use it to plan which files a change ripples into before requesting locks.",
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['file_path', 'repo_url'],
+      properties: {
+        file_path: {
+          type: 'string',
+          description: 'Repository-relative file path to query (e.g., "lib/locks.ts")',
+        },
+        target_path: {
+          type: 'string',
+          description: 'Optional second file; the response then includes the shortest import path between the two',
+        },
+        depth: {
+          type: 'integer',
+          description: `How many hops of transitive dependents to return (default ${DEFAULT_GRAPH_QUERY_DEPTH}, max ${MAX_GRAPH_QUERY_DEPTH})`,
+          default: DEFAULT_GRAPH_QUERY_DEPTH,
+        },
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'list_locks',
+    description:
+      'List every active lock on the repo/branch with its holder and their latest activity message. Use it to pick untouched work before calling check_status.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['repo_url'],
+      properties: {
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
+        path_prefix: {
+          type: 'string',
+          description: 'Only locks on or overlapping this path prefix (e.g., "app/api/")',
+        },
+        status: {
+          type: 'string',
+          enum: ['READING', 'WRITING'],
+          description: 'Only holders with this status',
+        },
+        group_by: {
+          type: 'string',
+          enum: ['file', 'agent'],
+          description: 'With "agent", also return one entry per agent listing the files it holds (default "file")',
+          default: 'file',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  {
+    name: 'analyze_impact',
+    description:
+      'Blast radius of a change: every file that transitively imports any of the given files, with its distance from them and current lock state. Reads the cached graph only.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['file_paths', 'repo_url'],
+      properties: {
+        file_paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Files (or directory/glob scopes) you plan to change (e.g., ["lib/locks.ts"])',
+        },
+        depth: {
+          type: 'integer',
+          description: 'Optional maximum number of hops to follow (default: the full transitive set)',
+        },
+        repo_url: {
+          type: 'string',
+          description: 'GitHub, GitLab or Bitbucket repository URL; must be registered with this Relay deployment',
+        },
+        branch: {
+          type: 'string',
+          description: "Git branch name (default: the repository's default branch)",
+        },
       },
     },
     outputSchema: {
@@ -151,16 +462,62 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  return new NextResponse(':\n\n', {
+  const sessionId = request.headers.get(MCP_SESSION_HEADER);
+  if (!sessionId) {
+    return NextResponse.json(
+      {
+        jsonrpc: '2.0',
+        id: 'server-error',
+        error: {
+          code: -32600,
+          message: `Bad Request: ${MCP_SESSION_HEADER} header is required to open a notification stream`,
+        },
+      },
+      { status: 400 },
+    );
+  }
+
+  const session = await getMcpSession(sessionId);
+  if (!session) {
+    return makeSessionNotFoundResponse('server-error');
+  }
+
+  const denied = await checkSessionAgent(request, session, 'server-error');
+  if (denied) {
+    return denied;
+  }
+
+  await touchMcpSession(session);
+  return new NextResponse(openNotificationStream(request, session), {
     status: 200,
     headers: {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache, no-transform',
       Connection: 'keep-alive',
+      [MCP_SESSION_HEADER]: session.id,
     },
   });
 }
 
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.headers.get(MCP_SESSION_HEADER);
+  const session = sessionId ? await getMcpSession(sessionId) : null;
+  if (!session) {
+    return makeSessionNotFoundResponse(null);
+  }
+
+  const denied = await checkSessionAgent(request, session, null);
+  if (denied) {
+    return denied;
+  }
+
+  if (!(await deleteMcpSession(session.id))) {
+    return makeSessionNotFoundResponse(null);
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
 export async function POST(request: NextRequest) {
   const accept = request.headers.get('accept') || '';
   if (!accept.includes('application/json') || !accept.includes('text/event-stream')) {
@@ -188,6 +545,15 @@ export async function POST(request: NextRequest) {
   const method = payload.method;
   const params = isRecord(payload.params) ? payload.params : {};
 
+  const sessionId = request.headers.get(MCP_SESSION_HEADER);
+  let session: McpSession | null = null;
+  if (sessionId && method !== 'initialize') {
+    session = await getMcpSession(sessionId);
+    if (!session) {
+      return makeSessionNotFoundResponse(id);
+    }
+  }
+
   if (method.startsWith('notifications/')) {
     return new NextResponse(null, { status: 202 });
   }
@@ -197,12 +563,23 @@ export async function POST(request: NextRequest) {
   }
 
   if (method === 'initialize') {
+    let newSessionId: string | null = null;
+    try {
+      // Sessions are bound to the initializing agent, so an unauthenticated client gets none.
+      const agent = await authenticateAgentRequest(request);
+      newSessionId = agent ? (await createMcpSession(agent.agentName)).id : null;
+    } catch (error) {
+      // Without a session the client can still call tools; it just cannot subscribe.
+      console.error('MCP session creation failed:', error);
+    }
+
     return sseJsonRpcResponse(
       makeJsonRpcResult(id, {
         protocolVersion: MCP_PROTOCOL_VERSION,
         capabilities: MCP_CAPABILITIES,
         serverInfo: MCP_SERVER_INFO,
       }),
+      newSessionId ? { [MCP_SESSION_HEADER]: newSessionId } : undefined,
     );
   }
 
@@ -214,7 +591,146 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  if (method === 'prompts/list') {
+    return sseJsonRpcResponse(makeJsonRpcResult(id, { prompts: PROMPT_DEFINITIONS }));
+  }
+
+  if (method === 'prompts/get') {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return makeUnauthorizedResponse(id);
+    }
+
+    const name = typeof params.name === 'string' ? params.name : '';
+    if (!isCoordinationPromptName(name)) {
+      return sseJsonRpcResponse(makeJsonRpcError(id, -32602, `Unknown prompt '${name}'`));
+    }
+
+    const promptArgs = isRecord(params.arguments) ? params.arguments : {};
+    const filePaths = parsePromptFilePaths(promptArgs.file_paths);
+    const missing = filePaths.length === 0 ? 'file_paths' : missingRequiredArg(promptArgs, ['repo_url', 'agent_head']);
+    if (missing) {
+      return sseJsonRpcResponse(
+        makeJsonRpcError(id, -32602, `Missing required argument '${missing}' for prompt '${name}'`),
+      );
+    }
+
+    const branch = typeof promptArgs.branch === 'string' && promptArgs.branch.trim() ? promptArgs.branch.trim() : null;
+    const checkStatus = await callCheckStatusTool(
+      {
+        file_paths: filePaths,
+        agent_head: promptArgs.agent_head,
+        repo_url: promptArgs.repo_url,
+        ...(branch ? { branch } : {}),
+      },
+      request,
+    );
+
+    return sseJsonRpcResponse(
+      makeJsonRpcResult(
+        id,
+        renderCoordinationPrompt(name, {
+          agentName: agent.agentName,
+          repoUrl: String(promptArgs.repo_url),
+          branch,
+          filePaths,
+          checkStatus,
+        }),
+      ),
+    );
+  }
+
+  if (method === 'resources/templates/list') {
+    return sseJsonRpcResponse(makeJsonRpcResult(id, { resourceTemplates: RELAY_RESOURCE_TEMPLATES }));
+  }
+
+  if (method === 'resources/list') {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return makeUnauthorizedResponse(id);
+    }
+
+    const principal = { login: agent.ownerLogin, agentName: agent.agentName };
+    const repos = await listRegisteredRepositories();
+    const targets = await Promise.all(
+      repos.map(async ({ repo_url: repoUrl }) => {
+        try {
+          const access = await authorizeRepoAccess(repoUrl, principal, 'viewer');
+          if (!access.allowed) {
+            return null;
+          }
+          return { repoUrl, branch: await getDefaultBranchCached(repoUrl) };
+        } catch (error) {
+          console.error(`MCP resources/list skipped ${repoUrl}:`, error);
+          return null;
+        }
+      }),
+    );
+
+    return sseJsonRpcResponse(
+      makeJsonRpcResult(id, {
+        resources: listRelayResources(targets.filter((target): target is NonNullable<typeof target> => target !== null)),
+      }),
+    );
+  }
+
+  if (method === 'resources/read') {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return makeUnauthorizedResponse(id);
+    }
+
+    const uri = typeof params.uri === 'string' ? params.uri.trim() : '';
+    const resolved = await resolveAuthorizedResource(id, uri, agent);
+    if (resolved instanceof NextResponse) {
+      return resolved;
+    }
+
+    try {
+      return sseJsonRpcResponse(makeJsonRpcResult(id, { contents: [await readRelayResource(uri, resolved)] }));
+    } catch (error) {
+      const details = error instanceof Error ? error.message : 'Unknown error';
+      return sseJsonRpcResponse(makeJsonRpcError(id, -32603, `Failed to read ${uri}: ${details}`));
+    }
+  }
+
+  if (method === 'resources/subscribe' || method === 'resources/unsubscribe') {
+    if (!session) {
+      return sseJsonRpcResponse(
+        makeJsonRpcError(id, -32600, `${method} requires an ${MCP_SESSION_HEADER} from initialize`),
+      );
+    }
+
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return makeUnauthorizedResponse(id);
+    }
+    if (agent.agentName !== session.agent_name) {
+      return makeSessionForbiddenResponse(id);
+    }
+
+    const uri = typeof params.uri === 'string' ? params.uri.trim() : '';
+    if (method === 'resources/unsubscribe') {
+      await removeMcpSubscription(session.id, uri);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, {}));
+    }
+
+    const resolved = await resolveAuthorizedResource(id, uri, agent);
+    if (resolved instanceof NextResponse) {
+      return resolved;
+    }
+
+    await addMcpSubscription(session.id, uri);
+    await touchMcpSession(session);
+    return sseJsonRpcResponse(makeJsonRpcResult(id, {}));
+  }
+
   if (method === 'tools/call') {
+    const agent = await authenticateAgentRequest(request);
+    if (!agent) {
+      return makeUnauthorizedResponse(id);
+    }
+
     const name = typeof params.name === 'string' ? params.name : '';
     const args = isRecord(params.arguments) ? params.arguments : {};
 
@@ -224,8 +740,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The token decides who the agent is; a differing username argument is rejected, not trusted.
+    if (typeof args.username === 'string' && normalizeUsername(args.username) !== agent.agentName) {
+      return sseJsonRpcResponse(
+        makeJsonRpcResult(
+          id,
+          makeToolErrorResult(
+            `username '${normalizeUsername(args.username)}' does not match the agent bound to this token ('${agent.agentName}')`,
+          ),
+        ),
+      );
+    }
+
     if (name === 'check_status') {
-      const missing = missingRequiredArg(args, ['username', 'file_paths', 'agent_head', 'repo_url']);
+      const missing = missingRequiredArg(args, ['file_paths', 'agent_head', 'repo_url']);
       if (missing) {
         return sseJsonRpcResponse(
           makeJsonRpcResult(
@@ -241,7 +769,6 @@ export async function POST(request: NextRequest) {
 
     if (name === 'post_status') {
       const missing = missingRequiredArg(args, [
-        'username',
         'file_paths',
         'status',
         'message',
@@ -261,44 +788,284 @@ export async function POST(request: NextRequest) {
       return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
     }
 
+    if (name === 'update_locks') {
+      const missing = missingRequiredArg(args, ['transitions', 'message', 'repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(
+            id,
+            makeToolErrorResult(`Missing required argument '${missing}' for tool 'update_locks'`),
+          ),
+        );
+      }
+
+      const result = await callUpdateLocksTool(args, request);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
+    if (name === 'renew_locks') {
+      const missing = missingRequiredArg(args, ['file_paths', 'repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(
+            id,
+            makeToolErrorResult(`Missing required argument '${missing}' for tool 'renew_locks'`),
+          ),
+        );
+      }
+
+      const result = await callRenewLocksTool(args, request);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
+    if (name === 'wait_for_lock') {
+      const missing = missingRequiredArg(args, ['file_paths', 'repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(
+            id,
+            makeToolErrorResult(`Missing required argument '${missing}' for tool 'wait_for_lock'`),
+          ),
+        );
+      }
+
+      const result = await callWaitForLockTool(args, agent);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
+    if (name === 'query_graph') {
+      const missing = missingRequiredArg(args, ['file_path', 'repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(
+            id,
+            makeToolErrorResult(`Missing required argument '${missing}' for tool 'query_graph'`),
+          ),
+        );
+      }
+
+      const result = await callQueryGraphTool(args, agent);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
+    if (name === 'list_locks') {
+      const missing = missingRequiredArg(args, ['repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(id, makeToolErrorResult(`Missing required argument '${missing}' for tool 'list_locks'`)),
+        );
+      }
+
+      const result = await callListLocksTool(args, agent);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
+    if (name === 'analyze_impact') {
+      const missing = missingRequiredArg(args, ['file_paths', 'repo_url']);
+      if (missing) {
+        return sseJsonRpcResponse(
+          makeJsonRpcResult(id, makeToolErrorResult(`Missing required argument '${missing}' for tool 'analyze_impact'`)),
+        );
+      }
+
+      const result = await callAnalyzeImpactTool(args, agent);
+      return sseJsonRpcResponse(makeJsonRpcResult(id, makeToolSuccessResult(result)));
+    }
+
     return sseJsonRpcResponse(
       makeJsonRpcResult(id, makeToolErrorResult(`Tool "${name}" is not available`)),
     );
   }
 
-  return sseJsonRpcResponse(
-    makeJsonRpcError(id, -32600, 'Invalid request parameters', ''),
+  return sseJsonRpcResponse(
+    makeJsonRpcError(id, -32600, 'Invalid request parameters', ''),
+  );
+}
+
+function makeJsonRpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    result,
+  };
+}
+
+function makeJsonRpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: {
+      code,
+      message,
+      ...(typeof data === 'undefined' ? {} : { data }),
+    },
+  };
+}
+
+function sseJsonRpcResponse(payload: JsonRpcResponse, extraHeaders?: Record<string, string>): NextResponse {
+  const body = `event: message\ndata: ${JSON.stringify(payload)}\n\n`;
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...extraHeaders,
+    },
+  });
+}
+
+function makeUnauthorizedResponse(id: JsonRpcId | 'server-error'): NextResponse {
+  return NextResponse.json(
+    {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32001,
+        message: 'Unauthorized: send a Relay agent token as "Authorization: Bearer <token>"',
+      },
+    },
+    { status: 401 },
+  );
+}
+
+function makeSessionForbiddenResponse(id: JsonRpcId | 'server-error'): NextResponse {
+  return NextResponse.json(
+    {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32003,
+        message: 'Forbidden: this session belongs to another agent; send initialize to start your own',
+      },
+    },
+    { status: 403 },
+  );
+}
+
+// A session is bound to the agent whose token initialized it; only that agent may stream, subscribe or end it.
+async function checkSessionAgent(
+  request: NextRequest,
+  session: McpSession,
+  id: JsonRpcId | 'server-error',
+): Promise<NextResponse | null> {
+  const agent = await authenticateAgentRequest(request);
+  if (!agent) {
+    return makeUnauthorizedResponse(id);
+  }
+  return agent.agentName === session.agent_name ? null : makeSessionForbiddenResponse(id);
+}
+
+function makeSessionNotFoundResponse(id: JsonRpcId | 'server-error'): NextResponse {
+  return NextResponse.json(
+    {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32000,
+        message: 'Session not found: send initialize again to start a new session',
+      },
+    },
+    { status: 404 },
+  );
+}
+
+async function resolveAuthorizedResource(
+  id: JsonRpcId,
+  uri: string,
+  agent: { agentName: string; ownerLogin: string },
+): Promise<RelayResourceRef | NextResponse> {
+  const resource = parseRelayResourceUri(uri);
+  if (!resource) {
+    return sseJsonRpcResponse(
+      makeJsonRpcError(id, -32602, `Unknown resource URI '${uri}'`, { expected: RESOURCE_URI_HINT }),
+    );
+  }
+
+  if (!(await isRepositoryRegistered(resource.repoUrl))) {
+    return sseJsonRpcResponse(
+      makeJsonRpcError(id, -32602, `${resource.repoUrl} is not registered with this Relay deployment`),
+    );
+  }
+
+  const access = await authorizeRepoAccess(
+    resource.repoUrl,
+    { login: agent.ownerLogin, agentName: agent.agentName },
+    'viewer',
   );
-}
+  if (!access.allowed) {
+    return sseJsonRpcResponse(makeJsonRpcError(id, -32003, access.payload.details, access.payload));
+  }
 
-function makeJsonRpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
-  return {
-    jsonrpc: '2.0',
-    id,
-    result,
-  };
+  return resource;
 }
 
-function makeJsonRpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
-  return {
-    jsonrpc: '2.0',
-    id,
-    error: {
-      code,
-      message,
-      ...(typeof data === 'undefined' ? {} : { data }),
-    },
-  };
-}
+function openNotificationStream(request: NextRequest, session: McpSession): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  let closed = false;
 
-function sseJsonRpcResponse(payload: JsonRpcResponse): NextResponse {
-  const body = `event: message\ndata: ${JSON.stringify(payload)}\n\n`;
-  return new NextResponse(body, {
-    status: 200,
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache, no-transform',
-      Connection: 'keep-alive',
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const close = () => {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      };
+
+      request.signal?.addEventListener('abort', close);
+      write(': connected\n\n');
+
+      const poll = async () => {
+        let lastWriteAt = Date.now();
+        while (!closed && Date.now() - startedAt < MCP_STREAM_MAX_DURATION_MS) {
+          try {
+            // Re-read the session each cycle so a deleted or expired session ends the stream.
+            const current = await getMcpSession(session.id);
+            if (!current) {
+              break;
+            }
+
+            const subscriptions = await getMcpSubscriptions(session.id);
+            // Subscriptions on the same repo branch share this cycle's sweep, lock and graph reads.
+            const reads = new ResourceReads();
+            const fingerprints: Record<string, string> = {};
+            for (const uri of Object.keys(subscriptions)) {
+              const resource = parseRelayResourceUri(uri);
+              if (resource) {
+                fingerprints[uri] = await getResourceFingerprint(resource, current.agent_name, reads);
+              }
+            }
+
+            for (const uri of await recordMcpFingerprints(session.id, subscriptions, fingerprints)) {
+              const notification = { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } };
+              write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+              lastWriteAt = Date.now();
+            }
+          } catch (error) {
+            console.error('MCP notification poll failed:', error);
+          }
+
+          if (Date.now() - lastWriteAt >= MCP_STREAM_KEEPALIVE_MS) {
+            write(': keepalive\n\n');
+            lastWriteAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, MCP_STREAM_POLL_INTERVAL_MS));
+        }
+        close();
+      };
+
+      void poll();
+    },
+    cancel() {
+      closed = true;
     },
   });
 }
@@ -318,47 +1085,59 @@ function makeToolErrorResult(message: string): Record<string, unknown> {
   };
 }
 
+// Routes deny with a structured payload that already carries a STOP orchestration; keep its role details.
+function makeAccessDeniedResult(payload: unknown, base: Record<string, unknown>): Record<string, unknown> {
+  const record = ensureRecord(payload);
+  const details = extractErrorMessage(payload, 'Forbidden');
+  return {
+    ...base,
+    error: 'Forbidden',
+    required_role: record.required_role ?? null,
+    role: record.role ?? null,
+    orchestration: isRecord(record.orchestration)
+      ? record.orchestration
+      : {
+          type: 'orchestration_command',
+          action: 'STOP',
+          command: null,
+          reason: `Access denied: ${details}`,
+        },
+  };
+}
+
 async function callCheckStatusTool(
   args: Record<string, unknown>,
   request: NextRequest,
 ): Promise<Record<string, unknown>> {
-  const username = normalizeUsername(args.username);
-  const repoUrl = getStandardizedRepoUrl();
-  const branchResolution = resolveBranch(args.branch);
-  let branch = branchResolution.branch;
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return {
+      status: 'OFFLINE',
+      repo_head: 'unknown',
+      locks: {},
+      warnings: [`REPO_REJECTED: ${target.rejected}`],
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'STOP',
+        command: null,
+        reason: target.rejected,
+      },
+    };
+  }
 
   try {
-    let response = await callInternalApi(
+    const response = await callInternalApi(
       request,
       '/api/check_status',
       {
         file_paths: args.file_paths,
         agent_head: args.agent_head,
-        repo_url: repoUrl,
-        branch,
+        status: args.status,
+        repo_url: target.repoUrl,
+        branch: target.branch,
       },
-      username,
     );
 
-    if (
-      !branchResolution.wasProvided &&
-      shouldRetryOnMissingBranchReference(response) &&
-      branch !== FALLBACK_MCP_BRANCH
-    ) {
-      branch = FALLBACK_MCP_BRANCH;
-      response = await callInternalApi(
-        request,
-        '/api/check_status',
-        {
-          file_paths: args.file_paths,
-          agent_head: args.agent_head,
-          repo_url: repoUrl,
-          branch,
-        },
-        username,
-      );
-    }
-
     if (response.status === 429) {
       const details = extractErrorMessage(response.payload, 'Rate limited');
       return {
@@ -375,6 +1154,15 @@ async function callCheckStatusTool(
       };
     }
 
+    if (response.status === 403) {
+      return makeAccessDeniedResult(response.payload, {
+        status: 'OFFLINE',
+        repo_head: 'unknown',
+        locks: {},
+        warnings: [`ACCESS_DENIED: ${extractErrorMessage(response.payload, 'Forbidden')}`],
+      });
+    }
+
     if (response.status === 400) {
       const details = extractErrorMessage(response.payload, 'Validation error');
       return {
@@ -428,13 +1216,13 @@ async function callPostStatusTool(
   args: Record<string, unknown>,
   request: NextRequest,
 ): Promise<Record<string, unknown>> {
-  const username = normalizeUsername(args.username);
-  const repoUrl = getStandardizedRepoUrl();
-  const branchResolution = resolveBranch(args.branch);
-  let branch = branchResolution.branch;
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
 
   try {
-    let response = await callInternalApi(
+    const response = await callInternalApi(
       request,
       '/api/post_status',
       {
@@ -442,35 +1230,14 @@ async function callPostStatusTool(
         status: args.status,
         message: args.message,
         agent_head: args.agent_head,
-        repo_url: repoUrl,
-        branch,
+        repo_url: target.repoUrl,
+        branch: target.branch,
         new_repo_head: args.new_repo_head ?? null,
+        ttl_ms: args.ttl_ms ?? null,
+        wait: args.wait === true,
       },
-      username,
     );
 
-    if (
-      !branchResolution.wasProvided &&
-      shouldRetryOnMissingBranchReference(response) &&
-      branch !== FALLBACK_MCP_BRANCH
-    ) {
-      branch = FALLBACK_MCP_BRANCH;
-      response = await callInternalApi(
-        request,
-        '/api/post_status',
-        {
-          file_paths: args.file_paths,
-          status: args.status,
-          message: args.message,
-          agent_head: args.agent_head,
-          repo_url: repoUrl,
-          branch,
-          new_repo_head: args.new_repo_head ?? null,
-        },
-        username,
-      );
-    }
-
     if (response.status === 429) {
       return {
         success: false,
@@ -500,6 +1267,10 @@ async function callPostStatusTool(
       };
     }
 
+    if (response.status === 403) {
+      return makeAccessDeniedResult(response.payload, { success: false });
+    }
+
     if (response.status === 409) {
       return {
         success: false,
@@ -539,13 +1310,321 @@ async function callPostStatusTool(
   }
 }
 
+async function callUpdateLocksTool(
+  args: Record<string, unknown>,
+  request: NextRequest,
+): Promise<Record<string, unknown>> {
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  try {
+    const response = await callInternalApi(
+      request,
+      '/api/update_locks',
+      {
+        transitions: args.transitions,
+        message: args.message,
+        agent_head: args.agent_head ?? null,
+        repo_url: target.repoUrl,
+        branch: target.branch,
+        ttl_ms: args.ttl_ms ?? null,
+      },
+    );
+
+    if (response.status === 429) {
+      return {
+        success: false,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'STOP',
+          command: null,
+          reason: 'Rate limited - retry later',
+        },
+      };
+    }
+
+    if (response.status === 403) {
+      return makeAccessDeniedResult(response.payload, { success: false });
+    }
+
+    if (response.status >= 400) {
+      const details = extractErrorMessage(response.payload, `HTTP ${response.status}`);
+      return {
+        success: false,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'STOP',
+          command: null,
+          reason: `update_locks failed (${response.status}): ${details}`,
+        },
+      };
+    }
+
+    return ensureRecord(response.payload);
+  } catch {
+    return {
+      success: false,
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'STOP',
+        command: null,
+        reason: 'Vercel Offline - Cannot Update Locks',
+      },
+    };
+  }
+}
+
+async function callRenewLocksTool(
+  args: Record<string, unknown>,
+  request: NextRequest,
+): Promise<Record<string, unknown>> {
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  try {
+    const response = await callInternalApi(
+      request,
+      '/api/renew_locks',
+      {
+        file_paths: args.file_paths,
+        repo_url: target.repoUrl,
+        branch: target.branch,
+        ttl_ms: args.ttl_ms ?? null,
+      },
+    );
+
+    if (response.status === 403) {
+      return makeAccessDeniedResult(response.payload, { success: false });
+    }
+
+    if (response.status >= 400) {
+      const details = extractErrorMessage(response.payload, `HTTP ${response.status}`);
+      return {
+        success: false,
+        orchestration: {
+          type: 'orchestration_command',
+          action: 'STOP',
+          command: null,
+          reason: `renew_locks failed (${response.status}): ${details}`,
+        },
+      };
+    }
+
+    return ensureRecord(response.payload);
+  } catch {
+    return {
+      success: false,
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'STOP',
+        command: null,
+        reason: 'Vercel Offline - Cannot Renew Locks',
+      },
+    };
+  }
+}
+
+// Polls the wait queue in-process; each poll's sweep also hands lapsed locks to the next waiter.
+async function callWaitForLockTool(
+  args: Record<string, unknown>,
+  agent: { agentName: string; ownerLogin: string },
+): Promise<Record<string, unknown>> {
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  const filePaths = normalizeFilePaths(args.file_paths);
+  if (!filePaths || filePaths.length === 0) {
+    return makeRepoRejectedResult('wait_for_lock failed: file_paths must be a non-empty list of paths');
+  }
+
+  const requestedTimeout =
+    typeof args.timeout_ms === 'number' && Number.isFinite(args.timeout_ms) ? args.timeout_ms : DEFAULT_WAIT_TIMEOUT_MS;
+  const deadline = Date.now() + Math.min(MAX_WAIT_TIMEOUT_MS, Math.max(0, requestedTimeout));
+
+  try {
+    const access = await authorizeRepoAccess(
+      target.repoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'agent',
+    );
+    if (!access.allowed) {
+      return makeAccessDeniedResult(access.payload, { success: false });
+    }
+
+    let pollIntervalMs = WAIT_POLL_INTERVAL_MS;
+    while (true) {
+      await expireLapsedLocks(target.repoUrl, target.branch);
+      const waitState = await getLockWaitState(target.repoUrl, target.branch, filePaths, agent.agentName);
+      const payload = formatLockWaitState(waitState);
+      if (waitState.state !== 'QUEUED') {
+        return payload;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        return {
+          ...payload,
+          timed_out: true,
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'WAIT',
+            command: null,
+            reason: 'Timed out while still queued. Call wait_for_lock again or release your place with post_status OPEN.',
+          },
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)));
+      pollIntervalMs = Math.min(MAX_WAIT_POLL_INTERVAL_MS, pollIntervalMs * 2);
+    }
+  } catch {
+    return {
+      success: false,
+      orchestration: {
+        type: 'orchestration_command',
+        action: 'STOP',
+        command: null,
+        reason: 'Vercel Offline - Cannot Wait For Lock',
+      },
+    };
+  }
+}
+
+// Reads the cached graph in-process rather than through /api/graph, which would also ship every node and
+// activity event. Like analyze_impact it never triggers a rebuild, so queries do not spend GitHub quota.
+async function callQueryGraphTool(
+  args: Record<string, unknown>,
+  agent: { agentName: string; ownerLogin: string },
+): Promise<Record<string, unknown>> {
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  try {
+    const access = await authorizeRepoAccess(
+      target.repoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'viewer',
+    );
+    if (!access.allowed) {
+      return makeAccessDeniedResult(access.payload, { success: false });
+    }
+
+    const graph = await new GraphService(target.repoUrl, target.branch).getCached();
+    if (!graph) {
+      return {
+        success: true,
+        repo_url: target.repoUrl,
+        branch: target.branch,
+        available: false,
+        reason: 'Graph not generated yet; open the Relay UI or GET /api/graph first',
+      };
+    }
+
+    const filePath = String(args.file_path).trim().replace(/^\.?\//, '');
+    const targetPath = typeof args.target_path === 'string' ? args.target_path.trim().replace(/^\.?\//, '') : '';
+    return {
+      success: true,
+      repo_url: target.repoUrl,
+      branch: target.branch,
+      available: true,
+      graph_version: graph.version,
+      ...queryDependencyGraph(graph, {
+        filePath,
+        depth: typeof args.depth === 'number' ? args.depth : undefined,
+        targetPath: targetPath || undefined,
+      }),
+    };
+  } catch (error) {
+    return makeRepoRejectedResult(`Graph unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function callListLocksTool(
+  args: Record<string, unknown>,
+  agent: { agentName: string; ownerLogin: string },
+): Promise<Record<string, unknown>> {
+  const status = parseLockStatusFilter(args.status);
+  const groupBy = parseLockGrouping(args.group_by);
+  if (status === undefined || groupBy === undefined) {
+    return makeRepoRejectedResult('Invalid filter: status must be READING or WRITING; group_by must be file or agent');
+  }
+
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  try {
+    const access = await authorizeRepoAccess(
+      target.repoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'viewer',
+    );
+    if (!access.allowed) {
+      return makeAccessDeniedResult(access.payload, { success: false });
+    }
+
+    const listing = await listActiveLocks(target.repoUrl, target.branch, {
+      pathPrefix: typeof args.path_prefix === 'string' ? args.path_prefix : null,
+      status,
+      groupBy,
+    });
+    return { success: true, repo_url: target.repoUrl, branch: target.branch, ...listing };
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    return makeRepoRejectedResult(`Could not list locks: ${details}`);
+  }
+}
+
+async function callAnalyzeImpactTool(
+  args: Record<string, unknown>,
+  agent: { agentName: string; ownerLogin: string },
+): Promise<Record<string, unknown>> {
+  const filePaths = parseImpactFilePaths(args.file_paths);
+  const hasDepth = args.depth !== undefined && args.depth !== null;
+  const depth = hasDepth ? parsePositiveInteger(args.depth) : null;
+  if (filePaths.length === 0 || (hasDepth && depth === null)) {
+    return makeRepoRejectedResult('Invalid arguments: file_paths must list at least one file; depth must be a positive integer');
+  }
+
+  const target = await resolveRepoTarget(args);
+  if ('rejected' in target) {
+    return makeRepoRejectedResult(target.rejected);
+  }
+
+  try {
+    const access = await authorizeRepoAccess(
+      target.repoUrl,
+      { login: agent.ownerLogin, agentName: agent.agentName },
+      'viewer',
+    );
+    if (!access.allowed) {
+      return makeAccessDeniedResult(access.payload, { success: false });
+    }
+
+    const report = await analyzeImpact(target.repoUrl, target.branch, filePaths, depth);
+    return { success: true, repo_url: target.repoUrl, branch: target.branch, depth, ...report };
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    return makeRepoRejectedResult(`Could not analyze impact: ${details}`);
+  }
+}
+
 async function callInternalApi(
   request: NextRequest,
-  path: '/api/check_status' | '/api/post_status',
+  path: '/api/check_status' | '/api/post_status' | '/api/update_locks' | '/api/renew_locks',
   body: Record<string, unknown>,
-  username: string,
 ): Promise<{ status: number; payload: unknown }> {
   const origin = new URL(request.url).origin;
+  const authorization = request.headers.get('authorization');
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 5000);
 
@@ -554,8 +1633,7 @@ async function callInternalApi(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-github-user': username,
-        'x-github-username': username,
+        ...(authorization ? { Authorization: authorization } : {}),
       },
       body: JSON.stringify(body),
       signal: controller.signal,
@@ -616,32 +1694,45 @@ function normalizeUsername(value: unknown): string {
   return trimmed || 'anonymous';
 }
 
-function getStandardizedRepoUrl(): string {
-  return STANDARDIZED_REPO_URL;
-}
+async function resolveRepoTarget(
+  args: Record<string, unknown>,
+): Promise<{ repoUrl: string; branch: string } | { rejected: string }> {
+  let repoUrl: string;
+  try {
+    repoUrl = normalizeRepoUrl(typeof args.repo_url === 'string' ? args.repo_url : '');
+  } catch {
+    return { rejected: `Invalid repo_url '${String(args.repo_url ?? '')}': expected a GitHub, GitLab or Bitbucket repository URL` };
+  }
 
-function resolveBranch(value: unknown): { branch: string; wasProvided: boolean } {
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    if (trimmed) {
-      return { branch: trimmed, wasProvided: true };
+  try {
+    if (!(await isRepositoryRegistered(repoUrl))) {
+      return {
+        rejected: `${repoUrl} is not registered with this Relay deployment. A repo admin can register it with POST /api/repos.`,
+      };
     }
-  }
 
-  return { branch: DEFAULT_MCP_BRANCH, wasProvided: false };
-}
+    const requestedBranch = typeof args.branch === 'string' ? args.branch.trim() : '';
+    if (requestedBranch) {
+      return { repoUrl, branch: requestedBranch };
+    }
 
-function shouldRetryOnMissingBranchReference(response: { status: number; payload: unknown }): boolean {
-  if (response.status !== 404 && response.status !== 500) {
-    return false;
+    return { repoUrl, branch: await getDefaultBranchCached(repoUrl) };
+  } catch (error) {
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    return { rejected: `Could not resolve ${repoUrl}: ${details}` };
   }
+}
 
-  const details = extractErrorMessage(response.payload, '').toLowerCase();
-  return (
-    details.includes('git/refs#get-a-reference') ||
-    details.includes('reference does not exist') ||
-    details.includes('not found')
-  );
+function makeRepoRejectedResult(reason: string): Record<string, unknown> {
+  return {
+    success: false,
+    orchestration: {
+      type: 'orchestration_command',
+      action: 'STOP',
+      command: null,
+      reason,
+    },
+  };
 }
 
 function extractErrorMessage(payload: unknown, fallback: string): string {
@@ -3,7 +3,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { PanelRightOpen, X } from 'lucide-react';
-import { useGraphData } from './hooks/useGraphData';
+import { getLockHolders, useGraphData } from './hooks/useGraphData';
 import GraphPanel from './components/GraphPanel';
 import SidebarPanel from './components/SidebarPanel';
 import AdminPanel from './components/AdminPanel';
@@ -51,7 +51,7 @@ export default function HomePage() {
 
   // Track active agents for demo visualization
   useEffect(() => {
-    const uniqueAgents = new Set(Object.values(locks).map(lock => lock.user_id));
+    const uniqueAgents = new Set(Object.values(locks).flatMap(getLockHolders).map(lock => lock.user_id));
     setActiveAgentsCount(uniqueAgents.size);
   }, [locks]);
 
@@ -1,7 +1,8 @@
-import { normalizeRepoUrl } from './github';
 import { kv } from './kv';
+import { adoptLegacyRepoKeys, getLegacyRepoKeyScope, getRepoKeyScope } from './repo-providers';
 
 export type CoordinationActivityStatus = 'OPEN' | 'READING' | 'WRITING';
+export type CoordinationActivityKind = 'lock_expired';
 
 export interface CoordinationActivityEvent {
   id: string;
@@ -11,26 +12,41 @@ export interface CoordinationActivityEvent {
   status: CoordinationActivityStatus;
   message: string;
   timestamp: number;
+  event?: CoordinationActivityKind;
 }
 
-interface PublishActivityInput {
+export interface ActivityTransition {
+  filePath: string;
+  status: CoordinationActivityStatus;
+}
+
+// Either one status for every file, or a mixed batch of transitions written in a single LPUSH.
+type PublishActivityInput = {
   repoUrl: string;
   branch: string;
-  filePaths: string[];
   userId: string;
   userName: string;
-  status: CoordinationActivityStatus;
   message: string;
   timestamp?: number;
-}
+  event?: CoordinationActivityKind;
+} & ({ filePaths: string[]; status: CoordinationActivityStatus } | { transitions: ActivityTransition[] });
 
 const DEFAULT_ACTIVITY_LIMIT = 120;
 const MAX_ACTIVITY_RETENTION = 500;
 
-function getActivityKey(repoUrl: string, branch: string): string {
-  const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+function getActivityKey(repoUrl: string, branch: string, scope = getRepoKeyScope(repoUrl)): string {
   const normalizedBranch = branch.trim() || 'main';
-  return `activity:${normalizedRepoUrl}:${normalizedBranch}`;
+  return `activity:${scope}:${normalizedBranch}`;
+}
+
+// The activity key after moving a feed written before provider scoping onto it.
+async function resolveActivityKey(repoUrl: string, branch: string): Promise<string> {
+  const key = getActivityKey(repoUrl, branch);
+  const legacyScope = getLegacyRepoKeyScope(repoUrl);
+  if (legacyScope) {
+    await adoptLegacyRepoKeys([[getActivityKey(repoUrl, branch, legacyScope), key]]);
+  }
+  return key;
 }
 
 function parseActivityEvent(raw: unknown): CoordinationActivityEvent | null {
@@ -56,7 +72,8 @@ function parseActivityEvent(raw: unknown): CoordinationActivityEvent | null {
     typeof candidate.user_name === 'string' &&
     (candidate.status === 'OPEN' || candidate.status === 'READING' || candidate.status === 'WRITING') &&
     typeof candidate.message === 'string' &&
-    typeof candidate.timestamp === 'number'
+    typeof candidate.timestamp === 'number' &&
+    (typeof candidate.event === 'undefined' || candidate.event === 'lock_expired')
   ) {
     return candidate as CoordinationActivityEvent;
   }
@@ -65,11 +82,15 @@ function parseActivityEvent(raw: unknown): CoordinationActivityEvent | null {
 }
 
 export async function publishActivityEvents(input: PublishActivityInput): Promise<void> {
-  if (input.filePaths.length === 0) {
+  const transitions =
+    'transitions' in input
+      ? input.transitions
+      : input.filePaths.map((filePath) => ({ filePath, status: input.status }));
+  if (transitions.length === 0) {
     return;
   }
 
-  const key = getActivityKey(input.repoUrl, input.branch);
+  const key = await resolveActivityKey(input.repoUrl, input.branch);
   const timestamp = input.timestamp ?? Date.now();
   const listClient = kv as unknown as {
     lpush?: (key: string, ...values: string[]) => Promise<unknown>;
@@ -80,15 +101,16 @@ export async function publishActivityEvents(input: PublishActivityInput): Promis
     return;
   }
 
-  const payloads = input.filePaths.map((filePath, index) => {
+  const payloads = transitions.map(({ filePath, status }, index) => {
     const event: CoordinationActivityEvent = {
-      id: `${timestamp}:${input.userId}:${input.status}:${filePath}:${index}`,
+      id: `${timestamp}:${input.userId}:${status}:${filePath}:${index}`,
       file_path: filePath,
       user_id: input.userId,
       user_name: input.userName,
-      status: input.status,
+      status,
       message: input.message,
       timestamp,
+      ...(input.event ? { event: input.event } : {}),
     };
     return JSON.stringify(event);
   });
@@ -102,7 +124,7 @@ export async function getRecentActivityEvents(
   branch: string,
   limit = DEFAULT_ACTIVITY_LIMIT,
 ): Promise<CoordinationActivityEvent[]> {
-  const key = getActivityKey(repoUrl, branch);
+  const key = await resolveActivityKey(repoUrl, branch);
   const listClient = kv as unknown as {
     lrange?: (key: string, start: number, stop: number) => Promise<unknown>;
   };
@@ -130,7 +152,7 @@ export async function clearActivityEvents(
   repoUrl: string,
   branch: string,
 ): Promise<{ success: boolean; cleared: number }> {
-  const key = getActivityKey(repoUrl, branch);
+  const key = await resolveActivityKey(repoUrl, branch);
   const listClient = kv as unknown as {
     llen?: (key: string) => Promise<unknown>;
   };
@@ -0,0 +1,219 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { kv } from './kv';
+
+export interface AgentTokenRecord {
+  id: string;
+  agent_name: string;
+  owner_login: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+export interface AgentIdentity {
+  tokenId: string;
+  agentName: string;
+  ownerLogin: string;
+}
+
+type StoredAgentToken = AgentTokenRecord & { token_hash: string };
+
+type TokenLookup = { id: string; owner_login: string };
+
+const TOKEN_PREFIX = 'relay_';
+const AGENT_NAME_PATTERN = /^[a-z0-9]+-[a-z0-9]+-[a-z0-9-]+$/;
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getTokenLookupKey(tokenHash: string): string {
+  return `agent_token:${tokenHash}`;
+}
+
+function getOwnerTokensKey(ownerLogin: string): string {
+  return `agent_tokens:${ownerLogin.trim().toLowerCase()}`;
+}
+
+function getAgentNameOwnerKey(agentName: string): string {
+  return `agent_name_owner:${agentName.trim()}`;
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  return value && typeof value === 'object' ? (value as T) : null;
+}
+
+function parseStoredToken(value: unknown): StoredAgentToken | null {
+  const parsed = parseJson<Partial<StoredAgentToken>>(value);
+  if (
+    !parsed ||
+    typeof parsed.id !== 'string' ||
+    typeof parsed.agent_name !== 'string' ||
+    typeof parsed.owner_login !== 'string' ||
+    typeof parsed.token_hash !== 'string' ||
+    typeof parsed.created_at !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    id: parsed.id,
+    agent_name: parsed.agent_name,
+    owner_login: parsed.owner_login,
+    token_hash: parsed.token_hash,
+    created_at: parsed.created_at,
+    last_used_at: typeof parsed.last_used_at === 'number' ? parsed.last_used_at : null,
+  };
+}
+
+function toPublicRecord({ token_hash: _tokenHash, ...record }: StoredAgentToken): AgentTokenRecord {
+  return record;
+}
+
+// Agent names follow the MCP "(model)-(word)-(owner login)" convention; the suffix must be the
+// signed-in owner so one user cannot mint tokens that act as another user's agents.
+export function isAgentNameBoundTo(agentName: string, ownerLogin: string): boolean {
+  const normalizedName = agentName.trim();
+  const suffix = `-${ownerLogin.trim().toLowerCase()}`;
+  return (
+    AGENT_NAME_PATTERN.test(normalizedName) &&
+    normalizedName.endsWith(suffix) &&
+    normalizedName.length > suffix.length
+  );
+}
+
+// Locks and activity identify agents by name alone, and the suffix check cannot tell owners apart when
+// one login ends another (`gpt5-x-alice-bob` passes for both `bob` and `alice-bob`). So a name belongs to
+// the first owner that mints it, and the claim outlives revoking that owner's tokens.
+async function claimAgentName(agentName: string, ownerLogin: string): Promise<boolean> {
+  const key = getAgentNameOwnerKey(agentName);
+  const owner = ownerLogin.trim().toLowerCase();
+  const current = await kv.get(key);
+  if (current === null || current === undefined) {
+    if ((await kv.set(key, owner, { nx: true })) === 'OK') {
+      return true;
+    }
+    return (await kv.get(key)) === owner;
+  }
+
+  return current === owner;
+}
+
+// Returns null when another owner already holds `agentName`.
+export async function createAgentToken(
+  ownerLogin: string,
+  agentName: string,
+): Promise<{ token: string; record: AgentTokenRecord } | null> {
+  if (!(await claimAgentName(agentName, ownerLogin))) {
+    return null;
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const tokenHash = hashToken(token);
+  const stored: StoredAgentToken = {
+    id: randomUUID(),
+    agent_name: agentName.trim(),
+    owner_login: ownerLogin.trim(),
+    token_hash: tokenHash,
+    created_at: Date.now(),
+    last_used_at: null,
+  };
+
+  const lookup: TokenLookup = { id: stored.id, owner_login: stored.owner_login };
+  await kv.hset(getOwnerTokensKey(ownerLogin), { [stored.id]: JSON.stringify(stored) });
+  await kv.set(getTokenLookupKey(tokenHash), JSON.stringify(lookup));
+
+  return { token, record: toPublicRecord(stored) };
+}
+
+export async function listAgentTokens(ownerLogin: string): Promise<AgentTokenRecord[]> {
+  const entries = (await kv.hgetall(getOwnerTokensKey(ownerLogin))) as Record<string, unknown> | null;
+  if (!entries) {
+    return [];
+  }
+
+  return Object.values(entries)
+    .map((entry) => parseStoredToken(entry))
+    .filter((entry): entry is StoredAgentToken => entry !== null)
+    .sort((a, b) => b.created_at - a.created_at)
+    .map(toPublicRecord);
+}
+
+export async function revokeAgentToken(ownerLogin: string, tokenId: string): Promise<boolean> {
+  const ownerKey = getOwnerTokensKey(ownerLogin);
+  const stored = parseStoredToken(await kv.hget(ownerKey, tokenId));
+  if (!stored) {
+    return false;
+  }
+
+  await kv.hdel(ownerKey, tokenId);
+  await kv.del(getTokenLookupKey(stored.token_hash));
+  return true;
+}
+
+export async function verifyAgentToken(token: string): Promise<AgentIdentity | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const tokenHash = hashToken(token);
+  const lookup = parseJson<TokenLookup>(await kv.get(getTokenLookupKey(tokenHash)));
+  if (!lookup || typeof lookup.id !== 'string' || typeof lookup.owner_login !== 'string') {
+    return null;
+  }
+
+  const ownerKey = getOwnerTokensKey(lookup.owner_login);
+  const stored = parseStoredToken(await kv.hget(ownerKey, lookup.id));
+  // Also claims names of tokens minted before claims existed; the later owner of a shared name loses.
+  if (!stored || stored.token_hash !== tokenHash || !(await claimAgentName(stored.agent_name, stored.owner_login))) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (!stored.last_used_at || now - stored.last_used_at > LAST_USED_WRITE_INTERVAL_MS) {
+    try {
+      await kv.hset(ownerKey, { [stored.id]: JSON.stringify({ ...stored, last_used_at: now }) });
+    } catch {
+      // Usage timestamps are informational; never fail authentication on them.
+    }
+  }
+
+  return {
+    tokenId: stored.id,
+    agentName: stored.agent_name,
+    ownerLogin: stored.owner_login,
+  };
+}
+
+export function readBearerToken(headers: Headers): string | null {
+  const authorization = headers.get('authorization') || '';
+  const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+  return match ? match[1].trim() : null;
+}
+
+export const AGENT_UNAUTHORIZED_PAYLOAD = {
+  error: 'Unauthorized',
+  details: 'A valid agent token is required (Authorization: Bearer <token>)',
+};
+
+export async function authenticateAgentRequest(request: { headers: Headers }): Promise<AgentIdentity | null> {
+  const token = readBearerToken(request.headers);
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return await verifyAgentToken(token);
+  } catch (error) {
+    console.error('Agent token verification failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+import type { GraphSourceEntry } from './graph-source';
+import type { RepoHostClient, RepoHostPermission } from './repo-providers';
+
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+const BITBUCKET_PAGE_SIZE = 100;
+
+type BitbucketPage<T> = {
+  values: T[];
+  next?: string;
+};
+
+type BitbucketSourceEntry = {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+};
+
+type BitbucketRepository = {
+  is_private?: boolean;
+  mainbranch?: { name?: string } | null;
+};
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+// Bitbucket Cloud API 2.0 for one repository, authenticated with a BITBUCKET_TOKEN access token.
+export class BitbucketClient implements RepoHostClient {
+  private token: string | undefined;
+
+  constructor(
+    private workspace: string,
+    private repoSlug: string,
+    token = process.env.BITBUCKET_TOKEN,
+  ) {
+    this.token = token?.trim() || undefined;
+  }
+
+  private async request(url: string): Promise<Response> {
+    const response = await fetch(url, { headers: this.token ? { Authorization: `Bearer ${this.token}` } : {} });
+    if (!response.ok) {
+      throw Object.assign(new Error(`Bitbucket API request failed (${response.status}): ${url}`), {
+        status: response.status,
+      });
+    }
+    return response;
+  }
+
+  private repositoryUrl(endpoint = ''): string {
+    return `${BITBUCKET_API_URL}/repositories/${encodeURIComponent(this.workspace)}/${encodeURIComponent(this.repoSlug)}${endpoint}`;
+  }
+
+  private async getRepository(): Promise<BitbucketRepository> {
+    return (await this.request(this.repositoryUrl())).json();
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    const data = (await (await this.request(this.repositoryUrl(`/refs/branches/${encodeURIComponent(branch)}`))).json()) as {
+      target: { hash: string };
+    };
+    return data.target.hash;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const name = (await this.getRepository()).mainbranch?.name;
+    if (!name) {
+      throw new Error(`Bitbucket repository ${this.workspace}/${this.repoSlug} has no main branch`);
+    }
+    return name;
+  }
+
+  // The API exposes no blob ids, so `sha` is the commit and path: files are refetched whenever the
+  // head moves instead of only when their content changes.
+  async listTree(head: string): Promise<GraphSourceEntry[]> {
+    const entries: GraphSourceEntry[] = [];
+    const pending = [''];
+    while (pending.length > 0) {
+      const dir = pending.shift() as string;
+      let url: string | undefined = this.repositoryUrl(
+        `/src/${encodeURIComponent(head)}/${dir ? `${encodePath(dir)}/` : ''}?pagelen=${BITBUCKET_PAGE_SIZE}`,
+      );
+      while (url) {
+        const page = (await (await this.request(url)).json()) as BitbucketPage<BitbucketSourceEntry>;
+        for (const entry of page.values) {
+          if (entry.type === 'commit_directory') {
+            pending.push(entry.path);
+          } else if (entry.type === 'commit_file') {
+            entries.push({ path: entry.path, sha: `${head}:${entry.path}`, size: entry.size });
+          }
+        }
+        url = page.next;
+      }
+    }
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async readBlob(path: string, _sha: string, head: string): Promise<string | null> {
+    return (await this.request(this.repositoryUrl(`/src/${encodeURIComponent(head)}/${encodePath(path)}`))).text();
+  }
+
+  // Needs a token that may read the workspace's permissions; `username` is matched against nicknames.
+  async getMemberPermission(username: string): Promise<RepoHostPermission | null> {
+    const query = new URLSearchParams({ q: `user.nickname="${username.replace(/"/g, '')}"` }).toString();
+    const url = `${BITBUCKET_API_URL}/workspaces/${encodeURIComponent(this.workspace)}/permissions/repositories/${encodeURIComponent(this.repoSlug)}?${query}`;
+    const page = (await (await this.request(url)).json()) as BitbucketPage<{ permission?: string }>;
+    const permission = page.values[0]?.permission;
+    return permission === 'admin' || permission === 'write' || permission === 'read' ? permission : null;
+  }
+
+  async isPublic(): Promise<boolean> {
+    return (await this.getRepository()).is_private === false;
+  }
+}
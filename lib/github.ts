@@ -11,23 +11,6 @@ export function createOctokitClient(authToken?: string): Octokit {
 
 export const octokit = createOctokitClient();
 
-const GITHUB_REPO_URL_REGEX = /github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/i;
-
-export function parseRepoUrl(repoUrl: string): { owner: string; repo: string } {
-  const trimmed = repoUrl.trim();
-  const match = trimmed.match(GITHUB_REPO_URL_REGEX);
-  if (match) {
-    return { owner: match[1], repo: match[2] };
-  }
-
-  throw new Error('Invalid GitHub URL');
-}
-
-export function normalizeRepoUrl(repoUrl: string): string {
-  const { owner, repo } = parseRepoUrl(repoUrl);
-  return `https://github.com/${owner.toLowerCase()}/${repo.toLowerCase()}`;
-}
-
 export async function getRepoHead(
   owner: string,
   repo: string,
@@ -99,6 +82,65 @@ export async function getRepoHeadCached(
   return head;
 }
 
+const DEFAULT_BRANCH_CACHE_MS = 60 * 60 * 1000;
+
+type DefaultBranchCacheValue = {
+  branch: string;
+  fetched_at: number;
+};
+
+function getDefaultBranchCacheKey(owner: string, repo: string): string {
+  return `github:default_branch:${owner.toLowerCase()}:${repo.toLowerCase()}`;
+}
+
+function parseDefaultBranchCacheValue(input: unknown): DefaultBranchCacheValue | null {
+  if (typeof input === 'string') {
+    try {
+      return parseDefaultBranchCacheValue(JSON.parse(input));
+    } catch {
+      return null;
+    }
+  }
+
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  const candidate = input as Partial<DefaultBranchCacheValue>;
+  if (typeof candidate.branch !== 'string' || !candidate.branch || typeof candidate.fetched_at !== 'number') {
+    return null;
+  }
+
+  return {
+    branch: candidate.branch,
+    fetched_at: candidate.fetched_at,
+  };
+}
+
+export async function getRepoDefaultBranch(owner: string, repo: string, client: Octokit = octokit): Promise<string> {
+  const { data } = await client.rest.repos.get({ owner, repo });
+  return data.default_branch;
+}
+
+export async function getRepoDefaultBranchCached(
+  owner: string,
+  repo: string,
+  maxAgeMs = DEFAULT_BRANCH_CACHE_MS,
+  client: Octokit = octokit,
+): Promise<string> {
+  if (maxAgeMs > 0) {
+    const cached = parseDefaultBranchCacheValue(await kv.get(getDefaultBranchCacheKey(owner, repo)));
+    if (cached && Date.now() - cached.fetched_at <= maxAgeMs) {
+      return cached.branch;
+    }
+  }
+
+  const branch = await getRepoDefaultBranch(owner, repo, client);
+  const payload: DefaultBranchCacheValue = { branch, fetched_at: Date.now() };
+  await kv.set(getDefaultBranchCacheKey(owner, repo), JSON.stringify(payload));
+  return branch;
+}
+
 type GitHubErrorShape = {
   status?: number;
   message?: string;
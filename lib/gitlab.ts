@@ -0,0 +1,116 @@
+import type { GraphSourceEntry } from './graph-source';
+import type { RepoHostClient, RepoHostPermission } from './repo-providers';
+
+const GITLAB_PAGE_SIZE = 100;
+
+type GitLabTreeItem = {
+  id: string;
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+};
+
+type GitLabMember = {
+  username: string;
+  access_level: number;
+};
+
+type GitLabProject = {
+  default_branch?: string | null;
+  visibility?: string;
+};
+
+// GitLab access levels: 10 guest, 20 reporter, 30 developer, 40 maintainer, 50 owner.
+export function permissionFromGitLabAccessLevel(accessLevel: number): RepoHostPermission | null {
+  if (accessLevel >= 40) {
+    return 'admin';
+  }
+  if (accessLevel >= 30) {
+    return 'write';
+  }
+  if (accessLevel >= 10) {
+    return 'read';
+  }
+  return null;
+}
+
+// GitLab REST v4 for one project on gitlab.com or a self-hosted instance, authenticated with GITLAB_TOKEN.
+export class GitLabClient implements RepoHostClient {
+  private token: string | undefined;
+
+  constructor(
+    private host: string,
+    private projectPath: string,
+    token = process.env.GITLAB_TOKEN,
+  ) {
+    this.token = token?.trim() || undefined;
+  }
+
+  private async request(endpoint: string, params: Record<string, string> = {}): Promise<Response> {
+    const query = new URLSearchParams(params).toString();
+    const url = `https://${this.host}/api/v4/projects/${encodeURIComponent(this.projectPath)}${endpoint}${query ? `?${query}` : ''}`;
+    const response = await fetch(url, { headers: this.token ? { 'PRIVATE-TOKEN': this.token } : {} });
+    if (!response.ok) {
+      throw Object.assign(new Error(`GitLab API request failed (${response.status}): ${endpoint || '/'}`), {
+        status: response.status,
+      });
+    }
+    return response;
+  }
+
+  private async getProject(): Promise<GitLabProject> {
+    return (await this.request('')).json();
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    const data = (await (await this.request(`/repository/branches/${encodeURIComponent(branch)}`)).json()) as {
+      commit: { id: string };
+    };
+    return data.commit.id;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const project = await this.getProject();
+    if (!project.default_branch) {
+      throw new Error(`GitLab project ${this.projectPath} has no default branch`);
+    }
+    return project.default_branch;
+  }
+
+  // `id` of a tree entry is the git blob id, so contents share the graph's SHA-keyed cache.
+  async listTree(head: string): Promise<GraphSourceEntry[]> {
+    const entries: GraphSourceEntry[] = [];
+    let page = '1';
+    while (page) {
+      const response = await this.request('/repository/tree', {
+        ref: head,
+        recursive: 'true',
+        per_page: String(GITLAB_PAGE_SIZE),
+        page,
+      });
+      const items = (await response.json()) as GitLabTreeItem[];
+      for (const item of items) {
+        if (item.type === 'blob') {
+          entries.push({ path: item.path, sha: item.id });
+        }
+      }
+      page = response.headers.get('x-next-page') ?? '';
+    }
+    return entries;
+  }
+
+  async readBlob(_path: string, sha: string): Promise<string | null> {
+    return (await this.request(`/repository/blobs/${sha}/raw`)).text();
+  }
+
+  async getMemberPermission(username: string): Promise<RepoHostPermission | null> {
+    const response = await this.request('/members/all', { query: username, per_page: String(GITLAB_PAGE_SIZE) });
+    const member = ((await response.json()) as GitLabMember[]).find(
+      (entry) => entry.username.toLowerCase() === username.toLowerCase(),
+    );
+    return member ? permissionFromGitLabAccessLevel(member.access_level) : null;
+  }
+
+  async isPublic(): Promise<boolean> {
+    return (await this.getProject()).visibility === 'public';
+  }
+}
@@ -0,0 +1,212 @@
+import { posix } from 'node:path';
+import type { LanguageResolver, LanguageSupport } from './languages';
+import type { ExportedSymbol, ParsedImport, ParsedModule, SymbolKind } from './parser';
+import { toRepoPath } from './tsconfig-paths';
+
+// A go.mod: its module path, the repo directory it lives in, and `replace` directives that point
+// at directories inside the repo.
+export interface GoModule {
+  path: string;
+  dir: string;
+  replaces: Record<string, string>;
+}
+
+export function isGoModFile(path: string): boolean {
+  const segments = path.split('/');
+  return posix.basename(path) === 'go.mod' && !segments.includes('vendor') && !segments.includes('testdata');
+}
+
+function stripGoComment(line: string): string {
+  return line.replace(/\/\/.*$/, '').trimEnd();
+}
+
+export function parseGoMod(content: string, dir: string): GoModule | null {
+  const lines = content.split('\n').map((line) => stripGoComment(line).trim());
+  const modulePath = lines.map((line) => line.match(/^module\s+"?([^\s"]+)"?$/)?.[1]).find(Boolean);
+  if (!modulePath) {
+    return null;
+  }
+
+  const replaces: Record<string, string> = {};
+  let inReplaceBlock = false;
+  for (const line of lines) {
+    if (/^replace\s*\($/.test(line)) {
+      inReplaceBlock = true;
+      continue;
+    }
+    if (inReplaceBlock && line === ')') {
+      inReplaceBlock = false;
+      continue;
+    }
+
+    const directive = inReplaceBlock ? line : line.match(/^replace\s+(.+)$/)?.[1];
+    // Only local replacements (`=> ./dir` or `=> ../dir`) point inside the repo.
+    const local = directive?.match(/^(\S+)(?:\s+\S+)?\s*=>\s*(\.\.?(?:\/\S*)?)$/);
+    if (local) {
+      replaces[local[1]] = toRepoPath(posix.join(dir, local[2]));
+    }
+  }
+
+  return { path: modulePath, dir, replaces };
+}
+
+function parseImportSpec(spec: string): string | null {
+  return spec.match(/^(?:[\w.]+\s+)?["`]([^"`]+)["`]/)?.[1] ?? null;
+}
+
+function isExportedName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+type GoDeclarationGroup = 'import' | 'var' | 'const' | 'type';
+
+function getTypeKind(rest: string): SymbolKind {
+  if (/^(?:\[[^\]]*\]\s*)?struct\b/.test(rest)) return 'class';
+  if (/^(?:\[[^\]]*\]\s*)?interface\b/.test(rest)) return 'interface';
+  return 'type';
+}
+
+// Go packages are directories, so imports carry no names: every exported identifier of the package
+// is reachable through the package qualifier.
+export function parseGoModule(content: string): ParsedModule {
+  const imports: ParsedImport[] = [];
+  const exports: ExportedSymbol[] = [];
+  const lines = content.split('\n');
+  let group: GoDeclarationGroup | null = null;
+  let braceDepth = 0;
+
+  const addExport = (name: string, kind: SymbolKind, lineNumber: number) => {
+    if (isExportedName(name) && !exports.some((entry) => entry.name === name)) {
+      exports.push({ name, kind, lineNumber });
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    // Top-level declarations start in column 0 (gofmt); indented lines belong to a group or a body.
+    const line = stripGoComment(lines[index]);
+    const lineNumber = index + 1;
+
+    if (group) {
+      const entry = line.trim();
+      if (braceDepth === 0 && entry.startsWith(')')) {
+        group = null;
+        continue;
+      }
+      if (group === 'import') {
+        const module = parseImportSpec(entry);
+        if (module) {
+          imports.push({ raw: lines[index], module, lineNumber, typeOnly: false, kind: 'static' });
+        }
+        continue;
+      }
+      if (braceDepth === 0) {
+        const names = entry.match(/^([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)/)?.[1].split(/\s*,\s*/) ?? [];
+        const rest = entry.replace(/^[\w\s,]*?\s+/, '');
+        for (const name of names) {
+          addExport(name, group === 'type' ? getTypeKind(rest) : 'variable', lineNumber);
+        }
+      }
+      braceDepth += (entry.match(/{/g) ?? []).length - (entry.match(/}/g) ?? []).length;
+      continue;
+    }
+
+    const groupStart = line.match(/^(import|var|const|type)\s*\($/);
+    if (groupStart) {
+      group = groupStart[1] as GoDeclarationGroup;
+      braceDepth = 0;
+      continue;
+    }
+
+    const importMatch = line.match(/^import\s+(.+)$/);
+    if (importMatch) {
+      const module = parseImportSpec(importMatch[1]);
+      if (module) {
+        imports.push({ raw: lines[index], module, lineNumber, typeOnly: false, kind: 'static' });
+      }
+      continue;
+    }
+
+    const func = line.match(/^func\s+([A-Za-z_]\w*)\s*[[(]/);
+    if (func) {
+      addExport(func[1], 'function', lineNumber);
+      continue;
+    }
+
+    const typeMatch = line.match(/^type\s+([A-Za-z_]\w*)\s*(.*)$/);
+    if (typeMatch) {
+      addExport(typeMatch[1], getTypeKind(typeMatch[2]), lineNumber);
+      continue;
+    }
+
+    const value = line.match(/^(?:var|const)\s+([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)/);
+    for (const name of value ? value[1].split(/\s*,\s*/) : []) {
+      addExport(name, 'variable', lineNumber);
+    }
+  }
+
+  return { imports, exports };
+}
+
+export class GoImportResolver implements LanguageResolver {
+  // Package directory -> its non-test .go files.
+  private packages = new Map<string, string[]>();
+  private modules: GoModule[];
+
+  constructor(allFilePaths: Set<string>, modules: GoModule[]) {
+    this.modules = [...modules].sort((a, b) => b.dir.length - a.dir.length);
+    for (const filePath of allFilePaths) {
+      if (filePath.endsWith('.go') && !filePath.endsWith('_test.go')) {
+        const dir = toRepoPath(posix.dirname(filePath));
+        this.packages.set(dir, [...(this.packages.get(dir) ?? []), filePath].sort());
+      }
+    }
+  }
+
+  private findPackageDir(importPath: string, currentFilePath: string): string | null {
+    const owner = this.modules.find((module) => module.dir === '' || currentFilePath.startsWith(`${module.dir}/`));
+    const within = (prefix: string) => importPath === prefix || importPath.startsWith(`${prefix}/`);
+    const join = (dir: string, prefix: string) => toRepoPath(posix.join(dir || '.', importPath.slice(prefix.length)));
+
+    if (owner) {
+      const replaced = Object.keys(owner.replaces)
+        .filter(within)
+        .sort((a, b) => b.length - a.length)[0];
+      if (replaced !== undefined) {
+        return join(owner.replaces[replaced], replaced);
+      }
+      const vendored = toRepoPath(posix.join(owner.dir, 'vendor', importPath));
+      if (this.packages.has(vendored)) {
+        return vendored;
+      }
+    }
+
+    // Any module of the repo (e.g. a go.work workspace), longest module path first.
+    const module = [...this.modules].sort((a, b) => b.path.length - a.path.length).find((entry) => within(entry.path));
+    return module ? join(module.dir, module.path) : null;
+  }
+
+  resolve(module: string, currentFilePath: string): string | null {
+    return this.resolveAll({ raw: module, module, lineNumber: 0, typeOnly: false, kind: 'static' }, currentFilePath)[0] ?? null;
+  }
+
+  // A package import depends on every file of the package.
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[] {
+    const dir = this.findPackageDir(parsedImport.module, currentFilePath);
+    return dir === null ? [] : (this.packages.get(dir) ?? []).filter((filePath) => filePath !== currentFilePath);
+  }
+}
+
+export const goLanguage: LanguageSupport = {
+  parse: (content) => parseGoModule(content),
+  async createResolver({ filePaths, blobPaths, readProjectFile }) {
+    const modules: GoModule[] = [];
+    for (const path of blobPaths.filter(isGoModFile).sort()) {
+      const content = await readProjectFile(path);
+      const module = content ? parseGoMod(content, toRepoPath(posix.dirname(path))) : null;
+      if (module) {
+        modules.push(module);
+      }
+    }
+    return { resolver: new GoImportResolver(filePaths, modules) };
+  },
+};
@@ -0,0 +1,190 @@
+import type { DependencyGraph } from './graph-service';
+
+export interface GraphDependent {
+  file_path: string;
+  distance: number;
+}
+
+export interface GraphQueryResult {
+  file_path: string;
+  found: boolean;
+  imports: string[];
+  imported_by: string[];
+  dependents: GraphDependent[];
+  depth: number;
+  path?: {
+    target_path: string;
+    direction: 'imports' | 'imported_by' | null;
+    files: string[] | null;
+  };
+}
+
+export const DEFAULT_GRAPH_QUERY_DEPTH = 2;
+export const MAX_GRAPH_QUERY_DEPTH = 6;
+
+type Adjacency = Map<string, string[]>;
+
+export function buildAdjacency(graph: DependencyGraph): { imports: Adjacency; importers: Adjacency } {
+  const imports: Adjacency = new Map();
+  const importers: Adjacency = new Map();
+  const link = (adjacency: Adjacency, from: string, to: string) => {
+    const neighbors = adjacency.get(from);
+    if (neighbors) {
+      neighbors.push(to);
+    } else {
+      adjacency.set(from, [to]);
+    }
+  };
+  for (const edge of graph.edges) {
+    link(imports, edge.source, edge.target);
+    link(importers, edge.target, edge.source);
+  }
+  return { imports, importers };
+}
+
+export function clampGraphQueryDepth(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return DEFAULT_GRAPH_QUERY_DEPTH;
+  }
+  return Math.min(MAX_GRAPH_QUERY_DEPTH, Math.max(1, Math.floor(value)));
+}
+
+// Breadth-first over importers: every file whose build or behaviour a change to filePath can reach.
+// Callers that already built the graph's adjacency pass `importers` to skip another scan of the edges.
+export function getTransitiveDependents(
+  graph: DependencyGraph,
+  filePath: string,
+  maxDepth: number,
+  importers = buildAdjacency(graph).importers,
+): GraphDependent[] {
+  const distances = new Map<string, number>([[filePath, 0]]);
+  let frontier = [filePath];
+
+  for (let distance = 1; distance <= maxDepth && frontier.length > 0; distance += 1) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const importer of importers.get(current) ?? []) {
+        if (!distances.has(importer)) {
+          distances.set(importer, distance);
+          next.push(importer);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  distances.delete(filePath);
+  return [...distances.entries()]
+    .map(([path, distance]) => ({ file_path: path, distance }))
+    .sort((a, b) => a.distance - b.distance || a.file_path.localeCompare(b.file_path));
+}
+
+function findPath(adjacency: Adjacency, from: string, to: string): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path: string[] = [];
+      for (let step: string | null = to; step !== null; step = previous.get(step) ?? null) {
+        path.unshift(step);
+      }
+      return path;
+    }
+
+    for (const next of adjacency.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+// Follows import edges from `from` to `to`; when there is no such chain, tries the reverse so
+// callers still learn that `to` (transitively) imports `from`.
+export function findShortestImportPath(
+  graph: DependencyGraph,
+  from: string,
+  to: string,
+  imports = buildAdjacency(graph).imports,
+): { direction: 'imports' | 'imported_by' | null; files: string[] | null } {
+  const forward = findPath(imports, from, to);
+  if (forward) {
+    return { direction: 'imports', files: forward };
+  }
+
+  const backward = findPath(imports, to, from);
+  if (backward) {
+    return { direction: 'imported_by', files: backward.reverse() };
+  }
+
+  return { direction: null, files: null };
+}
+
+export function queryDependencyGraph(
+  graph: DependencyGraph,
+  options: { filePath: string; depth?: number; targetPath?: string },
+): GraphQueryResult {
+  const { imports, importers } = buildAdjacency(graph);
+  const depth = clampGraphQueryDepth(options.depth);
+  const result: GraphQueryResult = {
+    file_path: options.filePath,
+    found: graph.nodes.some((node) => node.id === options.filePath),
+    imports: [...new Set(imports.get(options.filePath) ?? [])].sort(),
+    imported_by: [...new Set(importers.get(options.filePath) ?? [])].sort(),
+    dependents: getTransitiveDependents(graph, options.filePath, depth, importers),
+    depth,
+  };
+
+  if (options.targetPath) {
+    result.path = {
+      target_path: options.targetPath,
+      ...findShortestImportPath(graph, options.filePath, options.targetPath, imports),
+    };
+  }
+
+  return result;
+}
+
+export interface GraphPackageGroup {
+  // null collects files outside every workspace package (root configs, scripts).
+  package: string | null;
+  dir: string | null;
+  files: string[];
+  // Other packages this package's files import.
+  depends_on: string[];
+}
+
+export function groupNodesByPackage(graph: DependencyGraph): GraphPackageGroup[] {
+  const packageOf = new Map(graph.nodes.map((node) => [node.id, node.package ?? null]));
+  const dirs = new Map((graph.packages ?? []).map((entry) => [entry.name, entry.dir]));
+  const groups = new Map<string | null, GraphPackageGroup>();
+  const groupFor = (name: string | null) => {
+    let group = groups.get(name);
+    if (!group) {
+      group = { package: name, dir: name === null ? null : (dirs.get(name) ?? null), files: [], depends_on: [] };
+      groups.set(name, group);
+    }
+    return group;
+  };
+
+  for (const node of graph.nodes) {
+    groupFor(node.package ?? null).files.push(node.id);
+  }
+  for (const edge of graph.edges) {
+    const from = packageOf.get(edge.source) ?? null;
+    const to = packageOf.get(edge.target) ?? null;
+    const group = groupFor(from);
+    if (to !== null && to !== from && !group.depends_on.includes(to)) {
+      group.depends_on.push(to);
+    }
+  }
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, files: group.files.sort(), depends_on: group.depends_on.sort() }))
+    .sort((a, b) => (a.package === null ? 1 : b.package === null ? -1 : a.package.localeCompare(b.package)));
+}
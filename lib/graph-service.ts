@@ -1,34 +1,72 @@
-import { Buffer } from 'node:buffer';
-import {
-  createOctokitClient,
-  getGitHubQuotaErrorMessage,
-  getGitHubQuotaResetMs,
-  getRepoHeadCached,
-  isGitHubQuotaError,
-  normalizeRepoUrl,
-  parseRepoUrl,
-} from './github';
+import { posix } from 'node:path';
+import { getGitHubQuotaErrorMessage, getGitHubQuotaResetMs, isGitHubQuotaError } from './github';
+import { RepoGraphSource, type GraphSource } from './graph-source';
 import { kv } from './kv';
+import { LocalGitGraphSource, type LocalGraphSourceConfig } from './local-git-source';
+import { WHOLE_MODULE_SYMBOL, toSymbolScope } from './lock-scope';
 import { getLocks } from './locks';
-import { getFileLanguage, parseImports } from './parser';
-import { ImportResolver } from './resolver';
+import { createLanguageResolvers, getLanguageSupport } from './languages';
+import { getFileLanguage, type ParsedImport, type SymbolKind } from './parser';
+import {
+  adoptLegacyRepoKeys,
+  createRepoProvider,
+  getLegacyRepoKeyScope,
+  getRepoKeyScope,
+  normalizeRepoUrl,
+} from './repo-providers';
+import { isRustModuleTarget } from './rust-modules';
+import { findWorkspacePackage, loadWorkspacePackages } from './workspaces';
 
 export interface GraphNode {
   id: string;
   type: 'file';
   size?: number;
   language?: string;
+  // Name of the innermost workspace package (npm/yarn/pnpm `workspaces`) containing the file.
+  package?: string;
+}
+
+export interface GraphPackage {
+  name: string;
+  dir: string;
 }
 
+export type GraphEdgeType = 'runtime' | 'type-only' | 'dynamic' | 're-export';
+
 export interface GraphEdge {
   source: string;
   target: string;
-  type: 'import';
+  type: GraphEdgeType;
+}
+
+// An exported symbol. Its id ("lib/x.ts#parseImports") doubles as the lock scope for that symbol.
+export interface SymbolNode {
+  id: string;
+  type: 'symbol';
+  file: string;
+  name: string;
+  kind: SymbolKind;
+  line: number;
+  // Re-exports point at the symbol they forward; "x.ts#*" for `export * as ns from './x'`.
+  reexport_of?: string;
+}
+
+// A file using a symbol of another file. The target "x.ts#*" means the whole module is used
+// (namespace import, require, import()), i.e. every symbol of x.ts.
+export interface SymbolEdge {
+  source: string;
+  target: string;
+  type: GraphEdgeType;
 }
 
 export interface DependencyGraph {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  // Absent from graphs cached before symbols were extracted.
+  symbols?: SymbolNode[];
+  symbol_edges?: SymbolEdge[];
+  // Workspace packages of a monorepo; absent or empty for single-package repos.
+  packages?: GraphPackage[];
   locks: Record<string, unknown>;
   version: string;
   metadata: {
@@ -38,10 +76,54 @@ export interface DependencyGraph {
   };
 }
 
-interface RepoFile {
-  path: string;
-  sha: string;
-  size?: number;
+// When one file reaches a target several ways, the edge keeps the class that matters most at runtime.
+const EDGE_TYPE_PRIORITY: Record<GraphEdgeType, number> = {
+  runtime: 3,
+  're-export': 2,
+  dynamic: 1,
+  'type-only': 0,
+};
+
+export function isGraphEdgeType(value: unknown): value is GraphEdgeType {
+  return typeof value === 'string' && value in EDGE_TYPE_PRIORITY;
+}
+
+export function classifyImportEdge(parsedImport: Pick<ParsedImport, 'typeOnly' | 'kind'>): GraphEdgeType {
+  if (parsedImport.typeOnly) {
+    return 'type-only';
+  }
+  if (parsedImport.kind === 'dynamic') {
+    return 'dynamic';
+  }
+  return parsedImport.kind === 're-export' ? 're-export' : 'runtime';
+}
+
+// `from pkg import tools` where tools is itself a module uses that module as a whole.
+function isPythonSubmoduleTarget(target: string, name: string): boolean {
+  return posix.basename(target) === `${name}.py` || target.endsWith(`/${name}/__init__.py`);
+}
+
+// Stylesheets, JSON and assets export no symbols: `import styles from './x.module.css'` uses the whole file.
+function isLeafFileTarget(target: string): boolean {
+  const language = getFileLanguage(target);
+  return language === 'css' || language === 'json' || language === 'config' || language === 'asset';
+}
+
+export function getImportedSymbolIds(parsedImport: Pick<ParsedImport, 'names'>, target: string): string[] {
+  const names = parsedImport.names;
+  if (!names || names.includes(WHOLE_MODULE_SYMBOL)) {
+    return [toSymbolScope(target, WHOLE_MODULE_SYMBOL)];
+  }
+  if (target.endsWith('.py') && names.some((name) => isPythonSubmoduleTarget(target, name))) {
+    return [toSymbolScope(target, WHOLE_MODULE_SYMBOL)];
+  }
+  if (isLeafFileTarget(target) && names.length > 0) {
+    return [toSymbolScope(target, WHOLE_MODULE_SYMBOL)];
+  }
+  if (target.endsWith('.rs') && names.some((name) => isRustModuleTarget(target, name))) {
+    return [toSymbolScope(target, WHOLE_MODULE_SYMBOL)];
+  }
+  return names.map((name) => toSymbolScope(target, name));
 }
 
 const HEAD_CHECK_MIN_INTERVAL_MS = 20_000;
@@ -51,31 +133,42 @@ export class GraphService {
   private static inFlight = new Map<string, Promise<DependencyGraph>>();
   private repoUrl: string;
   private branch: string;
-  private owner: string;
-  private repo: string;
-  private octokitClient: ReturnType<typeof createOctokitClient>;
+  private authToken?: string;
+  private source: GraphSource | null = null;
 
   constructor(repoUrl: string, branch = 'main', authToken?: string) {
     this.repoUrl = normalizeRepoUrl(repoUrl);
     this.branch = branch.trim() || 'main';
-    this.octokitClient = createOctokitClient(authToken);
-
-    const parsed = parseRepoUrl(this.repoUrl);
-    this.owner = parsed.owner;
-    this.repo = parsed.repo;
+    this.authToken = authToken;
   }
 
-  private getKeys() {
+  private getKeysForScope(repoScope: string) {
+    const scope = `${repoScope}:${this.branch}`;
     return {
-      graph: `graph:${this.repoUrl}:${this.branch}`,
-      meta: `graph:meta:${this.repoUrl}:${this.branch}`,
-      fileShas: `graph:file_shas:${this.repoUrl}:${this.branch}`,
-      fileContents: `graph:file_contents:${this.repoUrl}:${this.branch}`,
-      headCheckedAt: `graph:head_checked_at:${this.repoUrl}:${this.branch}`,
-      rateLimitedUntil: `graph:rate_limited_until:${this.repoUrl}:${this.branch}`,
+      graph: `graph:${scope}`,
+      meta: `graph:meta:${scope}`,
+      fileShas: `graph:file_shas:${scope}`,
+      fileContents: `graph:file_contents:${scope}`,
+      resolverConfig: `graph:resolver_config:${scope}`,
+      source: `graph:source:${scope}`,
+      headCheckedAt: `graph:head_checked_at:${scope}`,
+      rateLimitedUntil: `graph:rate_limited_until:${scope}`,
     };
   }
 
+  // Graph caches written before provider scoping are moved onto the scoped keys before first use.
+  private async getKeys() {
+    const keys = this.getKeysForScope(getRepoKeyScope(this.repoUrl));
+    const legacyScope = getLegacyRepoKeyScope(this.repoUrl);
+    if (legacyScope) {
+      const legacyKeys = this.getKeysForScope(legacyScope);
+      await adoptLegacyRepoKeys(
+        (Object.keys(keys) as Array<keyof typeof keys>).map((name) => [legacyKeys[name], keys[name]]),
+      );
+    }
+    return keys;
+  }
+
   private getInFlightKey(): string {
     return `${this.repoUrl}:${this.branch}`;
   }
@@ -93,17 +186,17 @@ export class GraphService {
   }
 
   private async getRateLimitedUntil(): Promise<number | null> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     return this.readNumberKey(keys.rateLimitedUntil);
   }
 
   private async setRateLimitedUntil(untilMs: number): Promise<void> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     await kv.set(keys.rateLimitedUntil, untilMs);
   }
 
   private async getCachedFileContent(sha: string): Promise<string | null> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     try {
       const cached = await kv.hget(keys.fileContents, sha);
       return typeof cached === 'string' ? cached : null;
@@ -113,7 +206,7 @@ export class GraphService {
   }
 
   private async setCachedFileContent(sha: string, content: string): Promise<void> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     try {
       await kv.hset(keys.fileContents, { [sha]: content });
     } catch (error) {
@@ -122,13 +215,64 @@ export class GraphService {
     }
   }
 
+  async getLocalSourceConfig(): Promise<LocalGraphSourceConfig | null> {
+    const stored = await kv.get((await this.getKeys()).source);
+    const config = (typeof stored === 'string' ? JSON.parse(stored) : stored) as Partial<LocalGraphSourceConfig> | null;
+    if (config?.type !== 'local' || typeof config.path !== 'string') {
+      return null;
+    }
+    return { type: 'local', path: config.path, worktree: config.worktree === true };
+  }
+
+  // Builds this repo/branch from a path on the server from now on; null switches back to the repository host. The
+  // graph keeps its cache keys, so lock routes use it unchanged.
+  async setLocalSourceConfig(config: LocalGraphSourceConfig | null): Promise<void> {
+    const keys = await this.getKeys();
+    if (config) {
+      await kv.set(keys.source, JSON.stringify(config));
+    } else {
+      await kv.del(keys.source);
+    }
+    this.source = null;
+  }
+
+  private async getSource(): Promise<GraphSource> {
+    if (!this.source) {
+      const localConfig = await this.getLocalSourceConfig();
+      this.source = localConfig
+        ? new LocalGitGraphSource(localConfig, this.branch)
+        : new RepoGraphSource(createRepoProvider(this.repoUrl, this.authToken), this.branch);
+    }
+    return this.source;
+  }
+
+  private async fetchFileContent(
+    path: string,
+    sha: string,
+    ref: string,
+  ): Promise<{ content: string; fromCache: boolean } | null> {
+    const cachedContent = await this.getCachedFileContent(sha);
+    if (cachedContent !== null) {
+      return { content: cachedContent, fromCache: true };
+    }
+
+    const source = await this.getSource();
+    const content = await source.readFile(path, sha, ref);
+    if (content === null) {
+      return null;
+    }
+
+    await this.setCachedFileContent(sha, content);
+    return { content, fromCache: false };
+  }
+
   private async setHeadCheckedAt(timestamp: number): Promise<void> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     await kv.set(keys.headCheckedAt, timestamp);
   }
 
   private async shouldSkipHeadCheck(now: number): Promise<boolean> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     const lastHeadCheckedAt = await this.readNumberKey(keys.headCheckedAt);
     if (!lastHeadCheckedAt) {
       return false;
@@ -161,7 +305,7 @@ export class GraphService {
   }
 
   async getCached(): Promise<DependencyGraph | null> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     const cached = (await kv.get(keys.graph)) as string | null;
 
     if (!cached) {
@@ -170,6 +314,8 @@ export class GraphService {
 
     try {
       const graph = JSON.parse(cached) as DependencyGraph;
+      // Graphs cached before edges were classified say 'import'; serve them as runtime until the next rebuild.
+      graph.edges = graph.edges.map((edge) => (isGraphEdgeType(edge.type) ? edge : { ...edge, type: 'runtime' }));
       graph.locks = await getLocks(this.repoUrl, this.branch);
       return graph;
     } catch {
@@ -177,15 +323,14 @@ export class GraphService {
     }
   }
 
+  // The version (head) of the cached graph, read without loading the graph itself.
+  async getCachedVersion(): Promise<string | null> {
+    return ((await kv.get((await this.getKeys()).meta)) as string | null) ?? null;
+  }
+
   async needsUpdate(): Promise<{ needsUpdate: boolean; currentHead: string }> {
-    const keys = this.getKeys();
-    const currentHead = await getRepoHeadCached(
-      this.owner,
-      this.repo,
-      this.branch,
-      undefined,
-      this.octokitClient,
-    );
+    const keys = await this.getKeys();
+    const currentHead = await (await this.getSource()).getHead();
     const storedHead = (await kv.get(keys.meta)) as string | null;
 
     return {
@@ -195,16 +340,11 @@ export class GraphService {
   }
 
   async generate(force = false): Promise<DependencyGraph> {
-    const keys = this.getKeys();
+    const keys = await this.getKeys();
     const startTime = Date.now();
 
-    const currentHead = await getRepoHeadCached(
-      this.owner,
-      this.repo,
-      this.branch,
-      force ? 0 : HEAD_CHECK_MIN_INTERVAL_MS,
-      this.octokitClient,
-    );
+    const source = await this.getSource();
+    const currentHead = await source.getHead(force ? 0 : HEAD_CHECK_MIN_INTERVAL_MS);
 
     if (!force) {
       const storedHead = (await kv.get(keys.meta)) as string | null;
@@ -216,25 +356,46 @@ export class GraphService {
       }
     }
 
-    const { data: treeData } = await this.octokitClient.rest.git.getTree({
-      owner: this.owner,
-      repo: this.repo,
-      tree_sha: currentHead,
-      recursive: 'true',
+    const blobs = await source.listFiles(currentHead);
+    const files = blobs.filter((blob) => getFileLanguage(blob.path) !== null);
+
+    // Project files (tsconfig/jsconfig `paths`, Python layouts, go.mod, Cargo.toml) decide how imports
+    // resolve. tsconfig `extends` may point at any JSON file in the tree, so every blob SHA is kept.
+    const blobShas = new Map(blobs.map((blob) => [blob.path, blob.sha]));
+    const readConfigShas: Record<string, string> = {};
+    const readConfigFile = async (path: string): Promise<string | null> => {
+      const sha = blobShas.get(path);
+      if (!sha) {
+        return null;
+      }
+      readConfigShas[path] = sha;
+      try {
+        return (await this.fetchFileContent(path, sha, currentHead))?.content ?? null;
+      } catch (error) {
+        if (isGitHubQuotaError(error)) {
+          throw error;
+        }
+        console.warn(`[Graph] Failed to read ${path}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    };
+    const allFilePaths = new Set(files.map((file) => file.path));
+    const blobPaths = [...blobShas.keys()];
+    const workspacePackages = await loadWorkspacePackages(blobPaths, readConfigFile);
+    const { resolvers, fingerprint: languageFingerprint } = await createLanguageResolvers({
+      filePaths: allFilePaths,
+      blobPaths,
+      readProjectFile: readConfigFile,
+      workspacePackages,
     });
-
-    const supportedExtensions = ['.ts', '.tsx', '.js', '.jsx', '.py'];
-    const files = (treeData.tree ?? [])
-      .filter((item) => item.type === 'blob' && typeof item.path === 'string')
-      .filter((item) => supportedExtensions.some((ext) => item.path!.endsWith(ext)))
-      .map((item) => ({
-        path: item.path as string,
-        sha: item.sha as string,
-        size: item.size ?? undefined,
-      })) as RepoFile[];
+    const resolverConfigFingerprint = [
+      ...Object.keys(readConfigShas)
+        .sort()
+        .map((path) => `${path}@${readConfigShas[path]}`),
+      languageFingerprint,
+    ].join(',');
 
     const storedShas = ((await kv.hgetall(keys.fileShas)) as Record<string, string> | null) ?? {};
-    const allFilePaths = new Set(files.map((file) => file.path));
 
     const newFiles = files.filter((file) => !storedShas[file.path]);
     const changedFiles = files.filter((file) => storedShas[file.path] && storedShas[file.path] !== file.sha);
@@ -242,6 +403,8 @@ export class GraphService {
 
     let nodes: GraphNode[] = [];
     let edges: GraphEdge[] = [];
+    let symbols: SymbolNode[] = [];
+    let symbolEdges: SymbolEdge[] = [];
     let hasExistingGraph = false;
 
     const existing = (await kv.get(keys.graph)) as string | null;
@@ -250,15 +413,26 @@ export class GraphService {
         const parsed = JSON.parse(existing) as DependencyGraph;
         nodes = parsed.nodes;
         edges = parsed.edges;
-        hasExistingGraph = true;
+        symbols = parsed.symbols ?? [];
+        symbolEdges = parsed.symbol_edges ?? [];
+        // Unclassified edges or missing symbols from an older graph format need every file re-parsed.
+        hasExistingGraph =
+          parsed.edges.every((edge) => isGraphEdgeType(edge.type)) &&
+          Array.isArray(parsed.symbols) &&
+          Array.isArray(parsed.symbol_edges);
       } catch {
         nodes = [];
         edges = [];
       }
 
       if (deletedFiles.length > 0) {
+        const deletedSet = new Set(deletedFiles);
         nodes = nodes.filter((node) => !deletedFiles.includes(node.id));
         edges = edges.filter((edge) => !deletedFiles.includes(edge.source) && !deletedFiles.includes(edge.target));
+        symbols = symbols.filter((symbol) => !deletedSet.has(symbol.file));
+        symbolEdges = symbolEdges.filter(
+          (edge) => !deletedSet.has(edge.source) && !deletedSet.has(edge.target.slice(0, edge.target.lastIndexOf('#'))),
+        );
 
         // Clean up cached content for deleted files
         const deletedShas = deletedFiles.map(filePath => storedShas[filePath]).filter(Boolean);
@@ -274,6 +448,8 @@ export class GraphService {
       if (changedFiles.length > 0) {
         const changedSet = new Set(changedFiles.map((file) => file.path));
         edges = edges.filter((edge) => !changedSet.has(edge.source));
+        symbols = symbols.filter((symbol) => !changedSet.has(symbol.file));
+        symbolEdges = symbolEdges.filter((edge) => !changedSet.has(edge.source));
       }
     }
 
@@ -285,20 +461,34 @@ export class GraphService {
       // New files can make previously unresolved imports (from unchanged files) resolvable.
       // Rebuild to avoid missing new inbound edges.
       newFiles.length > 0 ||
+      // Alias or source-root changes can retarget imports in files whose own content did not change.
+      ((await kv.get(keys.resolverConfig)) ?? '') !== resolverConfigFingerprint ||
       (files.length > 0 && nodes.length === 0 && incrementalFiles.length === 0);
 
     if (needsFullRebuild) {
       console.log('[Graph] Full rebuild triggered');
       nodes = [];
       edges = [];
+      symbols = [];
+      symbolEdges = [];
     }
 
-    const resolver = new ImportResolver(allFilePaths);
     const filesToProcess = needsFullRebuild ? files : incrementalFiles;
     let processedCount = 0;
     let cacheHits = 0;
     let cacheMisses = 0;
-    const edgeSet = new Set(edges.map((edge) => `${edge.source}=>${edge.target}`));
+    const edgeIndex = new Map(edges.map((edge) => [`${edge.source}=>${edge.target}`, edge]));
+    const symbolEdgeIndex = new Map(symbolEdges.map((edge) => [`${edge.source}=>${edge.target}`, edge]));
+    const addEdge = <T extends GraphEdge | SymbolEdge>(list: T[], index: Map<string, T>, edge: T) => {
+      const edgeKey = `${edge.source}=>${edge.target}`;
+      const existingEdge = index.get(edgeKey);
+      if (!existingEdge) {
+        list.push(edge);
+        index.set(edgeKey, edge);
+      } else if (EDGE_TYPE_PRIORITY[edge.type] > EDGE_TYPE_PRIORITY[existingEdge.type]) {
+        existingEdge.type = edge.type;
+      }
+    };
 
     for (const file of filesToProcess) {
       const filePath = file.path;
@@ -316,51 +506,51 @@ export class GraphService {
         existingNode.language = getFileLanguage(filePath) ?? undefined;
       }
 
-      try {
-        let content: string | null = null;
+      const support = getLanguageSupport(filePath);
+      const resolver = support ? resolvers.get(support) : undefined;
+      if (support?.skipContent) {
+        processedCount += 1;
+        continue;
+      }
+      if (!support || !resolver) {
+        continue;
+      }
 
-        // Try to get content from cache first (by SHA)
-        const cachedContent = await this.getCachedFileContent(file.sha);
-        if (cachedContent !== null) {
-          content = cachedContent;
+      try {
+        // Content is cached by SHA, so unchanged files never cost an API call.
+        const fetched = await this.fetchFileContent(filePath, file.sha, currentHead);
+        if (!fetched) {
+          continue;
+        }
+        const content = fetched.content;
+        if (fetched.fromCache) {
           cacheHits += 1;
         } else {
-          // Cache miss - fetch from GitHub
-          const { data: contentData } = await this.octokitClient.rest.repos.getContent({
-            owner: this.owner,
-            repo: this.repo,
-            path: filePath,
-            ref: currentHead,
-          });
-
-          if (!('content' in contentData) || typeof contentData.content !== 'string') {
-            continue;
-          }
-
-          content = Buffer.from(contentData.content, 'base64').toString('utf-8');
-
-          // Cache the content for future use
-          await this.setCachedFileContent(file.sha, content);
           cacheMisses += 1;
         }
 
-        const language = getFileLanguage(filePath);
-        if (!language) {
-          continue;
-        }
-
-        const imports = parseImports(content, filePath, language);
-        for (const parsedImport of imports) {
-          const resolved = resolver.resolve(parsedImport.module, filePath);
-          if (!resolved) {
-            continue;
+        const parsedModule = support.parse(content, filePath);
+        for (const parsedImport of parsedModule.imports) {
+          const type = classifyImportEdge(parsedImport);
+          for (const resolved of resolver.resolveAll(parsedImport, filePath)) {
+            addEdge(edges, edgeIndex, { source: filePath, target: resolved, type });
+            for (const symbolId of getImportedSymbolIds(parsedImport, resolved)) {
+              addEdge(symbolEdges, symbolEdgeIndex, { source: filePath, target: symbolId, type });
+            }
           }
+        }
 
-          const edgeKey = `${filePath}=>${resolved}`;
-          if (!edgeSet.has(edgeKey)) {
-            edges.push({ source: filePath, target: resolved, type: 'import' });
-            edgeSet.add(edgeKey);
-          }
+        for (const exported of parsedModule.exports) {
+          const forwardedFrom = exported.from ? resolver.resolve(exported.from.module, filePath) : null;
+          symbols.push({
+            id: toSymbolScope(filePath, exported.name),
+            type: 'symbol',
+            file: filePath,
+            name: exported.name,
+            kind: exported.kind,
+            line: exported.lineNumber,
+            ...(forwardedFrom && exported.from ? { reexport_of: toSymbolScope(forwardedFrom, exported.from.name) } : {}),
+          });
         }
 
         processedCount += 1;
@@ -386,10 +576,24 @@ export class GraphService {
       }
       return a.target.localeCompare(b.target);
     });
+    for (const node of nodes) {
+      const workspacePackage = findWorkspacePackage(node.id, workspacePackages);
+      if (workspacePackage) {
+        node.package = workspacePackage.name;
+      } else {
+        delete node.package;
+      }
+    }
+
+    symbols.sort((a, b) => a.id.localeCompare(b.id));
+    symbolEdges.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
 
     const graph: DependencyGraph = {
       nodes,
       edges,
+      symbols,
+      symbol_edges: symbolEdges,
+      packages: workspacePackages.map(({ name, dir }) => ({ name, dir })),
       locks: {},
       version: currentHead,
       metadata: {
@@ -402,6 +606,7 @@ export class GraphService {
     const pipeline = (kv as any).pipeline();
     pipeline.set(keys.graph, JSON.stringify(graph));
     pipeline.set(keys.meta, currentHead);
+    pipeline.set(keys.resolverConfig, resolverConfigFingerprint);
 
     if (deletedFiles.length > 0) {
       pipeline.hdel(keys.fileShas, ...deletedFiles);
@@ -418,7 +623,7 @@ export class GraphService {
     console.log(
       `[Graph] Complete in ${elapsed}ms: ${nodes.length} nodes, ${edges.length} edges | ` +
       `Cache: ${cacheHits} hits, ${cacheMisses} misses (${cacheEfficiency}% hit rate) | ` +
-      `GitHub API calls saved: ${cacheHits}`
+      `${source.kind === 'local' ? 'Local reads' : 'API calls'} saved: ${cacheHits}`
     );
 
     graph.locks = await getLocks(this.repoUrl, this.branch);
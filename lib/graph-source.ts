@@ -0,0 +1,42 @@
+import type { RepoProvider, RepoProviderKind } from './repo-providers';
+
+// One blob of the tree a graph is built from. File contents are cached by `sha`, so it must change
+// whenever the content does: git sources use blob ids.
+export interface GraphSourceEntry {
+  path: string;
+  sha: string;
+  size?: number;
+}
+
+// Where GraphService reads a branch from. `head` identifies one snapshot of the tree; the graph is
+// rebuilt when it changes.
+export interface GraphSource {
+  readonly kind: RepoProviderKind | 'local';
+  getHead(maxAgeMs?: number): Promise<string>;
+  listFiles(head: string): Promise<GraphSourceEntry[]>;
+  readFile(path: string, sha: string, head: string): Promise<string | null>;
+}
+
+// A branch of a GitHub, GitLab or Bitbucket repository.
+export class RepoGraphSource implements GraphSource {
+  readonly kind: RepoProviderKind;
+
+  constructor(
+    private provider: RepoProvider,
+    private branch: string,
+  ) {
+    this.kind = provider.kind;
+  }
+
+  getHead(maxAgeMs?: number): Promise<string> {
+    return this.provider.getHead(this.branch, maxAgeMs);
+  }
+
+  listFiles(head: string): Promise<GraphSourceEntry[]> {
+    return this.provider.listTree(head);
+  }
+
+  readFile(path: string, sha: string, head: string): Promise<string | null> {
+    return this.provider.readBlob(path, sha, head);
+  }
+}
@@ -0,0 +1,141 @@
+import { buildAdjacency } from './graph-query';
+import { GraphService, type DependencyGraph } from './graph-service';
+import { lockScopeCovers, normalizeLockScope } from './lock-scope';
+import { expireLapsedLocks, findCoveringLocks, type FileLock, type LockEntry } from './locks';
+
+export interface ImpactLockState {
+  status: LockEntry['status'];
+  covered_by?: string;
+  holders: Array<Pick<LockEntry, 'user_id' | 'user_name' | 'status' | 'message'>>;
+}
+
+export interface ImpactedFile {
+  file_path: string;
+  depth: number;
+  via: string | null;
+  lock: ImpactLockState | null;
+}
+
+export type ImpactReport =
+  | { available: false; reason: string; files: string[] }
+  | {
+      available: true;
+      graph_version: string;
+      files: string[];
+      roots: ImpactedFile[];
+      unmatched: string[];
+      dependents: ImpactedFile[];
+      total: number;
+      locked: number;
+    };
+
+// Accepts an array (MCP) or comma-separated strings (query string), deduplicated in request order.
+export function parseImpactFilePaths(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : [value];
+  const paths = raw
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim().replace(/^\.\//, ''))
+    .filter(Boolean);
+  return [...new Set(paths)];
+}
+
+function getLockState(locks: Record<string, FileLock>, filePath: string): ImpactLockState | null {
+  const covering = locks[filePath] ? null : findCoveringLocks(locks, filePath)[0];
+  const lock = locks[filePath] ?? covering?.lock;
+  if (!lock) {
+    return null;
+  }
+
+  return {
+    status: lock.status,
+    ...(covering ? { covered_by: covering.scope } : {}),
+    holders: lock.holders.map(({ user_id, user_name, status, message }) => ({ user_id, user_name, status, message })),
+  };
+}
+
+// Requested scopes may be directories or globs; they stand for every graph file they cover.
+function resolveRoots(graph: DependencyGraph, filePaths: string[]): string[] {
+  const scopes = filePaths.map(normalizeLockScope).filter(Boolean);
+  return graph.nodes
+    .map((node) => node.id)
+    .filter((id) => scopes.some((scope) => lockScopeCovers(scope, id)));
+}
+
+// Multi-source breadth-first walk over importers. `depth` is the distance to the nearest root and
+// `via` the file one hop closer to it, so callers can rebuild why a file is affected.
+export function computeImpact(
+  graph: DependencyGraph,
+  locks: Record<string, FileLock>,
+  filePaths: string[],
+  maxDepth?: number | null,
+): { roots: ImpactedFile[]; unmatched: string[]; dependents: ImpactedFile[] } {
+  const { importers } = buildAdjacency(graph);
+
+  const roots = resolveRoots(graph, filePaths);
+  const visited = new Map<string, { depth: number; via: string | null }>(roots.map((root) => [root, { depth: 0, via: null }]));
+  let frontier = roots;
+
+  for (let depth = 1; frontier.length > 0 && (maxDepth == null || depth <= maxDepth); depth += 1) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const importer of importers.get(current) ?? []) {
+        if (!visited.has(importer)) {
+          visited.set(importer, { depth, via: current });
+          next.push(importer);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const entries = [...visited.entries()]
+    .map(([filePath, { depth, via }]) => ({ file_path: filePath, depth, via, lock: getLockState(locks, filePath) }))
+    .sort((a, b) => a.depth - b.depth || a.file_path.localeCompare(b.file_path));
+
+  const scopes = filePaths.map(normalizeLockScope).filter(Boolean);
+  return {
+    roots: entries.filter((entry) => entry.depth === 0),
+    unmatched: scopes.filter((scope) => !roots.some((root) => lockScopeCovers(scope, root))),
+    dependents: entries.filter((entry) => entry.depth > 0),
+  };
+}
+
+// Reads only the cached graph, like check_status: impact queries must not trigger a rebuild. Lapsed locks are
+// swept first so the locks getCached() attaches to the graph only name live holders.
+export async function analyzeImpact(
+  repoUrl: string,
+  branch: string,
+  filePaths: string[],
+  maxDepth?: number | null,
+): Promise<ImpactReport> {
+  await expireLapsedLocks(repoUrl, branch);
+
+  let graph: DependencyGraph | null = null;
+  try {
+    graph = await new GraphService(repoUrl, branch).getCached();
+  } catch {
+    graph = null;
+  }
+
+  if (!graph) {
+    return {
+      available: false,
+      reason: 'Graph not generated yet; open the Relay UI or GET /api/graph first',
+      files: filePaths,
+    };
+  }
+
+  const locks = graph.locks as Record<string, FileLock>;
+  const { roots, unmatched, dependents } = computeImpact(graph, locks, filePaths, maxDepth);
+  return {
+    available: true,
+    graph_version: graph.version,
+    files: filePaths,
+    roots,
+    unmatched,
+    dependents,
+    total: dependents.length,
+    locked: dependents.filter((entry) => entry.lock !== null).length,
+  };
+}
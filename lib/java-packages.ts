@@ -0,0 +1,128 @@
+import { posix } from 'node:path';
+import type { LanguageResolver, LanguageSupport } from './languages';
+import type { ExportedSymbol, ParsedImport, ParsedModule, SymbolKind } from './parser';
+import { toRepoPath } from './tsconfig-paths';
+
+const JAVA_TYPE_KINDS: Record<string, SymbolKind> = {
+  class: 'class',
+  record: 'class',
+  interface: 'interface',
+  '@interface': 'interface',
+  enum: 'enum',
+};
+
+function stripJavaComments(content: string): string {
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '))
+    .replace(/\/\/.*$/gm, '')
+    .replace(/"(?:\\.|[^"\\\n])*"/g, (literal) => `"${' '.repeat(literal.length - 2)}"`);
+}
+
+// Imports name a class (or a package with `.*`); same-package references need no import and are not
+// seen. Exports are the public top-level types of the file.
+export function parseJavaModule(content: string): ParsedModule {
+  const imports: ParsedImport[] = [];
+  const exports: ExportedSymbol[] = [];
+  const lines = stripJavaComments(content).split('\n');
+  const rawLines = content.split('\n');
+  let depth = 0;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+
+    if (depth === 0) {
+      const importMatch = line.match(/^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;/);
+      if (importMatch) {
+        const [, isStatic, name, wildcard] = importMatch;
+        const segments = name.split('.');
+        // `import static a.b.C.member` and `import static a.b.C.*` both use class C.
+        const module = isStatic && !wildcard ? segments.slice(0, -1).join('.') : name;
+        const names = !isStatic && wildcard ? ['*'] : [module.split('.').pop()!];
+        imports.push({ raw: rawLines[index], module, lineNumber, typeOnly: false, kind: 'static', names });
+      }
+
+      const type = line.match(
+        /^\s*public\s+(?:(?:abstract|final|sealed|non-sealed|static|strictfp)\s+)*(class|interface|enum|record|@interface)\s+([A-Za-z_$][\w$]*)/,
+      );
+      if (type && !exports.some((entry) => entry.name === type[2])) {
+        exports.push({ name: type[2], kind: JAVA_TYPE_KINDS[type[1]], lineNumber });
+      }
+    }
+
+    depth += (line.match(/{/g) ?? []).length - (line.match(/}/g) ?? []).length;
+  });
+
+  return { imports, exports };
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const left = a.split('/');
+  const right = b.split('/');
+  let length = 0;
+  while (length < left.length && length < right.length && left[length] === right[length]) {
+    length += 1;
+  }
+  return length;
+}
+
+// Packages map to directories under some source root (src/main/java, app/src/test/java, ...), so a
+// class resolves by path suffix; among several matches the one sharing the most of the importer's
+// path wins (same Gradle/Maven module first).
+export class JavaImportResolver implements LanguageResolver {
+  private packages = new Map<string, string[]>();
+
+  constructor(allFilePaths: Set<string>) {
+    for (const filePath of allFilePaths) {
+      if (filePath.endsWith('.java')) {
+        const dir = toRepoPath(posix.dirname(filePath));
+        this.packages.set(dir, [...(this.packages.get(dir) ?? []), filePath].sort());
+      }
+    }
+  }
+
+  private closest(candidates: string[], currentFilePath: string): string | null {
+    return (
+      [...candidates].sort(
+        (a, b) => commonPrefixLength(b, currentFilePath) - commonPrefixLength(a, currentFilePath) || a.localeCompare(b),
+      )[0] ?? null
+    );
+  }
+
+  private findPackageDir(packageName: string, currentFilePath: string): string | null {
+    const suffix = packageName.split('.').join('/');
+    const dirs = [...this.packages.keys()].filter((dir) => dir === suffix || dir.endsWith(`/${suffix}`));
+    return this.closest(dirs, currentFilePath);
+  }
+
+  resolve(module: string, currentFilePath: string): string | null {
+    const segments = module.split('.');
+    // Nested classes (`a.b.Outer.Inner`) live in their outer class's file.
+    for (let length = segments.length; length >= 2; length -= 1) {
+      const suffix = `${segments.slice(0, length).join('/')}.java`;
+      const candidates = [...this.packages.values()]
+        .flat()
+        .filter((filePath) => filePath === suffix || filePath.endsWith(`/${suffix}`));
+      const file = this.closest(candidates, currentFilePath);
+      if (file) {
+        return file === currentFilePath ? null : file;
+      }
+    }
+    return null;
+  }
+
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[] {
+    if (parsedImport.names?.includes('*')) {
+      const dir = this.findPackageDir(parsedImport.module, currentFilePath);
+      return dir === null ? [] : (this.packages.get(dir) ?? []).filter((filePath) => filePath !== currentFilePath);
+    }
+    const resolved = this.resolve(parsedImport.module, currentFilePath);
+    return resolved ? [resolved] : [];
+  }
+}
+
+export const javaLanguage: LanguageSupport = {
+  parse: (content) => parseJavaModule(content),
+  async createResolver({ filePaths }) {
+    return { resolver: new JavaImportResolver(filePaths) };
+  },
+};
@@ -0,0 +1,108 @@
+import { goLanguage } from './go-modules';
+import { javaLanguage } from './java-packages';
+import { getFileLanguage, parseModule, type FileLanguage, type ParsedImport, type ParsedModule } from './parser';
+import { detectPythonSourceRoots } from './python-paths';
+import { ImportResolver } from './resolver';
+import { rustLanguage } from './rust-modules';
+import { stylesheetLanguage } from './stylesheet-imports';
+import { isPathConfigFile, loadPathAliasConfigs } from './tsconfig-paths';
+import type { WorkspacePackage } from './workspaces';
+
+export type ReadProjectFile = (path: string) => Promise<string | null>;
+
+export interface LanguageResolver {
+  resolve(module: string, currentFilePath: string): string | null;
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[];
+}
+
+export interface ResolverContext {
+  // Every source file the graph covers, across languages.
+  filePaths: Set<string>;
+  // Every blob in the tree, for project files (go.mod, Cargo.toml, tsconfig.json, ...).
+  blobPaths: string[];
+  // Reads go through the graph's content cache; the SHA of every file read becomes part of the
+  // resolver fingerprint, so editing a project file forces a full rebuild.
+  readProjectFile: ReadProjectFile;
+  // Workspace packages bare JS/TS specifiers may name.
+  workspacePackages?: WorkspacePackage[];
+}
+
+export interface LanguageSupport {
+  // Graph node only: the content is never fetched or parsed (JSON, YAML/TOML configs, images, fonts).
+  // Other files still import these, so they take part in locking and neighbour checks.
+  skipContent?: boolean;
+  parse(content: string, filePath: string): ParsedModule;
+  createResolver(context: ResolverContext): Promise<{ resolver: LanguageResolver; fingerprint?: string }>;
+}
+
+const scriptLanguage: LanguageSupport = {
+  parse: (content, filePath) => parseModule(content, filePath, 'ts'),
+  async createResolver({ filePaths, blobPaths, readProjectFile, workspacePackages }) {
+    const pathConfigs = await loadPathAliasConfigs(blobPaths.filter(isPathConfigFile).sort(), readProjectFile);
+    return { resolver: new ImportResolver(filePaths, { pathConfigs, workspacePackages }) };
+  },
+};
+
+const pythonLanguage: LanguageSupport = {
+  parse: (content, filePath) => parseModule(content, filePath, 'py'),
+  async createResolver({ filePaths, blobPaths, readProjectFile }) {
+    const pythonSourceRoots = await detectPythonSourceRoots(blobPaths, readProjectFile);
+    return {
+      resolver: new ImportResolver(filePaths, { pythonSourceRoots }),
+      fingerprint: `python:${pythonSourceRoots.join(':')}`,
+    };
+  },
+};
+
+const NO_IMPORTS: LanguageResolver = {
+  resolve: () => null,
+  resolveAll: () => [],
+};
+
+const leafFileSupport: LanguageSupport = {
+  skipContent: true,
+  parse: () => ({ imports: [], exports: [] }),
+  createResolver: async () => ({ resolver: NO_IMPORTS }),
+};
+
+// Adding a language means a FileLanguage value with its extensions in ./parser and an entry here.
+export const LANGUAGE_SUPPORT: Record<FileLanguage, LanguageSupport> = {
+  ts: scriptLanguage,
+  js: scriptLanguage,
+  py: pythonLanguage,
+  go: goLanguage,
+  rs: rustLanguage,
+  java: javaLanguage,
+  css: stylesheetLanguage,
+  json: leafFileSupport,
+  config: leafFileSupport,
+  asset: leafFileSupport,
+};
+
+export function getLanguageSupport(filePath: string): LanguageSupport | null {
+  const language = getFileLanguage(filePath);
+  return language ? LANGUAGE_SUPPORT[language] : null;
+}
+
+// One resolver per language support present in `filePaths` (TS and JS share one), plus a fingerprint of
+// the derived settings that project file SHAs alone do not capture.
+export async function createLanguageResolvers(
+  context: ResolverContext,
+): Promise<{ resolvers: Map<LanguageSupport, LanguageResolver>; fingerprint: string }> {
+  const resolvers = new Map<LanguageSupport, LanguageResolver>();
+  const fingerprints: string[] = [];
+
+  for (const filePath of [...context.filePaths].sort()) {
+    const support = getLanguageSupport(filePath);
+    if (!support || resolvers.has(support)) {
+      continue;
+    }
+    const created = await support.createResolver(context);
+    resolvers.set(support, created.resolver);
+    if (created.fingerprint) {
+      fingerprints.push(created.fingerprint);
+    }
+  }
+
+  return { resolvers, fingerprint: fingerprints.sort().join(',') };
+}
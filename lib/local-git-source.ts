@@ -0,0 +1,187 @@
+import { execFile } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import type { Stats } from 'node:fs';
+import { lstat, readFile, realpath } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import type { GraphSource, GraphSourceEntry } from './graph-source';
+import { normalizeRepoUrl } from './repo-providers';
+
+const execFileAsync = promisify(execFile);
+const GIT_MAX_BUFFER_BYTES = 64 * 1024 * 1024;
+const HASH_OBJECT_BATCH_SIZE = 200;
+
+// A branch graphed from disk instead of GitHub. With `worktree`, the checked-out files (committed or
+// not, minus ignored ones) are read; otherwise the branch's latest commit, which also works for bare
+// repositories and unpushed branches.
+export interface LocalGraphSourceConfig {
+  type: 'local';
+  path: string;
+  worktree: boolean;
+}
+
+// Comma-separated absolute directories from RELAY_LOCAL_GRAPH_ROOTS. Local paths outside them are
+// refused, so API callers cannot make the server read arbitrary directories.
+export function getLocalGraphRoots(): string[] {
+  return (process.env.RELAY_LOCAL_GRAPH_ROOTS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && isAbsolute(entry))
+    .map((entry) => resolve(entry));
+}
+
+function isWithin(root: string, target: string): boolean {
+  const rest = relative(root, target);
+  return rest === '' || (!rest.startsWith('..') && !isAbsolute(rest));
+}
+
+// The real path of `path` when it lies under one of the (also resolved) roots, otherwise null. Symlinks are
+// resolved first, so a link inside a root cannot point the server at a directory outside it.
+export async function resolveAllowedLocalGraphPath(
+  path: string,
+  roots = getLocalGraphRoots(),
+): Promise<string | null> {
+  if (!isAbsolute(path)) {
+    return null;
+  }
+
+  const target = await realpath(path).catch(() => null);
+  const realRoots = await Promise.all(roots.map((root) => realpath(root).catch(() => null)));
+  return target && realRoots.some((root) => root !== null && isWithin(root, target)) ? target : null;
+}
+
+// The normalized URL of the `origin` remote of a checkout or bare repository, or null when it has none
+// or it does not point at a supported host. Binds a local path to the repository it is a clone of.
+export async function getLocalRepoOriginUrl(path: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', path, 'remote', 'get-url', 'origin'], { encoding: 'utf8' });
+    return normalizeRepoUrl(stdout.trim());
+  } catch {
+    return null;
+  }
+}
+
+export function isValidGitBranchName(branch: string): boolean {
+  return /^[\w./-]+$/.test(branch) && !branch.startsWith('-') && !branch.includes('..');
+}
+
+export class LocalGitGraphSource implements GraphSource {
+  readonly kind = 'local';
+  private snapshot: { head: string; entries: GraphSourceEntry[] } | null = null;
+  private realRoot: Promise<string> | null = null;
+
+  constructor(
+    private config: LocalGraphSourceConfig,
+    private branch: string,
+  ) {
+    if (!isValidGitBranchName(branch)) {
+      throw new Error(`Invalid branch name: ${branch}`);
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-C', this.config.path, ...args], {
+      encoding: 'utf8',
+      maxBuffer: GIT_MAX_BUFFER_BYTES,
+    });
+    return stdout;
+  }
+
+  private async resolveBranchCommit(): Promise<string> {
+    for (const ref of [`refs/heads/${this.branch}`, `refs/remotes/origin/${this.branch}`]) {
+      try {
+        return (await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+      } catch {
+        // Try the next ref.
+      }
+    }
+    throw new Error(`Branch ${this.branch} not found in ${this.config.path}`);
+  }
+
+  // Regular files inside the checkout only. Deleted-but-tracked paths, submodules and directories are skipped,
+  // and so are symlinks and files under symlinked directories, which could point outside the checkout.
+  private async statWorktreeFile(path: string): Promise<Stats | null> {
+    const fullPath = join(this.config.path, path);
+    const stats = await lstat(fullPath).catch(() => null);
+    if (!stats?.isFile()) {
+      return null;
+    }
+
+    this.realRoot ??= realpath(this.config.path);
+    const [root, target] = await Promise.all([this.realRoot, realpath(fullPath).catch(() => null)]);
+    return target && isWithin(root, target) ? stats : null;
+  }
+
+  // Blob ids are computed with `git hash-object`, so unchanged files hit the same content cache entries
+  // as commits of the branch.
+  private async listWorktreeFiles(): Promise<GraphSourceEntry[]> {
+    if ((await this.git(['rev-parse', '--is-bare-repository'])).trim() === 'true') {
+      throw new Error(`${this.config.path} is a bare repository; worktree mode needs a checkout`);
+    }
+
+    const listed = (await this.git(['ls-files', '-z', '--cached', '--others', '--exclude-standard']))
+      .split('\0')
+      .filter(Boolean);
+    const files: { path: string; size: number }[] = [];
+    for (const path of [...new Set(listed)].sort()) {
+      const stats = await this.statWorktreeFile(path);
+      if (stats) {
+        files.push({ path, size: stats.size });
+      }
+    }
+
+    const entries: GraphSourceEntry[] = [];
+    for (let start = 0; start < files.length; start += HASH_OBJECT_BATCH_SIZE) {
+      const batch = files.slice(start, start + HASH_OBJECT_BATCH_SIZE);
+      const shas = (await this.git(['hash-object', '--', ...batch.map((file) => file.path)])).trim().split('\n');
+      batch.forEach((file, index) => entries.push({ path: file.path, sha: shas[index], size: file.size }));
+    }
+    return entries;
+  }
+
+  private async listCommitFiles(commit: string): Promise<GraphSourceEntry[]> {
+    return (await this.git(['ls-tree', '-r', '-l', '-z', commit]))
+      .split('\0')
+      .filter(Boolean)
+      .flatMap((line) => {
+        const match = line.match(/^\d+ blob ([0-9a-f]+)\s+(\d+|-)\t(.+)$/s);
+        return match ? [{ path: match[3], sha: match[1], size: match[2] === '-' ? undefined : Number(match[2]) }] : [];
+      });
+  }
+
+  async getHead(): Promise<string> {
+    if (!this.config.worktree) {
+      return this.resolveBranchCommit();
+    }
+
+    // A working tree has no commit for uncommitted changes: the head is a digest of every path and blob id.
+    const entries = await this.listWorktreeFiles();
+    const digest = createHash('sha1');
+    for (const entry of entries) {
+      digest.update(`${entry.path}\0${entry.sha}\n`);
+    }
+    const head = `worktree:${digest.digest('hex')}`;
+    this.snapshot = { head, entries };
+    return head;
+  }
+
+  async listFiles(head: string): Promise<GraphSourceEntry[]> {
+    if (!this.config.worktree) {
+      return this.listCommitFiles(head);
+    }
+    if (this.snapshot?.head !== head) {
+      await this.getHead();
+    }
+    return this.snapshot!.entries;
+  }
+
+  async readFile(path: string, sha: string): Promise<string | null> {
+    if (this.config.worktree) {
+      if (!(await this.statWorktreeFile(path))) {
+        return null;
+      }
+      return readFile(join(this.config.path, path), 'utf8').catch(() => null);
+    }
+    return this.git(['cat-file', 'blob', sha]);
+  }
+}
@@ -0,0 +1,142 @@
+import { getRecentActivityEvents, type CoordinationActivityEvent } from './activity';
+import { lockScopesOverlap, normalizeLockScope } from './lock-scope';
+import { expireLapsedLocks, getLocks, type FileLock, type LockEntry } from './locks';
+
+export type LockStatusFilter = LockEntry['status'];
+export type LockGrouping = 'file' | 'agent';
+
+export interface LockListingFilters {
+  pathPrefix?: string | null;
+  status?: LockStatusFilter | null;
+}
+
+export interface LatestAgentActivity {
+  file_path: string;
+  status: CoordinationActivityEvent['status'];
+  message: string;
+  timestamp: number;
+}
+
+export interface ActiveLockHolder extends LockEntry {
+  latest_activity: LatestAgentActivity | null;
+}
+
+export interface ActiveLockAgent {
+  user_id: string;
+  user_name: string;
+  file_paths: string[];
+  writing: number;
+  reading: number;
+  latest_activity: LatestAgentActivity | null;
+}
+
+export interface LockListing {
+  locks: ActiveLockHolder[];
+  agents?: ActiveLockAgent[];
+  total: number;
+}
+
+// Enough history to find a recent message for every active holder without reading the whole list.
+const LOCK_LISTING_ACTIVITY_LIMIT = 200;
+
+export function parseLockStatusFilter(value: unknown): LockStatusFilter | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const status = value.trim().toUpperCase();
+  return status === 'READING' || status === 'WRITING' ? status : undefined;
+}
+
+export function parseLockGrouping(value: unknown): LockGrouping | undefined {
+  if (value === undefined || value === null || value === '') {
+    return 'file';
+  }
+  return value === 'file' || value === 'agent' ? value : undefined;
+}
+
+function matchesPathPrefix(scope: string, pathPrefix: string): boolean {
+  return scope.startsWith(pathPrefix) || lockScopesOverlap(normalizeLockScope(pathPrefix), scope);
+}
+
+// Expiry events are written by the sweep on the holder's behalf, so they say nothing about what the agent is doing.
+function getLatestActivityByAgent(events: CoordinationActivityEvent[]): Map<string, LatestAgentActivity> {
+  const latest = new Map<string, LatestAgentActivity>();
+  for (const event of events) {
+    if (event.event) {
+      continue;
+    }
+    const previous = latest.get(event.user_id);
+    if (!previous || previous.timestamp <= event.timestamp) {
+      latest.set(event.user_id, {
+        file_path: event.file_path,
+        status: event.status,
+        message: event.message,
+        timestamp: event.timestamp,
+      });
+    }
+  }
+  return latest;
+}
+
+export function summarizeActiveLocks(
+  locks: Record<string, FileLock>,
+  events: CoordinationActivityEvent[],
+  filters: LockListingFilters & { groupBy?: LockGrouping } = {},
+): LockListing {
+  const pathPrefix = filters.pathPrefix?.trim().replace(/^\.?\//, '') || '';
+  const latest = getLatestActivityByAgent(events);
+
+  const holders: ActiveLockHolder[] = Object.keys(locks)
+    .sort()
+    .filter((scope) => !pathPrefix || matchesPathPrefix(scope, pathPrefix))
+    .flatMap((scope) =>
+      locks[scope].holders
+        .filter((holder) => !filters.status || holder.status === filters.status)
+        .map((holder) => ({ ...holder, file_path: scope, latest_activity: latest.get(holder.user_id) ?? null })),
+    );
+
+  if (filters.groupBy !== 'agent') {
+    return { locks: holders, total: holders.length };
+  }
+
+  const agents = new Map<string, ActiveLockAgent>();
+  for (const holder of holders) {
+    const agent = agents.get(holder.user_id) ?? {
+      user_id: holder.user_id,
+      user_name: holder.user_name,
+      file_paths: [],
+      writing: 0,
+      reading: 0,
+      latest_activity: holder.latest_activity,
+    };
+    agent.file_paths.push(holder.file_path);
+    if (holder.status === 'WRITING') {
+      agent.writing += 1;
+    } else {
+      agent.reading += 1;
+    }
+    agents.set(holder.user_id, agent);
+  }
+
+  return {
+    locks: holders,
+    agents: [...agents.values()].sort((a, b) => a.user_id.localeCompare(b.user_id)),
+    total: holders.length,
+  };
+}
+
+export async function listActiveLocks(
+  repoUrl: string,
+  branch: string,
+  filters: LockListingFilters & { groupBy?: LockGrouping } = {},
+): Promise<LockListing> {
+  await expireLapsedLocks(repoUrl, branch);
+  const [locks, events] = await Promise.all([
+    getLocks(repoUrl, branch),
+    getRecentActivityEvents(repoUrl, branch, LOCK_LISTING_ACTIVITY_LIMIT),
+  ]);
+  return summarizeActiveLocks(locks, events, filters);
+}
@@ -0,0 +1,360 @@
+import { GraphService, type DependencyGraph, type GraphEdge, type SymbolEdge } from './graph-service';
+import { kv } from './kv';
+import {
+  WHOLE_MODULE_SYMBOL,
+  isPatternScope,
+  lockScopeCovers,
+  normalizeLockScope,
+  parseSymbolScope,
+  toSymbolScope,
+} from './lock-scope';
+import { findCoveringLocks, getLocks, type FileLock } from './locks';
+import { adoptLegacyRepoKeys, getLegacyRepoKeyScope, getRepoKeyScope } from './repo-providers';
+
+export type NeighborLockMode = 'off' | 'warn' | 'block';
+
+export interface LockPolicy {
+  neighbor_mode: NeighborLockMode;
+  neighbor_depth: number;
+  // Type-only imports vanish at compile time, so a team may choose not to treat them as coupling.
+  ignore_type_only_edges: boolean;
+  updated_by?: string;
+  updated_at?: number;
+}
+
+export interface NeighborWriteConflict {
+  file_path: string;
+  neighbor: string;
+  user_id: string;
+  user_name: string;
+  covered_by?: string;
+  distance: number;
+  edge: GraphEdge | SymbolEdge;
+  path: string[];
+}
+
+// One step of the coupling walk over file paths and symbol scopes ("x.ts#foo"). `includeSymbols` marks
+// neighbours whose symbol locks couple too: an importer may use what it imports from any of its
+// symbols, and so may every symbol of a module that is used as a whole.
+export interface CoupledNeighbor {
+  start: string;
+  neighbor: string;
+  includeSymbols: boolean;
+  distance: number;
+  edge: GraphEdge | SymbolEdge;
+  path: string[];
+}
+
+type CouplingStep = Pick<CoupledNeighbor, 'neighbor' | 'includeSymbols' | 'edge'>;
+
+export const DEFAULT_LOCK_POLICY: LockPolicy = {
+  neighbor_mode: 'warn',
+  neighbor_depth: 1,
+  ignore_type_only_edges: false,
+};
+export const MAX_NEIGHBOR_DEPTH = 3;
+
+// Scoped by provider like the lock, activity and graph keys; a policy saved before scoping is moved over.
+async function resolveLockPolicyKey(repoUrl: string): Promise<string> {
+  const key = `lock_policy:${getRepoKeyScope(repoUrl)}`;
+  const legacyScope = getLegacyRepoKeyScope(repoUrl);
+  if (legacyScope) {
+    await adoptLegacyRepoKeys([[`lock_policy:${legacyScope}`, key]]);
+  }
+  return key;
+}
+
+export function parseNeighborLockMode(value: unknown): NeighborLockMode | null {
+  return value === 'off' || value === 'warn' || value === 'block' ? value : null;
+}
+
+export function parseNeighborDepth(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_NEIGHBOR_DEPTH
+    ? value
+    : null;
+}
+
+function parseLockPolicy(value: unknown): LockPolicy | null {
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const candidate = parsed as Partial<LockPolicy>;
+  const mode = parseNeighborLockMode(candidate.neighbor_mode);
+  if (!mode) {
+    return null;
+  }
+
+  return {
+    neighbor_mode: mode,
+    neighbor_depth: parseNeighborDepth(candidate.neighbor_depth) ?? DEFAULT_LOCK_POLICY.neighbor_depth,
+    ignore_type_only_edges: candidate.ignore_type_only_edges === true,
+    ...(typeof candidate.updated_by === 'string' ? { updated_by: candidate.updated_by } : {}),
+    ...(typeof candidate.updated_at === 'number' ? { updated_at: candidate.updated_at } : {}),
+  };
+}
+
+export async function getLockPolicy(repoUrl: string): Promise<LockPolicy> {
+  return parseLockPolicy(await kv.get(await resolveLockPolicyKey(repoUrl))) ?? DEFAULT_LOCK_POLICY;
+}
+
+export async function setLockPolicy(
+  repoUrl: string,
+  policy: Pick<LockPolicy, 'neighbor_mode' | 'neighbor_depth' | 'ignore_type_only_edges'>,
+  updatedBy: string,
+): Promise<LockPolicy> {
+  const record: LockPolicy = { ...policy, updated_by: updatedBy, updated_at: Date.now() };
+  await kv.set(await resolveLockPolicyKey(repoUrl), JSON.stringify(record));
+  return record;
+}
+
+export function isCouplingEdge(edge: Pick<GraphEdge, 'type'>, policy: Pick<LockPolicy, 'ignore_type_only_edges'>): boolean {
+  return !(policy.ignore_type_only_edges && edge.type === 'type-only');
+}
+
+const MAX_REEXPORT_HOPS = 10;
+
+// The locks coupling a neighbour: its own scope, file and pattern scopes covering it and, when
+// `includeSymbols` is set, the symbol locks inside it.
+export function findNeighborLocks(
+  locks: Record<string, FileLock>,
+  node: string,
+  includeSymbols: boolean,
+): Array<{ scope: string; lock: FileLock }> {
+  const candidates = [...(locks[node] ? [{ scope: node, lock: locks[node] }] : []), ...findCoveringLocks(locks, node)];
+  if (includeSymbols && !parseSymbolScope(node)) {
+    for (const [scope, lock] of Object.entries(locks)) {
+      if (parseSymbolScope(scope)?.filePath === node) {
+        candidates.push({ scope, lock });
+      }
+    }
+  }
+  return candidates;
+}
+
+function buildCouplingIndex(
+  graph: DependencyGraph,
+  options: Pick<LockPolicy, 'ignore_type_only_edges'>,
+): (node: string) => CouplingStep[] {
+  const fileSteps = new Map<string, CouplingStep[]>();
+  const symbolUsers = new Map<string, CouplingStep[]>();
+  const push = (index: Map<string, CouplingStep[]>, node: string, step: CouplingStep) => {
+    const steps = index.get(node) ?? [];
+    const existing = steps.find((candidate) => candidate.neighbor === step.neighbor);
+    if (existing) {
+      existing.includeSymbols ||= step.includeSymbols;
+    } else {
+      index.set(node, [...steps, step]);
+    }
+  };
+
+  for (const edge of graph.edges.filter((candidate) => isCouplingEdge(candidate, options))) {
+    push(fileSteps, edge.source, { neighbor: edge.target, includeSymbols: false, edge });
+    push(fileSteps, edge.target, { neighbor: edge.source, includeSymbols: true, edge });
+  }
+
+  // Importing a re-export also uses the symbol it forwards.
+  const reexports = new Map(
+    (graph.symbols ?? []).filter((symbol) => symbol.reexport_of).map((symbol) => [symbol.id, symbol.reexport_of!]),
+  );
+  const wholeModuleSuffix = `#${WHOLE_MODULE_SYMBOL}`;
+  for (const edge of (graph.symbol_edges ?? []).filter((candidate) => isCouplingEdge(candidate, options))) {
+    const seen = new Set<string>();
+    for (
+      let target: string | undefined = edge.target;
+      target && !seen.has(target) && seen.size < MAX_REEXPORT_HOPS;
+      target = reexports.get(target)
+    ) {
+      seen.add(target);
+      const wholeModule = target.endsWith(wholeModuleSuffix);
+      const neighbor = wholeModule ? target.slice(0, -wholeModuleSuffix.length) : target;
+      push(fileSteps, edge.source, { neighbor, includeSymbols: wholeModule, edge });
+      push(symbolUsers, target, { neighbor: edge.source, includeSymbols: true, edge });
+    }
+  }
+
+  return (node) => {
+    const symbol = parseSymbolScope(node);
+    if (!symbol) {
+      return fileSteps.get(node) ?? [];
+    }
+    // What the symbol's own code depends on is only known per file.
+    const dependencies = (fileSteps.get(symbol.filePath) ?? []).filter((step) => step.edge.source === symbol.filePath);
+    return [
+      ...(symbolUsers.get(node) ?? []),
+      ...(symbolUsers.get(toSymbolScope(symbol.filePath, WHOLE_MODULE_SYMBOL)) ?? []),
+      ...dependencies,
+    ];
+  };
+}
+
+// Walks import and symbol-usage edges in both directions up to `depth` hops from the requested scopes.
+// Scopes the caller is requesting are not neighbours: direct conflicts on them are acquireLocks' job.
+export function findCoupledNeighbors(
+  graph: DependencyGraph,
+  filePaths: string[],
+  depth: number,
+  options: Pick<LockPolicy, 'ignore_type_only_edges'> = { ignore_type_only_edges: false },
+): CoupledNeighbor[] {
+  const scopes = filePaths.map(normalizeLockScope);
+  const isRequested = (node: string) => scopes.some((scope) => lockScopeCovers(scope, node));
+  const starts = [
+    ...scopes.filter((scope) => !isPatternScope(scope)),
+    ...graph.nodes
+      .map((node) => node.id)
+      .filter((id) => !scopes.includes(id) && scopes.some((scope) => isPatternScope(scope) && lockScopeCovers(scope, id))),
+  ];
+  const stepsFrom = buildCouplingIndex(graph, options);
+
+  const neighbors: CoupledNeighbor[] = [];
+  for (const start of starts) {
+    const previous = new Map<string, string | null>([[start, null]]);
+    let frontier = [start];
+
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance += 1) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const { neighbor, includeSymbols, edge } of stepsFrom(current)) {
+          if (previous.has(neighbor) || isRequested(neighbor)) {
+            continue;
+          }
+          previous.set(neighbor, current);
+          next.push(neighbor);
+
+          const path: string[] = [];
+          for (let step: string | null = neighbor; step !== null; step = previous.get(step) ?? null) {
+            path.unshift(step);
+          }
+          neighbors.push({ start, neighbor, includeSymbols, distance, edge, path });
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  return neighbors;
+}
+
+function findOtherWriter(
+  locks: Record<string, FileLock>,
+  node: string,
+  includeSymbols: boolean,
+  userId: string,
+): { holder: FileLock['holders'][number]; scope: string } | null {
+  for (const { scope, lock } of findNeighborLocks(locks, node, includeSymbols)) {
+    const holder = lock.holders.find((entry) => entry.user_id !== userId && entry.status === 'WRITING');
+    if (holder) {
+      return { holder, scope };
+    }
+  }
+  return null;
+}
+
+// Reports every neighbour within `depth` hops of the requested scopes that another agent is writing.
+export function findNeighborWriteConflicts(
+  graph: DependencyGraph,
+  locks: Record<string, FileLock>,
+  filePaths: string[],
+  userId: string,
+  depth: number,
+  options: Pick<LockPolicy, 'ignore_type_only_edges'> = { ignore_type_only_edges: false },
+): NeighborWriteConflict[] {
+  const conflicts: NeighborWriteConflict[] = [];
+  for (const { start, neighbor, includeSymbols, distance, edge, path } of findCoupledNeighbors(
+    graph,
+    filePaths,
+    depth,
+    options,
+  )) {
+    const writer = findOtherWriter(locks, neighbor, includeSymbols, userId);
+    if (writer) {
+      conflicts.push({
+        file_path: start,
+        neighbor,
+        user_id: writer.holder.user_id,
+        user_name: writer.holder.user_name,
+        ...(writer.scope !== neighbor ? { covered_by: writer.scope } : {}),
+        distance,
+        edge,
+        path,
+      });
+    }
+  }
+  return conflicts;
+}
+
+// The conflict a lock script reported for one of its neighbour guards (reason NEIGHBOR_CONFLICT), shaped
+// like the ones findNeighborWriteConflicts reports before the script runs.
+export function findGuardedNeighborConflict(
+  neighbors: CoupledNeighbor[],
+  conflict: { neighbor?: string; scope?: string; userId?: string },
+): NeighborWriteConflict | null {
+  const coupled = neighbors.find((candidate) => candidate.neighbor === conflict.neighbor);
+  if (!coupled || !conflict.userId) {
+    return null;
+  }
+
+  const { start, neighbor, distance, edge, path } = coupled;
+  return {
+    file_path: start,
+    neighbor,
+    user_id: conflict.userId,
+    user_name: conflict.userId,
+    ...(conflict.scope && conflict.scope !== neighbor ? { covered_by: conflict.scope } : {}),
+    distance,
+    edge,
+    path,
+  };
+}
+
+export function describeNeighborConflict(conflict: NeighborWriteConflict): string {
+  const verb = parseSymbolScope(conflict.edge.target) ? 'uses' : 'imports';
+  const direction =
+    conflict.edge.source === conflict.neighbor
+      ? `${conflict.neighbor} ${verb} ${conflict.edge.target}`
+      : `${conflict.edge.source} ${verb} ${conflict.neighbor}`;
+  return `${conflict.neighbor} is being written by ${conflict.user_id} (${direction}; ${conflict.distance} hop${
+    conflict.distance === 1 ? '' : 's'
+  } from ${conflict.file_path})`;
+}
+
+// Reads only the cached graph: without one there is nothing to enforce, and lock writes must not
+// trigger a rebuild. This read is only a preview; in `block` mode callers hand `neighbors` to the lock
+// script as guards, which re-checks them atomically with the acquisition.
+export async function evaluateNeighborLockPolicy(
+  repoUrl: string,
+  branch: string,
+  filePaths: string[],
+  userId: string,
+): Promise<{ policy: LockPolicy; conflicts: NeighborWriteConflict[]; neighbors: CoupledNeighbor[] }> {
+  const policy = await getLockPolicy(repoUrl);
+  if (policy.neighbor_mode === 'off' || filePaths.length === 0) {
+    return { policy, conflicts: [], neighbors: [] };
+  }
+
+  let graph: DependencyGraph | null = null;
+  try {
+    graph = await new GraphService(repoUrl, branch).getCached();
+  } catch {
+    // Graph cache is optional here, as in check_status.
+  }
+  if (!graph) {
+    return { policy, conflicts: [], neighbors: [] };
+  }
+
+  const locks = await getLocks(repoUrl, branch);
+  return {
+    policy,
+    conflicts: findNeighborWriteConflicts(graph, locks, filePaths, userId, policy.neighbor_depth, policy),
+    neighbors: findCoupledNeighbors(graph, filePaths, policy.neighbor_depth, policy),
+  };
+}
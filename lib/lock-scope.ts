@@ -0,0 +1,128 @@
+// A lock scope is either an exact file path or a pattern. Directory prefixes ("app/components/")
+// are stored as "app/components/**". Patterns support `*` and `?` within a path segment and `**`
+// across segments. A symbol scope ("lib/x.ts#parseImports") locks one exported symbol of a file: it
+// overlaps the file itself and any pattern covering the file, but not other symbols of the same file.
+// The Lua mirror of these rules lives in SCOPE_MATCH_LUA in ./locks.
+
+const WILDCARD_PATTERN = /[*?]/;
+const SYMBOL_NAME_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+export function isPatternScope(scope: string): boolean {
+  return WILDCARD_PATTERN.test(scope);
+}
+
+export function normalizeLockScope(scope: string): string {
+  const trimmed = scope.trim().replace(/^\.\//, '');
+  return trimmed.endsWith('/') ? `${trimmed}**` : trimmed;
+}
+
+// Graph-only symbol name for using a module as a whole; never a lock scope.
+export const WHOLE_MODULE_SYMBOL = '*';
+
+export function toSymbolScope(filePath: string, symbol: string): string {
+  return `${filePath}#${symbol}`;
+}
+
+export function parseSymbolScope(scope: string): { filePath: string; symbol: string } | null {
+  const separator = scope.lastIndexOf('#');
+  if (separator <= 0) {
+    return null;
+  }
+  const filePath = scope.slice(0, separator);
+  const symbol = scope.slice(separator + 1);
+  return SYMBOL_NAME_PATTERN.test(symbol) && !isPatternScope(filePath) ? { filePath, symbol } : null;
+}
+
+function globMatch(pattern: string, path: string, pi: number, si: number): boolean {
+  while (pi < pattern.length) {
+    const char = pattern[pi];
+
+    if (char === '*') {
+      if (pattern[pi + 1] === '*') {
+        const rest = pi + 2;
+        // "**/" may also match zero directories.
+        if (pattern[rest] === '/' && globMatch(pattern, path, rest + 1, si)) {
+          return true;
+        }
+        for (let k = si; k <= path.length; k += 1) {
+          if (globMatch(pattern, path, rest, k)) {
+            return true;
+          }
+        }
+        return false;
+      }
+
+      for (let k = si; k <= path.length; k += 1) {
+        if (globMatch(pattern, path, pi + 1, k)) {
+          return true;
+        }
+        if (path[k] === '/') {
+          return false;
+        }
+      }
+      return false;
+    }
+
+    if (si >= path.length || (char === '?' ? path[si] === '/' : path[si] !== char)) {
+      return false;
+    }
+
+    pi += 1;
+    si += 1;
+  }
+
+  return si === path.length;
+}
+
+// A file or pattern scope also covers the symbol scopes of every file it covers.
+export function lockScopeCovers(scope: string, filePath: string): boolean {
+  if (parseSymbolScope(scope)) {
+    return scope === filePath;
+  }
+  const target = parseSymbolScope(filePath)?.filePath ?? filePath;
+  if (!isPatternScope(scope)) {
+    return scope === target;
+  }
+  return globMatch(scope, target, 0, 0);
+}
+
+function literalPrefix(scope: string): string {
+  const wildcard = scope.search(WILDCARD_PATTERN);
+  return wildcard === -1 ? scope : scope.slice(0, wildcard);
+}
+
+export function lockScopesOverlap(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  const aIsSymbol = parseSymbolScope(a) !== null;
+  const bIsSymbol = parseSymbolScope(b) !== null;
+  if (aIsSymbol && bIsSymbol) {
+    return false;
+  }
+  if (aIsSymbol) {
+    return lockScopeCovers(b, a);
+  }
+  if (bIsSymbol) {
+    return lockScopeCovers(a, b);
+  }
+
+  const aIsPattern = isPatternScope(a);
+  const bIsPattern = isPatternScope(b);
+  if (!aIsPattern && !bIsPattern) {
+    return false;
+  }
+  if (!bIsPattern) {
+    return lockScopeCovers(a, b);
+  }
+  if (!aIsPattern) {
+    return lockScopeCovers(b, a);
+  }
+
+  // Two patterns are treated as overlapping whenever their literal prefixes nest. This can
+  // over-report (e.g. "src/*.ts" vs "src/*.css"), which is the safe direction for a lock.
+  const prefixA = literalPrefix(a);
+  const prefixB = literalPrefix(b);
+  return prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA);
+}
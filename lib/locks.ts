@@ -1,8 +1,19 @@
 // Luka (GPT-5.3): Optimized atomic operations for better concurrency
 import { kv } from './kv';
-import { normalizeRepoUrl } from './github';
+import { publishActivityEvents } from './activity';
+import { lockScopeCovers, lockScopesOverlap, normalizeLockScope } from './lock-scope';
+import {
+  adoptLegacyRepoKeys,
+  getLegacyRepoKeyScope,
+  getRepoKeyScope,
+  normalizeRepoUrl,
+  stripRepoKeyProvider,
+} from './repo-providers';
 
-const LOCK_TTL_MS = 300_000;
+export const LOCK_TTL_MS = 300_000;
+export const MIN_LOCK_TTL_MS = 30_000;
+export const MAX_LOCK_TTL_MS = 1_800_000;
+export const LOCK_WAIT_TTL_MS = 600_000;
 
 export interface LockRequest {
   repoUrl: string;
@@ -13,6 +24,35 @@ export interface LockRequest {
   status: 'READING' | 'WRITING';
   message: string;
   agentHead: string;
+  ttlMs?: number;
+  wait?: boolean;
+  neighborGuards?: NeighborLockGuard[];
+}
+
+export type LockTransitionStatus = 'READING' | 'WRITING' | 'OPEN';
+
+export interface LockTransition {
+  filePath: string;
+  status: LockTransitionStatus;
+}
+
+export interface LockUpdateRequest {
+  repoUrl: string;
+  branch: string;
+  transitions: LockTransition[];
+  userId: string;
+  userName: string;
+  message: string;
+  agentHead: string;
+  ttlMs?: number;
+  neighborGuards?: NeighborLockGuard[];
+}
+
+// A neighbour another agent must not be writing for a WRITING claim to go through (the lock policy's
+// `block` mode). Checked inside the lock script, so two agents cannot both pass it and both acquire.
+export interface NeighborLockGuard {
+  neighbor: string;
+  includeSymbols: boolean;
 }
 
 export interface LockEntry {
@@ -26,21 +66,442 @@ export interface LockEntry {
   expiry: number;
 }
 
+export interface FileLock extends LockEntry {
+  holders: LockEntry[];
+}
+
+export interface LockWaiter {
+  user_id: string;
+  user_name: string;
+  status: 'READING' | 'WRITING';
+  message: string;
+  file_paths: string[];
+  position: number;
+  enqueued_at: number;
+}
+
+export type LockWaitState = {
+  state: 'GRANTED' | 'QUEUED' | 'NOT_QUEUED';
+  locks: LockEntry[];
+  queuePositions: Record<string, number>;
+};
+
+type LockTicket = {
+  user_id: string;
+  user_name: string;
+  status: 'READING' | 'WRITING';
+  message: string;
+  agent_head: string;
+  ttl_ms: number;
+  file_paths: string[];
+  enqueued_at: number;
+  wait_expiry: number;
+};
+
+type GrantedWaiter = {
+  user_id: string;
+  user_name: string;
+  status: 'READING' | 'WRITING';
+  message: string;
+  locks: LockEntry[];
+};
+
 type AcquireResult = {
   success: boolean;
   locks?: LockEntry[];
   reason?: string;
   conflictingFile?: string;
   conflictingUser?: string;
+  conflictingStatus?: 'READING' | 'WRITING';
+  conflictingScope?: string;
+  queued?: boolean;
+  queuePositions?: Record<string, number>;
 };
 
-function getLockKey(repoUrl: string, branch: string): string {
-  const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+type UpdateResult = {
+  success: boolean;
+  locks: LockEntry[];
+  released: string[];
+  reason?: string;
+  conflictingFile?: string;
+  conflictingUser?: string;
+  conflictingStatus?: 'READING' | 'WRITING';
+  conflictingScope?: string;
+};
+
+type RenewResult = {
+  success: boolean;
+  renewed: LockEntry[];
+  missing: string[];
+};
+
+function getLockKey(repoUrl: string, branch: string, scope = getRepoKeyScope(repoUrl)): string {
   const normalizedBranch = branch.trim() || 'main';
-  return `locks:${normalizedRepoUrl}:${normalizedBranch}`;
+  return `locks:${scope}:${normalizedBranch}`;
+}
+
+// Waiters for a repo/branch live beside its lock hash: one ticket per user, keyed by user_id.
+function getWaitKey(lockKey: string): string {
+  return `lockwait:${lockKey.slice('locks:'.length)}`;
 }
 
-type RedisLockEntryValue = string | Partial<LockEntry> | null | undefined;
+// The lock key after moving a lock hash and wait queue written before provider scoping onto it.
+async function resolveLockKey(repoUrl: string, branch: string): Promise<string> {
+  const lockKey = getLockKey(repoUrl, branch);
+  const legacyScope = getLegacyRepoKeyScope(repoUrl);
+  if (legacyScope) {
+    const legacyLockKey = getLockKey(repoUrl, branch, legacyScope);
+    await adoptLegacyRepoKeys([
+      [legacyLockKey, lockKey],
+      [getWaitKey(legacyLockKey), getWaitKey(lockKey)],
+    ]);
+  }
+  return lockKey;
+}
+
+function parseLockKey(lockKey: string): { repoUrl: string; branch: string } | null {
+  const scoped = lockKey.slice('locks:'.length);
+  const separator = scoped.lastIndexOf(':');
+  if (!lockKey.startsWith('locks:') || separator <= 0) {
+    return null;
+  }
+
+  return { repoUrl: stripRepoKeyProvider(scoped.slice(0, separator)), branch: scoped.slice(separator + 1) };
+}
+
+export function clampLockTtl(ttlMs?: number | null): number {
+  if (typeof ttlMs !== 'number' || !Number.isFinite(ttlMs)) {
+    return LOCK_TTL_MS;
+  }
+
+  return Math.min(MAX_LOCK_TTL_MS, Math.max(MIN_LOCK_TTL_MS, Math.round(ttlMs)));
+}
+
+type StoredFileLock = {
+  file_path?: string;
+  holders?: Record<string, Partial<LockEntry>>;
+};
+
+type RedisLockEntryValue = string | Partial<LockEntry> | StoredFileLock | null | undefined;
+
+// Each hash field holds `{ file_path, holders: { [user_id]: LockEntry } }`. Entries written before
+// shared reads existed are a bare LockEntry; they are read back as a single-holder map.
+const LOAD_HOLDERS_LUA = `
+  local function load_holders(raw)
+    local holders = {}
+    if not raw then
+      return holders
+    end
+
+    local ok, state = pcall(cjson.decode, raw)
+    if not ok or type(state) ~= 'table' then
+      return holders
+    end
+
+    if type(state.holders) == 'table' then
+      return state.holders
+    end
+
+    if state.user_id then
+      holders[state.user_id] = state
+    end
+
+    return holders
+  end
+`;
+
+// Lua mirror of ./lock-scope; keep the two in step.
+const SCOPE_MATCH_LUA = `
+  local function is_pattern(scope)
+    return scope:find('[%*%?]') ~= nil
+  end
+
+  local function glob_match(pattern, path, pi, si)
+    while pi <= #pattern do
+      local char = pattern:sub(pi, pi)
+      if char == '*' then
+        if pattern:sub(pi + 1, pi + 1) == '*' then
+          local rest = pi + 2
+          if pattern:sub(rest, rest) == '/' and glob_match(pattern, path, rest + 1, si) then
+            return true
+          end
+          for k = si, #path + 1 do
+            if glob_match(pattern, path, rest, k) then
+              return true
+            end
+          end
+          return false
+        end
+
+        for k = si, #path + 1 do
+          if glob_match(pattern, path, pi + 1, k) then
+            return true
+          end
+          if path:sub(k, k) == '/' then
+            return false
+          end
+        end
+        return false
+      end
+
+      if si > #path then
+        return false
+      end
+      local actual = path:sub(si, si)
+      if (char == '?' and actual == '/') or (char ~= '?' and actual ~= char) then
+        return false
+      end
+      pi = pi + 1
+      si = si + 1
+    end
+
+    return si > #path
+  end
+
+  local function symbol_file(scope)
+    local file = scope:match('^(.+)#[%a_%$][%w_%$]*$')
+    if file and not is_pattern(file) then
+      return file
+    end
+    return nil
+  end
+
+  local function literal_prefix(scope)
+    local wildcard = scope:find('[%*%?]')
+    if wildcard then
+      return scope:sub(1, wildcard - 1)
+    end
+    return scope
+  end
+
+  local function scopes_overlap(a, b)
+    if a == b then
+      return true
+    end
+    local a_file = symbol_file(a)
+    local b_file = symbol_file(b)
+    if a_file and b_file then
+      return false
+    end
+    if a_file then
+      return b == a_file or (is_pattern(b) and glob_match(b, a_file, 1, 1))
+    end
+    if b_file then
+      return a == b_file or (is_pattern(a) and glob_match(a, b_file, 1, 1))
+    end
+    local a_pattern = is_pattern(a)
+    local b_pattern = is_pattern(b)
+    if not a_pattern and not b_pattern then
+      return false
+    end
+    if not b_pattern then
+      return glob_match(a, b, 1, 1)
+    end
+    if not a_pattern then
+      return glob_match(b, a, 1, 1)
+    end
+    local prefix_a = literal_prefix(a)
+    local prefix_b = literal_prefix(b)
+    return prefix_a:sub(1, #prefix_b) == prefix_b or prefix_b:sub(1, #prefix_a) == prefix_a
+  end
+`;
+
+// Requires LOAD_HOLDERS_LUA and SCOPE_MATCH_LUA. Lua mirror of findNeighborLocks in ./lock-policy: a guard
+// couples to its own scope, the scopes covering it and, with include_symbols, the symbol locks inside it.
+const NEIGHBOR_GUARD_LUA = `
+  local function scope_covers(scope, node)
+    if symbol_file(scope) then
+      return scope == node
+    end
+    local target = symbol_file(node) or node
+    if not is_pattern(scope) then
+      return scope == target
+    end
+    return glob_match(scope, target, 1, 1)
+  end
+
+  local function find_neighbor_writer(existing, guards, user_id, now)
+    for _, guard in ipairs(guards) do
+      for scope, raw in pairs(existing) do
+        if scope_covers(scope, guard.scope) or (guard.include_symbols and symbol_file(scope) == guard.scope) then
+          for holder_id, holder in pairs(load_holders(raw)) do
+            if holder.expiry > now and holder_id ~= user_id and holder.status == 'WRITING' then
+              return { neighbor = guard.scope, scope = scope, user_id = holder.user_id, status = holder.status }
+            end
+          end
+        end
+      end
+    end
+    return nil
+  end
+`;
+
+// Requires LOAD_HOLDERS_LUA, SCOPE_MATCH_LUA and NEIGHBOR_GUARD_LUA. Queue order is enqueue time; a ticket
+// is only granted once every older ticket touching an overlapping scope has been granted or has lapsed,
+// and, like a direct claim, only while none of its neighbour guards is being written by someone else.
+const WAIT_QUEUE_LUA = `
+  local function load_lock_map(lock_key)
+    local existing = {}
+    local entries = redis.call('HGETALL', lock_key)
+    for i = 1, #entries, 2 do
+      existing[entries[i]] = entries[i + 1]
+    end
+    return existing
+  end
+
+  local function find_conflict(existing, file_path, user_id, status, now)
+    for scope, raw in pairs(existing) do
+      if scopes_overlap(file_path, scope) then
+        for holder_id, holder in pairs(load_holders(raw)) do
+          if holder.expiry > now and holder_id ~= user_id and (status == 'WRITING' or holder.status == 'WRITING') then
+            return { scope = scope, user_id = holder.user_id, status = holder.status }
+          end
+        end
+      end
+    end
+    return nil
+  end
+
+  local function ticket_before(a, b)
+    if a.enqueued_at ~= b.enqueued_at then
+      return a.enqueued_at < b.enqueued_at
+    end
+    return a.user_id < b.user_id
+  end
+
+  local function ticket_overlap(ticket, file_path)
+    for _, scope in ipairs(ticket.file_paths) do
+      if scopes_overlap(file_path, scope) then
+        return scope
+      end
+    end
+    return nil
+  end
+
+  local function load_tickets(wait_key, now)
+    local tickets = {}
+    local entries = redis.call('HGETALL', wait_key)
+    for i = 1, #entries, 2 do
+      local ok, ticket = pcall(cjson.decode, entries[i + 1])
+      if ok and type(ticket) == 'table' and type(ticket.file_paths) == 'table' and
+        type(ticket.wait_expiry) == 'number' and ticket.wait_expiry > now then
+        table.insert(tickets, ticket)
+      else
+        redis.call('HDEL', wait_key, entries[i])
+      end
+    end
+    table.sort(tickets, ticket_before)
+    return tickets
+  end
+
+  local function trim_ticket(wait_key, user_id, scopes)
+    local raw = redis.call('HGET', wait_key, user_id)
+    if not raw then
+      return
+    end
+
+    local ok, ticket = pcall(cjson.decode, raw)
+    if not ok or type(ticket) ~= 'table' or type(ticket.file_paths) ~= 'table' then
+      redis.call('HDEL', wait_key, user_id)
+      return
+    end
+
+    local removed = {}
+    for _, scope in ipairs(scopes) do
+      removed[scope] = true
+    end
+
+    local remaining = {}
+    for _, scope in ipairs(ticket.file_paths) do
+      if not removed[scope] then
+        table.insert(remaining, scope)
+      end
+    end
+
+    if #remaining == 0 then
+      redis.call('HDEL', wait_key, user_id)
+    elseif #remaining ~= #ticket.file_paths then
+      ticket.file_paths = remaining
+      redis.call('HSET', wait_key, user_id, cjson.encode(ticket))
+    end
+  end
+
+  local function grant_waiters(lock_key, wait_key, now)
+    local existing = load_lock_map(lock_key)
+    local waiting = {}
+    local granted = {}
+
+    for _, ticket in ipairs(load_tickets(wait_key, now)) do
+      local blocked = false
+      for _, older in ipairs(waiting) do
+        for _, file_path in ipairs(ticket.file_paths) do
+          if ticket_overlap(older, file_path) then
+            blocked = true
+            break
+          end
+        end
+        if blocked then
+          break
+        end
+      end
+
+      if not blocked then
+        for _, file_path in ipairs(ticket.file_paths) do
+          if find_conflict(existing, file_path, ticket.user_id, ticket.status, now) then
+            blocked = true
+            break
+          end
+        end
+      end
+
+      if not blocked and type(ticket.neighbor_guards) == 'table' and
+        find_neighbor_writer(existing, ticket.neighbor_guards, ticket.user_id, now) then
+        blocked = true
+      end
+
+      if blocked then
+        table.insert(waiting, ticket)
+      else
+        local locks = {}
+        for _, file_path in ipairs(ticket.file_paths) do
+          local holders = load_holders(existing[file_path])
+          for holder_id, holder in pairs(holders) do
+            if holder.expiry <= now then
+              holders[holder_id] = nil
+            end
+          end
+
+          local lock = {
+            file_path = file_path,
+            user_id = ticket.user_id,
+            user_name = ticket.user_name,
+            status = ticket.status,
+            agent_head = ticket.agent_head,
+            message = ticket.message,
+            timestamp = now,
+            expiry = now + ticket.ttl_ms
+          }
+          holders[ticket.user_id] = lock
+          local encoded = cjson.encode({ file_path = file_path, holders = holders })
+          redis.call('HSET', lock_key, file_path, encoded)
+          existing[file_path] = encoded
+          table.insert(locks, lock)
+        end
+
+        redis.call('HDEL', wait_key, ticket.user_id)
+        table.insert(granted, {
+          user_id = ticket.user_id,
+          user_name = ticket.user_name,
+          status = ticket.status,
+          message = ticket.message,
+          locks = locks
+        })
+      end
+    end
+
+    return granted
+  end
+`;
 
 function normalizeJsonValue<T>(value: string | T | null | undefined): T | null {
   if (typeof value === 'string') {
@@ -58,64 +519,196 @@ function normalizeJsonValue<T>(value: string | T | null | undefined): T | null {
   return null;
 }
 
-function parseLockEntry(value: RedisLockEntryValue): LockEntry | null {
-  try {
-    const parsed = normalizeJsonValue<Partial<LockEntry>>(value);
-    if (!parsed) {
-      return null;
-    }
+function parseLockEntry(value: unknown): LockEntry | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
 
-    if (
-      typeof parsed.file_path === 'string' &&
-      typeof parsed.user_id === 'string' &&
-      typeof parsed.user_name === 'string' &&
-      (parsed.status === 'READING' || parsed.status === 'WRITING') &&
-      typeof parsed.agent_head === 'string' &&
-      typeof parsed.message === 'string' &&
-      typeof parsed.timestamp === 'number' &&
-      typeof parsed.expiry === 'number'
-    ) {
-      return parsed as LockEntry;
-    }
+  const parsed = value as Partial<LockEntry>;
+  if (
+    typeof parsed.file_path === 'string' &&
+    typeof parsed.user_id === 'string' &&
+    typeof parsed.user_name === 'string' &&
+    (parsed.status === 'READING' || parsed.status === 'WRITING') &&
+    typeof parsed.agent_head === 'string' &&
+    typeof parsed.message === 'string' &&
+    typeof parsed.timestamp === 'number' &&
+    typeof parsed.expiry === 'number'
+  ) {
+    return parsed as LockEntry;
+  }
 
+  return null;
+}
+
+function parseLockHolders(value: RedisLockEntryValue): LockEntry[] {
+  const parsed = normalizeJsonValue<StoredFileLock & Partial<LockEntry>>(value);
+  if (!parsed) {
+    return [];
+  }
+
+  if (parsed.holders && typeof parsed.holders === 'object') {
+    return Object.values(parsed.holders)
+      .map((holder) => parseLockEntry(holder))
+      .filter((holder): holder is LockEntry => holder !== null);
+  }
+
+  const legacy = parseLockEntry(parsed);
+  return legacy ? [legacy] : [];
+}
+
+function compareHolders(a: LockEntry, b: LockEntry): number {
+  if (a.status !== b.status) {
+    return a.status === 'WRITING' ? -1 : 1;
+  }
+  return b.timestamp - a.timestamp;
+}
+
+function parseFileLock(value: RedisLockEntryValue, now: number): FileLock | null {
+  const holders = parseLockHolders(value)
+    .filter((holder) => holder.expiry > now)
+    .sort(compareHolders);
+
+  if (holders.length === 0) {
     return null;
-  } catch {
-    return null;
   }
+
+  // The writer (or most recent reader) represents the file so single-holder consumers keep working.
+  return { ...holders[0], holders };
+}
+
+function normalizeLockScopes(filePaths: string[]): string[] {
+  return Array.from(new Set(filePaths.map(normalizeLockScope).filter((scope) => scope.length > 0)));
+}
+
+function serializeNeighborGuards(guards: NeighborLockGuard[] = []): string {
+  const merged = new Map<string, boolean>();
+  for (const { neighbor, includeSymbols } of guards) {
+    merged.set(neighbor, (merged.get(neighbor) ?? false) || includeSymbols);
+  }
+  return JSON.stringify([...merged].map(([scope, includeSymbols]) => ({ scope, include_symbols: includeSymbols })));
 }
 
 export async function acquireLocks(request: LockRequest): Promise<AcquireResult> {
-  const lockKey = getLockKey(request.repoUrl, request.branch);
+  const lockKey = await resolveLockKey(request.repoUrl, request.branch);
   const timestamp = Date.now();
-  const expiry = timestamp + LOCK_TTL_MS;
+  const ttlMs = clampLockTtl(request.ttlMs);
+  const expiry = timestamp + ttlMs;
 
   const luaScript = `
+    ${LOAD_HOLDERS_LUA}
+    ${SCOPE_MATCH_LUA}
+    ${NEIGHBOR_GUARD_LUA}
+    ${WAIT_QUEUE_LUA}
+
     local lock_key = KEYS[1]
+    local wait_key = KEYS[2]
     local file_paths = cjson.decode(ARGV[1])
     local user_id = ARGV[2]
     local status = ARGV[3]
     local timestamp = tonumber(ARGV[4])
     local expiry = tonumber(ARGV[5])
+    local neighbor_guards = cjson.decode(ARGV[12])
 
-    for i, file_path in ipairs(file_paths) do
-      local existing = redis.call('HGET', lock_key, file_path)
-      if existing then
-        local lock = cjson.decode(existing)
-        if lock.expiry > timestamp then
-          if lock.user_id ~= user_id then
-            return cjson.encode({
-              success = false,
-              reason = "FILE_CONFLICT",
-              conflicting_file = file_path,
-              conflicting_user = lock.user_id
-            })
+    local existing = load_lock_map(lock_key)
+    local tickets = load_tickets(wait_key, timestamp)
+    local own_ticket = nil
+    for _, ticket in ipairs(tickets) do
+      if ticket.user_id == user_id then
+        own_ticket = ticket
+      end
+    end
+
+    local conflict = nil
+    for _, file_path in ipairs(file_paths) do
+      -- Directory/glob locks cover files and other patterns; check every overlapping scope.
+      conflict = find_conflict(existing, file_path, user_id, status, timestamp)
+
+      -- Waiters queued ahead of the caller keep their place even when the lock is momentarily free.
+      if not conflict then
+        for _, ticket in ipairs(tickets) do
+          if own_ticket and not ticket_before(ticket, own_ticket) then
+            break
+          end
+          local scope = ticket.user_id ~= user_id and ticket_overlap(ticket, file_path)
+          if scope then
+            conflict = { scope = scope, user_id = ticket.user_id, status = ticket.status }
+            break
+          end
+        end
+      end
+
+      if conflict then
+        conflict.file_path = file_path
+        break
+      end
+    end
+
+    if conflict then
+      local result = {
+        success = false,
+        reason = "FILE_CONFLICT",
+        conflicting_file = conflict.file_path,
+        conflicting_scope = conflict.scope,
+        conflicting_user = conflict.user_id,
+        conflicting_status = conflict.status
+      }
+
+      if ARGV[9] == '1' then
+        local ticket = {
+          user_id = user_id,
+          user_name = ARGV[6],
+          status = status,
+          message = ARGV[8],
+          agent_head = ARGV[7],
+          ttl_ms = tonumber(ARGV[10]),
+          file_paths = file_paths,
+          neighbor_guards = neighbor_guards,
+          enqueued_at = own_ticket and own_ticket.enqueued_at or timestamp,
+          wait_expiry = timestamp + tonumber(ARGV[11])
+        }
+        redis.call('HSET', wait_key, user_id, cjson.encode(ticket))
+
+        local positions = {}
+        for _, file_path in ipairs(file_paths) do
+          local position = 1
+          for _, other in ipairs(tickets) do
+            if other.user_id ~= user_id and ticket_before(other, ticket) and ticket_overlap(other, file_path) then
+              position = position + 1
+            end
           end
+          positions[file_path] = position
         end
+
+        result.queued = true
+        result.queue_positions = positions
       end
+
+      return cjson.encode(result)
+    end
+
+    -- Neighbour writers only block; they are not queued behind.
+    local neighbor_conflict = status == 'WRITING' and find_neighbor_writer(existing, neighbor_guards, user_id, timestamp)
+    if neighbor_conflict then
+      return cjson.encode({
+        success = false,
+        reason = "NEIGHBOR_CONFLICT",
+        conflicting_file = neighbor_conflict.neighbor,
+        conflicting_scope = neighbor_conflict.scope,
+        conflicting_user = neighbor_conflict.user_id,
+        conflicting_status = neighbor_conflict.status
+      })
     end
 
     local locks = {}
-    for i, file_path in ipairs(file_paths) do
+    for _, file_path in ipairs(file_paths) do
+      local holders = load_holders(existing[file_path])
+      for holder_id, holder in pairs(holders) do
+        if holder.expiry <= timestamp then
+          holders[holder_id] = nil
+        end
+      end
+
       local lock = {
         file_path = file_path,
         user_id = ARGV[2],
@@ -126,16 +719,18 @@ export async function acquireLocks(request: LockRequest): Promise<AcquireResult>
         timestamp = timestamp,
         expiry = expiry
       }
-      redis.call('HSET', lock_key, file_path, cjson.encode(lock))
+      holders[user_id] = lock
+      redis.call('HSET', lock_key, file_path, cjson.encode({ file_path = file_path, holders = holders }))
       table.insert(locks, lock)
     end
+    trim_ticket(wait_key, user_id, file_paths)
 
     return cjson.encode({ success = true, locks = locks })
   `;
 
   try {
-    const rawResult = await (kv as any).eval(luaScript, [lockKey], [
-      JSON.stringify(request.filePaths),
+    const rawResult = await (kv as any).eval(luaScript, [lockKey, getWaitKey(lockKey)], [
+      JSON.stringify(normalizeLockScopes(request.filePaths)),
       request.userId,
       request.status,
       timestamp.toString(),
@@ -143,6 +738,10 @@ export async function acquireLocks(request: LockRequest): Promise<AcquireResult>
       request.userName,
       request.agentHead,
       request.message,
+      request.wait ? '1' : '0',
+      ttlMs.toString(),
+      LOCK_WAIT_TTL_MS.toString(),
+      serializeNeighborGuards(request.neighborGuards),
     ]);
 
     const parsed = normalizeJsonValue<{
@@ -151,6 +750,10 @@ export async function acquireLocks(request: LockRequest): Promise<AcquireResult>
       reason?: string;
       conflicting_file?: string;
       conflicting_user?: string;
+      conflicting_status?: 'READING' | 'WRITING';
+      conflicting_scope?: string;
+      queued?: boolean;
+      queue_positions?: Record<string, number>;
     }>(rawResult);
 
     if (!parsed) {
@@ -166,6 +769,9 @@ export async function acquireLocks(request: LockRequest): Promise<AcquireResult>
       reason: parsed.reason,
       conflictingFile: parsed.conflicting_file,
       conflictingUser: parsed.conflicting_user,
+      conflictingStatus: parsed.conflicting_status,
+      conflictingScope: parsed.conflicting_scope,
+      ...(parsed.queued ? { queued: true, queuePositions: parsed.queue_positions ?? {} } : {}),
     };
   } catch (error) {
     console.error('Lock acquisition failed:', error);
@@ -182,45 +788,472 @@ export async function releaseLocks(
   filePaths: string[],
   userId: string,
 ): Promise<{ success: boolean }> {
-  const lockKey = getLockKey(repoUrl, branch);
+  const lockKey = await resolveLockKey(repoUrl, branch);
 
+  // Releasing also withdraws the caller from the wait queue for those scopes, then hands freed
+  // scopes to the next waiters in the same script so nobody can cut in between.
   const luaScript = `
+    ${LOAD_HOLDERS_LUA}
+    ${SCOPE_MATCH_LUA}
+    ${NEIGHBOR_GUARD_LUA}
+    ${WAIT_QUEUE_LUA}
+
     local lock_key = KEYS[1]
+    local wait_key = KEYS[2]
     local file_paths = cjson.decode(ARGV[1])
     local user_id = ARGV[2]
+    local now = tonumber(ARGV[3])
 
     for i, file_path in ipairs(file_paths) do
       local existing = redis.call('HGET', lock_key, file_path)
       if existing then
-        local lock = cjson.decode(existing)
-        if lock.user_id == user_id then
-          redis.call('HDEL', lock_key, file_path)
+        local holders = load_holders(existing)
+        if holders[user_id] then
+          holders[user_id] = nil
+          if next(holders) == nil then
+            redis.call('HDEL', lock_key, file_path)
+          else
+            redis.call('HSET', lock_key, file_path, cjson.encode({ file_path = file_path, holders = holders }))
+          end
         end
       end
     end
+    trim_ticket(wait_key, user_id, file_paths)
 
-    return 1
+    return cjson.encode({ granted = grant_waiters(lock_key, wait_key, now) })
   `;
 
+  let granted: GrantedWaiter[];
   try {
-    await (kv as any).eval(luaScript, [lockKey], [JSON.stringify(filePaths), userId]);
-    return { success: true };
+    const rawResult = await (kv as any).eval(luaScript, [lockKey, getWaitKey(lockKey)], [
+      JSON.stringify(normalizeLockScopes(filePaths)),
+      userId,
+      Date.now().toString(),
+    ]);
+    granted = parseGrantedWaiters(normalizeJsonValue<{ granted?: unknown }>(rawResult)?.granted);
   } catch (error) {
     console.error('Lock release failed:', error);
     return { success: false };
   }
+
+  await publishGrantedWaiters(normalizeRepoUrl(repoUrl), branch.trim() || 'main', granted);
+  return { success: true };
+}
+
+export async function updateLocks(request: LockUpdateRequest): Promise<UpdateResult> {
+  const lockKey = await resolveLockKey(request.repoUrl, request.branch);
+  const timestamp = Date.now();
+  const expiry = timestamp + clampLockTtl(request.ttlMs);
+
+  const transitions: Array<{ file_path: string; status: LockTransitionStatus }> = [];
+  const seen = new Set<string>();
+  for (const transition of request.transitions) {
+    const scope = normalizeLockScope(transition.filePath);
+    if (!scope) {
+      continue;
+    }
+    if (seen.has(scope)) {
+      return { success: false, locks: [], released: [], reason: 'DUPLICATE_SCOPE', conflictingFile: scope };
+    }
+    seen.add(scope);
+    transitions.push({ file_path: scope, status: transition.status });
+  }
+
+  // Every claim is checked against the lock map and the wait queue before anything is written, so
+  // the batch applies as a whole or not at all. Scopes the caller already holds keep their place and
+  // are not held back by waiters; releases and downgrades then hand freed scopes to those waiters.
+  const luaScript = `
+    ${LOAD_HOLDERS_LUA}
+    ${SCOPE_MATCH_LUA}
+    ${NEIGHBOR_GUARD_LUA}
+    ${WAIT_QUEUE_LUA}
+
+    local lock_key = KEYS[1]
+    local wait_key = KEYS[2]
+    local transitions = cjson.decode(ARGV[1])
+    local user_id = ARGV[2]
+    local now = tonumber(ARGV[3])
+    local expiry = tonumber(ARGV[4])
+
+    local existing = load_lock_map(lock_key)
+    local tickets = load_tickets(wait_key, now)
+    local own_ticket = nil
+    for _, ticket in ipairs(tickets) do
+      if ticket.user_id == user_id then
+        own_ticket = ticket
+      end
+    end
+
+    local function holds(file_path)
+      local holder = load_holders(existing[file_path])[user_id]
+      return holder ~= nil and holder.expiry > now
+    end
+
+    for _, transition in ipairs(transitions) do
+      local file_path = transition.file_path
+      if transition.status ~= 'OPEN' then
+        local conflict = find_conflict(existing, file_path, user_id, transition.status, now)
+
+        if not conflict and not holds(file_path) then
+          for _, ticket in ipairs(tickets) do
+            if own_ticket and not ticket_before(ticket, own_ticket) then
+              break
+            end
+            local scope = ticket.user_id ~= user_id and ticket_overlap(ticket, file_path)
+            if scope then
+              conflict = { scope = scope, user_id = ticket.user_id, status = ticket.status }
+              break
+            end
+          end
+        end
+
+        if conflict then
+          return cjson.encode({
+            success = false,
+            reason = "FILE_CONFLICT",
+            conflicting_file = file_path,
+            conflicting_scope = conflict.scope,
+            conflicting_user = conflict.user_id,
+            conflicting_status = conflict.status
+          })
+        end
+      end
+    end
+
+    local neighbor_conflict = find_neighbor_writer(existing, cjson.decode(ARGV[8]), user_id, now)
+    if neighbor_conflict then
+      return cjson.encode({
+        success = false,
+        reason = "NEIGHBOR_CONFLICT",
+        conflicting_file = neighbor_conflict.neighbor,
+        conflicting_scope = neighbor_conflict.scope,
+        conflicting_user = neighbor_conflict.user_id,
+        conflicting_status = neighbor_conflict.status
+      })
+    end
+
+    local locks = {}
+    local released = {}
+    local scopes = {}
+    for _, transition in ipairs(transitions) do
+      local file_path = transition.file_path
+      local held = holds(file_path)
+      local holders = load_holders(existing[file_path])
+      for holder_id, holder in pairs(holders) do
+        if holder.expiry <= now then
+          holders[holder_id] = nil
+        end
+      end
+
+      if transition.status == 'OPEN' then
+        holders[user_id] = nil
+        if held then
+          table.insert(released, file_path)
+        end
+      else
+        local lock = {
+          file_path = file_path,
+          user_id = user_id,
+          user_name = ARGV[5],
+          status = transition.status,
+          agent_head = ARGV[6],
+          message = ARGV[7],
+          timestamp = now,
+          expiry = expiry
+        }
+        holders[user_id] = lock
+        table.insert(locks, lock)
+      end
+
+      if next(holders) == nil then
+        redis.call('HDEL', lock_key, file_path)
+        existing[file_path] = nil
+      else
+        local encoded = cjson.encode({ file_path = file_path, holders = holders })
+        redis.call('HSET', lock_key, file_path, encoded)
+        existing[file_path] = encoded
+      end
+      table.insert(scopes, file_path)
+    end
+    trim_ticket(wait_key, user_id, scopes)
+
+    return cjson.encode({
+      success = true,
+      locks = locks,
+      released = released,
+      granted = grant_waiters(lock_key, wait_key, now)
+    })
+  `;
+
+  let parsed: {
+    success: boolean;
+    locks?: unknown;
+    released?: unknown;
+    granted?: unknown;
+    reason?: string;
+    conflicting_file?: string;
+    conflicting_user?: string;
+    conflicting_status?: 'READING' | 'WRITING';
+    conflicting_scope?: string;
+  } | null;
+  try {
+    const rawResult = await (kv as any).eval(luaScript, [lockKey, getWaitKey(lockKey)], [
+      JSON.stringify(transitions),
+      request.userId,
+      timestamp.toString(),
+      expiry.toString(),
+      request.userName,
+      request.agentHead,
+      request.message,
+      serializeNeighborGuards(request.neighborGuards),
+    ]);
+    parsed = normalizeJsonValue(rawResult);
+  } catch (error) {
+    console.error('Lock update failed:', error);
+    return { success: false, locks: [], released: [], reason: 'INTERNAL_ERROR' };
+  }
+
+  if (!parsed) {
+    return { success: false, locks: [], released: [], reason: 'INVALID_LOCK_RESPONSE' };
+  }
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      locks: [],
+      released: [],
+      reason: parsed.reason,
+      conflictingFile: parsed.conflicting_file,
+      conflictingUser: parsed.conflicting_user,
+      conflictingStatus: parsed.conflicting_status,
+      conflictingScope: parsed.conflicting_scope,
+    };
+  }
+
+  await publishGrantedWaiters(
+    normalizeRepoUrl(request.repoUrl),
+    request.branch.trim() || 'main',
+    parseGrantedWaiters(parsed.granted),
+  );
+
+  // cjson encodes empty Lua tables as objects, so only trust actual arrays here.
+  return {
+    success: true,
+    locks: Array.isArray(parsed.locks)
+      ? parsed.locks.map((entry) => parseLockEntry(entry)).filter((entry): entry is LockEntry => entry !== null)
+      : [],
+    released: Array.isArray(parsed.released)
+      ? parsed.released.filter((entry): entry is string => typeof entry === 'string')
+      : [],
+  };
+}
+
+export async function renewLocks(
+  repoUrl: string,
+  branch: string,
+  filePaths: string[],
+  userId: string,
+  ttlMs?: number,
+): Promise<RenewResult> {
+  const lockKey = await resolveLockKey(repoUrl, branch);
+  const scopes = normalizeLockScopes(filePaths);
+  const now = Date.now();
+  const expiry = now + clampLockTtl(ttlMs);
+
+  // Only touches the caller's own live holder entries; status, message and timestamp are left as-is.
+  const luaScript = `
+    ${LOAD_HOLDERS_LUA}
+
+    local lock_key = KEYS[1]
+    local file_paths = cjson.decode(ARGV[1])
+    local user_id = ARGV[2]
+    local now = tonumber(ARGV[3])
+    local expiry = tonumber(ARGV[4])
+
+    local renewed = {}
+    local missing = {}
+    for i, file_path in ipairs(file_paths) do
+      local holders = load_holders(redis.call('HGET', lock_key, file_path))
+      local holder = holders[user_id]
+      if holder and holder.expiry > now then
+        holder.expiry = math.max(holder.expiry, expiry)
+        redis.call('HSET', lock_key, file_path, cjson.encode({ file_path = file_path, holders = holders }))
+        table.insert(renewed, holder)
+      else
+        table.insert(missing, file_path)
+      end
+    end
+
+    return cjson.encode({ renewed = renewed, missing = missing })
+  `;
+
+  try {
+    const rawResult = await (kv as any).eval(luaScript, [lockKey], [
+      JSON.stringify(scopes),
+      userId,
+      now.toString(),
+      expiry.toString(),
+    ]);
+
+    const parsed = normalizeJsonValue<{ renewed?: unknown; missing?: unknown }>(rawResult);
+    if (!parsed) {
+      return { success: false, renewed: [], missing: scopes };
+    }
+
+    // cjson encodes empty Lua tables as objects, so only trust actual arrays here.
+    const renewed = Array.isArray(parsed.renewed)
+      ? parsed.renewed.map((entry) => parseLockEntry(entry)).filter((entry): entry is LockEntry => entry !== null)
+      : [];
+    const missing = Array.isArray(parsed.missing)
+      ? parsed.missing.filter((entry): entry is string => typeof entry === 'string')
+      : [];
+
+    return { success: true, renewed, missing };
+  } catch (error) {
+    console.error('Lock renewal failed:', error);
+    return { success: false, renewed: [], missing: scopes };
+  }
+}
+
+async function sweepLapsedHolders(
+  lockKey: string,
+  now: number,
+): Promise<{ lapsed: LockEntry[]; granted: GrantedWaiter[] }> {
+  const luaScript = `
+    ${LOAD_HOLDERS_LUA}
+    ${SCOPE_MATCH_LUA}
+    ${NEIGHBOR_GUARD_LUA}
+    ${WAIT_QUEUE_LUA}
+
+    local lock_key = KEYS[1]
+    local wait_key = KEYS[2]
+    local now = tonumber(ARGV[1])
+    local entries = redis.call('HGETALL', lock_key)
+
+    local lapsed = {}
+    for i = 1, #entries, 2 do
+      local file_path = entries[i]
+      local holders = load_holders(entries[i + 1])
+      local changed = false
+
+      for holder_id, holder in pairs(holders) do
+        if type(holder.expiry) ~= 'number' or holder.expiry <= now then
+          holder.file_path = file_path
+          table.insert(lapsed, holder)
+          holders[holder_id] = nil
+          changed = true
+        end
+      end
+
+      if next(holders) == nil then
+        redis.call('HDEL', lock_key, file_path)
+      elseif changed then
+        redis.call('HSET', lock_key, file_path, cjson.encode({ file_path = file_path, holders = holders }))
+      end
+    end
+
+    return cjson.encode({ lapsed = lapsed, granted = grant_waiters(lock_key, wait_key, now) })
+  `;
+
+  const rawResult = await (kv as any).eval(luaScript, [lockKey, getWaitKey(lockKey)], [now.toString()]);
+  const parsed = normalizeJsonValue<{ lapsed?: unknown; granted?: unknown }>(rawResult);
+  if (!parsed) {
+    return { lapsed: [], granted: [] };
+  }
+
+  const lapsed = Array.isArray(parsed.lapsed)
+    ? parsed.lapsed.map((entry) => parseLockEntry(entry)).filter((entry): entry is LockEntry => entry !== null)
+    : [];
+  return { lapsed, granted: parseGrantedWaiters(parsed.granted) };
+}
+
+function parseGrantedWaiters(value: unknown): GrantedWaiter[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry) => ({
+      user_id: String(entry.user_id ?? ''),
+      user_name: String(entry.user_name ?? entry.user_id ?? ''),
+      status: entry.status === 'READING' ? ('READING' as const) : ('WRITING' as const),
+      message: typeof entry.message === 'string' ? entry.message : '',
+      locks: Array.isArray(entry.locks)
+        ? entry.locks.map((lock) => parseLockEntry(lock)).filter((lock): lock is LockEntry => lock !== null)
+        : [],
+    }))
+    .filter((entry) => entry.user_id && entry.locks.length > 0);
+}
+
+async function publishGrantedWaiters(repoUrl: string, branch: string, granted: GrantedWaiter[]): Promise<void> {
+  for (const waiter of granted) {
+    try {
+      await publishActivityEvents({
+        repoUrl,
+        branch,
+        filePaths: waiter.locks.map((lock) => lock.file_path),
+        userId: waiter.user_id,
+        userName: waiter.user_name,
+        status: waiter.status,
+        message: waiter.message,
+        timestamp: waiter.locks[0].timestamp,
+      });
+    } catch (error) {
+      console.error('Lock handoff activity publish failed:', error);
+    }
+  }
+}
+
+async function publishLapsedLocks(repoUrl: string, branch: string, lapsed: LockEntry[]): Promise<void> {
+  const byUser = new Map<string, LockEntry[]>();
+  for (const lock of lapsed) {
+    byUser.set(lock.user_id, [...(byUser.get(lock.user_id) ?? []), lock]);
+  }
+
+  for (const [userId, locks] of byUser) {
+    try {
+      await publishActivityEvents({
+        repoUrl,
+        branch,
+        filePaths: locks.map((lock) => lock.file_path),
+        userId,
+        userName: locks[0].user_name,
+        status: 'OPEN',
+        message: 'Lock expired without renewal',
+        event: 'lock_expired',
+        timestamp: Math.max(...locks.map((lock) => lock.expiry)),
+      });
+    } catch (error) {
+      console.error('Lock expiry activity publish failed:', error);
+    }
+  }
+}
+
+export async function expireLapsedLocks(repoUrl: string, branch: string): Promise<LockEntry[]> {
+  try {
+    const { lapsed, granted } = await sweepLapsedHolders(await resolveLockKey(repoUrl, branch), Date.now());
+    if (lapsed.length > 0) {
+      await publishLapsedLocks(normalizeRepoUrl(repoUrl), branch.trim() || 'main', lapsed);
+    }
+    await publishGrantedWaiters(normalizeRepoUrl(repoUrl), branch.trim() || 'main', granted);
+    return lapsed;
+  } catch (error) {
+    console.error('Lock expiry sweep failed:', error);
+    return [];
+  }
 }
 
 export async function releaseAllLocks(
   repoUrl: string,
   branch: string,
 ): Promise<{ success: boolean; released: number }> {
-  const lockKey = getLockKey(repoUrl, branch);
+  const lockKey = await resolveLockKey(repoUrl, branch);
 
   try {
     const releasedRaw = await (kv as any).hlen(lockKey);
     const released = typeof releasedRaw === 'number' && Number.isFinite(releasedRaw) ? releasedRaw : 0;
-    await kv.del(lockKey);
+    await kv.del(lockKey, getWaitKey(lockKey));
     return { success: true, released };
   } catch (error) {
     console.error('Release all locks failed:', error);
@@ -228,8 +1261,8 @@ export async function releaseAllLocks(
   }
 }
 
-export async function getLocks(repoUrl: string, branch: string): Promise<Record<string, LockEntry>> {
-  const lockKey = getLockKey(repoUrl, branch);
+export async function getLocks(repoUrl: string, branch: string): Promise<Record<string, FileLock>> {
+  const lockKey = await resolveLockKey(repoUrl, branch);
   const entries = (await kv.hgetall(lockKey)) as Record<string, RedisLockEntryValue> | null;
 
   if (!entries) {
@@ -237,11 +1270,11 @@ export async function getLocks(repoUrl: string, branch: string): Promise<Record<
   }
 
   const now = Date.now();
-  const parsed: Record<string, LockEntry> = {};
+  const parsed: Record<string, FileLock> = {};
 
   for (const [filePath, rawLock] of Object.entries(entries)) {
-    const lock = parseLockEntry(rawLock);
-    if (lock && lock.expiry > now) {
+    const lock = parseFileLock(rawLock, now);
+    if (lock) {
       parsed[filePath] = lock;
     }
   }
@@ -249,40 +1282,202 @@ export async function getLocks(repoUrl: string, branch: string): Promise<Record<
   return parsed;
 }
 
+export function findCoveringLocks(
+  locks: Record<string, FileLock>,
+  filePath: string,
+): Array<{ scope: string; lock: FileLock }> {
+  return Object.entries(locks)
+    .filter(([scope]) => scope !== filePath && lockScopeCovers(scope, filePath))
+    .map(([scope, lock]) => ({ scope, lock }));
+}
+
 export async function checkLocks(
   repoUrl: string,
   branch: string,
   filePaths: string[],
-): Promise<Record<string, LockEntry>> {
+): Promise<Record<string, FileLock>> {
   const allLocks = await getLocks(repoUrl, branch);
-  const relevant: Record<string, LockEntry> = {};
+  const relevant: Record<string, FileLock> = {};
 
   for (const filePath of filePaths) {
-    if (allLocks[filePath]) {
-      relevant[filePath] = allLocks[filePath];
+    const lock = allLocks[filePath] ?? findCoveringLocks(allLocks, filePath)[0]?.lock;
+    if (lock) {
+      relevant[filePath] = lock;
     }
   }
 
   return relevant;
 }
 
+function parseLockTicket(value: unknown): LockTicket | null {
+  const parsed = normalizeJsonValue<Partial<LockTicket>>(value as string | Partial<LockTicket> | null);
+  if (
+    !parsed ||
+    typeof parsed.user_id !== 'string' ||
+    (parsed.status !== 'READING' && parsed.status !== 'WRITING') ||
+    !Array.isArray(parsed.file_paths) ||
+    typeof parsed.enqueued_at !== 'number' ||
+    typeof parsed.wait_expiry !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    user_id: parsed.user_id,
+    user_name: typeof parsed.user_name === 'string' ? parsed.user_name : parsed.user_id,
+    status: parsed.status,
+    message: typeof parsed.message === 'string' ? parsed.message : '',
+    agent_head: typeof parsed.agent_head === 'string' ? parsed.agent_head : '',
+    ttl_ms: typeof parsed.ttl_ms === 'number' ? parsed.ttl_ms : LOCK_TTL_MS,
+    file_paths: parsed.file_paths.filter((scope): scope is string => typeof scope === 'string'),
+    enqueued_at: parsed.enqueued_at,
+    wait_expiry: parsed.wait_expiry,
+  };
+}
+
+function compareTickets(a: LockTicket, b: LockTicket): number {
+  if (a.enqueued_at !== b.enqueued_at) {
+    return a.enqueued_at - b.enqueued_at;
+  }
+  return a.user_id < b.user_id ? -1 : a.user_id > b.user_id ? 1 : 0;
+}
+
+async function getLiveTickets(repoUrl: string, branch: string): Promise<LockTicket[]> {
+  const waitKey = getWaitKey(await resolveLockKey(repoUrl, branch));
+  const entries = (await kv.hgetall(waitKey)) as Record<string, unknown> | null;
+  if (!entries) {
+    return [];
+  }
+
+  const now = Date.now();
+  return Object.values(entries)
+    .map((entry) => parseLockTicket(entry))
+    .filter((ticket): ticket is LockTicket => ticket !== null && ticket.wait_expiry > now)
+    .sort(compareTickets);
+}
+
+function getWaitersFor(tickets: LockTicket[], filePath: string): LockWaiter[] {
+  return tickets
+    .filter((ticket) => ticket.file_paths.some((scope) => lockScopesOverlap(filePath, scope)))
+    .map((ticket, index) => ({
+      user_id: ticket.user_id,
+      user_name: ticket.user_name,
+      status: ticket.status,
+      message: ticket.message,
+      file_paths: ticket.file_paths,
+      position: index + 1,
+      enqueued_at: ticket.enqueued_at,
+    }));
+}
+
+export async function getLockQueue(
+  repoUrl: string,
+  branch: string,
+  filePaths: string[],
+): Promise<Record<string, LockWaiter[]>> {
+  const tickets = await getLiveTickets(repoUrl, branch);
+  const queue: Record<string, LockWaiter[]> = {};
+
+  for (const filePath of normalizeLockScopes(filePaths)) {
+    const waiters = getWaitersFor(tickets, filePath);
+    if (waiters.length > 0) {
+      queue[filePath] = waiters;
+    }
+  }
+
+  return queue;
+}
+
+export async function getLockWaitState(
+  repoUrl: string,
+  branch: string,
+  filePaths: string[],
+  userId: string,
+): Promise<LockWaitState> {
+  const scopes = normalizeLockScopes(filePaths);
+  const [allLocks, tickets] = await Promise.all([getLocks(repoUrl, branch), getLiveTickets(repoUrl, branch)]);
+
+  const held = scopes
+    .map((scope) => allLocks[scope]?.holders.find((holder) => holder.user_id === userId))
+    .filter((holder): holder is LockEntry => Boolean(holder));
+  if (held.length === scopes.length) {
+    return { state: 'GRANTED', locks: held, queuePositions: {} };
+  }
+
+  const ownTicket = tickets.find((ticket) => ticket.user_id === userId);
+  if (!ownTicket) {
+    return { state: 'NOT_QUEUED', locks: held, queuePositions: {} };
+  }
+
+  const queuePositions: Record<string, number> = {};
+  for (const scope of scopes) {
+    const position = getWaitersFor(tickets, scope).findIndex((waiter) => waiter.user_id === userId);
+    if (position !== -1) {
+      queuePositions[scope] = position + 1;
+    }
+  }
+
+  return { state: 'QUEUED', locks: held, queuePositions };
+}
+
+// Response body shared by /api/lock_queue and the wait_for_lock MCP tool.
+export function formatLockWaitState(waitState: LockWaitState) {
+  const orchestration =
+    waitState.state === 'GRANTED'
+      ? {
+          type: 'orchestration_command',
+          action: 'PROCEED',
+          command: null,
+          reason: 'Lock granted from wait queue',
+        }
+      : waitState.state === 'QUEUED'
+        ? {
+            type: 'orchestration_command',
+            action: 'WAIT',
+            command: null,
+            reason: `Still queued: ${Object.entries(waitState.queuePositions)
+              .map(([filePath, position]) => `${filePath} (#${position})`)
+              .join(', ')}`,
+          }
+        : {
+            type: 'orchestration_command',
+            action: 'STOP',
+            command: null,
+            reason: 'Not waiting for these files. Call post_status with wait=true to join the queue.',
+          };
+
+  return {
+    success: waitState.state === 'GRANTED',
+    state: waitState.state,
+    locks: waitState.locks,
+    queue_positions: waitState.queuePositions,
+    orchestration,
+  };
+}
+
 export async function cleanupExpiredLocks(): Promise<number> {
   const now = Date.now();
   let cleanedCount = 0;
   const keys = (await (kv as any).keys('locks:*')) as string[];
+  const swept = new Set<string>();
 
   for (const key of keys) {
-    const entries = (await kv.hgetall(key)) as Record<string, RedisLockEntryValue> | null;
-    if (!entries) {
+    const scope = parseLockKey(key);
+    // Legacy unscoped keys are moved to their provider-scoped key first, so the sweep runs there once.
+    const lockKey = scope ? await resolveLockKey(scope.repoUrl, scope.branch) : key;
+    if (swept.has(lockKey)) {
       continue;
     }
+    swept.add(lockKey);
 
-    for (const [filePath, rawLock] of Object.entries(entries)) {
-      const lock = parseLockEntry(rawLock);
-      if (!lock || lock.expiry < now) {
-        await kv.hdel(key, filePath);
-        cleanedCount += 1;
-      }
+    const { lapsed, granted } = await sweepLapsedHolders(lockKey, now);
+    cleanedCount += lapsed.length;
+
+    if (scope && lapsed.length > 0) {
+      await publishLapsedLocks(scope.repoUrl, scope.branch, lapsed);
+    }
+    if (scope) {
+      await publishGrantedWaiters(scope.repoUrl, scope.branch, granted);
     }
   }
 
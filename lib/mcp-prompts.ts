@@ -0,0 +1,214 @@
+export type CoordinationPromptName = 'start-task' | 'finish-task' | 'resolve-conflict';
+
+export interface PromptDefinition {
+  name: CoordinationPromptName;
+  description: string;
+  arguments: Array<{ name: string; description: string; required: boolean }>;
+}
+
+export interface PromptContext {
+  agentName: string;
+  repoUrl: string;
+  branch: string | null;
+  filePaths: string[];
+  checkStatus: Record<string, unknown>;
+}
+
+type PromptLockHolder = {
+  user_id?: string;
+  user_name?: string;
+  status?: string;
+  message?: string;
+  expiry?: number;
+};
+
+type PromptLock = PromptLockHolder & {
+  lock_type?: string;
+  covered_by?: string;
+  holders?: PromptLockHolder[];
+};
+
+const SHARED_ARGUMENTS: PromptDefinition['arguments'] = [
+  {
+    name: 'file_paths',
+    description: 'Comma-separated file paths, directory prefixes or globs the task touches',
+    required: true,
+  },
+  { name: 'repo_url', description: 'GitHub repository URL registered with Relay', required: true },
+  { name: 'agent_head', description: 'Current local git HEAD SHA', required: true },
+  { name: 'branch', description: "Git branch (default: the repository's default branch)", required: false },
+];
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'start-task',
+    description: 'Check live locks and neighbours for the files you are about to edit, then claim them.',
+    arguments: SHARED_ARGUMENTS,
+  },
+  {
+    name: 'finish-task',
+    description: 'Push your work and release the locks you hold on these files.',
+    arguments: SHARED_ARGUMENTS,
+  },
+  {
+    name: 'resolve-conflict',
+    description: 'Decide what to do when another agent holds a lock on files you need.',
+    arguments: SHARED_ARGUMENTS,
+  },
+];
+
+const PROTOCOL_STEPS = [
+  '1. check_status on the files before touching them; obey the orchestration action.',
+  '2. post_status READING or WRITING on exactly those files (directories end in "/") before editing.',
+  '3. Edit only what you locked; call renew_locks during long edits.',
+  '4. Commit, push, then post_status OPEN with new_repo_head set to the pushed SHA.',
+];
+
+export function isCoordinationPromptName(name: string): name is CoordinationPromptName {
+  return PROMPT_DEFINITIONS.some((definition) => definition.name === name);
+}
+
+// Prompt arguments are strings in MCP, so file lists arrive comma- or newline-separated.
+export function parsePromptFilePaths(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\n]/) : [];
+  return raw
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function getLocks(checkStatus: Record<string, unknown>): Array<[string, PromptLock]> {
+  return Object.entries(asRecord(checkStatus.locks)).map(([path, lock]) => [path, asRecord(lock) as PromptLock]);
+}
+
+function getHolders(lock: PromptLock): PromptLockHolder[] {
+  return Array.isArray(lock.holders) && lock.holders.length > 0 ? lock.holders : [lock];
+}
+
+function describeHolder(holder: PromptLockHolder): string {
+  const who = holder.user_name || holder.user_id || 'unknown agent';
+  const expires = typeof holder.expiry === 'number' ? `, expires ${new Date(holder.expiry).toISOString()}` : '';
+  const message = holder.message ? ` - "${holder.message}"` : '';
+  return `${who} (${holder.status ?? 'LOCKED'}${expires})${message}`;
+}
+
+function describeLocks(locks: Array<[string, PromptLock]>, agentName: string, includeOwn: boolean): string[] {
+  const lines: string[] = [];
+  for (const [path, lock] of locks) {
+    const holders = getHolders(lock).filter((holder) => includeOwn || holder.user_id !== agentName);
+    if (holders.length === 0) {
+      continue;
+    }
+
+    const relation = lock.lock_type === 'NEIGHBOR' ? 'dependency neighbour' : 'requested';
+    const via = lock.covered_by ? ` via '${lock.covered_by}'` : '';
+    lines.push(`- ${path} [${relation}${via}]: ${holders.map(describeHolder).join('; ')}`);
+  }
+  return lines;
+}
+
+function describeQueue(checkStatus: Record<string, unknown>): string[] {
+  return Object.entries(asRecord(checkStatus.queue))
+    .filter(([, waiters]) => Array.isArray(waiters) && waiters.length > 0)
+    .map(([path, waiters]) => {
+      const names = (waiters as Array<Record<string, unknown>>).map((waiter) => String(waiter.user_name ?? waiter.user_id));
+      return `- ${path}: ${names.join(' -> ')}`;
+    });
+}
+
+function describeOrchestration(checkStatus: Record<string, unknown>): string {
+  const orchestration = asRecord(checkStatus.orchestration);
+  const action = typeof orchestration.action === 'string' ? orchestration.action : 'UNKNOWN';
+  const command = typeof orchestration.command === 'string' && orchestration.command ? ` (\`${orchestration.command}\`)` : '';
+  const reason = typeof orchestration.reason === 'string' && orchestration.reason ? `: ${orchestration.reason}` : '';
+  return `${action}${command}${reason}`;
+}
+
+function renderStartTask(context: PromptContext, locks: Array<[string, PromptLock]>): string[] {
+  const others = describeLocks(locks, context.agentName, false);
+  return [
+    '## Live lock state',
+    others.length > 0 ? others.join('\n') : '- No other agent holds these files or their dependency neighbours.',
+    '',
+    `Relay orchestration: ${describeOrchestration(context.checkStatus)}`,
+    '',
+    '## What to do now',
+    '- PULL: run the command, then call check_status again with the new HEAD.',
+    '- SWITCH_TASK or a requested file held by someone else: use the resolve-conflict prompt instead of editing.',
+    `- PROCEED: call post_status with status "WRITING" (or "READING" for files you only read), file_paths ${JSON.stringify(context.filePaths)} and a message describing the change.`,
+    '- Locked dependency neighbours are not blockers, but re-check them before changing their contracts.',
+  ];
+}
+
+function renderFinishTask(context: PromptContext, locks: Array<[string, PromptLock]>): string[] {
+  const own = locks
+    .filter(([, lock]) => getHolders(lock).some((holder) => holder.user_id === context.agentName))
+    .map(([path]) => `- ${path}`);
+  return [
+    '## Locks you hold',
+    own.length > 0 ? own.join('\n') : '- None of these files are locked by you; there is nothing to release.',
+    '',
+    '## What to do now',
+    '1. Run the project checks and commit your changes.',
+    '2. Push, then note the pushed HEAD SHA (`git rev-parse HEAD`).',
+    `3. Call post_status with status "OPEN", file_paths ${JSON.stringify(context.filePaths)}, new_repo_head set to that SHA, and a message summarising the change.`,
+    '4. If the response lists orphaned_dependencies, check those files still compile against your change.',
+    '5. If the orchestration is PUSH, your push has not reached the remote yet; push and retry step 3.',
+  ];
+}
+
+function renderResolveConflict(context: PromptContext, locks: Array<[string, PromptLock]>): string[] {
+  const blocking = describeLocks(
+    locks.filter(([, lock]) => lock.lock_type !== 'NEIGHBOR'),
+    context.agentName,
+    false,
+  );
+  const queue = describeQueue(context.checkStatus);
+  return [
+    '## Conflicting locks',
+    blocking.length > 0 ? blocking.join('\n') : '- No conflict right now; you can use the start-task prompt.',
+    ...(queue.length > 0 ? ['', '## Wait queue (first in line first)', ...queue] : []),
+    '',
+    `Relay orchestration: ${describeOrchestration(context.checkStatus)}`,
+    '',
+    '## Options, in order of preference',
+    '1. Switch to work that does not touch these files, and try again later.',
+    '2. If this task cannot move without them, call post_status with wait=true to join the queue, then wait_for_lock until it reports PROCEED.',
+    '3. Never edit a file locked by another agent, and never release locks you do not hold.',
+  ];
+}
+
+export function renderCoordinationPrompt(name: CoordinationPromptName, context: PromptContext) {
+  const definition = PROMPT_DEFINITIONS.find((candidate) => candidate.name === name)!;
+  const locks = getLocks(context.checkStatus);
+  const target = `${context.repoUrl}${context.branch ? ` (${context.branch})` : ''}`;
+  const status = typeof context.checkStatus.status === 'string' ? context.checkStatus.status : 'UNKNOWN';
+  const warnings = Array.isArray(context.checkStatus.warnings) ? context.checkStatus.warnings.map(String) : [];
+
+  const body =
+    name === 'start-task'
+      ? renderStartTask(context, locks)
+      : name === 'finish-task'
+        ? renderFinishTask(context, locks)
+        : renderResolveConflict(context, locks);
+
+  const text = [
+    `You are ${context.agentName}, coordinating through Relay on ${target}.`,
+    `Files: ${context.filePaths.join(', ')}`,
+    `check_status: ${status}${warnings.length > 0 ? ` (${warnings.join('; ')})` : ''}`,
+    '',
+    ...body,
+    '',
+    '## Relay protocol (every task)',
+    ...PROTOCOL_STEPS,
+  ].join('\n');
+
+  return {
+    description: definition.description,
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
@@ -0,0 +1,269 @@
+import { createHash } from 'crypto';
+import { getRecentActivityEvents, type CoordinationActivityEvent } from './activity';
+import { GraphService, type DependencyGraph } from './graph-service';
+import { lockScopesOverlap, normalizeLockScope } from './lock-scope';
+import { expireLapsedLocks, getLocks, type FileLock } from './locks';
+import { normalizeRepoUrl, parseRepoRef } from './repo-providers';
+
+export type RelayResourceKind = 'locks' | 'graph' | 'activity';
+
+export interface RelayResourceRef {
+  repoUrl: string;
+  branch: string;
+  kind: RelayResourceKind;
+  paths: string[];
+}
+
+export interface RelayResourceContents {
+  uri: string;
+  mimeType: 'application/json';
+  text: string;
+}
+
+const RESOURCE_SCHEME = 'relay://';
+const RESOURCE_KINDS: RelayResourceKind[] = ['locks', 'graph', 'activity'];
+const RESOURCE_MIME_TYPE = 'application/json';
+const ACTIVITY_RESOURCE_LIMIT = 50;
+
+const RESOURCE_DESCRIPTIONS: Record<RelayResourceKind, string> = {
+  locks: 'Active locks and their holders. Add ?paths=a.ts,b.ts to narrow to those files and their graph neighbours.',
+  graph: 'Cached dependency graph (nodes and import edges). With ?paths=, only those files and their direct neighbours.',
+  activity: `The ${ACTIVITY_RESOURCE_LIMIT} most recent lock activity events, oldest first. Supports ?paths= like locks.`,
+};
+
+export const RELAY_RESOURCE_TEMPLATES = RESOURCE_KINDS.map((kind) => ({
+  uriTemplate: `${RESOURCE_SCHEME}{owner}/{repo}/{branch}/${kind}`,
+  name: kind,
+  description: RESOURCE_DESCRIPTIONS[kind],
+  mimeType: RESOURCE_MIME_TYPE,
+}));
+
+// relay://{owner}/{repo}/{branch}/{kind}[?paths=a.ts,b.ts]; the branch may itself contain slashes.
+// GitLab and Bitbucket repos use relay://{host}/{url-encoded project path}/{branch}/{kind}: GitHub
+// owners never contain a dot, so a dotted first segment is a host.
+export function parseRelayResourceUri(uri: string): RelayResourceRef | null {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    return null;
+  }
+
+  const [location, query = ''] = uri.slice(RESOURCE_SCHEME.length).split('?', 2);
+  const segments = location.split('/').filter(Boolean);
+  if (segments.length < 4) {
+    return null;
+  }
+
+  const kind = segments[segments.length - 1] as RelayResourceKind;
+  if (!RESOURCE_KINDS.includes(kind)) {
+    return null;
+  }
+
+  let repoUrl: string;
+  let branch: string;
+  try {
+    repoUrl = segments[0].includes('.')
+      ? normalizeRepoUrl(`https://${segments[0]}/${decodeURIComponent(segments[1])}`)
+      : normalizeRepoUrl(`https://github.com/${segments[0]}/${segments[1]}`);
+    branch = decodeURIComponent(segments.slice(2, -1).join('/'));
+  } catch {
+    return null;
+  }
+
+  const rawPaths = new URLSearchParams(query).get('paths') ?? '';
+  const paths = rawPaths
+    .split(',')
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map(normalizeLockScope);
+
+  return { repoUrl, branch, kind, paths };
+}
+
+export function formatRelayResourceUri(ref: Omit<RelayResourceRef, 'paths'> & { paths?: string[] }): string {
+  const { provider, host, owner, repo } = parseRepoRef(ref.repoUrl);
+  const location = provider === 'github' ? `${owner}/${repo}` : `${host}/${encodeURIComponent(`${owner}/${repo}`)}`;
+  const branch = ref.branch.split('/').map(encodeURIComponent).join('/');
+  const query = ref.paths && ref.paths.length > 0 ? `?paths=${ref.paths.map(encodeURIComponent).join(',')}` : '';
+  return `${RESOURCE_SCHEME}${location}/${branch}/${ref.kind}${query}`;
+}
+
+export function listRelayResources(targets: Array<{ repoUrl: string; branch: string }>) {
+  return targets.flatMap((target) => {
+    const { owner, repo } = parseRepoRef(target.repoUrl);
+    return RESOURCE_KINDS.map((kind) => ({
+      uri: formatRelayResourceUri({ ...target, kind }),
+      name: `${owner}/${repo}@${target.branch} ${kind}`,
+      description: RESOURCE_DESCRIPTIONS[kind],
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+  });
+}
+
+async function loadCachedGraph(ref: RelayResourceRef): Promise<DependencyGraph | null> {
+  try {
+    return await new GraphService(ref.repoUrl, ref.branch).getCached();
+  } catch {
+    // The graph cache is optional here, as in check_status; read errors mean "not generated".
+    return null;
+  }
+}
+
+// Memoizes the KV reads behind resources per repo branch, so a notification poll cycle sweeps, reads
+// locks and reads the graph once however many subscriptions share them. Create one per cycle or read.
+export class ResourceReads {
+  private reads = new Map<string, Promise<unknown>>();
+
+  private memo<T>(key: string, ref: RelayResourceRef, load: () => Promise<T>): Promise<T> {
+    const cacheKey = `${key}:${ref.repoUrl}:${ref.branch}`;
+    let read = this.reads.get(cacheKey) as Promise<T> | undefined;
+    if (!read) {
+      read = load();
+      this.reads.set(cacheKey, read);
+    }
+    return read;
+  }
+
+  locks(ref: RelayResourceRef): Promise<Record<string, FileLock>> {
+    return this.memo('locks', ref, async () => {
+      await expireLapsedLocks(ref.repoUrl, ref.branch);
+      return getLocks(ref.repoUrl, ref.branch);
+    });
+  }
+
+  graph(ref: RelayResourceRef): Promise<DependencyGraph | null> {
+    return this.memo('graph', ref, () => loadCachedGraph(ref));
+  }
+
+  graphVersion(ref: RelayResourceRef): Promise<string | null> {
+    return this.memo('graph_version', ref, async () => {
+      try {
+        return await new GraphService(ref.repoUrl, ref.branch).getCachedVersion();
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  activity(ref: RelayResourceRef): Promise<CoordinationActivityEvent[]> {
+    return this.memo('activity', ref, () => getRecentActivityEvents(ref.repoUrl, ref.branch, ACTIVITY_RESOURCE_LIMIT));
+  }
+}
+
+function getNeighborPaths(graph: DependencyGraph | null, paths: string[]): string[] {
+  if (!graph) {
+    return [];
+  }
+
+  const watched = new Set(paths);
+  const neighbors = new Set<string>();
+  for (const edge of graph.edges) {
+    if (watched.has(edge.source) && !watched.has(edge.target)) {
+      neighbors.add(edge.target);
+    }
+    if (watched.has(edge.target) && !watched.has(edge.source)) {
+      neighbors.add(edge.source);
+    }
+  }
+  return [...neighbors];
+}
+
+// null means the resource is not narrowed to particular files.
+async function getWatchedPaths(ref: RelayResourceRef, reads: ResourceReads): Promise<string[] | null> {
+  if (ref.paths.length === 0) {
+    return null;
+  }
+
+  return [...ref.paths, ...getNeighborPaths(await reads.graph(ref), ref.paths)];
+}
+
+function isWatched(watched: string[] | null, scope: string): boolean {
+  return watched === null || watched.some((path) => lockScopesOverlap(path, scope));
+}
+
+async function getWatchedLocks(ref: RelayResourceRef, reads: ResourceReads): Promise<Record<string, FileLock>> {
+  const [locks, watched] = await Promise.all([reads.locks(ref), getWatchedPaths(ref, reads)]);
+  return Object.fromEntries(Object.entries(locks).filter(([scope]) => isWatched(watched, scope)));
+}
+
+async function getWatchedActivity(ref: RelayResourceRef, reads: ResourceReads): Promise<CoordinationActivityEvent[]> {
+  const [events, watched] = await Promise.all([reads.activity(ref), getWatchedPaths(ref, reads)]);
+  return events.filter((event) => isWatched(watched, event.file_path));
+}
+
+function toSubgraph(graph: DependencyGraph, paths: string[]) {
+  const watched = new Set(paths);
+  const edges = graph.edges.filter((edge) => watched.has(edge.source) || watched.has(edge.target));
+  const included = new Set([...paths, ...edges.flatMap((edge) => [edge.source, edge.target])]);
+  return {
+    nodes: graph.nodes.filter((node) => included.has(node.id)),
+    edges,
+  };
+}
+
+async function readResourceBody(ref: RelayResourceRef, reads: ResourceReads): Promise<Record<string, unknown>> {
+  const base = {
+    repo_url: ref.repoUrl,
+    branch: ref.branch,
+    ...(ref.paths.length > 0 ? { paths: ref.paths } : {}),
+  };
+
+  if (ref.kind === 'locks') {
+    return { ...base, locks: await getWatchedLocks(ref, reads) };
+  }
+
+  if (ref.kind === 'graph') {
+    const graph = await reads.graph(ref);
+    if (!graph) {
+      // Reading a resource must not spend GitHub quota on a rebuild.
+      return { ...base, available: false, reason: 'Graph not generated yet; open the Relay UI or GET /api/graph first' };
+    }
+
+    const { nodes, edges } = ref.paths.length > 0 ? toSubgraph(graph, ref.paths) : graph;
+    return { ...base, available: true, version: graph.version, metadata: graph.metadata, nodes, edges };
+  }
+
+  return { ...base, activity_events: await getWatchedActivity(ref, reads) };
+}
+
+export async function readRelayResource(uri: string, ref: RelayResourceRef): Promise<RelayResourceContents> {
+  return {
+    uri,
+    mimeType: RESOURCE_MIME_TYPE,
+    text: JSON.stringify(await readResourceBody(ref, new ResourceReads())),
+  };
+}
+
+function digest(value: unknown): string {
+  return `sha256:${createHash('sha256').update(JSON.stringify(value)).digest('hex')}`;
+}
+
+// A stable digest of what a subscriber would care about. The graph is fingerprinted by its version key
+// alone. For locks, expiry timestamps are left out so renewals do not wake subscribers, and the
+// subscriber's own locks are left out so they only hear about others.
+export async function getResourceFingerprint(
+  ref: RelayResourceRef,
+  agentName: string | null,
+  reads = new ResourceReads(),
+): Promise<string> {
+  if (ref.kind === 'graph') {
+    return digest(await reads.graphVersion(ref));
+  }
+
+  if (ref.kind === 'activity') {
+    const events = await getWatchedActivity(ref, reads);
+    return digest(events.length > 0 ? events[events.length - 1].id : null);
+  }
+
+  const locks = await getWatchedLocks(ref, reads);
+  const entries = Object.keys(locks)
+    .sort()
+    .map((scope) => [
+      scope,
+      locks[scope].holders
+        .filter((holder) => holder.user_id !== agentName)
+        .map((holder) => `${holder.user_id}:${holder.status}`)
+        .sort(),
+    ])
+    .filter(([, holders]) => holders.length > 0);
+
+  return digest(entries);
+}
@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { kv } from './kv';
+
+export interface McpSession {
+  id: string;
+  agent_name: string | null;
+  created_at: number;
+}
+
+const MCP_SESSION_TTL_SECONDS = 60 * 60;
+
+function getSessionKey(sessionId: string): string {
+  return `mcp_session:${sessionId}`;
+}
+
+// uri -> last fingerprint pushed to the client ('' until the stream records a baseline).
+function getSubscriptionsKey(sessionId: string): string {
+  return `mcp_session:${sessionId}:subscriptions`;
+}
+
+function parseSession(value: unknown): McpSession | null {
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const candidate = parsed as Partial<McpSession>;
+  if (typeof candidate.id !== 'string' || typeof candidate.created_at !== 'number') {
+    return null;
+  }
+
+  return {
+    id: candidate.id,
+    agent_name: typeof candidate.agent_name === 'string' ? candidate.agent_name : null,
+    created_at: candidate.created_at,
+  };
+}
+
+async function saveSession(session: McpSession): Promise<void> {
+  await kv.set(getSessionKey(session.id), JSON.stringify(session), { ex: MCP_SESSION_TTL_SECONDS });
+}
+
+export async function createMcpSession(agentName: string): Promise<McpSession> {
+  const session: McpSession = {
+    id: randomUUID(),
+    agent_name: agentName,
+    created_at: Date.now(),
+  };
+
+  await saveSession(session);
+  return session;
+}
+
+export async function getMcpSession(sessionId: string): Promise<McpSession | null> {
+  return parseSession(await kv.get(getSessionKey(sessionId)));
+}
+
+// Sliding expiry: any request or open stream on the session keeps it alive. The bound agent never changes.
+export async function touchMcpSession(session: McpSession): Promise<McpSession> {
+  await saveSession(session);
+  await kv.expire(getSubscriptionsKey(session.id), MCP_SESSION_TTL_SECONDS);
+  return session;
+}
+
+export async function deleteMcpSession(sessionId: string): Promise<boolean> {
+  const removed = await kv.del(getSessionKey(sessionId), getSubscriptionsKey(sessionId));
+  return removed > 0;
+}
+
+export async function addMcpSubscription(sessionId: string, uri: string): Promise<void> {
+  await kv.hsetnx(getSubscriptionsKey(sessionId), uri, '');
+  await kv.expire(getSubscriptionsKey(sessionId), MCP_SESSION_TTL_SECONDS);
+}
+
+export async function removeMcpSubscription(sessionId: string, uri: string): Promise<boolean> {
+  const removed = await kv.hdel(getSubscriptionsKey(sessionId), uri);
+  return removed > 0;
+}
+
+export async function getMcpSubscriptions(sessionId: string): Promise<Record<string, string>> {
+  const entries = (await kv.hgetall(getSubscriptionsKey(sessionId))) as Record<string, unknown> | null;
+  const subscriptions: Record<string, string> = {};
+  for (const [uri, fingerprint] of Object.entries(entries ?? {})) {
+    subscriptions[uri] = typeof fingerprint === 'string' ? fingerprint : '';
+  }
+  return subscriptions;
+}
+
+// Stores the latest fingerprints and returns the URIs that changed since the client last heard.
+// A subscription's first fingerprint only records a baseline. Fingerprints live in KV rather than
+// in the stream, so changes that happen while the client is reconnecting are still reported.
+export async function recordMcpFingerprints(
+  sessionId: string,
+  previous: Record<string, string>,
+  fingerprints: Record<string, string>,
+): Promise<string[]> {
+  const changed: string[] = [];
+  const updates: Record<string, string> = {};
+
+  for (const [uri, fingerprint] of Object.entries(fingerprints)) {
+    const before = previous[uri];
+    if (before === undefined || before === fingerprint) {
+      continue;
+    }
+
+    updates[uri] = fingerprint;
+    if (before !== '') {
+      changed.push(uri);
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await kv.hset(getSubscriptionsKey(sessionId), updates);
+  }
+
+  return changed;
+}
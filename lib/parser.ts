@@ -1,49 +1,308 @@
-export type FileLanguage = 'ts' | 'js' | 'py';
+import ts from 'typescript';
+
+export type FileLanguage = 'ts' | 'js' | 'py' | 'go' | 'rs' | 'java' | 'css' | 'json' | 'config' | 'asset';
+
+const FILE_LANGUAGE_EXTENSIONS: [FileLanguage, string[]][] = [
+  ['ts', ['.ts', '.tsx']],
+  ['js', ['.js', '.jsx']],
+  ['py', ['.py']],
+  ['go', ['.go']],
+  ['rs', ['.rs']],
+  ['java', ['.java']],
+  ['css', ['.css', '.scss', '.sass', '.less']],
+  ['json', ['.json']],
+  ['config', ['.yaml', '.yml', '.toml']],
+  ['asset', ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.avif', '.ico', '.woff', '.woff2', '.ttf', '.otf']],
+];
+
+// How the module is pulled in: a plain import/require, a lazy `import()`, or an `export ... from`.
+export type ImportKind = 'static' | 'dynamic' | 're-export';
 
 export interface ParsedImport {
   raw: string;
   module: string;
   lineNumber: number;
+  // Erased at compile time: `import type`, `export type ... from`, all-`type` specifier lists and `import('x')` types.
+  typeOnly: boolean;
+  kind: ImportKind;
+  // The names bound from the module: 'default', '*' for namespace imports and star re-exports, or none
+  // for a side-effect import. Absent when the whole module object is used (require, import(), `import x`
+  // in Python). Python from-imports may name submodules.
+  names?: string[];
 }
 
-export function parseImports(content: string, filePath: string, language: FileLanguage): ParsedImport[] {
-  const imports: ParsedImport[] = [];
-  const lines = content.split('\n');
+export type SymbolKind = 'function' | 'class' | 'variable' | 'type' | 'interface' | 'enum' | 'namespace' | 're-export';
 
-  if (language === 'ts' || language === 'js') {
-    const es6ImportRegex = /^import\s+.*\s+from\s+['"]([^'"]+)['"]/;
-    const es6ExportRegex = /^export\s+.*\s+from\s+['"]([^'"]+)['"]/;
-    const cjsRegex = /(import|require)\(['"]([^'"]+)['"]\)/g;
+export interface ExportedSymbol {
+  name: string;
+  kind: SymbolKind;
+  lineNumber: number;
+  // `export { a as b } from './x'`: the module specifier and the name it is forwarded from.
+  from?: { module: string; name: string };
+}
 
-    for (let i = 0; i < lines.length; i += 1) {
-      const line = lines[i];
-      const trimmed = line.trim();
+export interface ParsedModule {
+  imports: ParsedImport[];
+  exports: ExportedSymbol[];
+}
 
-      if (trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*')) {
-        continue;
-      }
+function getScriptKind(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filePath.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (filePath.endsWith('.js') || filePath.endsWith('.mjs') || filePath.endsWith('.cjs')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
 
-      const es6ImportMatch = trimmed.match(es6ImportRegex);
-      if (es6ImportMatch) {
-        imports.push({ raw: line, module: es6ImportMatch[1], lineNumber: i + 1 });
-        continue;
-      }
+function getModuleSpecifier(node: ts.Node | undefined): string | null {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : null;
+}
 
-      const es6ExportMatch = trimmed.match(es6ExportRegex);
-      if (es6ExportMatch) {
-        imports.push({ raw: line, module: es6ExportMatch[1], lineNumber: i + 1 });
-        continue;
+function isTypeOnlyImportClause(clause: ts.ImportClause | undefined): boolean {
+  if (!clause) {
+    return false;
+  }
+  if (clause.isTypeOnly) {
+    return true;
+  }
+  const bindings = clause.namedBindings;
+  return (
+    !clause.name &&
+    !!bindings &&
+    ts.isNamedImports(bindings) &&
+    bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) {
+    return true;
+  }
+  const clause = node.exportClause;
+  return (
+    !!clause && ts.isNamedExports(clause) && clause.elements.length > 0 && clause.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+function getImportedNames(clause: ts.ImportClause | undefined): string[] {
+  if (!clause) {
+    return [];
+  }
+  const names = clause.name ? ['default'] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push('*');
+  } else if (bindings) {
+    names.push(...bindings.elements.map((element) => (element.propertyName ?? element.name).text));
+  }
+  return names;
+}
+
+function getReExportedNames(node: ts.ExportDeclaration): string[] {
+  const clause = node.exportClause;
+  if (!clause || ts.isNamespaceExport(clause)) {
+    return ['*'];
+  }
+  return clause.elements.map((element) => (element.propertyName ?? element.name).text);
+}
+
+// `import('./x').Foo.Bar` only uses Foo.
+function getImportTypeNames(node: ts.ImportTypeNode): string[] | undefined {
+  let qualifier = node.qualifier;
+  while (qualifier && ts.isQualifiedName(qualifier)) {
+    qualifier = qualifier.left;
+  }
+  return qualifier ? [qualifier.text] : undefined;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+}
+
+function getBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) {
+    return [name.text];
+  }
+  return name.elements.flatMap((element) => (ts.isOmittedExpression(element) ? [] : getBindingNames(element.name)));
+}
+
+// Top-level declarations by name, so `export { a as b }` can report what `a` is.
+function getDeclarationKind(statement: ts.Statement): SymbolKind | null {
+  if (ts.isFunctionDeclaration(statement)) return 'function';
+  if (ts.isClassDeclaration(statement)) return 'class';
+  if (ts.isVariableStatement(statement)) return 'variable';
+  if (ts.isInterfaceDeclaration(statement)) return 'interface';
+  if (ts.isTypeAliasDeclaration(statement)) return 'type';
+  if (ts.isEnumDeclaration(statement)) return 'enum';
+  if (ts.isModuleDeclaration(statement)) return 'namespace';
+  return null;
+}
+
+function getDeclaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) => getBindingNames(declaration.name));
+  }
+  const name = (statement as ts.DeclarationStatement).name;
+  return name && ts.isIdentifier(name) ? [name.text] : [];
+}
+
+function parseScriptExports(sourceFile: ts.SourceFile): ExportedSymbol[] {
+  const exports: ExportedSymbol[] = [];
+  const localKinds = new Map<string, SymbolKind>();
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  for (const statement of sourceFile.statements) {
+    const kind = getDeclarationKind(statement);
+    for (const name of kind ? getDeclaredNames(statement) : []) {
+      localKinds.set(name, kind!);
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const kind = getDeclarationKind(statement);
+    if (kind && hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const names = hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? ['default'] : getDeclaredNames(statement);
+      exports.push(...names.map((name) => ({ name, kind, lineNumber: lineOf(statement) })));
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      const expression = statement.expression;
+      const kind = ts.isIdentifier(expression) ? localKinds.get(expression.text) : undefined;
+      exports.push({ name: 'default', kind: kind ?? 'variable', lineNumber: lineOf(statement) });
+      continue;
+    }
+
+    if (!ts.isExportDeclaration(statement) || !statement.exportClause) {
+      continue;
+    }
+
+    const module = getModuleSpecifier(statement.moduleSpecifier);
+    if (ts.isNamespaceExport(statement.exportClause)) {
+      if (module) {
+        exports.push({
+          name: statement.exportClause.name.text,
+          kind: 're-export',
+          lineNumber: lineOf(statement),
+          from: { module, name: '*' },
+        });
       }
+      continue;
+    }
+
+    for (const element of statement.exportClause.elements) {
+      const localName = (element.propertyName ?? element.name).text;
+      exports.push(
+        module
+          ? { name: element.name.text, kind: 're-export', lineNumber: lineOf(element), from: { module, name: localName } }
+          : { name: element.name.text, kind: localKinds.get(localName) ?? 'variable', lineNumber: lineOf(element) },
+      );
+    }
+  }
 
-      cjsRegex.lastIndex = 0;
-      let cjsMatch: RegExpExecArray | null = null;
-      while ((cjsMatch = cjsRegex.exec(line)) !== null) {
-        imports.push({ raw: line, module: cjsMatch[2], lineNumber: i + 1 });
+  // Overloads and declaration merging repeat a name; the first declaration stands for all of them.
+  return exports.filter((entry, index) => exports.findIndex((other) => other.name === entry.name) === index);
+}
+
+// Walks the TypeScript AST, so multi-line import lists, comments and string/template contents are handled by
+// the real grammar rather than line patterns.
+function parseScriptModule(content: string, filePath: string): ParsedModule {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false, getScriptKind(filePath));
+  const imports: ParsedImport[] = [];
+
+  const add = (
+    node: ts.Node,
+    module: string | null,
+    typeOnly: boolean,
+    kind: ImportKind,
+    names: string[] | undefined,
+  ) => {
+    if (!module) {
+      return;
+    }
+    const start = node.getStart(sourceFile);
+    imports.push({
+      raw: node.getText(sourceFile),
+      module,
+      lineNumber: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+      typeOnly,
+      kind,
+      ...(names ? { names } : {}),
+    });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      const clause = node.importClause;
+      add(node, getModuleSpecifier(node.moduleSpecifier), isTypeOnlyImportClause(clause), 'static', getImportedNames(clause));
+      return;
+    }
+
+    if (ts.isExportDeclaration(node)) {
+      add(node, getModuleSpecifier(node.moduleSpecifier), isTypeOnlyExport(node), 're-export', getReExportedNames(node));
+      return;
+    }
+
+    if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node, getModuleSpecifier(node.moduleReference.expression), node.isTypeOnly, 'static', undefined);
+      return;
+    }
+
+    if (ts.isCallExpression(node) && node.arguments.length >= 1) {
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+      if (isDynamicImport || isRequire) {
+        add(node, getModuleSpecifier(node.arguments[0]), false, isDynamicImport ? 'dynamic' : 'static', undefined);
       }
     }
-  } else if (language === 'py') {
-    const directImportRegex = /^import\s+([\w\.]+)/;
-    const fromImportRegex = /^from\s+([\w\.]+)\s+import/;
+
+    if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node, getModuleSpecifier(node.argument.literal), true, 'static', getImportTypeNames(node));
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return { imports, exports: parseScriptExports(sourceFile) };
+}
+
+const PYTHON_COMPOUND_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'with']);
+
+// Python has no export list: every top-level def, class and assignment can be imported by name.
+function parsePythonExports(lines: string[]): ExportedSymbol[] {
+  const exports: ExportedSymbol[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((line, index) => {
+    const definition = line.match(/^(?:async\s+)?(def|class)\s+(\w+)/);
+    const assignment = definition ? null : line.match(/^([A-Za-z_]\w*)\s*(?::[^=]*)?=(?!=)/);
+    const name = definition?.[2] ?? assignment?.[1];
+    if (name && !seen.has(name) && !PYTHON_COMPOUND_KEYWORDS.has(name)) {
+      seen.add(name);
+      const kind = definition ? (definition[1] === 'def' ? 'function' : 'class') : 'variable';
+      exports.push({ name, kind, lineNumber: index + 1 });
+    }
+  });
+
+  return exports;
+}
+
+export function parseImports(content: string, filePath: string, language: FileLanguage): ParsedImport[] {
+  return parseModule(content, filePath, language).imports;
+}
+
+export function parseModule(content: string, filePath: string, language: FileLanguage): ParsedModule {
+  if (language === 'ts' || language === 'js') {
+    return parseScriptModule(content, filePath);
+  }
+
+  const imports: ParsedImport[] = [];
+  const lines = content.split('\n');
+
+  if (language === 'py') {
+    const directImportRegex = /^import\s+(.+)$/;
+    const fromImportRegex = /^from\s+([\w\.]+)\s+import\s+(.*)$/;
 
     for (let i = 0; i < lines.length; i += 1) {
       const line = lines[i];
@@ -55,25 +314,54 @@ export function parseImports(content: string, filePath: string, language: FileLa
 
       const directMatch = trimmed.match(directImportRegex);
       if (directMatch) {
-        imports.push({ raw: line, module: directMatch[1], lineNumber: i + 1 });
+        // `import a.b as c, d` imports both a.b and d.
+        for (const module of parsePythonNames(stripPythonComment(directMatch[1]))) {
+          imports.push({ raw: line, module, lineNumber: i + 1, typeOnly: false, kind: 'static' });
+        }
         continue;
       }
 
       const fromMatch = trimmed.match(fromImportRegex);
       if (fromMatch) {
-        imports.push({ raw: line, module: fromMatch[1], lineNumber: i + 1 });
+        const lineNumber = i + 1;
+        let imported = stripPythonComment(fromMatch[2]);
+        // Parenthesised name lists may span several lines.
+        if (imported.startsWith('(')) {
+          while (!imported.includes(')') && i + 1 < lines.length) {
+            i += 1;
+            imported += ` ${stripPythonComment(lines[i])}`;
+          }
+        }
+        imports.push({
+          raw: line,
+          module: fromMatch[1],
+          lineNumber,
+          typeOnly: false,
+          kind: 'static',
+          names: parsePythonNames(imported),
+        });
       }
     }
   }
 
-  return imports;
+  return { imports, exports: language === 'py' ? parsePythonExports(lines) : [] };
+}
+
+function stripPythonComment(line: string): string {
+  return line.replace(/#.*$/, '').trim();
+}
+
+function parsePythonNames(list: string): string[] {
+  return list
+    .replace(/[()\\]/g, ' ')
+    .split(',')
+    .map((entry) => entry.trim().split(/\s+as\s+/)[0].trim())
+    .filter((entry) => /^[\w.]+$/.test(entry) || entry === '*');
 }
 
 export function getFileLanguage(filePath: string): FileLanguage | null {
-  if (filePath.endsWith('.ts') || filePath.endsWith('.tsx')) return 'ts';
-  if (filePath.endsWith('.js') || filePath.endsWith('.jsx')) return 'js';
-  if (filePath.endsWith('.py')) return 'py';
-  return null;
+  const lowerPath = filePath.toLowerCase();
+  return FILE_LANGUAGE_EXTENSIONS.find(([, extensions]) => extensions.some((ext) => lowerPath.endsWith(ext)))?.[0] ?? null;
 }
 
 export function isRelativeImport(importPath: string): boolean {
@@ -0,0 +1,72 @@
+import { posix } from 'node:path';
+import { toRepoPath } from './tsconfig-paths';
+
+type ReadProjectFile = (path: string) => Promise<string | null>;
+
+const PYTHON_PROJECT_FILE_NAMES = ['pyproject.toml', 'setup.py', 'setup.cfg'];
+
+export function isPythonProjectFile(path: string): boolean {
+  return PYTHON_PROJECT_FILE_NAMES.includes(posix.basename(path)) && !path.split('/').includes('node_modules');
+}
+
+function quotedStrings(value: string): string[] {
+  return [...value.matchAll(/["']([^"']*)["']/g)].map((match) => match[1]);
+}
+
+// Package directories a pyproject.toml declares, relative to the project: setuptools `where` /
+// `package-dir`, poetry `from`, and hatch wheel `packages` (whose parents are the roots).
+export function parsePyprojectSourceDirs(content: string): string[] {
+  const dirs: string[] = [];
+
+  for (const match of content.matchAll(/^\s*where\s*=\s*\[([^\]]*)\]/gm)) {
+    dirs.push(...quotedStrings(match[1]));
+  }
+  for (const match of content.matchAll(/^\s*package-dir\s*=\s*\{([^}]*)\}/gm)) {
+    const root = match[1].match(/["']{2}\s*=\s*["']([^"']*)["']/);
+    if (root) {
+      dirs.push(root[1]);
+    }
+  }
+  for (const match of content.matchAll(/\bfrom\s*=\s*["']([^"']+)["']/g)) {
+    dirs.push(match[1]);
+  }
+  for (const match of content.matchAll(/^\s*packages\s*=\s*\[([^\]{]*)\]/gm)) {
+    dirs.push(...quotedStrings(match[1]).map((entry) => posix.dirname(entry)));
+  }
+
+  return dirs;
+}
+
+// Directories that act as sys.path entries: the repo root, every Python project directory, the package
+// directories its pyproject.toml declares, and `src/` layouts (a src/ dir that is not itself a package).
+export async function detectPythonSourceRoots(
+  filePaths: string[],
+  readProjectFile: ReadProjectFile,
+): Promise<string[]> {
+  const files = new Set(filePaths);
+  const roots = new Set<string>(['']);
+  const projectDirs = new Set<string>(['']);
+
+  for (const path of filePaths.filter(isPythonProjectFile).sort()) {
+    const projectDir = toRepoPath(posix.dirname(path));
+    projectDirs.add(projectDir);
+    roots.add(projectDir);
+
+    if (posix.basename(path) === 'pyproject.toml') {
+      const content = await readProjectFile(path);
+      for (const dir of content ? parsePyprojectSourceDirs(content) : []) {
+        roots.add(toRepoPath(posix.join(projectDir, dir)));
+      }
+    }
+  }
+
+  for (const projectDir of projectDirs) {
+    const srcDir = projectDir ? `${projectDir}/src` : 'src';
+    const hasPythonFiles = filePaths.some((path) => path.startsWith(`${srcDir}/`) && path.endsWith('.py'));
+    if (hasPythonFiles && !files.has(`${srcDir}/__init__.py`)) {
+      roots.add(srcDir);
+    }
+  }
+
+  return [...roots].sort((a, b) => b.length - a.length || a.localeCompare(b));
+}
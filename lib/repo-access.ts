@@ -0,0 +1,266 @@
+import { getServerSession } from 'next-auth';
+import { authenticateAgentRequest } from './agent-tokens';
+import { authOptions } from './auth';
+import { createOctokitClient, octokit } from './github';
+import { kv } from './kv';
+import { createRepoHostClient, parseRepoRef, type RepoHostClient } from './repo-providers';
+
+export type RepoRole = 'viewer' | 'agent' | 'admin';
+
+export interface RepoPrincipal {
+  login: string;
+  agentName: string | null;
+  accessToken?: string;
+}
+
+export type RepoAccessResult =
+  | { allowed: true; role: RepoRole }
+  | { allowed: false; role: RepoRole | null; payload: RepoAccessDeniedPayload };
+
+export type RepoAccessDeniedPayload = {
+  error: 'Forbidden';
+  details: string;
+  repo_url: string;
+  required_role: RepoRole;
+  role: RepoRole | null;
+  orchestration: {
+    type: 'orchestration_command';
+    action: 'STOP';
+    command: null;
+    reason: string;
+  };
+};
+
+const ROLE_RANK: Record<RepoRole, number> = {
+  viewer: 1,
+  agent: 2,
+  admin: 3,
+};
+
+const REPO_ROLE_CACHE_MS = 5 * 60 * 1000;
+const ANONYMOUS_CACHE_LOGIN = '*anonymous*';
+
+type RepoRoleCacheValue = {
+  role: RepoRole | null;
+  fetched_at: number;
+};
+
+type GitHubPermissions = {
+  admin?: boolean;
+  maintain?: boolean;
+  push?: boolean;
+  triage?: boolean;
+  pull?: boolean;
+};
+
+export function hasRepoRole(role: RepoRole | null, requiredRole: RepoRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+}
+
+// GitHub collaborator permission names (role_name / permission) mapped onto Relay roles.
+export function roleFromGitHubPermission(permission: string | null | undefined): RepoRole | null {
+  switch (permission) {
+    case 'admin':
+    case 'maintain':
+      return 'admin';
+    case 'write':
+    case 'push':
+      return 'agent';
+    case 'triage':
+    case 'read':
+    case 'pull':
+      return 'viewer';
+    default:
+      return null;
+  }
+}
+
+function roleFromPermissions(permissions: GitHubPermissions | undefined): RepoRole | null {
+  if (!permissions) {
+    return null;
+  }
+  if (permissions.admin || permissions.maintain) {
+    return 'admin';
+  }
+  if (permissions.push) {
+    return 'agent';
+  }
+  if (permissions.triage || permissions.pull) {
+    return 'viewer';
+  }
+  return null;
+}
+
+function getRepoRoleCacheKey(repoUrl: string, login: string | null): string {
+  return `repo_role:${repoUrl}:${login ? login.toLowerCase() : ANONYMOUS_CACHE_LOGIN}`;
+}
+
+function parseRepoRoleCacheValue(input: unknown): RepoRoleCacheValue | null {
+  if (typeof input === 'string') {
+    try {
+      return parseRepoRoleCacheValue(JSON.parse(input));
+    } catch {
+      return null;
+    }
+  }
+
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  const candidate = input as Partial<RepoRoleCacheValue>;
+  if (typeof candidate.fetched_at !== 'number') {
+    return null;
+  }
+  if (candidate.role !== null && (typeof candidate.role !== 'string' || !(candidate.role in ROLE_RANK))) {
+    return null;
+  }
+
+  return { role: candidate.role ?? null, fetched_at: candidate.fetched_at };
+}
+
+function isNotFoundOrForbidden(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  return status === 401 || status === 403 || status === 404;
+}
+
+// Relay signs users in with GitHub only, so nobody has a verified GitLab or Bitbucket identity: a GitHub
+// login can be registered by anyone under a maintainer's username on another host. Until an identity is
+// verified there, hosted repos grant no more than viewer, and only when they are public.
+async function fetchHostedRepoRole(client: RepoHostClient): Promise<RepoRole | null> {
+  try {
+    return (await client.isPublic()) ? 'viewer' : null;
+  } catch (error) {
+    if (!isNotFoundOrForbidden(error)) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+async function fetchRepoRole(repoUrl: string, principal: RepoPrincipal | null): Promise<RepoRole | null> {
+  const ref = parseRepoRef(repoUrl);
+  const hostClient = createRepoHostClient(ref);
+  if (hostClient) {
+    return fetchHostedRepoRole(hostClient);
+  }
+  const { owner, repo } = ref;
+
+  if (principal?.accessToken) {
+    try {
+      const { data } = await createOctokitClient(principal.accessToken).rest.repos.get({ owner, repo });
+      return roleFromPermissions(data.permissions) ?? (data.private ? null : 'viewer');
+    } catch (error) {
+      if (!isNotFoundOrForbidden(error)) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  if (principal) {
+    // Agents carry no OAuth token, so ask GitHub for their owner's collaborator permission.
+    try {
+      const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username: principal.login,
+      });
+      const role = roleFromGitHubPermission(data.role_name) ?? roleFromGitHubPermission(data.permission);
+      if (role) {
+        return role;
+      }
+    } catch (error) {
+      if (!isNotFoundOrForbidden(error)) {
+        throw error;
+      }
+    }
+  }
+
+  try {
+    const { data } = await octokit.rest.repos.get({ owner, repo });
+    return data.private ? null : 'viewer';
+  } catch (error) {
+    if (!isNotFoundOrForbidden(error)) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+export async function getRepoRole(repoUrl: string, principal: RepoPrincipal | null): Promise<RepoRole | null> {
+  const cacheKey = getRepoRoleCacheKey(repoUrl, principal?.login ?? null);
+  const cached = parseRepoRoleCacheValue(await kv.get(cacheKey));
+  if (cached && Date.now() - cached.fetched_at <= REPO_ROLE_CACHE_MS) {
+    return cached.role;
+  }
+
+  const role = await fetchRepoRole(repoUrl, principal);
+  const payload: RepoRoleCacheValue = { role, fetched_at: Date.now() };
+  await kv.set(cacheKey, JSON.stringify(payload));
+  return role;
+}
+
+export function makeRepoAccessDeniedPayload(
+  repoUrl: string,
+  principal: RepoPrincipal | null,
+  role: RepoRole | null,
+  requiredRole: RepoRole,
+): RepoAccessDeniedPayload {
+  const caller = principal ? principal.agentName ?? principal.login : 'Anonymous caller';
+  const details = `${caller} has ${role ? `${role} access` : 'no access'} to ${repoUrl}; ${requiredRole} role required`;
+
+  return {
+    error: 'Forbidden',
+    details,
+    repo_url: repoUrl,
+    required_role: requiredRole,
+    role,
+    orchestration: {
+      type: 'orchestration_command',
+      action: 'STOP',
+      command: null,
+      reason: `Access denied: ${details}`,
+    },
+  };
+}
+
+export async function authorizeRepoAccess(
+  repoUrl: string,
+  principal: RepoPrincipal | null,
+  requiredRole: RepoRole,
+): Promise<RepoAccessResult> {
+  const role = await getRepoRole(repoUrl, principal);
+  if (hasRepoRole(role, requiredRole)) {
+    return { allowed: true, role: role as RepoRole };
+  }
+
+  return {
+    allowed: false,
+    role,
+    payload: makeRepoAccessDeniedPayload(repoUrl, principal, role, requiredRole),
+  };
+}
+
+export async function getSessionPrincipal(): Promise<RepoPrincipal | null> {
+  try {
+    const session = await getServerSession(authOptions);
+    const login = session?.user?.login;
+    if (!login) {
+      return null;
+    }
+    return { login, agentName: null, accessToken: session.accessToken };
+  } catch {
+    return null;
+  }
+}
+
+// Agent tokens take precedence so an agent never inherits a browser session's permissions.
+export async function resolveRequestPrincipal(request: { headers: Headers }): Promise<RepoPrincipal | null> {
+  const agent = await authenticateAgentRequest(request);
+  if (agent) {
+    return { login: agent.ownerLogin, agentName: agent.agentName };
+  }
+
+  return getSessionPrincipal();
+}
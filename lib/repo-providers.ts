@@ -0,0 +1,308 @@
+import { Buffer } from 'node:buffer';
+import type { Octokit } from 'octokit';
+import { BitbucketClient } from './bitbucket';
+import { createOctokitClient, getRepoDefaultBranchCached, getRepoHeadCached, octokit } from './github';
+import { GitLabClient } from './gitlab';
+import type { GraphSourceEntry } from './graph-source';
+import { kv } from './kv';
+
+export type RepoProviderKind = 'github' | 'gitlab' | 'bitbucket';
+
+export const REPO_PROVIDER_KINDS: RepoProviderKind[] = ['github', 'gitlab', 'bitbucket'];
+
+// `owner` is the GitHub owner, the GitLab namespace (nested groups included) or the Bitbucket workspace.
+export interface RepoRef {
+  provider: RepoProviderKind;
+  host: string;
+  owner: string;
+  repo: string;
+}
+
+// Head lookup, tree listing and blob fetching for one hosted repository.
+export interface RepoProvider {
+  readonly kind: RepoProviderKind;
+  getHead(branch: string, maxAgeMs?: number): Promise<string>;
+  getDefaultBranch(maxAgeMs?: number): Promise<string>;
+  listTree(head: string): Promise<GraphSourceEntry[]>;
+  readBlob(path: string, sha: string, head: string): Promise<string | null>;
+}
+
+// Permission names follow GitHub's so repo-access maps every provider onto Relay roles the same way.
+export type RepoHostPermission = 'admin' | 'write' | 'read';
+
+// Uncached REST access to a GitLab or Bitbucket repository; RepoProvider adds head/default branch caching.
+export interface RepoHostClient {
+  getBranchHead(branch: string): Promise<string>;
+  getDefaultBranch(): Promise<string>;
+  listTree(head: string): Promise<GraphSourceEntry[]>;
+  readBlob(path: string, sha: string, head: string): Promise<string | null>;
+  getMemberPermission(username: string): Promise<RepoHostPermission | null>;
+  isPublic(): Promise<boolean>;
+}
+
+const GITHUB_REPO_URL_REGEX = /github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/i;
+const BITBUCKET_HOSTS = ['bitbucket.org', 'www.bitbucket.org'];
+const DEFAULT_HEAD_CACHE_MS = 20_000;
+const DEFAULT_BRANCH_CACHE_MS = 60 * 60 * 1000;
+
+// gitlab.com plus the self-hosted instances listed in RELAY_GITLAB_HOSTS (comma-separated host[:port]).
+export function getGitLabHosts(): string[] {
+  const configured = (process.env.RELAY_GITLAB_HOSTS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, ''))
+    .filter(Boolean);
+  return ['gitlab.com', ...configured];
+}
+
+// https URLs, scheme-less `host/path` and scp-style `git@host:path` remotes.
+function splitRepoLocation(repoUrl: string): { host: string; segments: string[] } | null {
+  const scpMatch = repoUrl.match(/^(?:[\w.-]+@)?([\w.-]+):(?!\/\/)(?!\d+\/)(.+)$/);
+  if (scpMatch) {
+    return { host: scpMatch[1].toLowerCase(), segments: scpMatch[2].split('/').filter(Boolean) };
+  }
+
+  try {
+    const url = new URL(repoUrl.includes('://') ? repoUrl : `https://${repoUrl}`);
+    return { host: url.host.toLowerCase(), segments: url.pathname.split('/').filter(Boolean) };
+  } catch {
+    return null;
+  }
+}
+
+function stripGitSuffix(name: string): string {
+  return name.replace(/\.git$/i, '');
+}
+
+export function parseRepoRef(repoUrl: string): RepoRef {
+  const trimmed = repoUrl.trim();
+  const githubMatch = trimmed.match(GITHUB_REPO_URL_REGEX);
+  if (githubMatch) {
+    return { provider: 'github', host: 'github.com', owner: githubMatch[1], repo: githubMatch[2] };
+  }
+
+  const location = trimmed ? splitRepoLocation(trimmed) : null;
+  if (location && getGitLabHosts().includes(location.host)) {
+    // Project pages continue after a `/-/` separator (`/group/app/-/tree/main`).
+    const separator = location.segments.indexOf('-');
+    const segments = separator === -1 ? location.segments : location.segments.slice(0, separator);
+    if (segments.length >= 2) {
+      return {
+        provider: 'gitlab',
+        host: location.host,
+        owner: segments.slice(0, -1).join('/'),
+        repo: stripGitSuffix(segments[segments.length - 1]),
+      };
+    }
+  }
+
+  if (location && BITBUCKET_HOSTS.includes(location.host) && location.segments.length >= 2) {
+    return {
+      provider: 'bitbucket',
+      host: 'bitbucket.org',
+      owner: location.segments[0],
+      repo: stripGitSuffix(location.segments[1]),
+    };
+  }
+
+  throw new Error('Invalid repository URL: expected a GitHub, GitLab or Bitbucket repository');
+}
+
+export function formatRepoUrl(ref: RepoRef): string {
+  return `https://${ref.host}/${ref.owner.toLowerCase()}/${ref.repo.toLowerCase()}`;
+}
+
+export function normalizeRepoUrl(repoUrl: string): string {
+  return formatRepoUrl(parseRepoRef(repoUrl));
+}
+
+// `<provider>:<normalized url>`, the repo part of lock, activity and graph KV keys.
+export function getRepoKeyScope(repoUrl: string): string {
+  const ref = parseRepoRef(repoUrl);
+  return `${ref.provider}:${formatRepoUrl(ref)}`;
+}
+
+// Drops a `<provider>:` prefix written by getRepoKeyScope.
+export function stripRepoKeyProvider(scope: string): string {
+  const separator = scope.indexOf(':');
+  const provider = scope.slice(0, separator) as RepoProviderKind;
+  return separator > 0 && REPO_PROVIDER_KINDS.includes(provider) ? scope.slice(separator + 1) : scope;
+}
+
+// Keys written before provider scoping embedded the bare normalized URL, and only GitHub repos existed then.
+export function getLegacyRepoKeyScope(repoUrl: string): string | null {
+  const ref = parseRepoRef(repoUrl);
+  return ref.provider === 'github' ? formatRepoUrl(ref) : null;
+}
+
+const ADOPT_LEGACY_KEYS_LUA = `
+for i = 1, #KEYS, 2 do
+  if redis.call('EXISTS', KEYS[i]) == 1 then
+    redis.call('RENAMENX', KEYS[i], KEYS[i + 1])
+  end
+end
+return 1
+`;
+
+const adoptedRepoKeys = new Set<string>();
+
+// Renames each `[legacyKey, key]` pair the first time this instance uses `key`, so locks, queues, activity
+// and graphs written before provider scoping stay visible after the deploy. An existing `key` is kept.
+export async function adoptLegacyRepoKeys(pairs: Array<[legacyKey: string, key: string]>): Promise<void> {
+  const pending = pairs.filter(([legacyKey, key]) => legacyKey !== key && !adoptedRepoKeys.has(key));
+  if (pending.length === 0) {
+    return;
+  }
+
+  await (kv as any).eval(ADOPT_LEGACY_KEYS_LUA, pending.flat(), []);
+  for (const [, key] of pending) {
+    adoptedRepoKeys.add(key);
+  }
+}
+
+class GitHubRepoProvider implements RepoProvider {
+  readonly kind = 'github';
+  // Undefined without a caller token: the github.ts helpers then use the shared GITHUB_TOKEN client.
+  private octokitClient: Octokit | undefined;
+
+  constructor(
+    private owner: string,
+    private repo: string,
+    authToken?: string,
+  ) {
+    this.octokitClient = authToken?.trim() ? createOctokitClient(authToken) : undefined;
+  }
+
+  getHead(branch: string, maxAgeMs?: number): Promise<string> {
+    return getRepoHeadCached(this.owner, this.repo, branch, maxAgeMs, this.octokitClient);
+  }
+
+  getDefaultBranch(maxAgeMs?: number): Promise<string> {
+    return getRepoDefaultBranchCached(this.owner, this.repo, maxAgeMs, this.octokitClient);
+  }
+
+  async listTree(head: string): Promise<GraphSourceEntry[]> {
+    const { data: treeData } = await (this.octokitClient ?? octokit).rest.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: head,
+      recursive: 'true',
+    });
+
+    return (treeData.tree ?? [])
+      .filter((item) => item.type === 'blob' && typeof item.path === 'string')
+      .map((item) => ({
+        path: item.path as string,
+        sha: item.sha as string,
+        size: item.size ?? undefined,
+      }));
+  }
+
+  async readBlob(path: string, _sha: string, head: string): Promise<string | null> {
+    const { data: contentData } = await (this.octokitClient ?? octokit).rest.repos.getContent({
+      owner: this.owner,
+      repo: this.repo,
+      path,
+      ref: head,
+    });
+
+    if (!('content' in contentData) || typeof contentData.content !== 'string') {
+      return null;
+    }
+
+    return Buffer.from(contentData.content, 'base64').toString('utf-8');
+  }
+}
+
+type CachedValue = {
+  value: string;
+  fetched_at: number;
+};
+
+function parseCachedValue(input: unknown): CachedValue | null {
+  if (typeof input === 'string') {
+    try {
+      return parseCachedValue(JSON.parse(input));
+    } catch {
+      return null;
+    }
+  }
+
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  const candidate = input as Partial<CachedValue>;
+  if (typeof candidate.value !== 'string' || !candidate.value || typeof candidate.fetched_at !== 'number') {
+    return null;
+  }
+
+  return { value: candidate.value, fetched_at: candidate.fetched_at };
+}
+
+async function readThroughCache(key: string, maxAgeMs: number, load: () => Promise<string>): Promise<string> {
+  if (maxAgeMs > 0) {
+    const cached = parseCachedValue(await kv.get(key));
+    if (cached && Date.now() - cached.fetched_at <= maxAgeMs) {
+      return cached.value;
+    }
+  }
+
+  const value = await load();
+  const payload: CachedValue = { value, fetched_at: Date.now() };
+  await kv.set(key, JSON.stringify(payload));
+  return value;
+}
+
+class HostedRepoProvider implements RepoProvider {
+  constructor(
+    readonly kind: RepoProviderKind,
+    private scope: string,
+    private client: RepoHostClient,
+  ) {}
+
+  getHead(branch: string, maxAgeMs = DEFAULT_HEAD_CACHE_MS): Promise<string> {
+    return readThroughCache(`repo_head:${this.scope}:${branch}`, maxAgeMs, () => this.client.getBranchHead(branch));
+  }
+
+  getDefaultBranch(maxAgeMs = DEFAULT_BRANCH_CACHE_MS): Promise<string> {
+    return readThroughCache(`repo_default_branch:${this.scope}`, maxAgeMs, () => this.client.getDefaultBranch());
+  }
+
+  listTree(head: string): Promise<GraphSourceEntry[]> {
+    return this.client.listTree(head);
+  }
+
+  readBlob(path: string, sha: string, head: string): Promise<string | null> {
+    return this.client.readBlob(path, sha, head);
+  }
+}
+
+// Server-token REST clients for the non-GitHub hosts (GITLAB_TOKEN / BITBUCKET_TOKEN).
+export function createRepoHostClient(ref: RepoRef): RepoHostClient | null {
+  switch (ref.provider) {
+    case 'gitlab':
+      return new GitLabClient(ref.host, `${ref.owner}/${ref.repo}`);
+    case 'bitbucket':
+      return new BitbucketClient(ref.owner, ref.repo);
+    default:
+      return null;
+  }
+}
+
+// `authToken` is a GitHub OAuth token; GitLab and Bitbucket always use the server's token.
+export function createRepoProvider(repoUrl: string, authToken?: string): RepoProvider {
+  const ref = parseRepoRef(repoUrl);
+  const client = createRepoHostClient(ref);
+  if (!client) {
+    return new GitHubRepoProvider(ref.owner, ref.repo, authToken);
+  }
+  return new HostedRepoProvider(ref.provider, `${ref.provider}:${formatRepoUrl(ref)}`, client);
+}
+
+export function getBranchHeadCached(repoUrl: string, branch: string, maxAgeMs?: number): Promise<string> {
+  return createRepoProvider(repoUrl).getHead(branch, maxAgeMs);
+}
+
+export function getDefaultBranchCached(repoUrl: string, maxAgeMs?: number): Promise<string> {
+  return createRepoProvider(repoUrl).getDefaultBranch(maxAgeMs);
+}
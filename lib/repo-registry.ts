@@ -0,0 +1,97 @@
+import { kv } from './kv';
+import { normalizeRepoUrl } from './repo-providers';
+
+export interface RegisteredRepository {
+  repo_url: string;
+  registered_by: string;
+  registered_at: number;
+}
+
+const REGISTERED_REPOS_KEY = 'relay:registered_repos';
+
+function parseRegisteredRepository(value: unknown): RegisteredRepository | null {
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const candidate = parsed as Partial<RegisteredRepository>;
+  if (
+    typeof candidate.repo_url !== 'string' ||
+    typeof candidate.registered_by !== 'string' ||
+    typeof candidate.registered_at !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    repo_url: candidate.repo_url,
+    registered_by: candidate.registered_by,
+    registered_at: candidate.registered_at,
+  };
+}
+
+// Comma-separated repo URLs from RELAY_REGISTERED_REPOS are always allowed, so a fresh
+// deployment can serve its own repository before anyone registers it in KV.
+function getEnvRegisteredRepoUrls(): string[] {
+  const raw = process.env.RELAY_REGISTERED_REPOS || '';
+  const urls: string[] = [];
+  for (const entry of raw.split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    try {
+      urls.push(normalizeRepoUrl(entry));
+    } catch {
+      console.warn(`Ignoring invalid RELAY_REGISTERED_REPOS entry: ${entry}`);
+    }
+  }
+  return urls;
+}
+
+export async function listRegisteredRepositories(): Promise<RegisteredRepository[]> {
+  const entries = (await kv.hgetall(REGISTERED_REPOS_KEY)) as Record<string, unknown> | null;
+  const stored = Object.values(entries ?? {})
+    .map((entry) => parseRegisteredRepository(entry))
+    .filter((entry): entry is RegisteredRepository => entry !== null);
+
+  const storedUrls = new Set(stored.map((entry) => entry.repo_url));
+  const fromEnv = getEnvRegisteredRepoUrls()
+    .filter((repoUrl) => !storedUrls.has(repoUrl))
+    .map((repoUrl) => ({ repo_url: repoUrl, registered_by: 'env', registered_at: 0 }));
+
+  return [...stored, ...fromEnv].sort((a, b) => a.repo_url.localeCompare(b.repo_url));
+}
+
+export async function isRepositoryRegistered(repoUrl: string): Promise<boolean> {
+  const normalizedRepoUrl = normalizeRepoUrl(repoUrl);
+  if (getEnvRegisteredRepoUrls().includes(normalizedRepoUrl)) {
+    return true;
+  }
+
+  return parseRegisteredRepository(await kv.hget(REGISTERED_REPOS_KEY, normalizedRepoUrl)) !== null;
+}
+
+export async function registerRepository(repoUrl: string, registeredBy: string): Promise<RegisteredRepository> {
+  const record: RegisteredRepository = {
+    repo_url: normalizeRepoUrl(repoUrl),
+    registered_by: registeredBy,
+    registered_at: Date.now(),
+  };
+
+  await kv.hset(REGISTERED_REPOS_KEY, { [record.repo_url]: JSON.stringify(record) });
+  return record;
+}
+
+export async function unregisterRepository(repoUrl: string): Promise<boolean> {
+  const removed = await kv.hdel(REGISTERED_REPOS_KEY, normalizeRepoUrl(repoUrl));
+  return removed > 0;
+}
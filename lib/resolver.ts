@@ -1,19 +1,38 @@
-import { isRelativeImport } from './parser';
+import { posix } from 'node:path';
+import { isRelativeImport, type ParsedImport } from './parser';
+import { findPathAliasConfig, toRepoPath, type PathAliasConfig } from './tsconfig-paths';
+import { getWorkspaceImportTargets, type WorkspacePackage } from './workspaces';
+
+export interface ResolverOptions {
+  pathConfigs?: PathAliasConfig[];
+  // sys.path-like directories for absolute Python imports (see detectPythonSourceRoots).
+  pythonSourceRoots?: string[];
+  // npm/yarn/pnpm workspace packages that bare specifiers may name (see loadWorkspacePackages).
+  workspacePackages?: WorkspacePackage[];
+}
 
 export function resolveImportPath(
   importPath: string,
   currentFilePath: string,
   allFilePaths: Set<string>,
+  options: ResolverOptions = {},
 ): string | null {
+  if (currentFilePath.endsWith('.py')) {
+    return resolvePythonModule(importPath, currentFilePath, allFilePaths, options.pythonSourceRoots ?? ['']);
+  }
+
   if (!isRelativeImport(importPath)) {
-    return null;
+    const config = findPathAliasConfig(options.pathConfigs ?? [], currentFilePath);
+    const aliased = config ? resolveAliasedImport(importPath, config, allFilePaths) : null;
+    return aliased ?? resolveWorkspaceImport(importPath, options.workspacePackages ?? [], allFilePaths);
   }
 
   const lastSlash = currentFilePath.lastIndexOf('/');
   const currentDir = lastSlash > 0 ? currentFilePath.substring(0, lastSlash) : '';
   const resolved = resolvePath(currentDir, importPath);
 
-  for (const candidate of generateCandidates(resolved)) {
+  // An explicit extension (`./globals.css`, `./data.json`) names the file itself.
+  for (const candidate of [resolved, ...generateCandidates(resolved)]) {
     if (allFilePaths.has(candidate)) {
       return candidate;
     }
@@ -22,6 +41,165 @@ export function resolveImportPath(
   return null;
 }
 
+// Mirrors TypeScript: an exact `paths` key beats any wildcard, and among wildcards the longest prefix wins.
+// Bare specifiers no pattern claims fall back to baseUrl.
+export function resolveAliasedImport(
+  importPath: string,
+  config: PathAliasConfig,
+  allFilePaths: Set<string>,
+): string | null {
+  let match: { targets: string[]; captured: string; prefixLength: number } | null = null;
+
+  for (const [pattern, targets] of Object.entries(config.paths)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (pattern === importPath) {
+        match = { targets, captured: '', prefixLength: Infinity };
+        break;
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      importPath.length >= prefix.length + suffix.length &&
+      importPath.startsWith(prefix) &&
+      importPath.endsWith(suffix) &&
+      (!match || prefix.length > match.prefixLength)
+    ) {
+      match = {
+        targets,
+        captured: importPath.slice(prefix.length, importPath.length - suffix.length),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  const bases = match
+    ? match.targets.map((target) => posix.join(config.pathsBase, target.replace('*', match!.captured)))
+    : config.baseUrl !== null
+      ? [posix.join(config.baseUrl, importPath)]
+      : [];
+
+  for (const base of bases) {
+    const basePath = toRepoPath(base);
+    for (const candidate of [basePath, ...generateCandidates(basePath)]) {
+      if (allFilePaths.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Package entry points often name build output (`dist/index.js`, `lib/index.d.ts`) that is not committed,
+// so each target also tries its extensionless source and the same path under `src/`.
+export function resolveWorkspaceImport(
+  importPath: string,
+  packages: WorkspacePackage[],
+  allFilePaths: Set<string>,
+): string | null {
+  const match = getWorkspaceImportTargets(importPath, packages);
+  if (!match) {
+    return null;
+  }
+
+  const { dir } = match.workspacePackage;
+  for (const target of match.targets) {
+    const source = target.replace(/\.d\.[cm]?ts$|\.[cm]?[jt]sx?$/, '');
+    const buildPrefix = ['dist', 'build', 'lib', 'out'].map((name) => `${dir}/${name}/`).find((prefix) => source.startsWith(prefix));
+    const bases = [source, ...(buildPrefix ? [`${dir}/src/${source.slice(buildPrefix.length)}`] : [])];
+    for (const candidate of [target, ...bases].flatMap((base) => [base, ...generateCandidates(base)])) {
+      if (allFilePaths.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+function findPythonModule(modulePath: string, allFilePaths: Set<string>): string | null {
+  for (const candidate of [`${modulePath}.py`, modulePath ? `${modulePath}/__init__.py` : '__init__.py']) {
+    if (allFilePaths.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Repo-relative directories a dotted module may live under, most specific first: leading dots climb from
+// the importing file's package; absolute imports try the source roots containing the importer, the
+// importer's own directory (scripts run with it on sys.path), then every other root.
+function getPythonModuleBases(module: string, currentFilePath: string, sourceRoots: string[]): string[] {
+  const currentDir = toRepoPath(posix.dirname(currentFilePath));
+  const dots = module.match(/^\.*/)![0].length;
+  const rest = module.slice(dots).split('.').filter(Boolean).join('/');
+
+  if (dots > 0) {
+    const parts = currentDir ? currentDir.split('/') : [];
+    if (dots - 1 > parts.length) {
+      return [];
+    }
+    return [toRepoPath(posix.join(parts.slice(0, parts.length - (dots - 1)).join('/'), rest))];
+  }
+
+  const containing = sourceRoots.filter((root) => root === '' || currentFilePath.startsWith(`${root}/`));
+  const ordered = [...new Set([...containing, currentDir, ...sourceRoots])];
+  return ordered.map((root) => toRepoPath(posix.join(root, rest)));
+}
+
+export function resolvePythonModule(
+  module: string,
+  currentFilePath: string,
+  allFilePaths: Set<string>,
+  sourceRoots: string[] = [''],
+): string | null {
+  for (const base of getPythonModuleBases(module, currentFilePath, sourceRoots)) {
+    const resolved = findPythonModule(base, allFilePaths);
+    if (resolved && resolved !== currentFilePath) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+// `from pkg import a, b` depends on pkg/a.py and pkg/b.py when those are submodules, and on pkg itself
+// (its __init__.py or pkg.py) for every name that is not.
+export function resolvePythonImport(
+  parsedImport: Pick<ParsedImport, 'module' | 'names'>,
+  currentFilePath: string,
+  allFilePaths: Set<string>,
+  sourceRoots: string[] = [''],
+): string[] {
+  const bases = getPythonModuleBases(parsedImport.module, currentFilePath, sourceRoots);
+  const targets = new Set<string>();
+  let needsModule = !parsedImport.names || parsedImport.names.length === 0;
+
+  for (const name of parsedImport.names ?? []) {
+    const submodule =
+      name === '*'
+        ? null
+        : bases.map((base) => findPythonModule(toRepoPath(posix.join(base, name)), allFilePaths)).find(Boolean);
+    if (submodule) {
+      targets.add(submodule);
+    } else {
+      needsModule = true;
+    }
+  }
+
+  if (needsModule) {
+    const resolved = resolvePythonModule(parsedImport.module, currentFilePath, allFilePaths, sourceRoots);
+    if (resolved) {
+      targets.add(resolved);
+    }
+  }
+
+  return [...targets];
+}
+
 function resolvePath(currentDir: string, relativePath: string): string {
   const parts = currentDir ? currentDir.split('/') : [];
 
@@ -60,7 +238,10 @@ function generateCandidates(basePath: string): string[] {
 export class ImportResolver {
   private cache = new Map<string, string | null>();
 
-  constructor(private allFilePaths: Set<string>) {}
+  constructor(
+    private allFilePaths: Set<string>,
+    private options: ResolverOptions = {},
+  ) {}
 
   resolve(importPath: string, currentFilePath: string): string | null {
     const cacheKey = `${currentFilePath}:${importPath}`;
@@ -68,11 +249,21 @@ export class ImportResolver {
       return this.cache.get(cacheKey) ?? null;
     }
 
-    const resolved = resolveImportPath(importPath, currentFilePath, this.allFilePaths);
+    const resolved = resolveImportPath(importPath, currentFilePath, this.allFilePaths, this.options);
     this.cache.set(cacheKey, resolved);
     return resolved;
   }
 
+  // Every file a parsed import depends on; only Python from-imports can name more than one.
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[] {
+    if (currentFilePath.endsWith('.py') && parsedImport.names) {
+      return resolvePythonImport(parsedImport, currentFilePath, this.allFilePaths, this.options.pythonSourceRoots);
+    }
+
+    const resolved = this.resolve(parsedImport.module, currentFilePath);
+    return resolved ? [resolved] : [];
+  }
+
   clear(): void {
     this.cache.clear();
   }
@@ -0,0 +1,370 @@
+import { posix } from 'node:path';
+import type { LanguageResolver, LanguageSupport } from './languages';
+import type { ExportedSymbol, ParsedImport, ParsedModule, SymbolKind } from './parser';
+import { toRepoPath } from './tsconfig-paths';
+
+// A Cargo package: its crate name (hyphens become underscores, as in `use` paths), the source
+// directory its module tree starts in, and the crate root file.
+export interface RustCrate {
+  name: string | null;
+  dir: string;
+  rootFile: string | null;
+}
+
+const RUST_ITEM_KINDS: Record<string, SymbolKind> = {
+  fn: 'function',
+  struct: 'class',
+  union: 'class',
+  enum: 'enum',
+  trait: 'interface',
+  type: 'type',
+  const: 'variable',
+  static: 'variable',
+  mod: 'namespace',
+};
+
+export function isCargoManifest(path: string): boolean {
+  const segments = path.split('/');
+  return posix.basename(path) === 'Cargo.toml' && !segments.includes('target') && !segments.includes('vendor');
+}
+
+export function parseCargoPackageName(content: string): string | null {
+  let inPackage = false;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const section = line.match(/^\[([^\]]+)\]$/);
+    if (section) {
+      inPackage = section[1].trim() === 'package';
+      continue;
+    }
+    const name = inPackage ? line.match(/^name\s*=\s*["']([^"']+)["']$/) : null;
+    if (name) {
+      return name[1].replace(/-/g, '_');
+    }
+  }
+  return null;
+}
+
+// Blanks comments and string/char literal contents (keeping offsets and newlines) so braces and
+// semicolons inside them do not affect statement splitting.
+function blankRustNoise(content: string): string {
+  const out = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let index = from; index < to; index += 1) {
+      if (out[index] !== '\n') out[index] = ' ';
+    }
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    const rest = content.slice(index, index + 2);
+    if (rest === '//') {
+      const end = content.indexOf('\n', index);
+      const stop = end === -1 ? content.length : end;
+      blank(index, stop);
+      index = stop;
+    } else if (rest === '/*') {
+      let depth = 0;
+      let cursor = index;
+      do {
+        const pair = content.slice(cursor, cursor + 2);
+        if (pair === '/*') {
+          depth += 1;
+          cursor += 2;
+        } else if (pair === '*/') {
+          depth -= 1;
+          cursor += 2;
+        } else {
+          cursor += 1;
+        }
+      } while (depth > 0 && cursor < content.length);
+      blank(index, cursor);
+      index = cursor;
+    } else if (content[index] === '"' || (/^r#*"/.test(content.slice(index, index + 4)) && !/\w/.test(content[index - 1] ?? ''))) {
+      const opening = content.slice(index).match(/^(?:r(#*))?"/)!;
+      const raw = opening[0].startsWith('r');
+      const closing = raw ? `"${opening[1]}` : '"';
+      let cursor = index + opening[0].length;
+      while (cursor < content.length && !content.startsWith(closing, cursor)) {
+        cursor += !raw && content[cursor] === '\\' ? 2 : 1;
+      }
+      blank(index + opening[0].length, cursor);
+      index = cursor + closing.length;
+    } else if (content[index] === "'") {
+      // A char literal ('x', '\n', '\u{1F600}'); anything else is a lifetime.
+      const literal = content.slice(index).match(/^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'])'/);
+      if (literal) {
+        blank(index + 1, index + literal[0].length - 1);
+        index += literal[0].length;
+      } else {
+        index += 1;
+      }
+    } else {
+      index += 1;
+    }
+  }
+
+  return out.join('');
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === '{') depth += 1;
+    if (text[index] === '}') depth -= 1;
+    if (depth === 0 && text.startsWith(separator, index)) {
+      parts.push(text.slice(start, index));
+      start = index + separator.length;
+      index += separator.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+interface UsePath {
+  segments: string[];
+  alias?: string;
+}
+
+// `a::{b, c::{d as e, self}, f::*}` -> a::b, a::c::d (as e), a::c::self, a::f::*
+function expandUseTree(tree: string, prefix: string[] = []): UsePath[] {
+  const text = tree.trim().replace(/^::/, '');
+  if (text.startsWith('{') && text.endsWith('}')) {
+    return splitTopLevel(text.slice(1, -1), ',').flatMap((part) => expandUseTree(part, prefix));
+  }
+
+  const segments = splitTopLevel(text, '::');
+  const last = segments.pop();
+  if (!last) {
+    return [];
+  }
+  if (last.startsWith('{')) {
+    return expandUseTree(last, [...prefix, ...segments]);
+  }
+  const [name, alias] = last.split(/\s+as\s+/);
+  return [{ segments: [...prefix, ...segments, name.trim()], ...(alias ? { alias: alias.trim() } : {}) }];
+}
+
+// Top-level items only: `mod`, `use` and `pub` declarations of the file; item bodies are skipped.
+export function parseRustModule(content: string): ParsedModule {
+  const imports: ParsedImport[] = [];
+  const exports: ExportedSymbol[] = [];
+  const code = blankRustNoise(content);
+  const lineStarts = [0];
+  for (let index = 0; index < content.length; index += 1) {
+    if (content[index] === '\n') lineStarts.push(index + 1);
+  }
+  const lineOf = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line += 1;
+    return line + 1;
+  };
+
+  const addExport = (entry: ExportedSymbol) => {
+    if (!exports.some((existing) => existing.name === entry.name)) {
+      exports.push(entry);
+    }
+  };
+
+  const handleStatement = (start: number, end: number) => {
+    let offset = start;
+    let statement = code.slice(start, end);
+    for (let attribute = statement.match(/^\s*#!?\[[^\]]*\]/); attribute; attribute = statement.match(/^\s*#!?\[[^\]]*\]/)) {
+      offset += attribute[0].length;
+      statement = statement.slice(attribute[0].length);
+    }
+    offset += statement.length - statement.trimStart().length;
+    statement = statement.trim();
+    const lineNumber = lineOf(offset);
+    const raw = content.slice(offset, end).trim();
+
+    const use = statement.match(/^(pub(?:\([^)]*\))?\s+)?use\s+([\s\S]+)$/);
+    if (use) {
+      const reExport = Boolean(use[1]);
+      for (const path of expandUseTree(use[2])) {
+        const leaf = path.segments[path.segments.length - 1];
+        const parent = path.segments.slice(0, -1).join('::');
+        const kind = reExport ? 're-export' : 'static';
+        if (leaf === '*' || leaf === 'self') {
+          imports.push({ raw, module: parent, lineNumber, typeOnly: false, kind, ...(leaf === '*' ? { names: ['*'] } : {}) });
+          continue;
+        }
+        const module = path.segments.join('::');
+        imports.push({ raw, module, lineNumber, typeOnly: false, kind, names: [leaf] });
+        if (reExport && path.alias !== '_') {
+          addExport({ name: path.alias ?? leaf, kind: 're-export', lineNumber, from: { module, name: leaf } });
+        }
+      }
+      return;
+    }
+
+    const externCrate = statement.match(/^(?:pub(?:\([^)]*\))?\s+)?extern\s+crate\s+([A-Za-z_]\w*)/);
+    if (externCrate) {
+      imports.push({ raw, module: externCrate[1], lineNumber, typeOnly: false, kind: 'static' });
+      return;
+    }
+
+    // `mod foo;` pulls in foo.rs or foo/mod.rs; an inline `mod foo { ... }` does not.
+    const fileModule = statement.match(/^(?:pub(?:\([^)]*\))?\s+)?mod\s+([A-Za-z_]\w*)$/);
+    if (fileModule && code[end] === ';') {
+      imports.push({ raw, module: `self::${fileModule[1]}`, lineNumber, typeOnly: false, kind: 'static' });
+    }
+
+    const item = statement.match(
+      /^pub(?:\([^)]*\))?\s+(?:(?:const|async|unsafe|default|extern\s+"[^"]*")\s+)*(fn|struct|union|enum|trait|type|const|static|mod)\s+(?:mut\s+)?([A-Za-z_]\w*)/,
+    );
+    if (item) {
+      addExport({ name: item[2], kind: RUST_ITEM_KINDS[item[1]], lineNumber });
+    }
+  };
+
+  let depth = 0;
+  let start = 0;
+  let inItemBody = false;
+  for (let index = 0; index < code.length; index += 1) {
+    const char = code[index];
+    if (char === '{' && depth === 0 && !/^\s*(?:#!?\[[^\]]*\]\s*)*(?:pub(?:\([^)]*\))?\s+)?use\b/.test(code.slice(start, index))) {
+      handleStatement(start, index);
+      inItemBody = true;
+    }
+    if (char === '{' || char === '(' || char === '[') {
+      depth += 1;
+    } else if (char === '}' || char === ')' || char === ']') {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0 && inItemBody && char === '}') {
+        inItemBody = false;
+        start = index + 1;
+      }
+    } else if (char === ';' && depth === 0) {
+      handleStatement(start, index);
+      start = index + 1;
+    }
+  }
+
+  return { imports, exports };
+}
+
+// `use crate::net::http` names the module file itself rather than a symbol inside it.
+export function isRustModuleTarget(target: string, name: string): boolean {
+  return posix.basename(target) === `${name}.rs` || target.endsWith(`/${name}/mod.rs`) || target === `${name}/mod.rs`;
+}
+
+export class RustImportResolver implements LanguageResolver {
+  private crates: RustCrate[];
+
+  constructor(
+    private allFilePaths: Set<string>,
+    crates: RustCrate[],
+  ) {
+    this.crates = [...crates].sort((a, b) => b.dir.length - a.dir.length);
+  }
+
+  private findCrate(filePath: string): RustCrate {
+    const owner = this.crates.find((crate) => crate.dir === '' || filePath.startsWith(`${crate.dir}/`));
+    if (owner) {
+      return owner;
+    }
+
+    // No Cargo.toml: the nearest directory with a lib.rs or main.rs, else the file is its own root.
+    for (let dir = toRepoPath(posix.dirname(filePath)); ; dir = toRepoPath(posix.dirname(dir))) {
+      const rootFile = ['lib.rs', 'main.rs']
+        .map((name) => toRepoPath(posix.join(dir, name)))
+        .find((path) => this.allFilePaths.has(path));
+      if (rootFile) {
+        return { name: null, dir, rootFile };
+      }
+      if (dir === '') {
+        return { name: null, dir: toRepoPath(posix.dirname(filePath)), rootFile: filePath };
+      }
+    }
+  }
+
+  private getModuleSegments(filePath: string, crate: RustCrate): string[] {
+    if (filePath === crate.rootFile) {
+      return [];
+    }
+    const relative = crate.dir ? filePath.slice(crate.dir.length + 1) : filePath;
+    const segments = relative.replace(/\.rs$/, '').split('/');
+    if (segments[segments.length - 1] === 'mod' || (segments.length === 1 && ['lib', 'main'].includes(segments[0]))) {
+      segments.pop();
+    }
+    return segments;
+  }
+
+  private findModuleFile(crate: RustCrate, segments: string[]): string | null {
+    if (segments.length === 0) {
+      return crate.rootFile;
+    }
+    const base = toRepoPath(posix.join(crate.dir, ...segments));
+    return [`${base}.rs`, `${base}/mod.rs`].find((path) => this.allFilePaths.has(path)) ?? null;
+  }
+
+  // Resolves to the deepest module file along the path; the rest names items inside it.
+  resolve(module: string, currentFilePath: string): string | null {
+    const segments = module.replace(/^::/, '').split('::').filter(Boolean);
+    const currentCrate = this.findCrate(currentFilePath);
+    let crate = currentCrate;
+    let base = this.getModuleSegments(currentFilePath, currentCrate);
+    let minLength = base.length;
+
+    if (segments[0] === 'crate') {
+      base = [];
+      minLength = 0;
+      segments.shift();
+    } else if (segments[0] === 'self') {
+      segments.shift();
+    } else if (segments[0] === 'super') {
+      while (segments[0] === 'super') {
+        base = base.slice(0, -1);
+        segments.shift();
+      }
+      minLength = base.length;
+    } else {
+      const named = this.crates.find((entry) => entry.name === segments[0]);
+      if (named) {
+        crate = named;
+        base = [];
+        minLength = 0;
+        segments.shift();
+      } else {
+        // A bare path starts at a child module of the current one.
+        minLength = base.length + 1;
+      }
+    }
+
+    const full = [...base, ...segments];
+    for (let length = full.length; length >= minLength; length -= 1) {
+      const file = this.findModuleFile(crate, full.slice(0, length));
+      if (file) {
+        return file === currentFilePath ? null : file;
+      }
+    }
+    return null;
+  }
+
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[] {
+    const resolved = this.resolve(parsedImport.module, currentFilePath);
+    return resolved ? [resolved] : [];
+  }
+}
+
+export const rustLanguage: LanguageSupport = {
+  parse: (content) => parseRustModule(content),
+  async createResolver({ filePaths, blobPaths, readProjectFile }) {
+    const crates: RustCrate[] = [];
+    for (const path of blobPaths.filter(isCargoManifest).sort()) {
+      const content = await readProjectFile(path);
+      const name = content ? parseCargoPackageName(content) : null;
+      if (!content || !/^\s*\[package\]/m.test(content)) {
+        continue;
+      }
+      const dir = toRepoPath(posix.join(posix.dirname(path), 'src'));
+      const rootFile = ['lib.rs', 'main.rs'].map((file) => toRepoPath(posix.join(dir, file))).find((file) => filePaths.has(file));
+      crates.push({ name, dir, rootFile: rootFile ?? null });
+    }
+    return { resolver: new RustImportResolver(filePaths, crates) };
+  },
+};
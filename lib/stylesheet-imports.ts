@@ -0,0 +1,90 @@
+import { posix } from 'node:path';
+import type { LanguageResolver, LanguageSupport } from './languages';
+import type { ParsedImport, ParsedModule } from './parser';
+import { toRepoPath } from './tsconfig-paths';
+
+const STYLESHEET_EXTENSIONS = ['.scss', '.sass', '.css', '.less'];
+
+function stripStylesheetComments(content: string): string {
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '))
+    .replace(/(^|\s)\/\/.*$/gm, '$1');
+}
+
+// URLs, data URIs, Sass built-ins (`sass:math`) and `~package` imports never point at repo files.
+function isLocalStylesheetSpecifier(specifier: string): boolean {
+  return !/^(?:[a-z]+:|\/\/|~)/i.test(specifier);
+}
+
+// `@import` (CSS, Sass, Less) and Sass `@use` / `@forward`. Stylesheets have no exports, so importers use
+// the whole file.
+export function parseStylesheetImports(content: string): ParsedModule {
+  const imports: ParsedImport[] = [];
+  const rawLines = content.split('\n');
+
+  stripStylesheetComments(content)
+    .split('\n')
+    .forEach((line, index) => {
+      const rule = line.match(/@(import|use|forward)\s+([^;{]+)/);
+      if (!rule) {
+        return;
+      }
+      const specifiers = [...rule[2].matchAll(/url\(\s*['"]?([^'")\s]+)['"]?\s*\)|['"]([^'"]+)['"]/g)].map(
+        (match) => match[1] ?? match[2],
+      );
+      // `@use "x" with ($a: "b")` configures the module; only the first string is its URL.
+      for (const module of rule[1] === 'import' ? specifiers : specifiers.slice(0, 1)) {
+        if (isLocalStylesheetSpecifier(module)) {
+          imports.push({ raw: rawLines[index], module, lineNumber: index + 1, typeOnly: false, kind: 'static' });
+        }
+      }
+    });
+
+  return { imports, exports: [] };
+}
+
+// Stylesheet URLs are relative to the importing file. Sass also tries extensionless paths, `_partial`
+// files and `_index` / `index` files of a directory.
+export function resolveStylesheetImport(
+  specifier: string,
+  currentFilePath: string,
+  allFilePaths: Set<string>,
+): string | null {
+  if (specifier.startsWith('/')) {
+    return null;
+  }
+  const base = toRepoPath(posix.join(posix.dirname(currentFilePath), specifier));
+  const dir = posix.dirname(base);
+  const name = posix.basename(base);
+  const partial = toRepoPath(posix.join(dir, `_${name}`));
+  const hasExtension = STYLESHEET_EXTENSIONS.includes(posix.extname(base));
+
+  const candidates = hasExtension
+    ? [base, partial]
+    : [
+        ...STYLESHEET_EXTENSIONS.flatMap((extension) => [`${base}${extension}`, `${partial}${extension}`]),
+        ...STYLESHEET_EXTENSIONS.flatMap((extension) => [`${base}/_index${extension}`, `${base}/index${extension}`]),
+      ];
+  const resolved = candidates.find((candidate) => allFilePaths.has(candidate));
+  return resolved && resolved !== currentFilePath ? resolved : null;
+}
+
+export class StylesheetImportResolver implements LanguageResolver {
+  constructor(private allFilePaths: Set<string>) {}
+
+  resolve(module: string, currentFilePath: string): string | null {
+    return resolveStylesheetImport(module, currentFilePath, this.allFilePaths);
+  }
+
+  resolveAll(parsedImport: ParsedImport, currentFilePath: string): string[] {
+    const resolved = this.resolve(parsedImport.module, currentFilePath);
+    return resolved ? [resolved] : [];
+  }
+}
+
+export const stylesheetLanguage: LanguageSupport = {
+  parse: (content) => parseStylesheetImports(content),
+  async createResolver({ filePaths }) {
+    return { resolver: new StylesheetImportResolver(filePaths) };
+  },
+};
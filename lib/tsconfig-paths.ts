@@ -0,0 +1,214 @@
+import { posix } from 'node:path';
+
+// `compilerOptions.baseUrl` / `paths` of one tsconfig.json or jsconfig.json after its `extends` chain is
+// applied. Every directory is repo-relative, with '' for the repository root.
+export interface PathAliasConfig {
+  configPath: string;
+  configDir: string;
+  baseUrl: string | null;
+  pathsBase: string;
+  paths: Record<string, string[]>;
+}
+
+type ReadConfigFile = (path: string) => Promise<string | null>;
+
+interface CompilerPathOptions {
+  baseUrl: string | null;
+  paths: Record<string, string[]> | null;
+  pathsDir: string | null;
+}
+
+const PATH_CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+const MAX_EXTENDS_DEPTH = 10;
+
+export function isPathConfigFile(path: string): boolean {
+  return PATH_CONFIG_FILE_NAMES.includes(posix.basename(path)) && !path.split('/').includes('node_modules');
+}
+
+export function toRepoPath(path: string): string {
+  const normalized = posix.normalize(path).replace(/\/+$/, '');
+  return normalized === '.' ? '' : normalized.replace(/^\.\//, '');
+}
+
+// tsconfig files are JSONC: comments and trailing commas are allowed.
+export function parseJsonWithComments(text: string): unknown {
+  let output = '';
+  let inString = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += next ?? '';
+        index += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && next === '/') {
+      while (index < text.length && text[index] !== '\n') {
+        index += 1;
+      }
+      output += '\n';
+    } else if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+
+  return JSON.parse(stripTrailingCommas(output));
+}
+
+function stripTrailingCommas(text: string): string {
+  let output = '';
+  let inString = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') {
+        output += char + (text[index + 1] ?? '');
+        index += 1;
+        continue;
+      }
+      inString = char !== '"';
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(index + 1))) {
+      continue;
+    }
+    output += char;
+  }
+
+  return output;
+}
+
+function parsePaths(value: unknown): Record<string, string[]> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const paths: Record<string, string[]> = {};
+  for (const [pattern, targets] of Object.entries(value)) {
+    if (Array.isArray(targets)) {
+      paths[pattern] = targets.filter((target): target is string => typeof target === 'string');
+    }
+  }
+  return paths;
+}
+
+// Only repo-local parents can be followed: package configs (e.g. "@tsconfig/next") live in node_modules,
+// which is never part of the fetched tree.
+function resolveExtendsPath(configDir: string, extendsValue: string): string | null {
+  if (!extendsValue.startsWith('.') && !extendsValue.startsWith('/')) {
+    return null;
+  }
+  const resolved = toRepoPath(posix.join(configDir, extendsValue));
+  return resolved.endsWith('.json') ? resolved : `${resolved}.json`;
+}
+
+async function loadCompilerPathOptions(
+  configPath: string,
+  readConfigFile: ReadConfigFile,
+  seen: Set<string>,
+): Promise<CompilerPathOptions> {
+  const options: CompilerPathOptions = { baseUrl: null, paths: null, pathsDir: null };
+  if (seen.has(configPath) || seen.size >= MAX_EXTENDS_DEPTH) {
+    return options;
+  }
+  seen.add(configPath);
+
+  const text = await readConfigFile(configPath);
+  if (text === null) {
+    return options;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseJsonWithComments(text);
+  } catch {
+    return options;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return options;
+  }
+
+  const config = parsed as { extends?: unknown; compilerOptions?: { baseUrl?: unknown; paths?: unknown } };
+  const configDir = toRepoPath(posix.dirname(configPath));
+  const parents = Array.isArray(config.extends) ? config.extends : [config.extends];
+
+  // Later entries in an `extends` array override earlier ones, and the config itself overrides them all.
+  for (const parent of parents) {
+    const parentPath = typeof parent === 'string' ? resolveExtendsPath(configDir, parent) : null;
+    if (!parentPath) {
+      continue;
+    }
+    const inherited = await loadCompilerPathOptions(parentPath, readConfigFile, seen);
+    options.baseUrl = inherited.baseUrl ?? options.baseUrl;
+    if (inherited.paths) {
+      options.paths = inherited.paths;
+      options.pathsDir = inherited.pathsDir;
+    }
+  }
+
+  const compilerOptions = config.compilerOptions ?? {};
+  if (typeof compilerOptions.baseUrl === 'string') {
+    options.baseUrl = toRepoPath(posix.join(configDir, compilerOptions.baseUrl));
+  }
+  const paths = parsePaths(compilerOptions.paths);
+  if (paths) {
+    options.paths = paths;
+    options.pathsDir = configDir;
+  }
+
+  return options;
+}
+
+// Loads every config that declares `baseUrl` or `paths`, nearest-directory first so that
+// findPathAliasConfig can stop at the first match. tsconfig.json wins over a sibling jsconfig.json.
+export async function loadPathAliasConfigs(
+  configPaths: string[],
+  readConfigFile: ReadConfigFile,
+): Promise<PathAliasConfig[]> {
+  const configs: PathAliasConfig[] = [];
+  const tsconfigDirs = new Set(
+    configPaths.filter((path) => posix.basename(path) === 'tsconfig.json').map((path) => toRepoPath(posix.dirname(path))),
+  );
+
+  for (const configPath of configPaths) {
+    const configDir = toRepoPath(posix.dirname(configPath));
+    if (posix.basename(configPath) === 'jsconfig.json' && tsconfigDirs.has(configDir)) {
+      continue;
+    }
+
+    const options = await loadCompilerPathOptions(configPath, readConfigFile, new Set());
+    if (options.baseUrl === null && !options.paths) {
+      continue;
+    }
+
+    configs.push({
+      configPath,
+      configDir,
+      baseUrl: options.baseUrl,
+      // Per TypeScript, `paths` targets are relative to baseUrl when one is set, else to the declaring config.
+      pathsBase: options.baseUrl ?? options.pathsDir ?? configDir,
+      paths: options.paths ?? {},
+    });
+  }
+
+  return configs.sort((a, b) => b.configDir.length - a.configDir.length || a.configPath.localeCompare(b.configPath));
+}
+
+export function findPathAliasConfig(configs: PathAliasConfig[], filePath: string): PathAliasConfig | null {
+  return configs.find((config) => config.configDir === '' || filePath.startsWith(`${config.configDir}/`)) ?? null;
+}
@@ -59,6 +59,36 @@ export function parseCoordinationStatus(value: unknown): CoordinationStatus | nu
   return null;
 }
 
+// Returns null when any entry is malformed, so a batch is never applied with parts silently dropped.
+export function normalizeLockTransitions(
+  value: unknown,
+): Array<{ filePath: string; status: CoordinationStatus }> | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const transitions: Array<{ filePath: string; status: CoordinationStatus }> = [];
+  for (const candidate of value) {
+    const entry = toBodyRecord(candidate);
+    const status = parseCoordinationStatus(entry.status);
+    if (!isNonEmptyString(entry.file_path) || !status) {
+      return null;
+    }
+    transitions.push({ filePath: entry.file_path.trim(), status });
+  }
+
+  return transitions;
+}
+
+export function parsePositiveInteger(value: unknown): number | null {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed <= 0) {
+    return null;
+  }
+
+  return parsed;
+}
+
 export function toBodyRecord(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) {
     return {};
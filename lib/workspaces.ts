@@ -0,0 +1,214 @@
+import { posix } from 'node:path';
+import { parseJsonWithComments, toRepoPath } from './tsconfig-paths';
+
+// A package of an npm/yarn/pnpm workspace: its `name`, repo-relative directory and the entry fields
+// bare imports of it resolve through. `exports` is kept as written (string, array, condition object
+// or subpath map).
+export interface WorkspacePackage {
+  name: string;
+  dir: string;
+  exports?: unknown;
+  main?: string;
+  module?: string;
+  types?: string;
+}
+
+type ReadProjectFile = (path: string) => Promise<string | null>;
+
+// Conditions that point at sources in a repo come first; the rest keep their declared order.
+const PREFERRED_CONDITIONS = ['source', 'types', 'typings', 'import', 'module', 'default', 'require'];
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+function parseManifest(content: string): Record<string, unknown> | null {
+  try {
+    return toRecord(parseJsonWithComments(content));
+  } catch {
+    return null;
+  }
+}
+
+// npm/yarn: `"workspaces": ["packages/*"]` or yarn's `"workspaces": { "packages": [...] }`.
+export function parsePackageJsonWorkspaces(content: string): string[] {
+  const manifest = parseManifest(content);
+  const workspaces = manifest?.workspaces;
+  return toStringList(Array.isArray(workspaces) ? workspaces : toRecord(workspaces)?.packages);
+}
+
+// The `packages:` list of pnpm-workspace.yaml; other keys (catalogs, overrides) are ignored.
+export function parsePnpmWorkspacePackages(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '');
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:\s*$/.test(line);
+      continue;
+    }
+    const item = inPackages ? line.match(/^\s+-\s*(['"]?)(.+?)\1\s*$/) : null;
+    if (item) {
+      globs.push(item[2]);
+    }
+  }
+  return globs;
+}
+
+function workspaceGlobToRegExp(glob: string): RegExp {
+  const source = toRepoPath(glob)
+    .split('/')
+    .map((segment) =>
+      segment === '**' ? '.*' : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'),
+    )
+    .join('/')
+    .replace(/\/\.\*$/, '(?:/.*)?');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesWorkspaceGlobs(dir: string, globs: string[]): boolean {
+  const included = globs.filter((glob) => !glob.startsWith('!'));
+  const excluded = globs.filter((glob) => glob.startsWith('!')).map((glob) => glob.slice(1));
+  return (
+    included.some((glob) => workspaceGlobToRegExp(glob).test(dir)) &&
+    !excluded.some((glob) => workspaceGlobToRegExp(glob).test(dir))
+  );
+}
+
+export function parseWorkspacePackage(content: string, dir: string): WorkspacePackage | null {
+  const manifest = parseManifest(content);
+  if (!manifest || typeof manifest.name !== 'string' || !manifest.name) {
+    return null;
+  }
+  const field = (key: string) => (typeof manifest[key] === 'string' ? (manifest[key] as string) : undefined);
+  const types = field('types') ?? field('typings');
+  return {
+    name: manifest.name,
+    dir,
+    ...(manifest.exports !== undefined ? { exports: manifest.exports } : {}),
+    ...(field('main') ? { main: field('main') } : {}),
+    ...(field('module') ? { module: field('module') } : {}),
+    ...(types ? { types } : {}),
+  };
+}
+
+// Packages listed by the root package.json `workspaces` or pnpm-workspace.yaml; repos without either
+// have none.
+export async function loadWorkspacePackages(
+  blobPaths: string[],
+  readProjectFile: ReadProjectFile,
+): Promise<WorkspacePackage[]> {
+  const blobs = new Set(blobPaths);
+  const globs = [
+    ...(blobs.has('package.json') ? parsePackageJsonWorkspaces((await readProjectFile('package.json')) ?? '{}') : []),
+    ...(blobs.has('pnpm-workspace.yaml') ? parsePnpmWorkspacePackages((await readProjectFile('pnpm-workspace.yaml')) ?? '') : []),
+  ];
+  if (globs.length === 0) {
+    return [];
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const path of blobPaths.filter((blob) => posix.basename(blob) === 'package.json').sort()) {
+    const dir = toRepoPath(posix.dirname(path));
+    if (!dir || dir.split('/').includes('node_modules') || !matchesWorkspaceGlobs(dir, globs)) {
+      continue;
+    }
+    const content = await readProjectFile(path);
+    const workspacePackage = content ? parseWorkspacePackage(content, dir) : null;
+    if (workspacePackage) {
+      packages.push(workspacePackage);
+    }
+  }
+  return packages;
+}
+
+// The innermost workspace package whose directory contains the file.
+export function findWorkspacePackage(filePath: string, packages: WorkspacePackage[]): WorkspacePackage | null {
+  return packages
+    .filter((entry) => filePath.startsWith(`${entry.dir}/`))
+    .reduce<WorkspacePackage | null>((best, entry) => (!best || entry.dir.length > best.dir.length ? entry : best), null);
+}
+
+function collectConditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectConditionTargets);
+  }
+  const conditions = toRecord(value);
+  if (!conditions) {
+    return [];
+  }
+  const keys = Object.keys(conditions).sort((a, b) => {
+    const rank = (key: string) => (PREFERRED_CONDITIONS.includes(key) ? PREFERRED_CONDITIONS.indexOf(key) : PREFERRED_CONDITIONS.length);
+    return rank(a) - rank(b);
+  });
+  return keys.flatMap((key) => collectConditionTargets(conditions[key]));
+}
+
+// Targets of `subpath` ('.' or './x') in an `exports` field, following Node's rules: an exact key wins,
+// then the `*` pattern with the longest prefix.
+function getExportsTargets(exportsField: unknown, subpath: string): string[] {
+  const map = toRecord(exportsField);
+  const isSubpathMap = map !== null && Object.keys(map).some((key) => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return subpath === '.' ? collectConditionTargets(exportsField) : [];
+  }
+
+  if (subpath in map) {
+    return collectConditionTargets(map[subpath]);
+  }
+  let match: { key: string; captured: string } | null = null;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf('*');
+    if (star === -1) {
+      continue;
+    }
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= prefix.length + suffix.length &&
+      (!match || prefix.length > match.key.indexOf('*'))
+    ) {
+      match = { key, captured: subpath.slice(prefix.length, subpath.length - suffix.length) };
+    }
+  }
+  return match ? collectConditionTargets(map[match.key]).map((target) => target.replace(/\*/g, match!.captured)) : [];
+}
+
+// Repo paths a bare specifier of a workspace package points at, in preference order (they may name
+// build output that is not committed; the resolver maps those back to sources). Null when no
+// workspace package claims the specifier.
+export function getWorkspaceImportTargets(
+  specifier: string,
+  packages: WorkspacePackage[],
+): { workspacePackage: WorkspacePackage; targets: string[] } | null {
+  const workspacePackage = packages
+    .filter((entry) => specifier === entry.name || specifier.startsWith(`${entry.name}/`))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (!workspacePackage) {
+    return null;
+  }
+
+  const rest = specifier.slice(workspacePackage.name.length + 1);
+  const subpath = rest ? `./${rest}` : '.';
+  const toPath = (target: string) => toRepoPath(posix.join(workspacePackage.dir, target));
+
+  if (workspacePackage.exports !== undefined) {
+    return { workspacePackage, targets: getExportsTargets(workspacePackage.exports, subpath).map(toPath) };
+  }
+  if (rest) {
+    return { workspacePackage, targets: [toPath(rest), toPath(`src/${rest}`)] };
+  }
+  const entryFields = [workspacePackage.types, workspacePackage.module, workspacePackage.main].filter(
+    (field): field is string => Boolean(field),
+  );
+  return { workspacePackage, targets: [...entryFields, 'src/index', 'index'].map(toPath) };
+}
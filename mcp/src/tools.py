@@ -13,14 +13,14 @@ from src.models import (
 
 VERCEL_URL = os.getenv("VERCEL_API_URL", "https://relay-frontend-liard.vercel.app").rstrip("/")
 STANDARDIZED_REPO_URL = "https://github.com/luljaj/RelayDevFest"
+RELAY_AGENT_TOKEN = os.getenv("RELAY_AGENT_TOKEN", "").strip()
 
 
-def _build_identity_headers(username: str) -> Dict[str, str]:
-    normalized = username.strip() or "anonymous"
-    return {
-        "x-github-user": normalized,
-        "x-github-username": normalized,
-    }
+def _build_auth_headers() -> Dict[str, str]:
+    # The backend derives the agent identity from this token alone.
+    if RELAY_AGENT_TOKEN:
+        return {"Authorization": f"Bearer {RELAY_AGENT_TOKEN}"}
+    return {}
 
 
 def _extract_error_message(resp: httpx.Response) -> str:
@@ -81,6 +81,18 @@ def _extract_orchestration(payload: Optional[Dict[str, Any]]) -> Optional[Orches
     )
 
 
+def _access_denied_orchestration(resp: httpx.Response) -> OrchestrationCommand:
+    # 403 payloads carry the caller's repo role and a STOP orchestration.
+    orchestration = _extract_orchestration(_extract_payload(resp))
+    if orchestration:
+        return orchestration
+
+    return OrchestrationCommand(
+        action=OrchestrationAction.STOP,
+        reason=f"Access denied: {_extract_error_message(resp)}",
+    )
+
+
 def _is_missing_git_ref_error(resp: httpx.Response) -> bool:
     details = _extract_error_message(resp)
     return "Not Found" in details and "git/refs#get-a-reference" in details
@@ -132,7 +144,7 @@ async def check_status(
     Returns:
         Status response with locks, warnings, and orchestration commands
     """
-    headers = _build_identity_headers(username)
+    headers = _build_auth_headers()
 
     try:
         async with httpx.AsyncClient() as client:
@@ -173,6 +185,15 @@ async def check_status(
                     ),
                 ).model_dump()
 
+            if resp.status_code == 403:
+                return CheckStatusResponse(
+                    status="OFFLINE",
+                    repo_head="unknown",
+                    locks={},
+                    warnings=[f"ACCESS_DENIED: {_extract_error_message(resp)}"],
+                    orchestration=_access_denied_orchestration(resp),
+                ).model_dump()
+
             if resp.status_code == 400:
                 payload = _extract_payload(resp)
                 orchestration = _extract_orchestration(payload)
@@ -256,7 +277,7 @@ async def post_status(
     Returns:
         Success status, orphaned dependencies, and orchestration commands
     """
-    headers = _build_identity_headers(username)
+    headers = _build_auth_headers()
 
     try:
         async with httpx.AsyncClient() as client:
@@ -306,6 +327,12 @@ async def post_status(
                     ),
                 ).model_dump()
 
+            if resp.status_code == 403:
+                return PostStatusResponse(
+                    success=False,
+                    orchestration=_access_denied_orchestration(resp),
+                ).model_dump()
+
             if resp.status_code == 409:
                 return PostStatusResponse(
                     success=False,
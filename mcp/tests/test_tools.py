@@ -113,3 +113,41 @@ def test_post_status_preserves_orchestration_from_400_payload(monkeypatch) -> No
     assert result["orchestration"]["command"] == "git push"
     assert "Validation error" not in result["orchestration"]["reason"]
     assert fake_client.calls[0]["json"]["repo_url"] == "https://github.com/luljaj/RelayDevFest"
+
+
+def test_post_status_translates_access_denied_into_stop(monkeypatch) -> None:
+    response = _response(
+        403,
+        {
+            "error": "Forbidden",
+            "details": "gpt5-orchid-alice has viewer access to https://github.com/luljaj/relaydevfest; agent role required",
+            "required_role": "agent",
+            "role": "viewer",
+            "orchestration": {
+                "type": "orchestration_command",
+                "action": "STOP",
+                "command": None,
+                "reason": "Access denied: agent role required",
+            },
+        },
+        "https://relay.example/api/post_status",
+    )
+
+    fake_client = FakeAsyncClient([response])
+    monkeypatch.setattr(tools.httpx, "AsyncClient", lambda: fake_client)
+
+    result = asyncio.run(
+        tools.post_status(
+            username="gpt5-orchid-alice",
+            file_paths=["README.md"],
+            status="WRITING",
+            message="editing",
+            agent_head="abc123",
+            repo_url="https://github.com/example/repo.git",
+            branch="main",
+        )
+    )
+
+    assert result["success"] is False
+    assert result["orchestration"]["action"] == "STOP"
+    assert result["orchestration"]["reason"] == "Access denied: agent role required"
@@ -1,6 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // The graph builder parses imports with the TypeScript compiler API; load it from node_modules
+    // instead of bundling it into every route.
+    serverComponentsExternalPackages: ['typescript'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+const { store } = vi.hoisted(() => ({ store: new Map<string, unknown>() }));
+
+vi.mock('@/lib/kv', () => {
+  const hash = (key: string) => {
+    if (!store.has(key)) {
+      store.set(key, {});
+    }
+    return store.get(key) as Record<string, unknown>;
+  };
+
+  return {
+    kv: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      set: vi.fn(async (key: string, value: unknown, options?: { nx?: boolean }) => {
+        if (options?.nx && store.has(key)) {
+          return null;
+        }
+        store.set(key, value);
+        return 'OK';
+      }),
+      del: vi.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+      hset: vi.fn(async (key: string, values: Record<string, unknown>) => {
+        Object.assign(hash(key), values);
+        return Object.keys(values).length;
+      }),
+      hget: vi.fn(async (key: string, field: string) => (store.get(key) as Record<string, unknown> | undefined)?.[field] ?? null),
+      hgetall: vi.fn(async (key: string) => (store.get(key) as Record<string, unknown> | undefined) ?? null),
+      hdel: vi.fn(async (key: string, field: string) => {
+        delete hash(key)[field];
+        return 1;
+      }),
+    },
+  };
+});
+
+import {
+  authenticateAgentRequest,
+  createAgentToken,
+  isAgentNameBoundTo,
+  listAgentTokens,
+  revokeAgentToken,
+} from '@/lib/agent-tokens';
+
+describe('agent tokens', () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  test('binds agent names to the owning GitHub login', () => {
+    expect(isAgentNameBoundTo('gpt5-orchid-lukauljaj', 'LukaUljaj')).toBe(true);
+    expect(isAgentNameBoundTo('gpt5-orchid-someoneelse', 'lukauljaj')).toBe(false);
+    expect(isAgentNameBoundTo('-lukauljaj', 'lukauljaj')).toBe(false);
+  });
+
+  test('stores only a hash and authenticates bearer tokens until revoked', async () => {
+    const { token, record } = (await createAgentToken('lukauljaj', 'gpt5-orchid-lukauljaj'))!;
+
+    expect(JSON.stringify(Array.from(store.entries()))).not.toContain(token);
+
+    const request = { headers: new Headers([['authorization', `Bearer ${token}`]]) };
+    await expect(authenticateAgentRequest(request)).resolves.toEqual({
+      tokenId: record.id,
+      agentName: 'gpt5-orchid-lukauljaj',
+      ownerLogin: 'lukauljaj',
+    });
+
+    const listed = await listAgentTokens('lukauljaj');
+    expect(listed.map((entry) => entry.id)).toEqual([record.id]);
+    expect(listed[0]).not.toHaveProperty('token_hash');
+    expect(listed[0].last_used_at).not.toBeNull();
+
+    await expect(revokeAgentToken('lukauljaj', record.id)).resolves.toBe(true);
+    await expect(authenticateAgentRequest(request)).resolves.toBeNull();
+  });
+
+  test('refuses an agent name another owner already holds through a hyphenated login', async () => {
+    expect(isAgentNameBoundTo('gpt5-x-alice-bob', 'bob')).toBe(true);
+    expect(isAgentNameBoundTo('gpt5-x-alice-bob', 'alice-bob')).toBe(true);
+
+    const owned = await createAgentToken('alice-bob', 'gpt5-x-alice-bob');
+    expect(owned).not.toBeNull();
+    await expect(createAgentToken('bob', 'gpt5-x-alice-bob')).resolves.toBeNull();
+    await expect(createAgentToken('Alice-Bob', 'gpt5-x-alice-bob')).resolves.not.toBeNull();
+
+    // A token minted before names were claimed stops authenticating once the other owner holds its name.
+    const early = (await createAgentToken('bob', 'gpt5-y-alice-bob'))!;
+    store.set('agent_name_owner:gpt5-y-alice-bob', 'alice-bob');
+    await expect(
+      authenticateAgentRequest({ headers: new Headers([['authorization', `Bearer ${early.token}`]]) }),
+    ).resolves.toBeNull();
+    await expect(
+      authenticateAgentRequest({ headers: new Headers([['authorization', `Bearer ${owned!.token}`]]) }),
+    ).resolves.toEqual(expect.objectContaining({ agentName: 'gpt5-x-alice-bob', ownerLogin: 'alice-bob' }));
+  });
+
+  test('rejects missing and unknown tokens', async () => {
+    await expect(authenticateAgentRequest({ headers: new Headers() })).resolves.toBeNull();
+    await expect(
+      authenticateAgentRequest({ headers: new Headers([['authorization', 'Bearer relay_unknown']]) }),
+    ).resolves.toBeNull();
+  });
+});
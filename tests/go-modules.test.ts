@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import { GoImportResolver, goLanguage, parseGoMod, parseGoModule } from '@/lib/go-modules';
+
+describe('Go modules', () => {
+  test('reads the module path and local replace directives from go.mod', () => {
+    const goMod = [
+      'module github.com/relay/server // main module',
+      '',
+      'require github.com/relay/shared v0.0.0',
+      'replace github.com/relay/shared => ../shared',
+      'replace (',
+      '  github.com/relay/proto v1.2.0 => ./third_party/proto',
+      '  golang.org/x/net => golang.org/x/net v0.1.0',
+      ')',
+    ].join('\n');
+
+    expect(parseGoMod(goMod, 'server')).toEqual({
+      path: 'github.com/relay/server',
+      dir: 'server',
+      replaces: {
+        'github.com/relay/shared': 'shared',
+        'github.com/relay/proto': 'server/third_party/proto',
+      },
+    });
+    expect(parseGoMod('go 1.22\n', '')).toBeNull();
+  });
+
+  test('parses imports and exported top-level declarations', () => {
+    const source = [
+      'package graph',
+      '',
+      'import "fmt"',
+      'import (',
+      '  "github.com/relay/server/internal/locks"',
+      '  kv "github.com/relay/server/internal/store"',
+      ')',
+      '',
+      'type Graph struct {',
+      '  nodes []string',
+      '}',
+      'type Walker interface{ Walk() }',
+      'type ID string',
+      'const (',
+      '  MaxDepth = 3',
+      '  minDepth = 1',
+      ')',
+      'var Default, fallback = New(), New()',
+      'func New() *Graph {',
+      '  var Local = 1',
+      '  return &Graph{}',
+      '}',
+      'func (g *Graph) Method() {}',
+      'func helper() {}',
+    ].join('\n');
+
+    const parsed = parseGoModule(source);
+
+    expect(parsed.imports.map((entry) => entry.module)).toEqual([
+      'fmt',
+      'github.com/relay/server/internal/locks',
+      'github.com/relay/server/internal/store',
+    ]);
+    expect(parsed.imports.every((entry) => entry.names === undefined)).toBe(true);
+    expect(parsed.exports.map(({ name, kind }) => [name, kind])).toEqual([
+      ['Graph', 'class'],
+      ['Walker', 'interface'],
+      ['ID', 'type'],
+      ['MaxDepth', 'variable'],
+      ['Default', 'variable'],
+      ['New', 'function'],
+    ]);
+  });
+
+  test('resolves package imports to every non-test file of the package directory', () => {
+    const files = new Set([
+      'server/main.go',
+      'server/internal/locks/locks.go',
+      'server/internal/locks/redis.go',
+      'server/internal/locks/locks_test.go',
+      'server/vendor/github.com/pkg/errors/errors.go',
+      'shared/auth/token.go',
+    ]);
+    const resolver = new GoImportResolver(files, [
+      { path: 'github.com/relay/server', dir: 'server', replaces: { 'github.com/relay/shared': 'shared' } },
+    ]);
+    const resolve = (module: string) =>
+      resolver.resolveAll({ raw: '', module, lineNumber: 1, typeOnly: false, kind: 'static' }, 'server/main.go');
+
+    expect(resolve('github.com/relay/server/internal/locks')).toEqual([
+      'server/internal/locks/locks.go',
+      'server/internal/locks/redis.go',
+    ]);
+    expect(resolve('github.com/relay/shared/auth')).toEqual(['shared/auth/token.go']);
+    expect(resolve('github.com/pkg/errors')).toEqual(['server/vendor/github.com/pkg/errors/errors.go']);
+    expect(resolve('fmt')).toEqual([]);
+  });
+
+  test('loads go.mod files through the project file reader', async () => {
+    const { resolver } = await goLanguage.createResolver({
+      filePaths: new Set(['cmd/relay/main.go', 'pkg/graph/graph.go']),
+      blobPaths: ['go.mod', 'cmd/relay/main.go', 'pkg/graph/graph.go', 'testdata/go.mod'],
+      readProjectFile: async (path) => (path === 'go.mod' ? 'module example.com/relay\n' : null),
+    });
+
+    expect(resolver.resolve('example.com/relay/pkg/graph', 'cmd/relay/main.go')).toBe('pkg/graph/graph.go');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'vitest';
+import {
+  clampGraphQueryDepth,
+  findShortestImportPath,
+  getTransitiveDependents,
+  groupNodesByPackage,
+  queryDependencyGraph,
+} from '@/lib/graph-query';
+import type { DependencyGraph } from '@/lib/graph-service';
+
+// app -> routes -> locks -> kv, and app -> ui
+const graph: DependencyGraph = {
+  nodes: ['app.ts', 'routes.ts', 'locks.ts', 'kv.ts', 'ui.ts', 'orphan.ts'].map((id) => ({ id, type: 'file' })),
+  edges: [
+    { source: 'app.ts', target: 'routes.ts', type: 'runtime' },
+    { source: 'routes.ts', target: 'locks.ts', type: 'runtime' },
+    { source: 'locks.ts', target: 'kv.ts', type: 'runtime' },
+    { source: 'app.ts', target: 'ui.ts', type: 'runtime' },
+  ],
+  locks: {},
+  version: 'v1',
+  metadata: { generated_at: 1, files_processed: 6, edges_found: 4 },
+};
+
+describe('graph queries', () => {
+  test('returns direct imports and importers', () => {
+    const result = queryDependencyGraph(graph, { filePath: 'routes.ts' });
+
+    expect(result.found).toBe(true);
+    expect(result.imports).toEqual(['locks.ts']);
+    expect(result.imported_by).toEqual(['app.ts']);
+  });
+
+  test('walks dependents up to the requested depth', () => {
+    expect(getTransitiveDependents(graph, 'kv.ts', 2)).toEqual([
+      { file_path: 'locks.ts', distance: 1 },
+      { file_path: 'routes.ts', distance: 2 },
+    ]);
+    expect(getTransitiveDependents(graph, 'kv.ts', 3).map((entry) => entry.file_path)).toContain('app.ts');
+  });
+
+  test('finds the shortest import path in either direction', () => {
+    expect(findShortestImportPath(graph, 'app.ts', 'kv.ts')).toEqual({
+      direction: 'imports',
+      files: ['app.ts', 'routes.ts', 'locks.ts', 'kv.ts'],
+    });
+    expect(findShortestImportPath(graph, 'kv.ts', 'routes.ts')).toEqual({
+      direction: 'imported_by',
+      files: ['kv.ts', 'locks.ts', 'routes.ts'],
+    });
+    expect(findShortestImportPath(graph, 'ui.ts', 'orphan.ts')).toEqual({ direction: null, files: null });
+  });
+
+  test('clamps depth and flags files missing from the graph', () => {
+    expect(clampGraphQueryDepth(undefined)).toBe(2);
+    expect(clampGraphQueryDepth(0)).toBe(1);
+    expect(clampGraphQueryDepth(100)).toBe(6);
+    expect(queryDependencyGraph(graph, { filePath: 'missing.ts' }).found).toBe(false);
+  });
+});
+
+describe('package grouping', () => {
+  test('groups nodes by workspace package with cross-package dependencies', () => {
+    const workspaceGraph: DependencyGraph = {
+      nodes: [
+        { id: 'apps/web/page.tsx', type: 'file', package: 'web' },
+        { id: 'apps/web/layout.tsx', type: 'file', package: 'web' },
+        { id: 'packages/ui/src/index.ts', type: 'file', package: '@acme/ui' },
+        { id: 'package.json', type: 'file' },
+      ],
+      edges: [
+        { source: 'apps/web/page.tsx', target: 'packages/ui/src/index.ts', type: 'runtime' },
+        { source: 'apps/web/page.tsx', target: 'apps/web/layout.tsx', type: 'runtime' },
+      ],
+      packages: [
+        { name: '@acme/ui', dir: 'packages/ui' },
+        { name: 'web', dir: 'apps/web' },
+      ],
+      locks: {},
+      version: 'v1',
+      metadata: { generated_at: 1, files_processed: 4, edges_found: 2 },
+    };
+
+    expect(groupNodesByPackage(workspaceGraph)).toEqual([
+      { package: '@acme/ui', dir: 'packages/ui', files: ['packages/ui/src/index.ts'], depends_on: [] },
+      { package: 'web', dir: 'apps/web', files: ['apps/web/layout.tsx', 'apps/web/page.tsx'], depends_on: ['@acme/ui'] },
+      { package: null, dir: null, files: ['package.json'], depends_on: [] },
+    ]);
+  });
+});
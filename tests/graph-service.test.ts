@@ -0,0 +1,163 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test, vi } from 'vitest';
+
+const { store } = vi.hoisted(() => ({ store: new Map<string, unknown>() }));
+
+vi.mock('@/lib/kv', () => {
+  const hash = (key: string) => (store.get(key) as Record<string, unknown> | undefined) ?? {};
+  const kv = {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    del: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    hget: vi.fn(async (key: string, field: string) => hash(key)[field] ?? null),
+    hgetall: vi.fn(async (key: string) => (store.has(key) ? hash(key) : null)),
+    hset: vi.fn(async (key: string, values: Record<string, unknown>) => {
+      store.set(key, { ...hash(key), ...values });
+    }),
+    hdel: vi.fn(async (key: string, ...fields: string[]) => {
+      store.set(key, Object.fromEntries(Object.entries(hash(key)).filter(([field]) => !fields.includes(field))));
+    }),
+    // The legacy-key adoption script: RENAMENX each existing [legacyKey, key] pair.
+    eval: vi.fn(async (_script: string, keys: string[]) => {
+      for (let index = 0; index < keys.length; index += 2) {
+        if (store.has(keys[index]) && !store.has(keys[index + 1])) {
+          store.set(keys[index + 1], store.get(keys[index]));
+          store.delete(keys[index]);
+        }
+      }
+      return 1;
+    }),
+    pipeline: () => {
+      const queued: (() => Promise<void>)[] = [];
+      const pipeline = {
+        set: (key: string, value: unknown) => (queued.push(() => kv.set(key, value)), pipeline),
+        hset: (key: string, values: Record<string, unknown>) => (queued.push(() => kv.hset(key, values)), pipeline),
+        hdel: (key: string, ...fields: string[]) => (queued.push(() => kv.hdel(key, ...fields)), pipeline),
+        exec: async () => {
+          for (const operation of queued) await operation();
+        },
+      };
+      return pipeline;
+    },
+  };
+  return { kv };
+});
+
+vi.mock('@/lib/locks', () => ({
+  getLocks: vi.fn(async () => ({})),
+}));
+
+import { GraphService, classifyImportEdge, getImportedSymbolIds } from '@/lib/graph-service';
+
+describe('graph edge classification', () => {
+  test('classifies parsed imports', () => {
+    expect(classifyImportEdge({ typeOnly: false, kind: 'static' })).toBe('runtime');
+    expect(classifyImportEdge({ typeOnly: false, kind: 'dynamic' })).toBe('dynamic');
+    expect(classifyImportEdge({ typeOnly: false, kind: 're-export' })).toBe('re-export');
+    expect(classifyImportEdge({ typeOnly: true, kind: 're-export' })).toBe('type-only');
+  });
+
+  test('serves edges from older cached graphs as runtime', async () => {
+    store.set(
+      'graph:github:https://github.com/a/b:main',
+      JSON.stringify({
+        nodes: [],
+        edges: [
+          { source: 'a.ts', target: 'b.ts', type: 'import' },
+          { source: 'a.ts', target: 'c.ts', type: 'type-only' },
+        ],
+        locks: {},
+        version: 'v1',
+        metadata: { generated_at: 1, files_processed: 0, edges_found: 2 },
+      }),
+    );
+
+    const graph = await new GraphService('https://github.com/a/b', 'main').getCached();
+
+    expect(graph?.edges.map((edge) => edge.type)).toEqual(['runtime', 'type-only']);
+  });
+
+  test('moves a graph cached before provider-scoped keys onto the scoped keys', async () => {
+    const legacyGraph = { nodes: [], edges: [], locks: {}, version: 'v0', metadata: { generated_at: 1 } };
+    store.set('graph:https://github.com/c/d:main', JSON.stringify(legacyGraph));
+    store.set('graph:meta:https://github.com/c/d:main', 'v0');
+
+    const service = new GraphService('https://github.com/c/d', 'main');
+
+    expect((await service.getCached())?.version).toBe('v0');
+    expect(await service.getCachedVersion()).toBe('v0');
+    expect(store.has('graph:https://github.com/c/d:main')).toBe(false);
+    expect(store.get('graph:meta:github:https://github.com/c/d:main')).toBe('v0');
+  });
+});
+
+describe('symbol usage edges', () => {
+  test('maps imported names to symbol ids of the resolved file', () => {
+    expect(getImportedSymbolIds({ names: ['default', 'useGraph'] }, 'app/panel.tsx')).toEqual([
+      'app/panel.tsx#default',
+      'app/panel.tsx#useGraph',
+    ]);
+    expect(getImportedSymbolIds({ names: [] }, 'app/styles.ts')).toEqual([]);
+    expect(getImportedSymbolIds({ names: ['*'] }, 'lib/d3.ts')).toEqual(['lib/d3.ts#*']);
+    expect(getImportedSymbolIds({}, 'lib/utils.js')).toEqual(['lib/utils.js#*']);
+  });
+
+  test('uses a Python submodule named by a from-import as a whole', () => {
+    expect(getImportedSymbolIds({ names: ['tools'] }, 'pkg/tools.py')).toEqual(['pkg/tools.py#*']);
+    expect(getImportedSymbolIds({ names: ['run'] }, 'pkg/helpers.py')).toEqual(['pkg/helpers.py#run']);
+  });
+
+  test('uses stylesheets, JSON and assets as a whole', () => {
+    expect(getImportedSymbolIds({ names: ['default'] }, 'app/panel.module.css')).toEqual(['app/panel.module.css#*']);
+    expect(getImportedSymbolIds({ names: ['default'] }, 'data/regions.json')).toEqual(['data/regions.json#*']);
+    expect(getImportedSymbolIds({ names: [] }, 'app/globals.css')).toEqual([]);
+  });
+
+  test('uses a Rust module named by a use path as a whole', () => {
+    expect(getImportedSymbolIds({ names: ['walk'] }, 'src/graph/walk.rs')).toEqual(['src/graph/walk.rs#*']);
+    expect(getImportedSymbolIds({ names: ['Graph'] }, 'src/graph.rs')).toEqual(['src/graph.rs#Graph']);
+  });
+});
+
+describe('graph sources', () => {
+  test('builds and caches a graph from a local git checkout', async () => {
+    const repoPath = mkdtempSync(join(tmpdir(), 'relay-graph-service-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-C', repoPath, '-c', 'user.name=relay', '-c', 'user.email=relay@example.com', ...args]);
+    try {
+      git('init', '-q', '-b', 'feature');
+      mkdirSync(join(repoPath, 'app'));
+      writeFileSync(join(repoPath, 'app/layout.tsx'), "import './globals.css';\nimport { Panel } from './panel';\n");
+      writeFileSync(join(repoPath, 'app/panel.tsx'), 'export function Panel() {}\n');
+      writeFileSync(join(repoPath, 'app/globals.css'), 'body {}\n');
+      git('add', '.');
+      git('commit', '-q', '-m', 'unpushed');
+
+      const service = new GraphService('https://github.com/acme/local', 'feature');
+      await service.setLocalSourceConfig({ type: 'local', path: repoPath, worktree: false });
+      const graph = await service.generate(true);
+
+      expect(graph.version).toBe(execFileSync('git', ['-C', repoPath, 'rev-parse', 'feature'], { encoding: 'utf8' }).trim());
+      expect(graph.nodes.map((node) => [node.id, node.language])).toEqual([
+        ['app/globals.css', 'css'],
+        ['app/layout.tsx', 'ts'],
+        ['app/panel.tsx', 'ts'],
+      ]);
+      expect(graph.edges).toEqual([
+        { source: 'app/layout.tsx', target: 'app/globals.css', type: 'runtime' },
+        { source: 'app/layout.tsx', target: 'app/panel.tsx', type: 'runtime' },
+      ]);
+      expect(graph.symbol_edges).toContainEqual({ source: 'app/layout.tsx', target: 'app/panel.tsx#Panel', type: 'runtime' });
+      expect((await new GraphService('https://github.com/acme/local', 'feature').getCached())?.version).toBe(graph.version);
+    } finally {
+      rmSync(repoPath, { recursive: true, force: true });
+    }
+  });
+});
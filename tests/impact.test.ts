@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+vi.mock('@/lib/locks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/locks')>()),
+  expireLapsedLocks: vi.fn(),
+  getLocks: vi.fn(),
+}));
+
+import { GraphService, type DependencyGraph } from '@/lib/graph-service';
+import { analyzeImpact, computeImpact, parseImpactFilePaths } from '@/lib/impact';
+import { expireLapsedLocks, getLocks, type FileLock, type LockEntry } from '@/lib/locks';
+
+// app -> routes -> locks -> kv, app -> ui -> kv
+const graph: DependencyGraph = {
+  nodes: ['app.ts', 'routes.ts', 'locks.ts', 'kv.ts', 'ui.ts', 'lib/a.ts', 'lib/b.ts'].map((id) => ({ id, type: 'file' })),
+  edges: [
+    { source: 'app.ts', target: 'routes.ts', type: 'runtime' },
+    { source: 'routes.ts', target: 'locks.ts', type: 'runtime' },
+    { source: 'locks.ts', target: 'kv.ts', type: 'runtime' },
+    { source: 'app.ts', target: 'ui.ts', type: 'runtime' },
+    { source: 'ui.ts', target: 'kv.ts', type: 'runtime' },
+    { source: 'routes.ts', target: 'lib/a.ts', type: 'runtime' },
+  ],
+  locks: {},
+  version: 'v1',
+  metadata: { generated_at: 1, files_processed: 7, edges_found: 6 },
+};
+
+function lockOn(filePath: string, userId: string, status: LockEntry['status']): FileLock {
+  const entry: LockEntry = {
+    file_path: filePath,
+    user_id: userId,
+    user_name: userId,
+    status,
+    agent_head: 'abc',
+    message: `${status.toLowerCase()} ${filePath}`,
+    timestamp: 1,
+    expiry: Date.now() + 60_000,
+  };
+  return { ...entry, holders: [entry] };
+}
+
+describe('impact analysis', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(expireLapsedLocks).mockReset();
+  });
+
+  test('returns the full transitive set with the shortest depth to any root', () => {
+    const { roots, dependents } = computeImpact(graph, {}, ['kv.ts']);
+
+    expect(roots.map((entry) => entry.file_path)).toEqual(['kv.ts']);
+    expect(dependents.map(({ file_path, depth, via }) => ({ file_path, depth, via }))).toEqual([
+      { file_path: 'locks.ts', depth: 1, via: 'kv.ts' },
+      { file_path: 'ui.ts', depth: 1, via: 'kv.ts' },
+      { file_path: 'app.ts', depth: 2, via: 'ui.ts' },
+      { file_path: 'routes.ts', depth: 2, via: 'locks.ts' },
+    ]);
+  });
+
+  test('merges several roots and honours a depth limit', () => {
+    const { roots, dependents } = computeImpact(graph, {}, ['kv.ts', 'lib/a.ts'], 1);
+
+    expect(roots.map((entry) => entry.file_path)).toEqual(['kv.ts', 'lib/a.ts']);
+    expect(dependents.map((entry) => entry.file_path)).toEqual(['locks.ts', 'routes.ts', 'ui.ts']);
+  });
+
+  test('expands directory scopes and reports scopes that match nothing', () => {
+    const { roots, unmatched } = computeImpact(graph, {}, ['lib/', 'missing.ts']);
+
+    expect(roots.map((entry) => entry.file_path)).toEqual(['lib/a.ts', 'lib/b.ts']);
+    expect(unmatched).toEqual(['missing.ts']);
+  });
+
+  test('annotates exact and covering locks', () => {
+    const locks = { 'routes.ts': lockOn('routes.ts', 'agent-r', 'WRITING'), 'lib/**': lockOn('lib/**', 'agent-l', 'READING') };
+    const { roots, dependents } = computeImpact(graph, locks, ['lib/a.ts']);
+
+    expect(roots[0].lock).toEqual({
+      status: 'READING',
+      covered_by: 'lib/**',
+      holders: [{ user_id: 'agent-l', user_name: 'agent-l', status: 'READING', message: 'reading lib/**' }],
+    });
+    expect(dependents.find((entry) => entry.file_path === 'routes.ts')?.lock?.status).toBe('WRITING');
+    expect(dependents.find((entry) => entry.file_path === 'app.ts')?.lock).toBeNull();
+  });
+
+  test('parses comma-separated and array file paths', () => {
+    expect(parseImpactFilePaths(['a.ts, ./b.ts', 'a.ts', 3])).toEqual(['a.ts', 'b.ts']);
+    expect(parseImpactFilePaths('x.ts')).toEqual(['x.ts']);
+    expect(parseImpactFilePaths(undefined)).toEqual([]);
+  });
+
+  test('sweeps lapsed locks before reading the cached graph and uses the locks it carries', async () => {
+    const order: string[] = [];
+    vi.mocked(expireLapsedLocks).mockImplementation(async () => {
+      order.push('sweep');
+      return [];
+    });
+    vi.spyOn(GraphService.prototype, 'getCached').mockImplementation(async () => {
+      order.push('read');
+      return { ...graph, locks: { 'routes.ts': lockOn('routes.ts', 'agent-r', 'WRITING') } };
+    });
+
+    const report = await analyzeImpact('https://github.com/acme/app', 'main', ['kv.ts']);
+
+    expect(order).toEqual(['sweep', 'read']);
+    expect(getLocks).not.toHaveBeenCalled();
+    expect(report.available && report.locked).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { JavaImportResolver, parseJavaModule } from '@/lib/java-packages';
+
+describe('Java packages', () => {
+  test('parses imports and public top-level types', () => {
+    const source = [
+      'package dev.relay.graph;',
+      '',
+      'import java.util.List;',
+      'import dev.relay.locks.LockService;',
+      'import dev.relay.model.*;',
+      'import static dev.relay.util.Paths.normalize;',
+      '/* public class Commented {} */',
+      '',
+      'public final class GraphBuilder {',
+      '  public static class Inner {}',
+      '}',
+      'public @interface Tracked {}',
+      'record Point(int x, int y) {}',
+    ].join('\n');
+
+    const parsed = parseJavaModule(source);
+
+    expect(parsed.imports.map(({ module, names }) => ({ module, names }))).toEqual([
+      { module: 'java.util.List', names: ['List'] },
+      { module: 'dev.relay.locks.LockService', names: ['LockService'] },
+      { module: 'dev.relay.model', names: ['*'] },
+      { module: 'dev.relay.util.Paths', names: ['Paths'] },
+    ]);
+    expect(parsed.exports.map(({ name, kind, lineNumber }) => [name, kind, lineNumber])).toEqual([
+      ['GraphBuilder', 'class', 9],
+      ['Tracked', 'interface', 12],
+    ]);
+  });
+
+  test('maps packages to directories under any source root', () => {
+    const files = new Set([
+      'server/src/main/java/dev/relay/graph/GraphBuilder.java',
+      'server/src/main/java/dev/relay/locks/LockService.java',
+      'server/src/main/java/dev/relay/model/Lock.java',
+      'server/src/main/java/dev/relay/model/Agent.java',
+      'client/src/main/java/dev/relay/locks/LockService.java',
+    ]);
+    const resolver = new JavaImportResolver(files);
+    const importer = 'server/src/main/java/dev/relay/graph/GraphBuilder.java';
+
+    expect(resolver.resolve('dev.relay.locks.LockService', importer)).toBe(
+      'server/src/main/java/dev/relay/locks/LockService.java',
+    );
+    expect(resolver.resolve('dev.relay.model.Lock.State', importer)).toBe('server/src/main/java/dev/relay/model/Lock.java');
+    expect(resolver.resolve('java.util.List', importer)).toBeNull();
+    expect(
+      resolver.resolveAll({ raw: '', module: 'dev.relay.model', lineNumber: 1, typeOnly: false, kind: 'static', names: ['*'] }, importer),
+    ).toEqual(['server/src/main/java/dev/relay/model/Agent.java', 'server/src/main/java/dev/relay/model/Lock.java']);
+  });
+});
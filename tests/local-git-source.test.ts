@@ -0,0 +1,104 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import {
+  LocalGitGraphSource,
+  getLocalRepoOriginUrl,
+  isValidGitBranchName,
+  resolveAllowedLocalGraphPath,
+} from '@/lib/local-git-source';
+
+let repoPath = '';
+let outsidePath = '';
+const git = (...args: string[]) =>
+  execFileSync('git', ['-C', repoPath, '-c', 'user.name=relay', '-c', 'user.email=relay@example.com', ...args], {
+    encoding: 'utf8',
+  }).trim();
+
+beforeAll(() => {
+  repoPath = mkdtempSync(join(tmpdir(), 'relay-local-graph-'));
+  outsidePath = mkdtempSync(join(tmpdir(), 'relay-local-outside-'));
+  writeFileSync(join(outsidePath, 'secret.ts'), 'export const secret = 1;\n');
+  git('init', '-q', '-b', 'main');
+  mkdirSync(join(repoPath, 'lib'));
+  writeFileSync(join(repoPath, 'lib/kv.ts'), 'export const kv = {};\n');
+  writeFileSync(join(repoPath, 'lib/locks.ts'), "import { kv } from './kv';\n");
+  writeFileSync(join(repoPath, '.gitignore'), 'dist/\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'init');
+});
+
+afterAll(() => {
+  rmSync(repoPath, { recursive: true, force: true });
+  rmSync(outsidePath, { recursive: true, force: true });
+});
+
+describe('local git graph source', () => {
+  test('reads the committed tree of a branch', async () => {
+    const source = new LocalGitGraphSource({ type: 'local', path: repoPath, worktree: false }, 'main');
+    const head = await source.getHead();
+    const files = await source.listFiles(head);
+
+    expect(head).toBe(git('rev-parse', 'main'));
+    expect(files.map((file) => file.path)).toEqual(['.gitignore', 'lib/kv.ts', 'lib/locks.ts']);
+    const locks = files.find((file) => file.path === 'lib/locks.ts')!;
+    expect(locks.sha).toBe(git('rev-parse', 'main:lib/locks.ts'));
+    expect(locks.size).toBe(27);
+    await expect(source.readFile(locks.path, locks.sha)).resolves.toBe("import { kv } from './kv';\n");
+    await expect(new LocalGitGraphSource({ type: 'local', path: repoPath, worktree: false }, 'missing').getHead()).rejects.toThrow(
+      'Branch missing not found',
+    );
+  });
+
+  test('includes uncommitted and untracked files in worktree mode', async () => {
+    const source = new LocalGitGraphSource({ type: 'local', path: repoPath, worktree: true }, 'main');
+    const before = await source.getHead();
+
+    writeFileSync(join(repoPath, 'lib/graph.ts'), "import './locks';\n");
+    mkdirSync(join(repoPath, 'dist'), { recursive: true });
+    writeFileSync(join(repoPath, 'dist/out.js'), '');
+    const after = await source.getHead();
+    const files = await source.listFiles(after);
+
+    expect(after).toMatch(/^worktree:[0-9a-f]{40}$/);
+    expect(after).not.toBe(before);
+    expect(files.map((file) => file.path)).toEqual(['.gitignore', 'lib/graph.ts', 'lib/kv.ts', 'lib/locks.ts']);
+    expect(files.find((file) => file.path === 'lib/kv.ts')?.sha).toBe(git('rev-parse', 'main:lib/kv.ts'));
+    await expect(source.readFile('lib/graph.ts', '')).resolves.toBe("import './locks';\n");
+  });
+
+  test('skips symlinks that could point outside the checkout in worktree mode', async () => {
+    symlinkSync(join(outsidePath, 'secret.ts'), join(repoPath, 'lib/secret.ts'));
+    symlinkSync(outsidePath, join(repoPath, 'linked'));
+    const source = new LocalGitGraphSource({ type: 'local', path: repoPath, worktree: true }, 'main');
+
+    const files = await source.listFiles(await source.getHead());
+
+    expect(files.map((file) => file.path)).not.toContain('lib/secret.ts');
+    expect(files.some((file) => file.path.startsWith('linked'))).toBe(false);
+    await expect(source.readFile('lib/secret.ts', '')).resolves.toBeNull();
+    await expect(source.readFile('linked/secret.ts', '')).resolves.toBeNull();
+  });
+
+  test('reads the origin remote that binds a checkout to its repository', async () => {
+    await expect(getLocalRepoOriginUrl(repoPath)).resolves.toBeNull();
+    git('remote', 'add', 'origin', 'git@github.com:Acme/Relay.git');
+    await expect(getLocalRepoOriginUrl(repoPath)).resolves.toBe('https://github.com/acme/relay');
+  });
+
+  test('only accepts real paths under the configured roots and plain branch names', async () => {
+    const root = realpathSync(tmpdir());
+    symlinkSync(outsidePath, join(repoPath, 'escape'));
+
+    await expect(resolveAllowedLocalGraphPath(repoPath, [root])).resolves.toBe(realpathSync(repoPath));
+    await expect(resolveAllowedLocalGraphPath(join(repoPath, '..', '..', 'etc'), [repoPath])).resolves.toBeNull();
+    await expect(resolveAllowedLocalGraphPath(join(repoPath, 'escape'), [repoPath])).resolves.toBeNull();
+    await expect(resolveAllowedLocalGraphPath('repos/relay', [root])).resolves.toBeNull();
+    await expect(resolveAllowedLocalGraphPath(repoPath, [])).resolves.toBeNull();
+    expect(isValidGitBranchName('feature/local-graph')).toBe(true);
+    expect(isValidGitBranchName('--upload-pack=x')).toBe(false);
+    expect(isValidGitBranchName('main..other')).toBe(false);
+  });
+});
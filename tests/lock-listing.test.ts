@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import { parseLockGrouping, parseLockStatusFilter, summarizeActiveLocks } from '@/lib/lock-listing';
+import type { FileLock, LockEntry } from '@/lib/locks';
+
+function holder(filePath: string, userId: string, status: LockEntry['status']): LockEntry {
+  return {
+    file_path: filePath,
+    user_id: userId,
+    user_name: userId,
+    status,
+    agent_head: 'abc',
+    message: `${userId} on ${filePath}`,
+    timestamp: 1,
+    expiry: 2,
+  };
+}
+
+function fileLock(...holders: LockEntry[]): FileLock {
+  return { ...holders[0], holders };
+}
+
+const locks: Record<string, FileLock> = {
+  'app/**': fileLock(holder('app/**', 'ana', 'WRITING')),
+  'app/api/route.ts': fileLock(holder('app/api/route.ts', 'bo', 'READING'), holder('app/api/route.ts', 'cy', 'READING')),
+  'lib/locks.ts': fileLock(holder('lib/locks.ts', 'bo', 'WRITING')),
+};
+
+describe('lock listing', () => {
+  test('filters by path prefix, including pattern locks that overlap it', () => {
+    const listing = summarizeActiveLocks(locks, [], { pathPrefix: 'app/api/' });
+
+    expect(listing.locks.map((entry) => `${entry.file_path}:${entry.user_id}`)).toEqual([
+      'app/**:ana',
+      'app/api/route.ts:bo',
+      'app/api/route.ts:cy',
+    ]);
+    expect(listing.agents).toBeUndefined();
+  });
+
+  test('filters by status and groups holders by agent', () => {
+    const listing = summarizeActiveLocks(locks, [], { status: 'READING', groupBy: 'agent' });
+
+    expect(listing.total).toBe(2);
+    expect(listing.agents?.map((agent) => [agent.user_id, agent.file_paths, agent.reading])).toEqual([
+      ['bo', ['app/api/route.ts'], 1],
+      ['cy', ['app/api/route.ts'], 1],
+    ]);
+  });
+
+  test('attaches the latest non-expiry activity message to each holder', () => {
+    const listing = summarizeActiveLocks(locks, [
+      { id: '1', file_path: 'lib/locks.ts', user_id: 'bo', user_name: 'bo', status: 'WRITING', message: 'adding queue', timestamp: 5 },
+      { id: '2', file_path: 'lib/locks.ts', user_id: 'bo', user_name: 'bo', status: 'OPEN', message: 'expired', timestamp: 9, event: 'lock_expired' },
+    ]);
+
+    expect(listing.locks.find((entry) => entry.file_path === 'lib/locks.ts')?.latest_activity?.message).toBe('adding queue');
+    expect(listing.locks.find((entry) => entry.user_id === 'ana')?.latest_activity).toBeNull();
+  });
+
+  test('parses status and grouping filters', () => {
+    expect(parseLockStatusFilter('writing')).toBe('WRITING');
+    expect(parseLockStatusFilter(null)).toBeNull();
+    expect(parseLockStatusFilter('EDITING')).toBeUndefined();
+    expect(parseLockGrouping(undefined)).toBe('file');
+    expect(parseLockGrouping('team')).toBeUndefined();
+  });
+});
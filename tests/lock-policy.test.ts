@@ -0,0 +1,200 @@
+import { describe, expect, test, vi } from 'vitest';
+
+const { store } = vi.hoisted(() => ({ store: new Map<string, unknown>() }));
+
+vi.mock('@/lib/kv', () => ({
+  kv: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    // The legacy-key adoption script: RENAMENX each existing [legacyKey, key] pair.
+    eval: vi.fn(async (_script: string, keys: string[]) => {
+      for (let index = 0; index < keys.length; index += 2) {
+        if (store.has(keys[index]) && !store.has(keys[index + 1])) {
+          store.set(keys[index + 1], store.get(keys[index]));
+          store.delete(keys[index]);
+        }
+      }
+      return 1;
+    }),
+  },
+}));
+
+import {
+  DEFAULT_LOCK_POLICY,
+  describeNeighborConflict,
+  findNeighborWriteConflicts,
+  getLockPolicy,
+  setLockPolicy,
+} from '@/lib/lock-policy';
+import type { DependencyGraph } from '@/lib/graph-service';
+import type { FileLock, LockEntry } from '@/lib/locks';
+
+// routes.ts -> locks.ts -> kv.ts, ui.ts -> locks.ts
+const graph: DependencyGraph = {
+  nodes: ['routes.ts', 'locks.ts', 'kv.ts', 'ui.ts'].map((id) => ({ id, type: 'file' })),
+  edges: [
+    { source: 'routes.ts', target: 'locks.ts', type: 'runtime' },
+    { source: 'locks.ts', target: 'kv.ts', type: 'runtime' },
+    { source: 'ui.ts', target: 'locks.ts', type: 'runtime' },
+  ],
+  locks: {},
+  version: 'v1',
+  metadata: { generated_at: 1, files_processed: 4, edges_found: 3 },
+};
+
+// panel.tsx exports GraphPanel and usePanel; index.ts re-exports GraphPanel, which app.ts imports.
+const symbolGraph: DependencyGraph = {
+  nodes: ['panel.tsx', 'page.tsx', 'hook.ts', 'index.ts', 'app.ts'].map((id) => ({ id, type: 'file' })),
+  edges: [
+    { source: 'app.ts', target: 'index.ts', type: 'runtime' },
+    { source: 'hook.ts', target: 'panel.tsx', type: 'runtime' },
+    { source: 'index.ts', target: 'panel.tsx', type: 're-export' },
+    { source: 'page.tsx', target: 'panel.tsx', type: 'runtime' },
+  ],
+  symbols: [
+    { id: 'index.ts#GraphPanel', type: 'symbol', file: 'index.ts', name: 'GraphPanel', kind: 're-export', line: 1, reexport_of: 'panel.tsx#GraphPanel' },
+    { id: 'panel.tsx#GraphPanel', type: 'symbol', file: 'panel.tsx', name: 'GraphPanel', kind: 'function', line: 3 },
+    { id: 'panel.tsx#usePanel', type: 'symbol', file: 'panel.tsx', name: 'usePanel', kind: 'function', line: 9 },
+  ],
+  symbol_edges: [
+    { source: 'app.ts', target: 'index.ts#GraphPanel', type: 'runtime' },
+    { source: 'hook.ts', target: 'panel.tsx#usePanel', type: 'runtime' },
+    { source: 'index.ts', target: 'panel.tsx#GraphPanel', type: 're-export' },
+    { source: 'page.tsx', target: 'panel.tsx#GraphPanel', type: 'runtime' },
+  ],
+  locks: {},
+  version: 'v1',
+  metadata: { generated_at: 1, files_processed: 5, edges_found: 4 },
+};
+
+function lockOn(scope: string, userId: string, status: LockEntry['status']): FileLock {
+  const entry: LockEntry = {
+    file_path: scope,
+    user_id: userId,
+    user_name: userId,
+    status,
+    agent_head: 'abc',
+    message: 'work',
+    timestamp: 1,
+    expiry: Date.now() + 60_000,
+  };
+  return { ...entry, holders: [entry] };
+}
+
+describe('lock policy', () => {
+  test('reports a 1-hop neighbour another agent is writing, with the edge', () => {
+    const conflicts = findNeighborWriteConflicts(graph, { 'routes.ts': lockOn('routes.ts', 'ana', 'WRITING') }, ['locks.ts'], 'bo', 1);
+
+    expect(conflicts).toEqual([
+      {
+        file_path: 'locks.ts',
+        neighbor: 'routes.ts',
+        user_id: 'ana',
+        user_name: 'ana',
+        distance: 1,
+        edge: { source: 'routes.ts', target: 'locks.ts', type: 'runtime' },
+        path: ['locks.ts', 'routes.ts'],
+      },
+    ]);
+    expect(describeNeighborConflict(conflicts[0])).toBe(
+      'routes.ts is being written by ana (routes.ts imports locks.ts; 1 hop from locks.ts)',
+    );
+  });
+
+  test('ignores readers, the caller and neighbours beyond the configured depth', () => {
+    const locks = {
+      'routes.ts': lockOn('routes.ts', 'ana', 'WRITING'),
+      'ui.ts': lockOn('ui.ts', 'bo', 'WRITING'),
+      'locks.ts': lockOn('locks.ts', 'cy', 'READING'),
+    };
+
+    expect(findNeighborWriteConflicts(graph, locks, ['kv.ts'], 'bo', 1)).toEqual([]);
+    expect(findNeighborWriteConflicts(graph, locks, ['kv.ts'], 'bo', 2).map((conflict) => conflict.path)).toEqual([
+      ['kv.ts', 'locks.ts', 'routes.ts'],
+    ]);
+  });
+
+  test('skips type-only edges when the policy ignores them', () => {
+    const typed: DependencyGraph = {
+      ...graph,
+      edges: graph.edges.map((edge) => (edge.source === 'ui.ts' ? { ...edge, type: 'type-only' } : edge)),
+    };
+    const locks = { 'ui.ts': lockOn('ui.ts', 'ana', 'WRITING') };
+
+    expect(findNeighborWriteConflicts(typed, locks, ['locks.ts'], 'bo', 1)).toHaveLength(1);
+    expect(findNeighborWriteConflicts(typed, locks, ['locks.ts'], 'bo', 1, { ignore_type_only_edges: true })).toEqual([]);
+  });
+
+  test('expands requested patterns and matches pattern locks on neighbours', () => {
+    const conflicts = findNeighborWriteConflicts(graph, { 'k*.ts': lockOn('k*.ts', 'ana', 'WRITING') }, ['lo*.ts'], 'bo', 1);
+
+    expect(conflicts.map((conflict) => [conflict.file_path, conflict.neighbor, conflict.covered_by])).toEqual([
+      ['locks.ts', 'kv.ts', 'k*.ts'],
+    ]);
+  });
+
+  test('couples a symbol lock only with the files using that symbol', () => {
+    const hookWriter = { 'hook.ts': lockOn('hook.ts', 'ana', 'WRITING') };
+    const conflicts = findNeighborWriteConflicts(symbolGraph, hookWriter, ['panel.tsx#usePanel'], 'bo', 1);
+
+    expect(conflicts.map((conflict) => [conflict.file_path, conflict.neighbor])).toEqual([['panel.tsx#usePanel', 'hook.ts']]);
+    expect(describeNeighborConflict(conflicts[0])).toBe(
+      'hook.ts is being written by ana (hook.ts uses panel.tsx#usePanel; 1 hop from panel.tsx#usePanel)',
+    );
+    expect(findNeighborWriteConflicts(symbolGraph, hookWriter, ['panel.tsx#GraphPanel'], 'bo', 1)).toEqual([]);
+    expect(
+      findNeighborWriteConflicts(symbolGraph, { 'panel.tsx#usePanel': lockOn('panel.tsx#usePanel', 'ana', 'WRITING') }, ['panel.tsx#GraphPanel'], 'bo', 3),
+    ).toEqual([]);
+  });
+
+  test('follows re-exports and matches symbol locks held in used files', () => {
+    const appWriter = { 'app.ts': lockOn('app.ts', 'ana', 'WRITING') };
+    expect(
+      findNeighborWriteConflicts(symbolGraph, appWriter, ['panel.tsx#GraphPanel'], 'bo', 1).map((conflict) => conflict.neighbor),
+    ).toEqual(['app.ts']);
+
+    const symbolWriter = (scope: string) => ({ [scope]: lockOn(scope, 'ana', 'WRITING') });
+    expect(findNeighborWriteConflicts(symbolGraph, symbolWriter('panel.tsx#usePanel'), ['page.tsx'], 'bo', 1)).toEqual([]);
+    expect(
+      findNeighborWriteConflicts(symbolGraph, symbolWriter('panel.tsx#GraphPanel'), ['page.tsx'], 'bo', 1).map(
+        (conflict) => conflict.neighbor,
+      ),
+    ).toEqual(['panel.tsx#GraphPanel']);
+    // An importer may use what it imports anywhere in its body, so its symbol locks count.
+    expect(
+      findNeighborWriteConflicts(symbolGraph, symbolWriter('page.tsx#Page'), ['panel.tsx'], 'bo', 1).map(
+        (conflict) => [conflict.neighbor, conflict.covered_by],
+      ),
+    ).toEqual([['page.tsx', 'page.tsx#Page']]);
+  });
+
+  test('stores a per-repo policy and falls back to the default', async () => {
+    expect(await getLockPolicy('https://github.com/a/b')).toEqual(DEFAULT_LOCK_POLICY);
+
+    await setLockPolicy(
+      'https://github.com/a/b',
+      { neighbor_mode: 'block', neighbor_depth: 2, ignore_type_only_edges: false },
+      'owner',
+    );
+
+    expect(await getLockPolicy('https://github.com/A/B.git')).toEqual(
+      expect.objectContaining({ neighbor_mode: 'block', neighbor_depth: 2, updated_by: 'owner' }),
+    );
+    expect(store.has('lock_policy:github:https://github.com/a/b')).toBe(true);
+  });
+
+  test('keeps a policy saved before provider-scoped keys', async () => {
+    store.set(
+      'lock_policy:https://github.com/legacy/repo',
+      JSON.stringify({ neighbor_mode: 'off', neighbor_depth: 1, ignore_type_only_edges: true }),
+    );
+
+    expect(await getLockPolicy('https://github.com/legacy/repo')).toEqual(
+      expect.objectContaining({ neighbor_mode: 'off', ignore_type_only_edges: true }),
+    );
+    expect(store.has('lock_policy:https://github.com/legacy/repo')).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'vitest';
+import {
+  isPatternScope,
+  lockScopeCovers,
+  lockScopesOverlap,
+  normalizeLockScope,
+  parseSymbolScope,
+} from '@/lib/lock-scope';
+
+describe('lock scopes', () => {
+  test('normalizes directory prefixes to recursive globs', () => {
+    expect(normalizeLockScope('app/components/')).toBe('app/components/**');
+    expect(normalizeLockScope('./src/a.ts')).toBe('src/a.ts');
+    expect(isPatternScope('app/components/**')).toBe(true);
+    expect(isPatternScope('src/a.ts')).toBe(false);
+  });
+
+  test('matches single-segment and recursive wildcards', () => {
+    expect(lockScopeCovers('app/api/**', 'app/api/graph/route.ts')).toBe(true);
+    expect(lockScopeCovers('app/api/**', 'app/page.tsx')).toBe(false);
+    expect(lockScopeCovers('app/*.tsx', 'app/page.tsx')).toBe(true);
+    expect(lockScopeCovers('app/*.tsx', 'app/components/FileNode.tsx')).toBe(false);
+    expect(lockScopeCovers('lib/**/*.ts', 'lib/locks.ts')).toBe(true);
+    expect(lockScopeCovers('lib/**/*.ts', 'lib/nested/deep/x.ts')).toBe(true);
+    expect(lockScopeCovers('src/?.ts', 'src/a.ts')).toBe(true);
+    expect(lockScopeCovers('src/a.ts', 'src/a.ts')).toBe(true);
+  });
+
+  test('detects overlap between files and patterns in both directions', () => {
+    expect(lockScopesOverlap('app/api/x.ts', 'app/api/**')).toBe(true);
+    expect(lockScopesOverlap('app/api/**', 'app/api/x.ts')).toBe(true);
+    expect(lockScopesOverlap('app/api/**', 'app/api/graph/**')).toBe(true);
+    expect(lockScopesOverlap('app/api/**', 'lib/**')).toBe(false);
+    expect(lockScopesOverlap('src/a.ts', 'src/b.ts')).toBe(false);
+  });
+
+  test('treats symbol scopes as parts of their file', () => {
+    expect(parseSymbolScope('app/components/GraphPanel.tsx#GraphPanel')).toEqual({
+      filePath: 'app/components/GraphPanel.tsx',
+      symbol: 'GraphPanel',
+    });
+    expect(parseSymbolScope('lib/x.ts#*')).toBeNull();
+    expect(parseSymbolScope('lib/*.ts#foo')).toBeNull();
+
+    expect(lockScopesOverlap('lib/x.ts#foo', 'lib/x.ts#bar')).toBe(false);
+    expect(lockScopesOverlap('lib/x.ts#foo', 'lib/x.ts')).toBe(true);
+    expect(lockScopesOverlap('lib/**', 'lib/x.ts#foo')).toBe(true);
+    expect(lockScopesOverlap('lib/*.tsx', 'lib/x.ts#foo')).toBe(false);
+    expect(lockScopeCovers('lib/x.ts', 'lib/x.ts#foo')).toBe(true);
+    expect(lockScopeCovers('lib/x.ts#foo', 'lib/x.ts')).toBe(false);
+  });
+});
@@ -17,9 +17,26 @@ vi.mock('@/lib/kv', () => {
   };
 });
 
+vi.mock('@/lib/repo-providers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/repo-providers')>()),
+  adoptLegacyRepoKeys: vi.fn(async () => undefined),
+}));
+
 import { kv } from '@/lib/kv';
-import { acquireLocks, checkLocks, getLocks, releaseLocks } from '@/lib/locks';
+import {
+  acquireLocks,
+  checkLocks,
+  clampLockTtl,
+  cleanupExpiredLocks,
+  getLockQueue,
+  getLocks,
+  releaseLocks,
+  renewLocks,
+  updateLocks,
+} from '@/lib/locks';
+import { adoptLegacyRepoKeys } from '@/lib/repo-providers';
 
+const mockedAdoptLegacyRepoKeys = vi.mocked(adoptLegacyRepoKeys);
 const mockedKv = kv as unknown as {
   eval: ReturnType<typeof vi.fn>;
   hgetall: ReturnType<typeof vi.fn>;
@@ -107,6 +124,153 @@ describe('locks', () => {
     expect(result.conflictingUser).toBe('user1');
   });
 
+  test('hands neighbour guards to the lock script and reports a neighbour writer it finds', async () => {
+    mockedKv.eval.mockResolvedValue({
+      success: false,
+      reason: 'NEIGHBOR_CONFLICT',
+      conflicting_file: 'src/b.ts',
+      conflicting_scope: 'src/**',
+      conflicting_user: 'user1',
+      conflicting_status: 'WRITING',
+    });
+
+    const result = await acquireLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      filePaths: ['src/a.ts'],
+      userId: 'user2',
+      userName: 'User 2',
+      status: 'WRITING',
+      message: 'Editing a',
+      agentHead: 'abc123',
+      neighborGuards: [
+        { neighbor: 'src/b.ts', includeSymbols: false },
+        { neighbor: 'src/b.ts', includeSymbols: true },
+        { neighbor: 'src/c.ts', includeSymbols: false },
+      ],
+    });
+
+    const args = mockedKv.eval.mock.calls[0]?.[2] as string[];
+    expect(JSON.parse(args[11])).toEqual([
+      { scope: 'src/b.ts', include_symbols: true },
+      { scope: 'src/c.ts', include_symbols: false },
+    ]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        success: false,
+        reason: 'NEIGHBOR_CONFLICT',
+        conflictingFile: 'src/b.ts',
+        conflictingScope: 'src/**',
+        conflictingUser: 'user1',
+      }),
+    );
+  });
+
+  test('stores directory locks as recursive patterns and reports the covering scope', async () => {
+    mockedKv.eval.mockResolvedValue({
+      success: false,
+      reason: 'FILE_CONFLICT',
+      conflicting_file: 'app/components/**',
+      conflicting_scope: 'app/components/FileNode.tsx',
+      conflicting_user: 'user1',
+      conflicting_status: 'WRITING',
+    });
+
+    const result = await acquireLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      filePaths: ['app/components/'],
+      userId: 'user2',
+      userName: 'User 2',
+      status: 'WRITING',
+      message: 'Restructuring components',
+      agentHead: 'abc123',
+    });
+
+    const args = mockedKv.eval.mock.calls[0]?.[2] as string[];
+    expect(JSON.parse(args[0])).toEqual(['app/components/**']);
+    expect(result.conflictingScope).toBe('app/components/FileNode.tsx');
+  });
+
+  test('checkLocks falls back to a pattern lock covering the requested file', async () => {
+    const now = Date.now();
+    mockedKv.hgetall.mockResolvedValue({
+      'app/api/**': {
+        file_path: 'app/api/**',
+        user_id: 'user1',
+        user_name: 'User 1',
+        status: 'WRITING',
+        agent_head: 'abc123',
+        message: 'Moving routes',
+        timestamp: now,
+        expiry: now + 60_000,
+      },
+    });
+
+    const subset = await checkLocks('https://github.com/test/repo', 'main', ['app/api/graph/route.ts', 'lib/locks.ts']);
+
+    expect(subset['app/api/graph/route.ts']?.file_path).toBe('app/api/**');
+    expect(subset['lib/locks.ts']).toBeUndefined();
+  });
+
+  test('returns queue positions when a waiting caller is enqueued', async () => {
+    mockedKv.eval.mockResolvedValue({
+      success: false,
+      reason: 'FILE_CONFLICT',
+      conflicting_file: 'src/test.ts',
+      conflicting_user: 'user1',
+      conflicting_status: 'WRITING',
+      queued: true,
+      queue_positions: { 'src/test.ts': 2 },
+    });
+
+    const result = await acquireLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      filePaths: ['src/test.ts'],
+      userId: 'user2',
+      userName: 'User 2',
+      status: 'WRITING',
+      message: 'Waiting for lock',
+      agentHead: 'abc123',
+      wait: true,
+    });
+
+    const [, keys, args] = mockedKv.eval.mock.calls[0] as [string, string[], string[]];
+    expect(keys).toEqual(['locks:github:https://github.com/test/repo:main', 'lockwait:github:https://github.com/test/repo:main']);
+    expect(args[8]).toBe('1');
+    expect(result.queued).toBe(true);
+    expect(result.queuePositions).toEqual({ 'src/test.ts': 2 });
+  });
+
+  test('orders waiters per file by enqueue time and skips lapsed tickets', async () => {
+    const now = Date.now();
+    const ticket = (userId: string, filePaths: string[], enqueuedAt: number, waitExpiry = now + 60_000) => ({
+      user_id: userId,
+      user_name: userId,
+      status: 'WRITING',
+      message: 'waiting',
+      agent_head: 'abc123',
+      ttl_ms: 300_000,
+      file_paths: filePaths,
+      enqueued_at: enqueuedAt,
+      wait_expiry: waitExpiry,
+    });
+    mockedKv.hgetall.mockResolvedValue({
+      late: ticket('late', ['src/a.ts'], now - 1_000),
+      early: ticket('early', ['src/**'], now - 5_000),
+      gone: ticket('gone', ['src/a.ts'], now - 9_000, now - 1),
+    });
+
+    const queue = await getLockQueue('https://github.com/test/repo', 'main', ['src/a.ts', 'lib/b.ts']);
+
+    expect(queue['src/a.ts'].map((waiter) => [waiter.user_id, waiter.position])).toEqual([
+      ['early', 1],
+      ['late', 2],
+    ]);
+    expect(queue['lib/b.ts']).toBeUndefined();
+  });
+
   test('releases locks with eval call', async () => {
     mockedKv.eval.mockResolvedValue(1);
 
@@ -116,6 +280,33 @@ describe('locks', () => {
     expect(mockedKv.eval).toHaveBeenCalledTimes(1);
   });
 
+  test('moves legacy unscoped lock and wait keys before reading them', async () => {
+    mockedKv.hgetall.mockResolvedValue(null);
+
+    await getLocks('https://github.com/Test/Repo', 'main');
+
+    expect(mockedAdoptLegacyRepoKeys).toHaveBeenCalledWith([
+      ['locks:https://github.com/test/repo:main', 'locks:github:https://github.com/test/repo:main'],
+      ['lockwait:https://github.com/test/repo:main', 'lockwait:github:https://github.com/test/repo:main'],
+    ]);
+    expect(mockedKv.hgetall).toHaveBeenCalledWith('locks:github:https://github.com/test/repo:main');
+  });
+
+  test('sweeps a legacy lock key once, on its provider-scoped key', async () => {
+    mockedKv.keys.mockResolvedValue([
+      'locks:https://github.com/test/repo:main',
+      'locks:github:https://github.com/test/repo:main',
+    ]);
+    mockedKv.eval.mockResolvedValue({ lapsed: [], granted: [] });
+
+    expect(await cleanupExpiredLocks()).toBe(0);
+    expect(mockedKv.eval).toHaveBeenCalledTimes(1);
+    expect(mockedKv.eval.mock.calls[0][1]).toEqual([
+      'locks:github:https://github.com/test/repo:main',
+      'lockwait:github:https://github.com/test/repo:main',
+    ]);
+  });
+
   test('filters expired locks when reading lock map', async () => {
     const now = Date.now();
     mockedKv.hgetall.mockResolvedValue({
@@ -147,4 +338,154 @@ describe('locks', () => {
     const subset = await checkLocks('https://github.com/test/repo', 'main', ['src/live.ts', 'src/missing.ts']);
     expect(Object.keys(subset)).toEqual(['src/live.ts']);
   });
+
+  test('groups shared READING holders under one file lock with the writer first', async () => {
+    const now = Date.now();
+    const reader = {
+      file_path: 'src/shared.ts',
+      user_id: 'reader',
+      user_name: 'Reader',
+      status: 'READING',
+      agent_head: 'a',
+      message: 'Reading',
+      timestamp: now - 10,
+      expiry: now + 5000,
+    };
+    mockedKv.hgetall.mockResolvedValue({
+      'src/shared.ts': JSON.stringify({
+        file_path: 'src/shared.ts',
+        holders: {
+          reader,
+          writer: { ...reader, user_id: 'writer', user_name: 'Writer', status: 'WRITING', timestamp: now - 20 },
+          lapsed: { ...reader, user_id: 'lapsed', user_name: 'Lapsed', expiry: now - 1 },
+        },
+      }),
+    });
+
+    const allLocks = await getLocks('https://github.com/test/repo', 'main');
+    const lock = allLocks['src/shared.ts'];
+
+    expect(lock.user_id).toBe('writer');
+    expect(lock.status).toBe('WRITING');
+    expect(lock.holders.map((holder) => holder.user_id)).toEqual(['writer', 'reader']);
+  });
+
+  test('reads legacy single-holder entries as a one-holder lock', async () => {
+    const now = Date.now();
+    mockedKv.hgetall.mockResolvedValue({
+      'src/legacy.ts': {
+        file_path: 'src/legacy.ts',
+        user_id: 'user1',
+        user_name: 'User 1',
+        status: 'WRITING',
+        agent_head: 'a',
+        message: 'Legacy lock',
+        timestamp: now,
+        expiry: now + 5000,
+      },
+    });
+
+    const allLocks = await getLocks('https://github.com/test/repo', 'main');
+
+    expect(allLocks['src/legacy.ts'].holders).toHaveLength(1);
+    expect(allLocks['src/legacy.ts'].holders[0].user_id).toBe('user1');
+  });
+
+  test('surfaces the status of the conflicting holder', async () => {
+    mockedKv.eval.mockResolvedValue({
+      success: false,
+      reason: 'FILE_CONFLICT',
+      conflicting_file: 'src/test.ts',
+      conflicting_user: 'reader',
+      conflicting_status: 'READING',
+    });
+
+    const result = await acquireLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      filePaths: ['src/test.ts'],
+      userId: 'writer',
+      userName: 'Writer',
+      status: 'WRITING',
+      message: 'Upgrading',
+      agentHead: 'abc123',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.conflictingStatus).toBe('READING');
+  });
+
+  test('clamps requested lock TTLs to the server bounds', () => {
+    expect(clampLockTtl(undefined)).toBe(300_000);
+    expect(clampLockTtl(1_000)).toBe(30_000);
+    expect(clampLockTtl(10 * 60 * 60 * 1000)).toBe(1_800_000);
+  });
+
+  test('renews only the locks the script reports as held', async () => {
+    const now = Date.now();
+    mockedKv.eval.mockResolvedValue({
+      renewed: [
+        {
+          file_path: 'src/held.ts',
+          user_id: 'user1',
+          user_name: 'User 1',
+          status: 'WRITING',
+          agent_head: 'abc123',
+          message: 'Editing file',
+          timestamp: now,
+          expiry: now + 600_000,
+        },
+      ],
+      missing: ['src/lost.ts'],
+    });
+
+    const result = await renewLocks('https://github.com/test/repo', 'main', ['src/held.ts', 'src/lost.ts'], 'user1', 600_000);
+
+    expect(result.success).toBe(true);
+    expect(result.renewed.map((lock) => lock.file_path)).toEqual(['src/held.ts']);
+    expect(result.missing).toEqual(['src/lost.ts']);
+  });
+
+  test('sends lock transitions to one script with normalized scopes', async () => {
+    mockedKv.eval.mockResolvedValue({ success: true, locks: {}, released: ['src/b.ts'], granted: {} });
+
+    const result = await updateLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      transitions: [
+        { filePath: 'src/b.ts', status: 'OPEN' },
+        { filePath: 'app/components/', status: 'READING' },
+      ],
+      userId: 'user1',
+      userName: 'User 1',
+      message: 'Reviewing components',
+      agentHead: 'abc123',
+    });
+
+    expect(mockedKv.eval).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockedKv.eval.mock.calls[0][2][0])).toEqual([
+      { file_path: 'src/b.ts', status: 'OPEN' },
+      { file_path: 'app/components/**', status: 'READING' },
+    ]);
+    expect(result).toEqual({ success: true, locks: [], released: ['src/b.ts'] });
+  });
+
+  test('rejects a batch that names the same scope twice without touching KV', async () => {
+    const result = await updateLocks({
+      repoUrl: 'https://github.com/test/repo',
+      branch: 'main',
+      transitions: [
+        { filePath: 'src/', status: 'WRITING' },
+        { filePath: 'src/**', status: 'OPEN' },
+      ],
+      userId: 'user1',
+      userName: 'User 1',
+      message: 'Oops',
+      agentHead: 'abc123',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('DUPLICATE_SCOPE');
+    expect(mockedKv.eval).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'vitest';
+import { parsePromptFilePaths, renderCoordinationPrompt } from '@/lib/mcp-prompts';
+
+const checkStatus = {
+  status: 'OK',
+  repo_head: 'abc123',
+  locks: {
+    'src/a.ts': {
+      file_path: 'src/a.ts',
+      user_id: 'luka',
+      user_name: 'luka',
+      status: 'WRITING',
+      message: 'Editing a',
+      lock_type: 'DIRECT',
+      holders: [
+        { user_id: 'luka', user_name: 'luka', status: 'WRITING', message: 'Editing a' },
+      ],
+    },
+    'src/util.ts': {
+      file_path: 'src/util.ts',
+      user_id: 'ana',
+      user_name: 'ana',
+      status: 'READING',
+      message: 'Reading util',
+      lock_type: 'NEIGHBOR',
+    },
+  },
+  queue: { 'src/a.ts': [{ user_id: 'ana', user_name: 'ana' }] },
+  warnings: [],
+  orchestration: { type: 'orchestration_command', action: 'PROCEED', command: null, reason: '' },
+};
+
+function render(name: 'start-task' | 'finish-task' | 'resolve-conflict') {
+  return renderCoordinationPrompt(name, {
+    agentName: 'luka',
+    repoUrl: 'https://github.com/lukauljaj/devfest',
+    branch: 'main',
+    filePaths: ['src/a.ts'],
+    checkStatus,
+  }).messages[0].content.text;
+}
+
+describe('mcp prompts', () => {
+  test('parses comma- and newline-separated file paths', () => {
+    expect(parsePromptFilePaths('src/a.ts, src/b.ts\nsrc/lib/')).toEqual(['src/a.ts', 'src/b.ts', 'src/lib/']);
+    expect(parsePromptFilePaths(['src/a.ts', ' ', 3])).toEqual(['src/a.ts']);
+    expect(parsePromptFilePaths(undefined)).toEqual([]);
+  });
+
+  test('start-task shows other agents on neighbours but not the caller', () => {
+    const text = render('start-task');
+
+    expect(text).toContain('- src/util.ts [dependency neighbour]: ana (READING) - "Reading util"');
+    expect(text).not.toContain('luka (WRITING)');
+    expect(text).toContain('Relay orchestration: PROCEED');
+  });
+
+  test('finish-task lists only the locks the caller holds', () => {
+    const text = render('finish-task');
+
+    expect(text).toContain('## Locks you hold\n- src/a.ts\n');
+    expect(text).toContain('new_repo_head');
+  });
+
+  test('resolve-conflict ignores neighbour locks and shows the wait queue', () => {
+    const text = render('resolve-conflict');
+
+    expect(text).toContain('No conflict right now');
+    expect(text).toContain('- src/a.ts: ana');
+  });
+});
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+const { hset, getCachedGraph, getCachedVersion } = vi.hoisted(() => ({
+  hset: vi.fn(async () => 1),
+  getCachedGraph: vi.fn(async () => null as unknown),
+  getCachedVersion: vi.fn(async () => null as string | null),
+}));
+
+vi.mock('@/lib/kv', () => ({ kv: { hset } }));
+
+vi.mock('@/lib/locks', () => ({
+  expireLapsedLocks: vi.fn(async () => []),
+  getLocks: vi.fn(async () => ({})),
+}));
+
+vi.mock('@/lib/activity', () => ({
+  getRecentActivityEvents: vi.fn(async () => []),
+}));
+
+vi.mock('@/lib/graph-service', () => ({
+  GraphService: class {
+    getCached = getCachedGraph;
+    getCachedVersion = getCachedVersion;
+  },
+}));
+
+import { getRecentActivityEvents } from '@/lib/activity';
+import {
+  ResourceReads,
+  formatRelayResourceUri,
+  getResourceFingerprint,
+  parseRelayResourceUri,
+  readRelayResource,
+} from '@/lib/mcp-resources';
+import { recordMcpFingerprints } from '@/lib/mcp-sessions';
+import { expireLapsedLocks, getLocks, type FileLock } from '@/lib/locks';
+
+const mockedExpireLapsedLocks = vi.mocked(expireLapsedLocks);
+const mockedGetLocks = vi.mocked(getLocks);
+const mockedGetRecentActivityEvents = vi.mocked(getRecentActivityEvents);
+
+const GRAPH = {
+  nodes: [{ id: 'src/a.ts', type: 'file' }, { id: 'src/b.ts', type: 'file' }, { id: 'src/c.ts', type: 'file' }],
+  edges: [
+    { source: 'src/a.ts', target: 'src/b.ts', type: 'runtime' },
+    { source: 'src/b.ts', target: 'src/c.ts', type: 'runtime' },
+  ],
+  locks: {},
+  version: 'v1',
+  metadata: { generated_at: 1, files_processed: 3, edges_found: 2 },
+};
+
+function lock(filePath: string, userId: string, status: 'READING' | 'WRITING' = 'WRITING', expiry = 1000): FileLock {
+  const entry = {
+    file_path: filePath,
+    user_id: userId,
+    user_name: userId,
+    status,
+    agent_head: 'head',
+    message: '',
+    timestamp: 1,
+    expiry,
+  };
+  return { ...entry, holders: [entry] };
+}
+
+describe('mcp resources', () => {
+  beforeEach(() => {
+    hset.mockClear();
+    mockedExpireLapsedLocks.mockClear();
+    mockedGetLocks.mockReset();
+    getCachedGraph.mockReset();
+    getCachedGraph.mockResolvedValue(null);
+    getCachedVersion.mockReset();
+    getCachedVersion.mockResolvedValue(null);
+  });
+
+  test('parses and formats relay resource URIs', () => {
+    const ref = parseRelayResourceUri('relay://Acme/Relay/feature/login/locks?paths=src/a.ts,app/components/');
+
+    expect(ref).toEqual({
+      repoUrl: 'https://github.com/acme/relay',
+      branch: 'feature/login',
+      kind: 'locks',
+      paths: ['src/a.ts', 'app/components/**'],
+    });
+    expect(formatRelayResourceUri(ref!)).toBe(
+      'relay://acme/relay/feature/login/locks?paths=src%2Fa.ts,app%2Fcomponents%2F**',
+    );
+    expect(parseRelayResourceUri(formatRelayResourceUri(ref!))).toEqual(ref);
+    expect(parseRelayResourceUri('relay://acme/relay/main/unknown')).toBeNull();
+    expect(parseRelayResourceUri('https://github.com/acme/relay')).toBeNull();
+  });
+
+  test('puts the host and project path in URIs of non-GitHub repos', () => {
+    const ref = { repoUrl: 'https://gitlab.com/acme/platform/relay', branch: 'main', kind: 'graph' as const };
+    const uri = formatRelayResourceUri(ref);
+
+    expect(uri).toBe('relay://gitlab.com/acme%2Fplatform%2Frelay/main/graph');
+    expect(parseRelayResourceUri(uri)).toEqual({ ...ref, paths: [] });
+  });
+
+  test('fingerprints only other agents on watched files and their graph neighbours', async () => {
+    const ref = parseRelayResourceUri('relay://acme/relay/main/locks?paths=src/a.ts')!;
+    getCachedGraph.mockResolvedValue({ edges: [{ source: 'src/a.ts', target: 'src/b.ts', type: 'runtime' }] });
+
+    mockedGetLocks.mockResolvedValue({ 'src/a.ts': lock('src/a.ts', 'me'), 'src/z.ts': lock('src/z.ts', 'other') });
+    const quiet = await getResourceFingerprint(ref, 'me');
+
+    mockedGetLocks.mockResolvedValue({ 'src/a.ts': lock('src/a.ts', 'me', 'WRITING', 9999) });
+    expect(await getResourceFingerprint(ref, 'me')).toBe(quiet);
+
+    mockedGetLocks.mockResolvedValue({ 'src/b.ts': lock('src/b.ts', 'other') });
+    expect(await getResourceFingerprint(ref, 'me')).not.toBe(quiet);
+  });
+
+  test('shares one sweep, lock read and graph read across subscriptions in a poll cycle', async () => {
+    getCachedGraph.mockResolvedValue(GRAPH);
+    getCachedVersion.mockResolvedValue('v1');
+    mockedGetLocks.mockResolvedValue({ 'src/b.ts': lock('src/b.ts', 'other') });
+    const reads = new ResourceReads();
+
+    const uris = [
+      'relay://acme/relay/main/locks?paths=src/a.ts',
+      'relay://acme/relay/main/locks?paths=src/c.ts',
+      'relay://acme/relay/main/locks',
+      'relay://acme/relay/main/graph',
+    ];
+    const fingerprints = await Promise.all(
+      uris.map((uri) => getResourceFingerprint(parseRelayResourceUri(uri)!, 'me', reads)),
+    );
+
+    expect(new Set(fingerprints).size).toBe(2);
+    expect(mockedExpireLapsedLocks).toHaveBeenCalledTimes(1);
+    expect(mockedGetLocks).toHaveBeenCalledTimes(1);
+    expect(getCachedGraph).toHaveBeenCalledTimes(1);
+    expect(getCachedVersion).toHaveBeenCalledTimes(1);
+  });
+
+  test('reads the graph around watched paths without regenerating it', async () => {
+    const uri = 'relay://acme/relay/main/graph?paths=src/a.ts';
+
+    const missing = JSON.parse((await readRelayResource(uri, parseRelayResourceUri(uri)!)).text);
+    expect(missing.available).toBe(false);
+
+    getCachedGraph.mockResolvedValue(GRAPH);
+    const contents = await readRelayResource(uri, parseRelayResourceUri(uri)!);
+    const body = JSON.parse(contents.text);
+
+    expect(contents.mimeType).toBe('application/json');
+    expect(body.nodes.map((node: { id: string }) => node.id)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(body.edges).toEqual([GRAPH.edges[0]]);
+  });
+
+  test('reads activity for watched files and their neighbours', async () => {
+    getCachedGraph.mockResolvedValue(GRAPH);
+    mockedGetRecentActivityEvents.mockResolvedValue(
+      ['src/a.ts', 'src/b.ts', 'src/c.ts'].map((filePath, index) => ({
+        id: `event-${index}`,
+        file_path: filePath,
+        user_id: 'other',
+        user_name: 'other',
+        status: 'WRITING' as const,
+        message: '',
+        timestamp: index,
+      })),
+    );
+    const uri = 'relay://acme/relay/main/activity?paths=src/a.ts';
+
+    const body = JSON.parse((await readRelayResource(uri, parseRelayResourceUri(uri)!)).text);
+
+    expect(mockedGetRecentActivityEvents).toHaveBeenCalledWith('https://github.com/acme/relay', 'main', 50);
+    expect(body.activity_events.map((event: { file_path: string }) => event.file_path)).toEqual([
+      'src/a.ts',
+      'src/b.ts',
+    ]);
+  });
+
+  test('records a baseline first and reports later changes', async () => {
+    const changed = await recordMcpFingerprints(
+      'session-1',
+      { 'relay://a/b/main/locks': '', 'relay://a/b/dev/locks': 'sha256:1', 'relay://a/b/qa/locks': 'sha256:2' },
+      { 'relay://a/b/main/locks': 'sha256:0', 'relay://a/b/dev/locks': 'sha256:9', 'relay://a/b/qa/locks': 'sha256:2' },
+    );
+
+    expect(changed).toEqual(['relay://a/b/dev/locks']);
+    expect(hset).toHaveBeenCalledWith('mcp_session:session-1:subscriptions', {
+      'relay://a/b/main/locks': 'sha256:0',
+      'relay://a/b/dev/locks': 'sha256:9',
+    });
+  });
+});
@@ -1,5 +1,80 @@
 import { afterEach, describe, expect, test, vi } from 'vitest';
-import { GET as mcpGet, POST as mcpPost } from '@/app/mcp/route';
+
+vi.mock('@/lib/agent-tokens', () => ({
+  authenticateAgentRequest: vi.fn(async () => ({ tokenId: 'token-1', agentName: 'luka', ownerLogin: 'luka' })),
+}));
+
+vi.mock('@/lib/repo-registry', () => ({
+  isRepositoryRegistered: vi.fn(async () => true),
+  listRegisteredRepositories: vi.fn(async () => [
+    { repo_url: 'https://github.com/lukauljaj/devfest', registered_by: 'luka', registered_at: 1 },
+  ]),
+}));
+
+vi.mock('@/lib/github', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/github')>()),
+  getRepoDefaultBranchCached: vi.fn(async () => 'develop'),
+}));
+
+vi.mock('@/lib/mcp-sessions', () => ({
+  createMcpSession: vi.fn(async (agentName: string) => ({ id: 'session-1', agent_name: agentName, created_at: 1 })),
+  getMcpSession: vi.fn(async (sessionId: string) =>
+    sessionId === 'session-1' ? { id: 'session-1', agent_name: 'luka', created_at: 1 } : null,
+  ),
+  touchMcpSession: vi.fn(async (session: unknown) => session),
+  deleteMcpSession: vi.fn(async () => true),
+  addMcpSubscription: vi.fn(async () => undefined),
+  removeMcpSubscription: vi.fn(async () => true),
+  getMcpSubscriptions: vi.fn(async () => ({})),
+  recordMcpFingerprints: vi.fn(async () => []),
+}));
+
+vi.mock('@/lib/mcp-resources', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/mcp-resources')>()),
+  getResourceFingerprint: vi.fn(async () => 'sha256:new'),
+  readRelayResource: vi.fn(async (uri: string) => ({
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify({ locks: {} }),
+  })),
+}));
+
+vi.mock('@/lib/locks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/locks')>()),
+  expireLapsedLocks: vi.fn(async () => []),
+  getLockWaitState: vi.fn(async () => ({ state: 'NOT_QUEUED', locks: [], queuePositions: {} })),
+}));
+
+vi.mock('@/lib/repo-access', () => ({
+  authorizeRepoAccess: vi.fn(async () => ({ allowed: true, role: 'agent' })),
+}));
+
+import { DELETE as mcpDelete, GET as mcpGet, POST as mcpPost } from '@/app/mcp/route';
+import { authenticateAgentRequest } from '@/lib/agent-tokens';
+import { getRepoDefaultBranchCached } from '@/lib/github';
+import { GraphService } from '@/lib/graph-service';
+import { expireLapsedLocks, getLockWaitState } from '@/lib/locks';
+import {
+  addMcpSubscription,
+  deleteMcpSession,
+  getMcpSession,
+  getMcpSubscriptions,
+  recordMcpFingerprints,
+} from '@/lib/mcp-sessions';
+import { isRepositoryRegistered } from '@/lib/repo-registry';
+
+const mockedAuthenticateAgentRequest = vi.mocked(authenticateAgentRequest);
+const mockedGetRepoDefaultBranchCached = vi.mocked(getRepoDefaultBranchCached);
+const mockedIsRepositoryRegistered = vi.mocked(isRepositoryRegistered);
+const mockedExpireLapsedLocks = vi.mocked(expireLapsedLocks);
+const mockedGetLockWaitState = vi.mocked(getLockWaitState);
+const mockedAddMcpSubscription = vi.mocked(addMcpSubscription);
+const mockedGetMcpSubscriptions = vi.mocked(getMcpSubscriptions);
+const mockedGetMcpSession = vi.mocked(getMcpSession);
+const mockedDeleteMcpSession = vi.mocked(deleteMcpSession);
+const mockedRecordMcpFingerprints = vi.mocked(recordMcpFingerprints);
+
+const LOCKS_URI = 'relay://lukauljaj/devfest/main/locks?paths=src/a.ts';
 
 function parseSseData(body: string): any {
   const dataLine = body
@@ -60,6 +135,117 @@ describe('mcp route', () => {
     expect(response.headers.get('content-type')).toContain('text/event-stream');
     expect(payload.result.protocolVersion).toBe('2024-11-05');
     expect(payload.result.capabilities.tools.listChanged).toBe(false);
+    expect(response.headers.get('mcp-session-id')).toBe('session-1');
+  });
+
+  test('lists resource templates and registered repository resources', async () => {
+    const makeRequest = (method: string) =>
+      ({
+        url: 'https://relay-devfest.vercel.app/mcp',
+        headers: new Headers({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        }),
+        json: async () => ({ jsonrpc: '2.0', id: 31, method }),
+      }) as any;
+
+    const templates = parseSseData(await (await mcpPost(makeRequest('resources/templates/list'))).text());
+    expect(templates.result.resourceTemplates.map((template: any) => template.uriTemplate)).toEqual([
+      'relay://{owner}/{repo}/{branch}/locks',
+      'relay://{owner}/{repo}/{branch}/graph',
+      'relay://{owner}/{repo}/{branch}/activity',
+    ]);
+
+    const resources = parseSseData(await (await mcpPost(makeRequest('resources/list'))).text());
+    expect(resources.result.resources.map((resource: any) => resource.uri)).toEqual([
+      'relay://lukauljaj/devfest/develop/locks',
+      'relay://lukauljaj/devfest/develop/graph',
+      'relay://lukauljaj/devfest/develop/activity',
+    ]);
+  });
+
+  test('reads a resource for an authorized agent', async () => {
+    const makeRequest = (uri: string) =>
+      ({
+        url: 'https://relay-devfest.vercel.app/mcp',
+        headers: new Headers({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        }),
+        json: async () => ({ jsonrpc: '2.0', id: 32, method: 'resources/read', params: { uri } }),
+      }) as any;
+
+    const read = parseSseData(await (await mcpPost(makeRequest(LOCKS_URI))).text());
+    expect(read.result.contents).toEqual([
+      { uri: LOCKS_URI, mimeType: 'application/json', text: JSON.stringify({ locks: {} }) },
+    ]);
+
+    const unknown = parseSseData(await (await mcpPost(makeRequest('relay://lukauljaj/devfest/main/secrets'))).text());
+    expect(unknown.error.code).toBe(-32602);
+  });
+
+  test('subscribes a session to a lock resource', async () => {
+    const makeRequest = (sessionId?: string) =>
+      ({
+        url: 'https://relay-devfest.vercel.app/mcp',
+        headers: new Headers({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+        }),
+        json: async () => ({
+          jsonrpc: '2.0',
+          id: 30,
+          method: 'resources/subscribe',
+          params: { uri: LOCKS_URI },
+        }),
+      }) as any;
+
+    const withoutSession = parseSseData(await (await mcpPost(makeRequest())).text());
+    expect(withoutSession.error.code).toBe(-32600);
+
+    const unknownSession = await mcpPost(makeRequest('expired'));
+    expect(unknownSession.status).toBe(404);
+
+    const subscribed = parseSseData(await (await mcpPost(makeRequest('session-1'))).text());
+    expect(subscribed.result).toEqual({});
+    expect(mockedAddMcpSubscription).toHaveBeenCalledWith('session-1', LOCKS_URI);
+  });
+
+  test('rejects another agent subscribing to or ending a session it does not own', async () => {
+    const intruder = { tokenId: 'token-2', agentName: 'mallory', ownerLogin: 'mallory' };
+    mockedAuthenticateAgentRequest.mockResolvedValue(intruder);
+    mockedAddMcpSubscription.mockClear();
+    mockedDeleteMcpSession.mockClear();
+
+    const subscribe = await mcpPost({
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'session-1',
+      }),
+      json: async () => ({ jsonrpc: '2.0', id: 31, method: 'resources/subscribe', params: { uri: LOCKS_URI } }),
+    } as any);
+    const stream = await mcpGet({
+      headers: new Headers({ accept: 'text/event-stream', 'mcp-session-id': 'session-1' }),
+    } as any);
+    const ended = await mcpDelete({ headers: new Headers({ 'mcp-session-id': 'session-1' }) } as any);
+
+    expect(subscribe.status).toBe(403);
+    expect(stream.status).toBe(403);
+    expect(ended.status).toBe(403);
+    expect(mockedAddMcpSubscription).not.toHaveBeenCalled();
+    expect(mockedDeleteMcpSession).not.toHaveBeenCalled();
+
+    mockedAuthenticateAgentRequest.mockResolvedValue(null);
+    const anonymous = await mcpDelete({ headers: new Headers({ 'mcp-session-id': 'session-1' }) } as any);
+    expect(anonymous.status).toBe(401);
+
+    mockedAuthenticateAgentRequest.mockResolvedValue({ tokenId: 'token-1', agentName: 'luka', ownerLogin: 'luka' });
+    const owned = await mcpDelete({ headers: new Headers({ 'mcp-session-id': 'session-1' }) } as any);
+    expect(owned.status).toBe(204);
+    expect(mockedDeleteMcpSession).toHaveBeenCalledWith('session-1');
   });
 
   test('returns tools/list with check_status and post_status', async () => {
@@ -79,6 +265,142 @@ describe('mcp route', () => {
 
     expect(toolNames).toContain('check_status');
     expect(toolNames).toContain('post_status');
+    expect(toolNames).toContain('renew_locks');
+    expect(toolNames).toContain('wait_for_lock');
+    expect(toolNames).toContain('query_graph');
+    expect(toolNames).toContain('list_locks');
+    expect(toolNames).toContain('analyze_impact');
+    expect(toolNames).toContain('update_locks');
+  });
+
+  test('wait_for_lock polls the queue in-process until it grants the handoff', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    mockedGetLockWaitState
+      .mockResolvedValueOnce({ state: 'QUEUED', locks: [], queuePositions: { 'README.md': 1 } })
+      .mockResolvedValueOnce({ state: 'GRANTED', locks: [], queuePositions: {} });
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 11,
+        method: 'tools/call',
+        params: {
+          name: 'wait_for_lock',
+          arguments: {
+            username: 'luka',
+            file_paths: ['README.md'],
+            repo_url: 'https://github.com/lukauljaj/DevFest',
+          },
+        },
+      }),
+    } as any;
+
+    const pending = mcpPost(request);
+    await vi.runAllTimersAsync();
+    const payload = parseSseData(await (await pending).text());
+    vi.useRealTimers();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockedExpireLapsedLocks).toHaveBeenCalledTimes(2);
+    expect(mockedGetLockWaitState).toHaveBeenCalledWith(
+      'https://github.com/lukauljaj/devfest',
+      'develop',
+      ['README.md'],
+      'luka',
+    );
+    expect(payload.result.structuredContent.state).toBe('GRANTED');
+    expect(payload.result.structuredContent.orchestration.action).toBe('PROCEED');
+  });
+
+  test('wait_for_lock reports a timeout while still queued', async () => {
+    mockedGetLockWaitState.mockResolvedValueOnce({ state: 'QUEUED', locks: [], queuePositions: { 'README.md': 1 } });
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 12,
+        method: 'tools/call',
+        params: {
+          name: 'wait_for_lock',
+          arguments: {
+            username: 'luka',
+            file_paths: ['README.md'],
+            repo_url: 'https://github.com/lukauljaj/DevFest',
+            timeout_ms: 0,
+          },
+        },
+      }),
+    } as any;
+
+    const response = await mcpPost(request);
+    const payload = parseSseData(await response.text());
+
+    expect(payload.result.structuredContent.timed_out).toBe(true);
+    expect(payload.result.structuredContent.queue_positions).toEqual({ 'README.md': 1 });
+    expect(payload.result.structuredContent.orchestration.action).toBe('WAIT');
+  });
+
+  test('forwards renew_locks tool calls to the renew route', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          success: true,
+          renewed: [],
+          missing: [],
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'PROCEED',
+            command: null,
+            reason: 'Locks renewed',
+          },
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 10,
+        method: 'tools/call',
+        params: {
+          name: 'renew_locks',
+          arguments: {
+            username: 'luka',
+            file_paths: ['README.md'],
+            repo_url: 'https://github.com/lukauljaj/DevFest',
+            ttl_ms: 600000,
+          },
+        },
+      }),
+    } as any;
+
+    const response = await mcpPost(request);
+    const payload = parseSseData(await response.text());
+    const forwardedBody = JSON.parse(String((fetchMock.mock.calls[0]?.[1] as RequestInit | undefined)?.body ?? '{}'));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://relay-devfest.vercel.app/api/renew_locks',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(forwardedBody.ttl_ms).toBe(600000);
+    expect(payload.result.structuredContent.orchestration.action).toBe('PROCEED');
   });
 
   test('forwards check_status tool calls to internal API', async () => {
@@ -129,19 +451,96 @@ describe('mcp route', () => {
 
     expect(fetchMock).toHaveBeenCalledWith(
       'https://relay-devfest.vercel.app/api/check_status',
-      expect.objectContaining({
-        method: 'POST',
-        headers: expect.objectContaining({
-          'x-github-user': 'luka',
-          'x-github-username': 'luka',
-        }),
-      }),
+      expect.objectContaining({ method: 'POST' }),
     );
+    // Identity travels only in the bearer token, never in a username header.
+    expect(fetchMock.mock.calls[0][1]?.headers).not.toHaveProperty('x-github-user');
     expect(payload.result.isError).toBe(false);
     expect(payload.result.structuredContent.status).toBe('OK');
   });
 
-  test('defaults check_status branch to master when branch is omitted', async () => {
+  test('rejects tools/call without a valid agent token', async () => {
+    mockedAuthenticateAgentRequest.mockResolvedValueOnce(null);
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 20,
+        method: 'tools/call',
+        params: {
+          name: 'post_status',
+          arguments: {
+            username: 'luka',
+            file_paths: ['README.md'],
+            status: 'OPEN',
+            message: 'done',
+            agent_head: 'abc123',
+            repo_url: 'https://github.com/lukauljaj/DevFest',
+          },
+        },
+      }),
+    } as any;
+
+    const response = await mcpPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(payload.error.code).toBe(-32001);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('rejects a username that differs from the token agent and forwards the token otherwise', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ status: 'OK', locks: {} }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+    const makeRequest = (username: string) =>
+      ({
+        url: 'https://relay-devfest.vercel.app/mcp',
+        headers: new Headers({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          authorization: 'Bearer relay_secret',
+        }),
+        json: async () => ({
+          jsonrpc: '2.0',
+          id: 21,
+          method: 'tools/call',
+          params: {
+            name: 'check_status',
+            arguments: {
+              username,
+              file_paths: ['README.md'],
+              agent_head: 'abc123',
+              repo_url: 'https://github.com/lukauljaj/DevFest',
+              branch: 'main',
+            },
+          },
+        }),
+      }) as any;
+
+    const spoofed = parseSseData(await (await mcpPost(makeRequest('someone-else'))).text());
+    expect(spoofed.result.isError).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await mcpPost(makeRequest('luka'));
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://relay-devfest.vercel.app/api/check_status',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer relay_secret' }),
+      }),
+    );
+  });
+
+  test('defaults check_status to the GitHub default branch of the requested repo', async () => {
     const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
       new Response(
         JSON.stringify({
@@ -189,40 +588,15 @@ describe('mcp route', () => {
     const requestInit = fetchMock.mock.calls[0]?.[1] as RequestInit | undefined;
     const forwardedBody = JSON.parse(String(requestInit?.body ?? '{}'));
 
-    expect(forwardedBody.branch).toBe('master');
-    expect(forwardedBody.repo_url).toBe('https://github.com/luljaj/RelayDevFest');
+    expect(mockedGetRepoDefaultBranchCached).toHaveBeenCalledWith('lukauljaj', 'devfest', undefined, undefined);
+    expect(forwardedBody.branch).toBe('develop');
+    expect(forwardedBody.repo_url).toBe('https://github.com/lukauljaj/devfest');
     expect(payload.result.isError).toBe(false);
   });
 
-  test('retries check_status with main when default master branch ref is missing', async () => {
-    const fetchMock = vi
-      .spyOn(globalThis, 'fetch')
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            error: 'Internal server error',
-            details: 'Not Found - https://docs.github.com/rest/git/refs#get-a-reference',
-          }),
-          { status: 500, headers: { 'content-type': 'application/json' } },
-        ),
-      )
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            status: 'OK',
-            repo_head: 'def456',
-            locks: {},
-            warnings: [],
-            orchestration: {
-              type: 'orchestration_command',
-              action: 'PROCEED',
-              command: null,
-              reason: '',
-            },
-          }),
-          { status: 200, headers: { 'content-type': 'application/json' } },
-        ),
-      );
+  test('returns STOP without calling the API for an unregistered repo', async () => {
+    mockedIsRepositoryRegistered.mockResolvedValueOnce(false);
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
 
     const request = {
       url: 'https://relay-devfest.vercel.app/mcp',
@@ -240,26 +614,18 @@ describe('mcp route', () => {
             username: 'luka',
             file_paths: ['README.md'],
             agent_head: 'def456',
-            repo_url: 'https://github.com/lukauljaj/DevFest',
+            repo_url: 'https://github.com/someone/Elsewhere.git',
           },
         },
       }),
     } as any;
 
-    const response = await mcpPost(request);
-    const body = await response.text();
-    const payload = parseSseData(body);
+    const payload = parseSseData(await (await mcpPost(request)).text());
 
-    const firstRequestBody = JSON.parse(String((fetchMock.mock.calls[0]?.[1] as RequestInit | undefined)?.body ?? '{}'));
-    const secondRequestBody = JSON.parse(String((fetchMock.mock.calls[1]?.[1] as RequestInit | undefined)?.body ?? '{}'));
-
-    expect(fetchMock).toHaveBeenCalledTimes(2);
-    expect(firstRequestBody.branch).toBe('master');
-    expect(firstRequestBody.repo_url).toBe('https://github.com/luljaj/RelayDevFest');
-    expect(secondRequestBody.branch).toBe('main');
-    expect(secondRequestBody.repo_url).toBe('https://github.com/luljaj/RelayDevFest');
-    expect(payload.result.isError).toBe(false);
-    expect(payload.result.structuredContent.status).toBe('OK');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockedIsRepositoryRegistered).toHaveBeenCalledWith('https://github.com/someone/elsewhere');
+    expect(payload.result.structuredContent.orchestration.action).toBe('STOP');
+    expect(payload.result.structuredContent.orchestration.reason).toContain('not registered');
   });
 
   test('preserves post_status orchestration payload on validation responses', async () => {
@@ -310,20 +676,73 @@ describe('mcp route', () => {
 
     expect(fetchMock).toHaveBeenCalledWith(
       'https://relay-devfest.vercel.app/api/post_status',
-      expect.objectContaining({
-        method: 'POST',
-        headers: expect.objectContaining({
-          'x-github-user': 'luka',
-          'x-github-username': 'luka',
-        }),
-      }),
+      expect.objectContaining({ method: 'POST' }),
     );
+    // Identity travels only in the bearer token, never in a username header.
+    expect(fetchMock.mock.calls[0][1]?.headers).not.toHaveProperty('x-github-user');
     expect(payload.result.isError).toBe(false);
     expect(payload.result.structuredContent.success).toBe(false);
     expect(payload.result.structuredContent.orchestration.action).toBe('PUSH');
   });
 
-  test('defaults post_status branch to master when branch is omitted', async () => {
+  test('turns a 403 from the route into a STOP with the role details', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: 'Forbidden',
+          details: 'luka has viewer access to https://github.com/luljaj/relaydevfest; agent role required',
+          repo_url: 'https://github.com/luljaj/relaydevfest',
+          required_role: 'agent',
+          role: 'viewer',
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'STOP',
+            command: null,
+            reason: 'Access denied: agent role required',
+          },
+        }),
+        { status: 403, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'tools/call',
+        params: {
+          name: 'post_status',
+          arguments: {
+            username: 'luka',
+            file_paths: ['README.md'],
+            status: 'WRITING',
+            message: 'edit',
+            agent_head: 'abc123',
+            repo_url: 'https://github.com/lukauljaj/DevFest',
+            branch: 'main',
+          },
+        },
+      }),
+    } as any;
+
+    const payload = parseSseData(await (await mcpPost(request)).text());
+
+    expect(payload.result.isError).toBe(false);
+    expect(payload.result.structuredContent).toMatchObject({
+      success: false,
+      error: 'Forbidden',
+      required_role: 'agent',
+      role: 'viewer',
+      orchestration: { action: 'STOP', reason: 'Access denied: agent role required' },
+    });
+  });
+
+  test('defaults post_status to the GitHub default branch of the requested repo', async () => {
     const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
       new Response(
         JSON.stringify({
@@ -371,11 +790,193 @@ describe('mcp route', () => {
     const requestInit = fetchMock.mock.calls[0]?.[1] as RequestInit | undefined;
     const forwardedBody = JSON.parse(String(requestInit?.body ?? '{}'));
 
-    expect(forwardedBody.branch).toBe('master');
-    expect(forwardedBody.repo_url).toBe('https://github.com/luljaj/RelayDevFest');
+    expect(forwardedBody.branch).toBe('develop');
+    expect(forwardedBody.repo_url).toBe('https://github.com/lukauljaj/devfest');
     expect(payload.result.isError).toBe(false);
   });
 
+  test('lists the coordination prompts', async () => {
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({ jsonrpc: '2.0', id: 40, method: 'prompts/list' }),
+    } as any;
+
+    const payload = parseSseData(await (await mcpPost(request)).text());
+
+    expect(payload.result.prompts.map((prompt: any) => prompt.name)).toEqual([
+      'start-task',
+      'finish-task',
+      'resolve-conflict',
+    ]);
+    expect(payload.result.prompts[0].arguments.find((arg: any) => arg.name === 'file_paths').required).toBe(true);
+  });
+
+  test('renders a prompt with the live check_status lock state', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          status: 'OK',
+          repo_head: 'abc123',
+          locks: {
+            'src/a.ts': {
+              file_path: 'src/a.ts',
+              user_id: 'ana',
+              user_name: 'ana',
+              status: 'WRITING',
+              message: 'Refactoring a',
+              lock_type: 'DIRECT',
+            },
+          },
+          warnings: [],
+          orchestration: {
+            type: 'orchestration_command',
+            action: 'SWITCH_TASK',
+            command: null,
+            reason: 'src/a.ts is locked by ana',
+          },
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 41,
+        method: 'prompts/get',
+        params: {
+          name: 'resolve-conflict',
+          arguments: {
+            file_paths: 'src/a.ts, src/b.ts',
+            repo_url: 'https://github.com/lukauljaj/devfest',
+            agent_head: 'abc123',
+          },
+        },
+      }),
+    } as any;
+
+    const payload = parseSseData(await (await mcpPost(request)).text());
+    const forwardedBody = JSON.parse(String((fetchMock.mock.calls[0]?.[1] as RequestInit | undefined)?.body ?? '{}'));
+    const text = payload.result.messages[0].content.text;
+
+    expect(forwardedBody.file_paths).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(forwardedBody.branch).toBe('develop');
+    expect(text).toContain('- src/a.ts [requested]: ana (WRITING) - "Refactoring a"');
+    expect(text).toContain('Relay orchestration: SWITCH_TASK: src/a.ts is locked by ana');
+  });
+
+  test('rejects prompts/get for an unknown prompt or missing file paths', async () => {
+    const makeRequest = (params: Record<string, unknown>) =>
+      ({
+        url: 'https://relay-devfest.vercel.app/mcp',
+        headers: new Headers({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        }),
+        json: async () => ({ jsonrpc: '2.0', id: 42, method: 'prompts/get', params }),
+      }) as any;
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+    const unknown = parseSseData(await (await mcpPost(makeRequest({ name: 'deploy' }))).text());
+    const missing = parseSseData(
+      await (
+        await mcpPost(
+          makeRequest({
+            name: 'start-task',
+            arguments: { file_paths: ' ', repo_url: 'https://github.com/lukauljaj/devfest', agent_head: 'abc123' },
+          }),
+        )
+      ).text(),
+    );
+
+    expect(unknown.error.code).toBe(-32602);
+    expect(missing.error.message).toBe("Missing required argument 'file_paths' for prompt 'start-task'");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('answers query_graph from the dependency graph', async () => {
+    const getGraph = vi.spyOn(GraphService.prototype, 'get');
+    const getCached = vi.spyOn(GraphService.prototype, 'getCached').mockResolvedValue({
+      nodes: ['a.ts', 'b.ts', 'c.ts'].map((id) => ({ id, type: 'file' as const })),
+      edges: [
+        { source: 'b.ts', target: 'a.ts', type: 'runtime' },
+        { source: 'c.ts', target: 'b.ts', type: 'runtime' },
+      ],
+      locks: {},
+      version: 'v1',
+      metadata: { generated_at: 1, files_processed: 3, edges_found: 2 },
+    });
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 43,
+        method: 'tools/call',
+        params: {
+          name: 'query_graph',
+          arguments: { file_path: './a.ts', target_path: 'c.ts', repo_url: 'https://github.com/lukauljaj/devfest' },
+        },
+      }),
+    } as any;
+
+    const payload = parseSseData(await (await mcpPost(request)).text());
+    const result = payload.result.structuredContent;
+
+    expect(getCached).toHaveBeenCalled();
+    expect(getGraph).not.toHaveBeenCalled();
+    expect(result.available).toBe(true);
+    expect(result.branch).toBe('develop');
+    expect(result.imported_by).toEqual(['b.ts']);
+    expect(result.dependents).toEqual([
+      { file_path: 'b.ts', distance: 1 },
+      { file_path: 'c.ts', distance: 2 },
+    ]);
+    expect(result.path).toEqual({ target_path: 'c.ts', direction: 'imported_by', files: ['a.ts', 'b.ts', 'c.ts'] });
+  });
+
+  test('reports query_graph as unavailable instead of building a missing graph', async () => {
+    const getGraph = vi.spyOn(GraphService.prototype, 'get');
+    vi.spyOn(GraphService.prototype, 'getCached').mockResolvedValue(null);
+
+    const request = {
+      url: 'https://relay-devfest.vercel.app/mcp',
+      headers: new Headers({
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      }),
+      json: async () => ({
+        jsonrpc: '2.0',
+        id: 44,
+        method: 'tools/call',
+        params: {
+          name: 'query_graph',
+          arguments: { file_path: 'a.ts', repo_url: 'https://github.com/lukauljaj/devfest' },
+        },
+      }),
+    } as any;
+
+    const payload = parseSseData(await (await mcpPost(request)).text());
+    const result = payload.result.structuredContent;
+
+    expect(getGraph).not.toHaveBeenCalled();
+    expect(result.available).toBe(false);
+    expect(result.reason).toContain('Graph not generated yet');
+  });
+
   test('returns tool error result for unknown tool', async () => {
     const request = {
       url: 'https://relay-devfest.vercel.app/mcp',
@@ -428,4 +1029,71 @@ describe('mcp route', () => {
     expect(response.status).toBe(406);
     expect(payload.error.code).toBe(-32600);
   });
+
+  test('GET requires a known session', async () => {
+    const missing = await mcpGet({ headers: new Headers({ accept: 'text/event-stream' }) } as any);
+    expect(missing.status).toBe(400);
+
+    const unknown = await mcpGet({
+      headers: new Headers({ accept: 'text/event-stream', 'mcp-session-id': 'expired' }),
+    } as any);
+    expect(unknown.status).toBe(404);
+  });
+
+  test('GET streams resources/updated notifications for changed subscriptions', async () => {
+    mockedGetMcpSubscriptions.mockResolvedValue({ [LOCKS_URI]: 'sha256:old' });
+    mockedRecordMcpFingerprints.mockResolvedValueOnce([LOCKS_URI]);
+    const abort = new AbortController();
+
+    const response = await mcpGet({
+      headers: new Headers({ accept: 'text/event-stream', 'mcp-session-id': 'session-1' }),
+      signal: abort.signal,
+    } as any);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBe('session-1');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes('notifications/resources/updated')) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += decoder.decode(value);
+    }
+    abort.abort();
+    await reader.cancel();
+
+    expect(mockedRecordMcpFingerprints).toHaveBeenCalledWith(
+      'session-1',
+      { [LOCKS_URI]: 'sha256:old' },
+      { [LOCKS_URI]: 'sha256:new' },
+    );
+    expect(parseSseData(received.slice(received.indexOf('event: message')))).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri: LOCKS_URI },
+    });
+  });
+
+  test('GET ends the notification stream once its session is gone', async () => {
+    mockedGetMcpSession
+      .mockResolvedValueOnce({ id: 'session-1', agent_name: 'luka', created_at: 1 })
+      .mockResolvedValueOnce(null);
+    mockedGetMcpSubscriptions.mockClear();
+
+    const response = await mcpGet({
+      headers: new Headers({ accept: 'text/event-stream', 'mcp-session-id': 'session-1' }),
+    } as any);
+    expect(response.status).toBe(200);
+
+    const reader = response.body!.getReader();
+    while (!(await reader.read()).done) {
+      // drain until the stream closes itself
+    }
+
+    expect(mockedGetMcpSubscriptions).not.toHaveBeenCalled();
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { getFileLanguage, isRelativeImport, parseImports } from '@/lib/parser';
+import { getFileLanguage, isRelativeImport, parseImports, parseModule } from '@/lib/parser';
 
 describe('parseImports', () => {
   test('parses ES module imports and exports', () => {
@@ -12,11 +12,75 @@ describe('parseImports', () => {
     const result = parseImports(content, 'src/test.ts', 'ts');
 
     expect(result).toEqual([
-      { raw: "import { a } from './alpha';", module: './alpha', lineNumber: 1 },
-      { raw: "export { b } from '../beta';", module: '../beta', lineNumber: 2 },
+      { raw: "import { a } from './alpha';", module: './alpha', lineNumber: 1, typeOnly: false, kind: 'static', names: ['a'] },
+      {
+        raw: "export { b } from '../beta';",
+        module: '../beta',
+        lineNumber: 2,
+        typeOnly: false,
+        kind: 're-export',
+        names: ['b'],
+      },
     ]);
   });
 
+  test('parses multi-line, side-effect and star re-export statements', () => {
+    const content = [
+      'import {',
+      '  a,',
+      '  b,',
+      "} from './multi';",
+      "import './polyfill';",
+      "export * from './barrel';",
+      "export * as ns from './namespace';",
+    ].join('\n');
+
+    const result = parseImports(content, 'src/test.ts', 'ts');
+
+    expect(result.map(({ module, lineNumber }) => [module, lineNumber])).toEqual([
+      ['./multi', 1],
+      ['./polyfill', 5],
+      ['./barrel', 6],
+      ['./namespace', 7],
+    ]);
+  });
+
+  test('flags type-only imports and exports', () => {
+    const content = [
+      "import type { A } from './types';",
+      "import { type B, type C } from './all-types';",
+      "import { type D, e } from './mixed';",
+      "export type { F } from './reexported-types';",
+      "type G = typeof import('./type-query');",
+      "import Default, { type H } from './default';",
+    ].join('\n');
+
+    const result = parseImports(content, 'src/test.ts', 'ts');
+
+    expect(result.map(({ module, typeOnly }) => [module, typeOnly])).toEqual([
+      ['./types', true],
+      ['./all-types', true],
+      ['./mixed', false],
+      ['./reexported-types', true],
+      ['./type-query', true],
+      ['./default', false],
+    ]);
+  });
+
+  test('ignores import-like text inside strings, templates and comments', () => {
+    const content = [
+      "const docs = `import { x } from './template'`;",
+      "const text = \"require('./string')\";",
+      '/*',
+      "import { y } from './block-comment';",
+      '*/',
+      "const lazy = await import(`./lazy`);",
+    ].join('\n');
+
+    const result = parseImports(content, 'src/test.ts', 'ts');
+    expect(result.map((entry) => entry.module)).toEqual(['./lazy']);
+  });
+
   test('parses CommonJS and dynamic imports', () => {
     const content = [
       "const x = require('./utils');",
@@ -24,7 +88,10 @@ describe('parseImports', () => {
     ].join('\n');
 
     const result = parseImports(content, 'src/test.js', 'js');
-    expect(result.map((entry) => entry.module)).toEqual(['./utils', '../data']);
+    expect(result.map(({ module, kind }) => [module, kind])).toEqual([
+      ['./utils', 'static'],
+      ['../data', 'dynamic'],
+    ]);
   });
 
   test('parses Python imports and skips comments', () => {
@@ -33,8 +100,101 @@ describe('parseImports', () => {
     const result = parseImports(content, 'tool.py', 'py');
 
     expect(result).toEqual([
-      { raw: 'import os.path', module: 'os.path', lineNumber: 2 },
-      { raw: 'from .helpers import run', module: '.helpers', lineNumber: 3 },
+      { raw: 'import os.path', module: 'os.path', lineNumber: 2, typeOnly: false, kind: 'static' },
+      { raw: 'from .helpers import run', module: '.helpers', lineNumber: 3, typeOnly: false, kind: 'static', names: ['run'] },
+    ]);
+  });
+
+  test('parses Python import lists and parenthesised from-imports', () => {
+    const content = [
+      'import json, src.models as models',
+      'from . import (',
+      '    tools,  # tool handlers',
+      '    server as srv,',
+      ')',
+    ].join('\n');
+
+    const result = parseImports(content, 'src/main.py', 'py');
+
+    expect(result.map(({ module, lineNumber, names }) => ({ module, lineNumber, names }))).toEqual([
+      { module: 'json', lineNumber: 1, names: undefined },
+      { module: 'src.models', lineNumber: 1, names: undefined },
+      { module: '.', lineNumber: 2, names: ['tools', 'server'] },
+    ]);
+  });
+});
+
+describe('parseModule', () => {
+  test('records the names each import binds', () => {
+    const content = [
+      "import Panel, { useGraph as useIt, type Node } from './panel';",
+      "import * as d3 from 'd3';",
+      "import './styles';",
+      "export { a as b } from './alpha';",
+      "export * from './barrel';",
+      "const utils = require('./utils');",
+      "type T = import('./types').Graph.Node;",
+    ].join('\n');
+
+    const { imports } = parseModule(content, 'src/test.ts', 'ts');
+
+    expect(imports.map(({ module, names }) => [module, names])).toEqual([
+      ['./panel', ['default', 'useGraph', 'Node']],
+      ['d3', ['*']],
+      ['./styles', []],
+      ['./alpha', ['a']],
+      ['./barrel', ['*']],
+      ['./utils', undefined],
+      ['./types', ['Graph']],
+    ]);
+  });
+
+  test('extracts exported symbols with their kind and line', () => {
+    const content = [
+      'export function parse() {}',
+      'export function parse(value?: string) {}',
+      'export const { a, b: [c] } = source, d = 1;',
+      'export interface Shape {}',
+      'export type Id = string;',
+      'class Local {}',
+      'export { Local as Renamed };',
+      "export { x as y } from './x';",
+      "export * as ns from './ns';",
+      'export default function Page() {}',
+    ].join('\n');
+
+    const { exports } = parseModule(content, 'src/test.tsx', 'ts');
+
+    expect(exports).toEqual([
+      { name: 'parse', kind: 'function', lineNumber: 1 },
+      { name: 'a', kind: 'variable', lineNumber: 3 },
+      { name: 'c', kind: 'variable', lineNumber: 3 },
+      { name: 'd', kind: 'variable', lineNumber: 3 },
+      { name: 'Shape', kind: 'interface', lineNumber: 4 },
+      { name: 'Id', kind: 'type', lineNumber: 5 },
+      { name: 'Renamed', kind: 'class', lineNumber: 7 },
+      { name: 'y', kind: 're-export', lineNumber: 8, from: { module: './x', name: 'x' } },
+      { name: 'ns', kind: 're-export', lineNumber: 9, from: { module: './ns', name: '*' } },
+      { name: 'default', kind: 'function', lineNumber: 10 },
+    ]);
+  });
+
+  test('treats top-level Python definitions and assignments as exports', () => {
+    const content = [
+      'import os',
+      'VERSION: str = "1"',
+      'async def serve():',
+      '    inner = 1',
+      'class Handler:',
+      '    pass',
+      'if DEBUG == True:',
+      '    pass',
+    ].join('\n');
+
+    expect(parseModule(content, 'server.py', 'py').exports).toEqual([
+      { name: 'VERSION', kind: 'variable', lineNumber: 2 },
+      { name: 'serve', kind: 'function', lineNumber: 3 },
+      { name: 'Handler', kind: 'class', lineNumber: 5 },
     ]);
   });
 });
@@ -44,6 +204,14 @@ describe('language and relative helpers', () => {
     expect(getFileLanguage('a.ts')).toBe('ts');
     expect(getFileLanguage('a.jsx')).toBe('js');
     expect(getFileLanguage('a.py')).toBe('py');
+    expect(getFileLanguage('cmd/main.go')).toBe('go');
+    expect(getFileLanguage('src/lib.rs')).toBe('rs');
+    expect(getFileLanguage('src/main/java/App.java')).toBe('java');
+    expect(getFileLanguage('app/globals.css')).toBe('css');
+    expect(getFileLanguage('styles/_theme.scss')).toBe('css');
+    expect(getFileLanguage('package.json')).toBe('json');
+    expect(getFileLanguage('.github/workflows/ci.yml')).toBe('config');
+    expect(getFileLanguage('public/Logo.PNG')).toBe('asset');
     expect(getFileLanguage('a.txt')).toBeNull();
   });
 
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+import { detectPythonSourceRoots, parsePyprojectSourceDirs } from '@/lib/python-paths';
+
+describe('Python source roots', () => {
+  test('reads package directories from pyproject.toml', () => {
+    expect(parsePyprojectSourceDirs('[tool.setuptools.packages.find]\nwhere = ["lib"]\n')).toEqual(['lib']);
+    expect(parsePyprojectSourceDirs('[tool.setuptools]\npackage-dir = {"" = "python"}\n')).toEqual(['python']);
+    expect(parsePyprojectSourceDirs('[tool.poetry]\npackages = [{ include = "relay", from = "src" }]\n')).toEqual(['src']);
+    expect(parsePyprojectSourceDirs('[tool.hatch.build.targets.wheel]\npackages = ["src"]\n')).toEqual(['.']);
+  });
+
+  test('combines project directories, declared roots and src layouts', async () => {
+    const roots = await detectPythonSourceRoots(
+      [
+        'mcp/pyproject.toml',
+        'mcp/src/__init__.py',
+        'mcp/src/tools.py',
+        'sdk/setup.cfg',
+        'sdk/src/relay_sdk/__init__.py',
+        'tools/pyproject.toml',
+        'tools/python/cli.py',
+      ],
+      async (path) =>
+        ({
+          'mcp/pyproject.toml': '[tool.hatch.build.targets.wheel]\npackages = ["src"]\n',
+          'tools/pyproject.toml': '[tool.setuptools.packages.find]\nwhere = ["python"]\n',
+        })[path] ?? null,
+    );
+
+    expect(roots).toEqual(['tools/python', 'sdk/src', 'tools', 'mcp', 'sdk', '']);
+  });
+});
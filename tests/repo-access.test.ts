@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+const { store, reposGet, getCollaboratorPermissionLevel, userReposGet } = vi.hoisted(() => ({
+  store: new Map<string, unknown>(),
+  reposGet: vi.fn(),
+  getCollaboratorPermissionLevel: vi.fn(),
+  userReposGet: vi.fn(),
+}));
+
+vi.mock('@/lib/kv', () => ({
+  kv: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+  },
+}));
+
+vi.mock('@/lib/github', () => ({
+  octokit: { rest: { repos: { get: reposGet, getCollaboratorPermissionLevel } } },
+  createOctokitClient: vi.fn(() => ({ rest: { repos: { get: userReposGet } } })),
+}));
+
+vi.mock('@/lib/agent-tokens', () => ({
+  authenticateAgentRequest: vi.fn(async () => null),
+}));
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(async () => null),
+}));
+
+import { authorizeRepoAccess, getRepoRole, roleFromGitHubPermission } from '@/lib/repo-access';
+
+const REPO_URL = 'https://github.com/acme/relay';
+
+function githubError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('repo access', () => {
+  beforeEach(() => {
+    store.clear();
+    reposGet.mockReset();
+    getCollaboratorPermissionLevel.mockReset();
+    userReposGet.mockReset();
+  });
+
+  test('maps GitHub permissions onto relay roles', () => {
+    expect(roleFromGitHubPermission('admin')).toBe('admin');
+    expect(roleFromGitHubPermission('maintain')).toBe('admin');
+    expect(roleFromGitHubPermission('write')).toBe('agent');
+    expect(roleFromGitHubPermission('triage')).toBe('viewer');
+    expect(roleFromGitHubPermission('read')).toBe('viewer');
+    expect(roleFromGitHubPermission('none')).toBeNull();
+  });
+
+  test('uses the session token permissions and caches the result', async () => {
+    userReposGet.mockResolvedValue({ data: { private: true, permissions: { admin: false, push: true, pull: true } } });
+    const principal = { login: 'Alice', agentName: null, accessToken: 'gho_x' };
+
+    await expect(getRepoRole(REPO_URL, principal)).resolves.toBe('agent');
+    await expect(getRepoRole(REPO_URL, principal)).resolves.toBe('agent');
+    expect(userReposGet).toHaveBeenCalledTimes(1);
+  });
+
+  test('checks the token owner collaborator permission for agents', async () => {
+    getCollaboratorPermissionLevel.mockResolvedValue({ data: { permission: 'write', role_name: 'maintain' } });
+
+    await expect(getRepoRole(REPO_URL, { login: 'alice', agentName: 'gpt5-orchid-alice' })).resolves.toBe('admin');
+    expect(getCollaboratorPermissionLevel).toHaveBeenCalledWith({ owner: 'acme', repo: 'relay', username: 'alice' });
+  });
+
+  test('falls back to viewer on public repos and denies private ones', async () => {
+    getCollaboratorPermissionLevel.mockRejectedValue(githubError(404));
+    reposGet.mockResolvedValueOnce({ data: { private: false } });
+
+    await expect(getRepoRole(REPO_URL, { login: 'bob', agentName: 'gpt5-orchid-bob' })).resolves.toBe('viewer');
+
+    reposGet.mockRejectedValueOnce(githubError(404));
+    const denied = await authorizeRepoAccess(REPO_URL, null, 'viewer');
+
+    expect(denied.allowed).toBe(false);
+    if (!denied.allowed) {
+      expect(denied.payload).toMatchObject({
+        error: 'Forbidden',
+        required_role: 'viewer',
+        role: null,
+        orchestration: { action: 'STOP' },
+      });
+    }
+  });
+
+  test('rejects callers below the required role', async () => {
+    getCollaboratorPermissionLevel.mockResolvedValue({ data: { permission: 'read', role_name: 'read' } });
+
+    const result = await authorizeRepoAccess(REPO_URL, { login: 'carol', agentName: 'gpt5-orchid-carol' }, 'agent');
+
+    expect(result).toMatchObject({ allowed: false, role: 'viewer' });
+  });
+
+  test('never promotes a GitHub login that shares a GitLab member username', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      const body = url.pathname.endsWith('/members/all')
+        ? [{ username: 'alice', access_level: 50 }]
+        : { visibility: url.pathname.includes('public-relay') ? 'public' : 'private' };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+
+    try {
+      const alice = { login: 'alice', agentName: 'gpt5-orchid-alice', accessToken: 'gho_x' };
+      await expect(getRepoRole('https://gitlab.com/acme/platform/relay', alice)).resolves.toBeNull();
+      await expect(getRepoRole('https://gitlab.com/acme/platform/public-relay', alice)).resolves.toBe('viewer');
+      expect(fetchMock.mock.calls.some(([input]) => String(input).includes('/members'))).toBe(false);
+      expect(userReposGet).not.toHaveBeenCalled();
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  test('denies agent actions on a hosted repo to a same-named GitHub login', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response(JSON.stringify({ visibility: 'public' }), { status: 200 }));
+
+    try {
+      const result = await authorizeRepoAccess(
+        'https://gitlab.com/acme/relay',
+        { login: 'alice', agentName: 'gpt5-orchid-alice' },
+        'agent',
+      );
+      expect(result).toEqual(expect.objectContaining({ allowed: false, role: 'viewer' }));
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+});
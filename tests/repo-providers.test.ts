@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+const { store } = vi.hoisted(() => ({ store: new Map<string, unknown>() }));
+
+vi.mock('@/lib/kv', () => ({
+  kv: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    eval: vi.fn(async () => 1),
+  },
+}));
+
+import { BitbucketClient } from '@/lib/bitbucket';
+import { GitLabClient, permissionFromGitLabAccessLevel } from '@/lib/gitlab';
+import { kv } from '@/lib/kv';
+import {
+  adoptLegacyRepoKeys,
+  createRepoProvider,
+  getLegacyRepoKeyScope,
+  getRepoKeyScope,
+  normalizeRepoUrl,
+  parseRepoRef,
+  stripRepoKeyProvider,
+} from '@/lib/repo-providers';
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+describe('repo providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.RELAY_GITLAB_HOSTS;
+    store.clear();
+  });
+
+  test('normalizes GitHub, GitLab and Bitbucket URLs', () => {
+    expect(normalizeRepoUrl('git@github.com:Acme/Relay.git')).toBe('https://github.com/acme/relay');
+    expect(normalizeRepoUrl('https://gitlab.com/Acme/Platform/Relay/-/tree/main')).toBe(
+      'https://gitlab.com/acme/platform/relay',
+    );
+    expect(parseRepoRef('git@gitlab.com:acme/platform/relay.git')).toEqual({
+      provider: 'gitlab',
+      host: 'gitlab.com',
+      owner: 'acme/platform',
+      repo: 'relay',
+    });
+    expect(normalizeRepoUrl('https://bitbucket.org/Acme/relay/src/main/')).toBe('https://bitbucket.org/acme/relay');
+    expect(() => normalizeRepoUrl('https://git.example.com/acme/relay')).toThrow('Invalid repository URL');
+    expect(() => normalizeRepoUrl('https://gitlab.com/acme')).toThrow('Invalid repository URL');
+  });
+
+  test('recognizes self-hosted GitLab instances from RELAY_GITLAB_HOSTS', () => {
+    process.env.RELAY_GITLAB_HOSTS = 'https://git.example.com, gitlab.internal:8443';
+
+    expect(parseRepoRef('https://git.example.com/acme/relay.git').provider).toBe('gitlab');
+    expect(normalizeRepoUrl('ssh://git@gitlab.internal:8443/acme/relay.git')).toBe(
+      'https://gitlab.internal:8443/acme/relay',
+    );
+  });
+
+  test('scopes KV keys by provider', () => {
+    expect(getRepoKeyScope('https://github.com/Acme/Relay')).toBe('github:https://github.com/acme/relay');
+    expect(getRepoKeyScope('https://bitbucket.org/acme/relay')).toBe('bitbucket:https://bitbucket.org/acme/relay');
+    expect(stripRepoKeyProvider('gitlab:https://gitlab.com/acme/relay')).toBe('https://gitlab.com/acme/relay');
+    expect(stripRepoKeyProvider('https://github.com/acme/relay')).toBe('https://github.com/acme/relay');
+  });
+
+  test('adopts legacy unscoped keys once per scoped key', async () => {
+    const mockedEval = vi.mocked((kv as unknown as { eval: (...args: unknown[]) => Promise<unknown> }).eval);
+    expect(getLegacyRepoKeyScope('https://github.com/Acme/Relay')).toBe('https://github.com/acme/relay');
+    expect(getLegacyRepoKeyScope('https://gitlab.com/acme/relay')).toBeNull();
+
+    const pairs: Array<[string, string]> = [
+      ['locks:https://github.com/acme/adopt:main', 'locks:github:https://github.com/acme/adopt:main'],
+      ['lockwait:https://github.com/acme/adopt:main', 'lockwait:github:https://github.com/acme/adopt:main'],
+    ];
+    await adoptLegacyRepoKeys(pairs);
+    await adoptLegacyRepoKeys(pairs);
+
+    expect(mockedEval).toHaveBeenCalledTimes(1);
+    expect(mockedEval.mock.calls[0][1]).toEqual(pairs.flat());
+  });
+
+  test('lists a GitLab tree page by page and caches the branch head', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/repository/branches/feature%2Flogin')) {
+        return jsonResponse({ commit: { id: 'c0ffee' } });
+      }
+      if (url.searchParams.get('page') === '1') {
+        return jsonResponse(
+          [
+            { id: 'sha-a', path: 'src/a.ts', type: 'blob' },
+            { id: 'tree-src', path: 'src', type: 'tree' },
+          ],
+          { 'x-next-page': '2' },
+        );
+      }
+      return jsonResponse([{ id: 'sha-b', path: 'src/b.ts', type: 'blob' }], { 'x-next-page': '' });
+    });
+
+    const provider = createRepoProvider('https://gitlab.com/acme/platform/relay');
+    expect(provider.kind).toBe('gitlab');
+    await expect(provider.getHead('feature/login')).resolves.toBe('c0ffee');
+    await expect(provider.getHead('feature/login')).resolves.toBe('c0ffee');
+    await expect(provider.listTree('c0ffee')).resolves.toEqual([
+      { path: 'src/a.ts', sha: 'sha-a' },
+      { path: 'src/b.ts', sha: 'sha-b' },
+    ]);
+
+    const requested = fetchMock.mock.calls.map(([input]) => new URL(String(input)));
+    expect(requested).toHaveLength(3);
+    expect(requested[0].pathname).toBe('/api/v4/projects/acme%2Fplatform%2Frelay/repository/branches/feature%2Flogin');
+  });
+
+  test('maps GitLab access levels and reads member permissions', async () => {
+    expect(permissionFromGitLabAccessLevel(50)).toBe('admin');
+    expect(permissionFromGitLabAccessLevel(30)).toBe('write');
+    expect(permissionFromGitLabAccessLevel(20)).toBe('read');
+    expect(permissionFromGitLabAccessLevel(5)).toBeNull();
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse([
+        { username: 'alice-admin', access_level: 50 },
+        { username: 'Alice', access_level: 30 },
+      ]),
+    );
+    await expect(new GitLabClient('gitlab.com', 'acme/relay', 'token').getMemberPermission('alice')).resolves.toBe(
+      'write',
+    );
+  });
+
+  test('walks Bitbucket source directories and reads files at a commit', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      const url = String(input);
+      if (url.includes('/src/abc123/lib/?')) {
+        return jsonResponse({ values: [{ type: 'commit_file', path: 'lib/locks.ts', size: 10 }] });
+      }
+      if (url.includes('/src/abc123/?')) {
+        return jsonResponse({
+          values: [
+            { type: 'commit_directory', path: 'lib' },
+            { type: 'commit_file', path: 'README.md', size: 4 },
+          ],
+        });
+      }
+      return new Response("import './kv';\n");
+    });
+
+    const client = new BitbucketClient('acme', 'relay', 'token');
+    await expect(client.listTree('abc123')).resolves.toEqual([
+      { path: 'lib/locks.ts', sha: 'abc123:lib/locks.ts', size: 10 },
+      { path: 'README.md', sha: 'abc123:README.md', size: 4 },
+    ]);
+    await expect(client.readBlob('lib/locks.ts', 'abc123:lib/locks.ts', 'abc123')).resolves.toBe("import './kv';\n");
+
+    expect(String(fetchMock.mock.calls[2][0])).toBe(
+      'https://api.bitbucket.org/2.0/repositories/acme/relay/src/abc123/lib/locks.ts',
+    );
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { Authorization: 'Bearer token' } });
+  });
+});
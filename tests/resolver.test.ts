@@ -1,5 +1,7 @@
 import { describe, expect, test } from 'vitest';
-import { ImportResolver, resolveImportPath } from '@/lib/resolver';
+import { ImportResolver, resolveImportPath, resolvePythonImport } from '@/lib/resolver';
+import type { PathAliasConfig } from '@/lib/tsconfig-paths';
+import type { WorkspacePackage } from '@/lib/workspaces';
 
 describe('resolveImportPath', () => {
   const files = new Set([
@@ -7,6 +9,8 @@ describe('resolveImportPath', () => {
     'src/core/index.ts',
     'src/features/auth/service.ts',
     'src/features/shared/helper.py',
+    'src/styles/globals.css',
+    'src/data/regions.json',
   ]);
 
   test('resolves simple relative import with extension probing', () => {
@@ -24,12 +28,123 @@ describe('resolveImportPath', () => {
     expect(resolved).toBe('src/core/index.ts');
   });
 
+  test('resolves imports that name a non-code file by its extension', () => {
+    expect(resolveImportPath('../styles/globals.css', 'src/features/view.tsx', files)).toBe('src/styles/globals.css');
+    expect(resolveImportPath('./data/regions.json', 'src/utils.ts', files)).toBe('src/data/regions.json');
+  });
+
   test('rejects external modules', () => {
     const resolved = resolveImportPath('lodash', 'src/main.ts', files);
     expect(resolved).toBeNull();
   });
 });
 
+describe('path alias resolution', () => {
+  const files = new Set(['lib/kv.ts', 'lib/locks.ts', 'app/api/locks/route.ts', 'packages/ui/src/index.tsx', 'types/env.d.ts']);
+  const rootConfig: PathAliasConfig = {
+    configPath: 'tsconfig.json',
+    configDir: '',
+    baseUrl: '',
+    pathsBase: '',
+    paths: { '@/*': ['./*'], '@ui': ['packages/ui/src'], '@ui/*': ['packages/ui/src/*'], 'env': ['types/env.d.ts'] },
+  };
+
+  test('resolves wildcard aliases with extension probing', () => {
+    expect(resolveImportPath('@/lib/kv', 'app/api/locks/route.ts', files, { pathConfigs: [rootConfig] })).toBe('lib/kv.ts');
+  });
+
+  test('prefers exact keys and probes index files', () => {
+    expect(resolveImportPath('@ui', 'lib/locks.ts', files, { pathConfigs: [rootConfig] })).toBe('packages/ui/src/index.tsx');
+    expect(resolveImportPath('env', 'lib/locks.ts', files, { pathConfigs: [rootConfig] })).toBe('types/env.d.ts');
+  });
+
+  test('falls back to baseUrl for bare specifiers and leaves packages unresolved', () => {
+    expect(resolveImportPath('lib/locks', 'app/api/locks/route.ts', files, { pathConfigs: [rootConfig] })).toBe('lib/locks.ts');
+    expect(resolveImportPath('react', 'app/api/locks/route.ts', files, { pathConfigs: [rootConfig] })).toBeNull();
+  });
+
+  test('only applies configs that contain the importing file', () => {
+    const nested: PathAliasConfig = { ...rootConfig, configPath: 'packages/ui/tsconfig.json', configDir: 'packages/ui' };
+    expect(resolveImportPath('@/lib/kv', 'app/api/locks/route.ts', files, { pathConfigs: [nested] })).toBeNull();
+  });
+});
+
+describe('Python import resolution', () => {
+  const files = new Set([
+    'mcp/main.py',
+    'mcp/src/__init__.py',
+    'mcp/src/models.py',
+    'mcp/src/tools.py',
+    'mcp/src/handlers/__init__.py',
+    'mcp/src/handlers/base.py',
+    'lib/src/relay_sdk/__init__.py',
+    'lib/src/relay_sdk/client.py',
+  ]);
+  const roots = ['lib/src', 'mcp', ''];
+
+  test('resolves dotted absolute imports against source roots', () => {
+    expect(resolveImportPath('src.models', 'mcp/src/tools.py', files, { pythonSourceRoots: roots })).toBe('mcp/src/models.py');
+    expect(resolveImportPath('relay_sdk.client', 'mcp/main.py', files, { pythonSourceRoots: roots })).toBe(
+      'lib/src/relay_sdk/client.py',
+    );
+    expect(resolveImportPath('src.handlers', 'mcp/main.py', files, { pythonSourceRoots: roots })).toBe(
+      'mcp/src/handlers/__init__.py',
+    );
+    expect(resolveImportPath('httpx', 'mcp/main.py', files, { pythonSourceRoots: roots })).toBeNull();
+  });
+
+  test('resolves leading-dot relative imports', () => {
+    expect(resolveImportPath('.models', 'mcp/src/tools.py', files)).toBe('mcp/src/models.py');
+    expect(resolveImportPath('..models', 'mcp/src/handlers/base.py', files)).toBe('mcp/src/models.py');
+    expect(resolveImportPath('.', 'mcp/src/handlers/base.py', files)).toBe('mcp/src/handlers/__init__.py');
+  });
+
+  test('treats imported names as submodules when they are files', () => {
+    expect(resolvePythonImport({ module: '.', names: ['base', 'missing'] }, 'mcp/src/handlers/__init__.py', files)).toEqual([
+      'mcp/src/handlers/base.py',
+    ]);
+    expect(resolvePythonImport({ module: '..', names: ['models', 'tools'] }, 'mcp/src/handlers/base.py', files)).toEqual([
+      'mcp/src/models.py',
+      'mcp/src/tools.py',
+    ]);
+    expect(
+      resolvePythonImport({ module: 'src.models', names: ['CheckStatusResponse'] }, 'mcp/src/tools.py', files, roots),
+    ).toEqual(['mcp/src/models.py']);
+  });
+});
+
+describe('workspace package resolution', () => {
+  const files = new Set([
+    'apps/web/app/page.tsx',
+    'packages/ui/src/index.ts',
+    'packages/ui/src/button.tsx',
+    'packages/config/index.js',
+    'packages/icons/src/index.ts',
+  ]);
+  const packages: WorkspacePackage[] = [
+    {
+      name: '@acme/ui',
+      dir: 'packages/ui',
+      exports: { '.': { types: './dist/index.d.ts', import: './dist/index.mjs' }, './*': './src/*.tsx' },
+    },
+    { name: '@acme/config', dir: 'packages/config', main: 'index.js' },
+    { name: '@acme/icons', dir: 'packages/icons', main: './lib/index.js' },
+  ];
+  const resolve = (specifier: string) =>
+    resolveImportPath(specifier, 'apps/web/app/page.tsx', files, { workspacePackages: packages });
+
+  test('maps exports entries that point at build output back to sources', () => {
+    expect(resolve('@acme/ui')).toBe('packages/ui/src/index.ts');
+    expect(resolve('@acme/ui/button')).toBe('packages/ui/src/button.tsx');
+  });
+
+  test('falls back to main and leaves unknown packages unresolved', () => {
+    expect(resolve('@acme/config')).toBe('packages/config/index.js');
+    expect(resolve('@acme/icons')).toBe('packages/icons/src/index.ts');
+    expect(resolve('react')).toBeNull();
+  });
+});
+
 describe('ImportResolver cache', () => {
   test('returns cached result on subsequent calls', () => {
     const files = new Set(['src/a.ts', 'src/b.ts']);
@@ -1,3 +1,7 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
 const { getCachedGraphMock } = vi.hoisted(() => ({
@@ -5,8 +9,6 @@ const { getCachedGraphMock } = vi.hoisted(() => ({
 }));
 
 vi.mock('@/lib/github', () => ({
-  parseRepoUrl: vi.fn(() => ({ owner: 'test', repo: 'repo' })),
-  normalizeRepoUrl: vi.fn((repoUrl: string) => repoUrl),
   getRepoHead: vi.fn(async () => 'remote-head'),
   getRepoHeadCached: vi.fn(async () => 'remote-head'),
   isGitHubQuotaError: vi.fn(() => false),
@@ -14,12 +16,47 @@ vi.mock('@/lib/github', () => ({
   getGitHubQuotaResetMs: vi.fn(() => Date.now() + 60_000),
 }));
 
-vi.mock('@/lib/locks', () => ({
+vi.mock('@/lib/locks', async (importOriginal) => ({
+  formatLockWaitState: (await importOriginal<typeof import('@/lib/locks')>()).formatLockWaitState,
   getLocks: vi.fn(async () => ({})),
   acquireLocks: vi.fn(async () => ({ success: true, locks: [] })),
   releaseLocks: vi.fn(async () => ({ success: true })),
   releaseAllLocks: vi.fn(async () => ({ success: true, released: 0 })),
+  renewLocks: vi.fn(async () => ({ success: true, renewed: [], missing: [] })),
+  updateLocks: vi.fn(async () => ({ success: true, locks: [], released: [] })),
+  expireLapsedLocks: vi.fn(async () => []),
   cleanupExpiredLocks: vi.fn(async () => 3),
+  clampLockTtl: vi.fn((ttlMs?: number | null) => ttlMs ?? 300_000),
+  findCoveringLocks: vi.fn(() => []),
+  getLockQueue: vi.fn(async () => ({})),
+  getLockWaitState: vi.fn(async () => ({ state: 'NOT_QUEUED', locks: [], queuePositions: {} })),
+  MAX_LOCK_TTL_MS: 1_800_000,
+}));
+
+vi.mock('@/lib/agent-tokens', () => ({
+  AGENT_UNAUTHORIZED_PAYLOAD: { error: 'Unauthorized', details: 'A valid agent token is required' },
+  authenticateAgentRequest: vi.fn(async (request: { headers?: Headers }) => {
+    const token = request.headers?.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    return token.startsWith('relay_')
+      ? { tokenId: `id-${token}`, agentName: token.slice('relay_'.length), ownerLogin: 'owner' }
+      : null;
+  }),
+}));
+
+vi.mock('@/lib/repo-access', () => ({
+  authorizeRepoAccess: vi.fn(async () => ({ allowed: true, role: 'admin' })),
+  getSessionPrincipal: vi.fn(async () => ({ login: 'owner', agentName: null })),
+  resolveRequestPrincipal: vi.fn(async () => null),
+}));
+
+vi.mock('@/lib/repo-registry', () => ({
+  listRegisteredRepositories: vi.fn(async () => []),
+  registerRepository: vi.fn(async (repoUrl: string, registeredBy: string) => ({
+    repo_url: repoUrl,
+    registered_by: registeredBy,
+    registered_at: 1,
+  })),
+  unregisterRepository: vi.fn(async () => true),
 }));
 
 vi.mock('@/lib/graph-service', () => ({
@@ -28,6 +65,21 @@ vi.mock('@/lib/graph-service', () => ({
   },
 }));
 
+vi.mock('@/lib/lock-policy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/lock-policy')>()),
+  evaluateNeighborLockPolicy: vi.fn(async () => ({
+    policy: { neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: false },
+    conflicts: [],
+    neighbors: [],
+  })),
+  getLockPolicy: vi.fn(async () => ({ neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: false })),
+  setLockPolicy: vi.fn(async (_repoUrl: string, policy: Record<string, unknown>, updatedBy: string) => ({
+    ...policy,
+    updated_by: updatedBy,
+    updated_at: 1,
+  })),
+}));
+
 vi.mock('@/lib/activity', () => ({
   publishActivityEvents: vi.fn(async () => undefined),
   getRecentActivityEvents: vi.fn(async () => []),
@@ -36,14 +88,42 @@ vi.mock('@/lib/activity', () => ({
 
 import { GET as graphGet } from '@/app/api/graph/route';
 import { GET as activityGet } from '@/app/api/activity/route';
+import { GET as locksGet } from '@/app/api/locks/route';
+import { GET as impactGet } from '@/app/api/impact/route';
 import { POST as checkStatusPost } from '@/app/api/check_status/route';
 import { GET as cleanupGet } from '@/app/api/cleanup_stale_locks/route';
 import { POST as postStatusPost } from '@/app/api/post_status/route';
 import { POST as releaseAllLocksPost } from '@/app/api/release_all_locks/route';
+import { POST as renewLocksPost } from '@/app/api/renew_locks/route';
+import { POST as updateLocksPost } from '@/app/api/update_locks/route';
+import { POST as lockQueuePost } from '@/app/api/lock_queue/route';
 import { POST as clearAgentAndFeedPost } from '@/app/api/clear_agent_and_feed/route';
+import { POST as reposPost } from '@/app/api/repos/route';
+import { POST as lockPolicyPost } from '@/app/api/lock_policy/route';
+import { POST as localGraphPost } from '@/app/api/local_graph/route';
 import { clearActivityEvents, getRecentActivityEvents, publishActivityEvents } from '@/lib/activity';
 import { getRepoHeadCached } from '@/lib/github';
-import { acquireLocks, getLocks, releaseAllLocks, releaseLocks } from '@/lib/locks';
+import {
+  acquireLocks,
+  expireLapsedLocks,
+  getLockQueue,
+  getLockWaitState,
+  getLocks,
+  releaseAllLocks,
+  releaseLocks,
+  renewLocks,
+  updateLocks,
+  type FileLock,
+  type LockEntry,
+} from '@/lib/locks';
+import {
+  evaluateNeighborLockPolicy,
+  getLockPolicy,
+  setLockPolicy,
+  type NeighborWriteConflict,
+} from '@/lib/lock-policy';
+import { authorizeRepoAccess, getSessionPrincipal } from '@/lib/repo-access';
+import { registerRepository } from '@/lib/repo-registry';
 
 const mockedPublishActivityEvents = vi.mocked(publishActivityEvents);
 const mockedGetRecentActivityEvents = vi.mocked(getRecentActivityEvents);
@@ -53,6 +133,60 @@ const mockedGetLocks = vi.mocked(getLocks);
 const mockedAcquireLocks = vi.mocked(acquireLocks);
 const mockedReleaseLocks = vi.mocked(releaseLocks);
 const mockedReleaseAllLocks = vi.mocked(releaseAllLocks);
+const mockedRenewLocks = vi.mocked(renewLocks);
+const mockedUpdateLocks = vi.mocked(updateLocks);
+const mockedExpireLapsedLocks = vi.mocked(expireLapsedLocks);
+const mockedGetLockQueue = vi.mocked(getLockQueue);
+const mockedGetLockWaitState = vi.mocked(getLockWaitState);
+const mockedAuthorizeRepoAccess = vi.mocked(authorizeRepoAccess);
+const mockedGetSessionPrincipal = vi.mocked(getSessionPrincipal);
+const mockedRegisterRepository = vi.mocked(registerRepository);
+const mockedEvaluateNeighborLockPolicy = vi.mocked(evaluateNeighborLockPolicy);
+const mockedSetLockPolicy = vi.mocked(setLockPolicy);
+const mockedGetLockPolicy = vi.mocked(getLockPolicy);
+
+const NEIGHBOR_EDGE = {
+  distance: 1,
+  edge: { source: 'src/b.ts', target: 'src/a.ts', type: 'runtime' as const },
+  path: ['src/a.ts', 'src/b.ts'],
+};
+
+const NEIGHBOR_CONFLICT: NeighborWriteConflict = {
+  file_path: 'src/a.ts',
+  neighbor: 'src/b.ts',
+  user_id: 'other-agent',
+  user_name: 'other-agent',
+  ...NEIGHBOR_EDGE,
+};
+
+function deniedAccess(role: 'viewer' | 'agent' | null, requiredRole: 'viewer' | 'agent' | 'admin') {
+  const details = `caller has ${role ?? 'no'} access; ${requiredRole} role required`;
+  return {
+    allowed: false as const,
+    role,
+    payload: {
+      error: 'Forbidden' as const,
+      details,
+      repo_url: 'https://github.com/a/b',
+      required_role: requiredRole,
+      role,
+      orchestration: {
+        type: 'orchestration_command' as const,
+        action: 'STOP' as const,
+        command: null,
+        reason: `Access denied: ${details}`,
+      },
+    },
+  };
+}
+
+function agentHeaders(agentName = 'agent-user'): Headers {
+  return new Headers([['authorization', `Bearer relay_${agentName}`]]);
+}
+
+function fileLock(entry: LockEntry, ...otherHolders: LockEntry[]): FileLock {
+  return { ...entry, holders: [entry, ...otherHolders] };
+}
 
 describe('route smoke checks', () => {
   beforeEach(() => {
@@ -61,25 +195,47 @@ describe('route smoke checks', () => {
     mockedAcquireLocks.mockClear();
     mockedReleaseLocks.mockClear();
     mockedReleaseAllLocks.mockClear();
+    mockedRenewLocks.mockClear();
+    mockedUpdateLocks.mockClear();
+    mockedExpireLapsedLocks.mockClear();
+    mockedGetLockQueue.mockClear();
+    mockedGetLockWaitState.mockClear();
     mockedPublishActivityEvents.mockClear();
     mockedGetRecentActivityEvents.mockClear();
     mockedClearActivityEvents.mockClear();
     getCachedGraphMock.mockClear();
+    mockedAuthorizeRepoAccess.mockClear();
+    mockedGetSessionPrincipal.mockClear();
+    mockedRegisterRepository.mockClear();
+    mockedEvaluateNeighborLockPolicy.mockClear();
+    mockedSetLockPolicy.mockClear();
 
     mockedGetRepoHead.mockResolvedValue('remote-head');
     mockedGetLocks.mockResolvedValue({});
     mockedAcquireLocks.mockResolvedValue({ success: true, locks: [] });
     mockedReleaseLocks.mockResolvedValue({ success: true });
     mockedReleaseAllLocks.mockResolvedValue({ success: true, released: 0 });
+    mockedRenewLocks.mockResolvedValue({ success: true, renewed: [], missing: [] });
+    mockedUpdateLocks.mockResolvedValue({ success: true, locks: [], released: [] });
+    mockedExpireLapsedLocks.mockResolvedValue([]);
+    mockedGetLockQueue.mockResolvedValue({});
+    mockedGetLockWaitState.mockResolvedValue({ state: 'NOT_QUEUED', locks: [], queuePositions: {} });
     mockedGetRecentActivityEvents.mockResolvedValue([]);
     mockedClearActivityEvents.mockResolvedValue({ success: true, cleared: 0 });
     getCachedGraphMock.mockResolvedValue(null);
+    mockedAuthorizeRepoAccess.mockResolvedValue({ allowed: true, role: 'admin' });
+    mockedGetSessionPrincipal.mockResolvedValue({ login: 'owner', agentName: null });
+    mockedEvaluateNeighborLockPolicy.mockResolvedValue({
+      policy: { neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [],
+      neighbors: [],
+    });
   });
 
   test('check_status returns lock_type DIRECT and user alias for requested lock', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedGetLocks.mockResolvedValueOnce({
-      'src/a.ts': {
+      'src/a.ts': fileLock({
         file_path: 'src/a.ts',
         user_id: 'user-1',
         user_name: 'User One',
@@ -88,7 +244,7 @@ describe('route smoke checks', () => {
         message: 'work',
         timestamp: 100,
         expiry: 200,
-      },
+      }),
     });
 
     const request = {
@@ -98,7 +254,7 @@ describe('route smoke checks', () => {
         file_paths: ['src/a.ts'],
         agent_head: 'remote-head',
       }),
-      headers: new Headers([['x-github-user', 'other-user']]),
+      headers: agentHeaders('other-user'),
     } as any;
 
     const response = await checkStatusPost(request);
@@ -113,7 +269,7 @@ describe('route smoke checks', () => {
   test('check_status returns lock_type NEIGHBOR for neighbor lock', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedGetLocks.mockResolvedValueOnce({
-      'src/dependency.ts': {
+      'src/dependency.ts': fileLock({
         file_path: 'src/dependency.ts',
         user_id: 'neighbor-user',
         user_name: 'Neighbor User',
@@ -122,11 +278,11 @@ describe('route smoke checks', () => {
         message: 'editing dependency',
         timestamp: 110,
         expiry: 210,
-      },
+      }),
     });
     getCachedGraphMock.mockResolvedValueOnce({
       nodes: [],
-      edges: [{ source: 'src/a.ts', target: 'src/dependency.ts', type: 'import' }],
+      edges: [{ source: 'src/a.ts', target: 'src/dependency.ts', type: 'runtime' }],
       locks: {},
       version: 'v1',
       metadata: {
@@ -143,7 +299,7 @@ describe('route smoke checks', () => {
         file_paths: ['src/a.ts'],
         agent_head: 'remote-head',
       }),
-      headers: new Headers([['x-github-user', 'agent-user']]),
+      headers: agentHeaders('agent-user'),
     } as any;
 
     const response = await checkStatusPost(request);
@@ -154,10 +310,93 @@ describe('route smoke checks', () => {
     expect(payload.locks['src/dependency.ts'].lock_type).toBe('NEIGHBOR');
   });
 
+  test('check_status reports symbol locks only for files that use the symbol', async () => {
+    const symbolLocks = {
+      'src/dependency.ts#helper': fileLock({
+        file_path: 'src/dependency.ts#helper',
+        user_id: 'neighbor-user',
+        user_name: 'Neighbor User',
+        status: 'WRITING',
+        agent_head: 'remote-head',
+        message: 'editing helper',
+        timestamp: 110,
+        expiry: 210,
+      }),
+    };
+    const symbolGraph = (names: string[]) => ({
+      nodes: [],
+      edges: [{ source: 'src/a.ts', target: 'src/dependency.ts', type: 'runtime' }],
+      symbol_edges: names.map((name) => ({ source: 'src/a.ts', target: `src/dependency.ts#${name}`, type: 'runtime' })),
+      locks: {},
+      version: 'v1',
+      metadata: { generated_at: 1, files_processed: 1, edges_found: 1 },
+    });
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce(symbolLocks);
+    getCachedGraphMock.mockResolvedValueOnce(symbolGraph(['format']) as any);
+    const unrelated = await (await checkStatusPost(request)).json();
+    expect(unrelated.status).toBe('OK');
+
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce(symbolLocks);
+    getCachedGraphMock.mockResolvedValueOnce(symbolGraph(['helper']) as any);
+    const used = await (await checkStatusPost(request)).json();
+    expect(used.status).toBe('CONFLICT');
+    expect(used.locks['src/dependency.ts#helper'].lock_type).toBe('NEIGHBOR');
+  });
+
+  test('check_status skips type-only neighbours when the lock policy ignores them', async () => {
+    mockedGetLockPolicy.mockResolvedValueOnce({ neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: true });
+    mockedGetLocks.mockResolvedValueOnce({
+      'src/types.ts': fileLock({
+        file_path: 'src/types.ts',
+        user_id: 'neighbor-user',
+        user_name: 'Neighbor User',
+        status: 'WRITING',
+        agent_head: 'remote-head',
+        message: 'editing types',
+        timestamp: 110,
+        expiry: Date.now() + 60_000,
+      }),
+    });
+    getCachedGraphMock.mockResolvedValueOnce({
+      nodes: [],
+      edges: [{ source: 'src/a.ts', target: 'src/types.ts', type: 'type-only' }],
+      locks: {},
+      version: 'v1',
+      metadata: { generated_at: 1, files_processed: 1, edges_found: 1 },
+    } as any);
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const payload = await (await checkStatusPost(request)).json();
+
+    expect(payload.locks['src/types.ts']).toBeUndefined();
+    expect(payload.status).toBe('OK');
+  });
+
   test('check_status does not report CONFLICT for own lock', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedGetLocks.mockResolvedValueOnce({
-      'src/a.ts': {
+      'src/a.ts': fileLock({
         file_path: 'src/a.ts',
         user_id: 'agent-user',
         user_name: 'Agent User',
@@ -166,7 +405,7 @@ describe('route smoke checks', () => {
         message: 'work',
         timestamp: 100,
         expiry: 200,
-      },
+      }),
     });
 
     const request = {
@@ -176,7 +415,7 @@ describe('route smoke checks', () => {
         file_paths: ['src/a.ts'],
         agent_head: 'remote-head',
       }),
-      headers: new Headers([['x-github-user', 'agent-user']]),
+      headers: agentHeaders('agent-user'),
     } as any;
 
     const response = await checkStatusPost(request);
@@ -187,10 +426,226 @@ describe('route smoke checks', () => {
     expect(payload.locks['src/a.ts'].user_id).toBe('agent-user');
   });
 
-  test('check_status falls back requesting user from x-github-username header', async () => {
+  test('check_status lists another reader without reporting a conflict for a shared read', async () => {
+    const ownRead: LockEntry = {
+      file_path: 'src/a.ts',
+      user_id: 'agent-user',
+      user_name: 'Agent User',
+      status: 'READING',
+      agent_head: 'remote-head',
+      message: 'reading',
+      timestamp: 100,
+      expiry: 200,
+    };
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce({
+      'src/a.ts': fileLock(ownRead, { ...ownRead, user_id: 'other-user', user_name: 'Other User', timestamp: 90 }),
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.status).toBe('OK');
+    expect(payload.locks['src/a.ts'].holders).toHaveLength(2);
+    expect(payload.orchestration.action).toBe('PROCEED');
+  });
+
+  test('check_status reports CONFLICT with another reader when the caller intends to write', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce({
+      'src/a.ts': fileLock({
+        file_path: 'src/a.ts',
+        user_id: 'other-user',
+        user_name: 'Other User',
+        status: 'READING',
+        agent_head: 'remote-head',
+        message: 'reading',
+        timestamp: 90,
+        expiry: 200,
+      }),
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+        status: 'WRITING',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.status).toBe('CONFLICT');
+    expect(payload.orchestration.reason).toContain('Other User');
+  });
+
+  test('check_status reports the directory lock that covers a requested file', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce({
+      'app/api/**': fileLock({
+        file_path: 'app/api/**',
+        user_id: 'other-user',
+        user_name: 'Other User',
+        status: 'WRITING',
+        agent_head: 'remote-head',
+        message: 'restructuring api routes',
+        timestamp: 100,
+        expiry: 200,
+      }),
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['app/api/graph/route.ts', 'lib/locks.ts'],
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.status).toBe('CONFLICT');
+    expect(payload.locks['app/api/graph/route.ts'].covered_by).toBe('app/api/**');
+    expect(payload.locks['lib/locks.ts']).toBeUndefined();
+    expect(payload.orchestration.reason).toContain("via 'app/api/**'");
+  });
+
+  test('check_status reports a covering writer when another agent already reads the file', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce({
+      'src/a.ts': fileLock({
+        file_path: 'src/a.ts',
+        user_id: 'agent-b',
+        user_name: 'Agent B',
+        status: 'READING',
+        agent_head: 'remote-head',
+        message: 'reading a',
+        timestamp: 90,
+        expiry: 200,
+      }),
+      'src/**': fileLock({
+        file_path: 'src/**',
+        user_id: 'agent-c',
+        user_name: 'Agent C',
+        status: 'WRITING',
+        agent_head: 'remote-head',
+        message: 'restructuring src',
+        timestamp: 100,
+        expiry: 200,
+      }),
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+        status: 'READING',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.status).toBe('CONFLICT');
+    expect(payload.orchestration.action).not.toBe('PROCEED');
+    expect(payload.locks['src/a.ts'].covered_by).toBe('src/**');
+    expect(payload.locks['src/a.ts'].holders.map((holder: LockEntry) => holder.user_id)).toEqual(['agent-b', 'agent-c']);
+    expect(payload.orchestration.reason).toContain('Agent C');
+  });
+
+  test('check_status reports file locks inside a requested directory', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLocks.mockResolvedValueOnce({
+      'app/components/GraphPanel.tsx': fileLock({
+        file_path: 'app/components/GraphPanel.tsx',
+        user_id: 'other-user',
+        user_name: 'Other User',
+        status: 'READING',
+        agent_head: 'remote-head',
+        message: 'reading',
+        timestamp: 100,
+        expiry: 200,
+      }),
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['app/components/'],
+        agent_head: 'remote-head',
+        status: 'WRITING',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.status).toBe('CONFLICT');
+    expect(payload.locks['app/components/GraphPanel.tsx'].lock_type).toBe('DIRECT');
+  });
+
+  test('check_status includes the wait queue for requested files', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    mockedGetLockQueue.mockResolvedValueOnce({
+      'src/a.ts': [
+        {
+          user_id: 'waiting-user',
+          user_name: 'Waiting User',
+          status: 'WRITING',
+          message: 'next up',
+          file_paths: ['src/a.ts'],
+          position: 1,
+          enqueued_at: 100,
+        },
+      ],
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await checkStatusPost(request);
+    const payload = await response.json();
+
+    expect(mockedGetLockQueue).toHaveBeenCalledWith('https://github.com/a/b', 'main', ['src/a.ts']);
+    expect(payload.queue['src/a.ts'][0].user_id).toBe('waiting-user');
+    expect(payload.queue['src/a.ts'][0].position).toBe(1);
+  });
+
+  test('check_status takes the requesting agent from its token', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedGetLocks.mockResolvedValueOnce({
-      'src/a.ts': {
+      'src/a.ts': fileLock({
         file_path: 'src/a.ts',
         user_id: 'fallback-user',
         user_name: 'Fallback User',
@@ -199,7 +654,7 @@ describe('route smoke checks', () => {
         message: 'work',
         timestamp: 100,
         expiry: 200,
-      },
+      }),
     });
 
     const request = {
@@ -209,7 +664,7 @@ describe('route smoke checks', () => {
         file_paths: ['src/a.ts'],
         agent_head: 'remote-head',
       }),
-      headers: new Headers([['x-github-username', 'fallback-user']]),
+      headers: agentHeaders('fallback-user'),
     } as any;
 
     const response = await checkStatusPost(request);
@@ -219,8 +674,27 @@ describe('route smoke checks', () => {
     expect(payload.status).toBe('OK');
   });
 
+  test('coordination routes return 401 without a valid agent token', async () => {
+    const body = {
+      repo_url: 'https://github.com/a/b',
+      branch: 'main',
+      file_paths: ['src/a.ts'],
+      status: 'WRITING',
+      message: 'work',
+      agent_head: 'remote-head',
+    };
+    const unauthenticated = () => ({ json: async () => body, headers: new Headers() }) as any;
+
+    for (const handler of [checkStatusPost, postStatusPost, updateLocksPost, renewLocksPost, lockQueuePost]) {
+      const response = await handler(unauthenticated());
+      expect(response.status).toBe(401);
+    }
+    expect(mockedAcquireLocks).not.toHaveBeenCalled();
+    expect(mockedReleaseLocks).not.toHaveBeenCalled();
+  });
+
   test('check_status returns 400 on missing fields', async () => {
-    const request = { json: async () => ({}) } as any;
+    const request = { json: async () => ({}), headers: agentHeaders() } as any;
     const response = await checkStatusPost(request);
 
     expect(response.status).toBe(400);
@@ -238,7 +712,7 @@ describe('route smoke checks', () => {
         file_paths: ['src/a.ts'],
         agent_head: 'local-head',
       }),
-      headers: new Headers(),
+      headers: agentHeaders(),
     } as any;
 
     const response = await checkStatusPost(request);
@@ -251,7 +725,7 @@ describe('route smoke checks', () => {
   });
 
   test('post_status returns 400 on missing fields', async () => {
-    const request = { json: async () => ({}) } as any;
+    const request = { json: async () => ({}), headers: agentHeaders() } as any;
     const response = await postStatusPost(request);
 
     expect(response.status).toBe(400);
@@ -270,7 +744,7 @@ describe('route smoke checks', () => {
         message: 'work',
         agent_head: 'local-head',
       }),
-      headers: new Headers(),
+      headers: agentHeaders(),
     } as any;
 
     const response = await postStatusPost(request);
@@ -300,7 +774,7 @@ describe('route smoke checks', () => {
         message: 'work',
         agent_head: 'same-head',
       }),
-      headers: new Headers(),
+      headers: agentHeaders(),
     } as any;
 
     const response = await postStatusPost(request);
@@ -313,11 +787,15 @@ describe('route smoke checks', () => {
     expect(payload.orchestration.type).toBe('orchestration_command');
   });
 
-  test('post_status surfaces non-conflict lock acquisition failures without undefined placeholders', async () => {
+  test('post_status queues the caller and returns WAIT when wait mode is requested', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('same-head');
     mockedAcquireLocks.mockResolvedValueOnce({
       success: false,
-      reason: 'INTERNAL_ERROR',
+      reason: 'FILE_CONFLICT',
+      conflictingFile: 'src/a.ts',
+      conflictingUser: 'user2',
+      queued: true,
+      queuePositions: { 'src/a.ts': 2 },
     });
 
     const request = {
@@ -328,47 +806,239 @@ describe('route smoke checks', () => {
         status: 'WRITING',
         message: 'work',
         agent_head: 'same-head',
+        wait: true,
       }),
-      headers: new Headers(),
+      headers: agentHeaders('agent-user'),
     } as any;
 
     const response = await postStatusPost(request);
     const payload = await response.json();
 
-    expect(response.status).toBe(200);
+    expect(mockedAcquireLocks).toHaveBeenCalledWith(expect.objectContaining({ wait: true }));
     expect(payload.success).toBe(false);
-    expect(payload.orchestration.action).toBe('SWITCH_TASK');
-    expect(payload.orchestration.reason).toBe('INTERNAL_ERROR');
-    expect(payload.orchestration.reason).not.toContain('undefined');
+    expect(payload.queued).toBe(true);
+    expect(payload.queue_positions).toEqual({ 'src/a.ts': 2 });
+    expect(payload.orchestration.action).toBe('WAIT');
+    expect(mockedPublishActivityEvents).not.toHaveBeenCalled();
   });
 
-  test('post_status returns orphaned_dependencies on OPEN', async () => {
-    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
-    getCachedGraphMock.mockResolvedValueOnce({
-      nodes: [],
-      edges: [
-        { source: 'src/app.ts', target: 'src/auth.ts', type: 'import' },
-        { source: 'src/auth.ts', target: 'src/util.ts', type: 'import' },
-      ],
-      locks: {},
-      version: 'v1',
-      metadata: {
-        generated_at: 1,
-        files_processed: 2,
-        edges_found: 2,
-      },
-    } as any);
+  test('post_status names the covering pattern lock on conflict', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('same-head');
+    mockedAcquireLocks.mockResolvedValueOnce({
+      success: false,
+      reason: 'FILE_CONFLICT',
+      conflictingFile: 'app/api/graph/route.ts',
+      conflictingScope: 'app/api/**',
+      conflictingUser: 'user2',
+    });
 
     const request = {
       json: async () => ({
         repo_url: 'https://github.com/a/b',
         branch: 'main',
-        file_paths: ['src/auth.ts'],
-        status: 'OPEN',
-        message: 'done',
-      }),
-      headers: new Headers([['x-github-user', 'agent-user']]),
-    } as any;
+        file_paths: ['app/api/graph/route.ts'],
+        status: 'WRITING',
+        message: 'work',
+        agent_head: 'same-head',
+      }),
+      headers: agentHeaders(),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.orchestration.reason).toBe('FILE_CONFLICT: app/api/graph/route.ts locked by user2 via app/api/**');
+  });
+
+  test('post_status surfaces non-conflict lock acquisition failures without undefined placeholders', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('same-head');
+    mockedAcquireLocks.mockResolvedValueOnce({
+      success: false,
+      reason: 'INTERNAL_ERROR',
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'work',
+        agent_head: 'same-head',
+      }),
+      headers: agentHeaders(),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(false);
+    expect(payload.orchestration.action).toBe('SWITCH_TASK');
+    expect(payload.orchestration.reason).toBe('INTERNAL_ERROR');
+    expect(payload.orchestration.reason).not.toContain('undefined');
+  });
+
+  test('post_status blocks WRITING next to another writer when the repo policy says block', async () => {
+    mockedEvaluateNeighborLockPolicy.mockResolvedValueOnce({
+      policy: { neighbor_mode: 'block', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [NEIGHBOR_CONFLICT],
+      neighbors: [],
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'edit a',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.success).toBe(false);
+    expect(payload.neighbor_conflicts[0].edge).toEqual({ source: 'src/b.ts', target: 'src/a.ts', type: 'runtime' });
+    expect(payload.orchestration.action).toBe('SWITCH_TASK');
+    expect(payload.orchestration.reason).toBe(
+      'NEIGHBOR_CONFLICT: src/b.ts is being written by other-agent (src/b.ts imports src/a.ts; 1 hop from src/a.ts)',
+    );
+    expect(mockedEvaluateNeighborLockPolicy).toHaveBeenCalledWith('https://github.com/a/b', 'main', ['src/a.ts'], 'agent-user');
+    expect(mockedAcquireLocks).not.toHaveBeenCalled();
+  });
+
+  test('post_status has the lock script re-check neighbours in block mode and reports a late writer', async () => {
+    const coupled = { start: 'src/a.ts', neighbor: 'src/b.ts', includeSymbols: true, ...NEIGHBOR_EDGE };
+    mockedEvaluateNeighborLockPolicy.mockResolvedValueOnce({
+      policy: { neighbor_mode: 'block', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [],
+      neighbors: [coupled],
+    });
+    // Another agent claimed src/b.ts after the preview read; the script sees it.
+    mockedAcquireLocks.mockResolvedValueOnce({
+      success: false,
+      reason: 'NEIGHBOR_CONFLICT',
+      conflictingFile: 'src/b.ts',
+      conflictingScope: 'src/b.ts',
+      conflictingUser: 'other-agent',
+      conflictingStatus: 'WRITING',
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'edit a',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(mockedAcquireLocks).toHaveBeenCalledWith(expect.objectContaining({ neighborGuards: [coupled] }));
+    expect(payload.success).toBe(false);
+    expect(payload.neighbor_conflicts).toEqual([NEIGHBOR_CONFLICT]);
+    expect(payload.orchestration.reason).toBe(
+      'NEIGHBOR_CONFLICT: src/b.ts is being written by other-agent (src/b.ts imports src/a.ts; 1 hop from src/a.ts)',
+    );
+    expect(mockedPublishActivityEvents).not.toHaveBeenCalled();
+  });
+
+  test('post_status grants WRITING with a warning when the neighbour policy only warns', async () => {
+    mockedEvaluateNeighborLockPolicy.mockResolvedValueOnce({
+      policy: { neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [NEIGHBOR_CONFLICT],
+      neighbors: [],
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'edit a',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(payload.success).toBe(true);
+    expect(payload.orchestration.action).toBe('PROCEED');
+    expect(payload.warnings).toEqual([
+      'NEIGHBOR_WRITING: src/b.ts is being written by other-agent (src/b.ts imports src/a.ts; 1 hop from src/a.ts)',
+    ]);
+    expect(mockedAcquireLocks).toHaveBeenCalled();
+  });
+
+  test('lock_policy route lets repo admins set the neighbour policy', async () => {
+    const request = {
+      json: async () => ({ repo_url: 'https://github.com/a/b', neighbor_mode: 'block', neighbor_depth: 2 }),
+    } as any;
+
+    const response = await lockPolicyPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.policy).toEqual({
+      neighbor_mode: 'block',
+      neighbor_depth: 2,
+      ignore_type_only_edges: false,
+      updated_by: 'owner',
+      updated_at: 1,
+    });
+    expect(mockedAuthorizeRepoAccess).toHaveBeenCalledWith('https://github.com/a/b', { login: 'owner', agentName: null }, 'admin');
+  });
+
+  test('lock_policy route rejects out-of-range depths', async () => {
+    const request = {
+      json: async () => ({ repo_url: 'https://github.com/a/b', neighbor_mode: 'warn', neighbor_depth: 9 }),
+    } as any;
+
+    const response = await lockPolicyPost(request);
+
+    expect(response.status).toBe(400);
+    expect(mockedSetLockPolicy).not.toHaveBeenCalled();
+  });
+
+  test('post_status returns orphaned_dependencies on OPEN', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+    getCachedGraphMock.mockResolvedValueOnce({
+      nodes: [],
+      edges: [
+        { source: 'src/app.ts', target: 'src/auth.ts', type: 'runtime' },
+        { source: 'src/auth.ts', target: 'src/util.ts', type: 'runtime' },
+      ],
+      locks: {},
+      version: 'v1',
+      metadata: {
+        generated_at: 1,
+        files_processed: 2,
+        edges_found: 2,
+      },
+    } as any);
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/auth.ts'],
+        status: 'OPEN',
+        message: 'done',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
 
     const response = await postStatusPost(request);
     const payload = await response.json();
@@ -406,7 +1076,7 @@ describe('route smoke checks', () => {
         status: 'OPEN',
         message: 'done',
       }),
-      headers: new Headers([['x-github-user', 'agent-user']]),
+      headers: agentHeaders('agent-user'),
     } as any;
 
     const response = await postStatusPost(request);
@@ -418,7 +1088,7 @@ describe('route smoke checks', () => {
     expect(payload.orchestration.reason).toBe('Failed to release locks');
   });
 
-  test('post_status uses x-github-username as fallback for user identity', async () => {
+  test('post_status binds lock ownership to the token agent, not identity headers', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedAcquireLocks.mockResolvedValueOnce({
       success: true,
@@ -434,7 +1104,7 @@ describe('route smoke checks', () => {
         message: 'work',
         agent_head: 'remote-head',
       }),
-      headers: new Headers([['x-github-username', 'fallback-user']]),
+      headers: agentHeaders('fallback-user'),
     } as any;
 
     const response = await postStatusPost(request);
@@ -457,6 +1127,53 @@ describe('route smoke checks', () => {
     );
   });
 
+  test('post_status checks the token owner for the agent role before locking', async () => {
+    mockedAuthorizeRepoAccess.mockResolvedValueOnce(deniedAccess('viewer', 'agent'));
+
+    const request = {
+      headers: agentHeaders('reader-agent'),
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'edit',
+        agent_head: 'remote-head',
+      }),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(mockedAuthorizeRepoAccess).toHaveBeenCalledWith(
+      'https://github.com/a/b',
+      { login: 'owner', agentName: 'reader-agent' },
+      'agent',
+    );
+    expect(payload).toMatchObject({
+      error: 'Forbidden',
+      required_role: 'agent',
+      role: 'viewer',
+      orchestration: { action: 'STOP' },
+    });
+    expect(mockedAcquireLocks).not.toHaveBeenCalled();
+  });
+
+  test('activity route returns 403 for callers without read access', async () => {
+    mockedAuthorizeRepoAccess.mockResolvedValueOnce(deniedAccess(null, 'viewer'));
+
+    const request = {
+      headers: new Headers(),
+      url: 'http://localhost/api/activity?repo_url=https://github.com/a/b&branch=main',
+    } as any;
+
+    const response = await activityGet(request);
+
+    expect(response.status).toBe(403);
+    expect(mockedGetRecentActivityEvents).not.toHaveBeenCalled();
+  });
+
   test('post_status records READING locks and publishes activity', async () => {
     mockedGetRepoHead.mockResolvedValueOnce('remote-head');
     mockedAcquireLocks.mockResolvedValueOnce({
@@ -483,7 +1200,7 @@ describe('route smoke checks', () => {
         status: 'READING',
         message: 'reviewing',
       }),
-      headers: new Headers([['x-github-user', 'reader']]),
+      headers: agentHeaders('reader'),
     } as any;
 
     const response = await postStatusPost(request);
@@ -506,6 +1223,321 @@ describe('route smoke checks', () => {
     );
   });
 
+  test('post_status forwards requested ttl_ms to lock acquisition', async () => {
+    mockedGetRepoHead.mockResolvedValueOnce('remote-head');
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'long refactor',
+        agent_head: 'remote-head',
+        ttl_ms: 900_000,
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await postStatusPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.lock_ttl_ms).toBe(900_000);
+    expect(mockedExpireLapsedLocks).toHaveBeenCalledWith('https://github.com/a/b', 'main');
+    expect(mockedAcquireLocks).toHaveBeenCalledWith(expect.objectContaining({ ttlMs: 900_000 }));
+  });
+
+  test('post_status rejects a non-integer ttl_ms', async () => {
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        status: 'WRITING',
+        message: 'work',
+        agent_head: 'remote-head',
+        ttl_ms: 'forever',
+      }),
+      headers: agentHeaders(),
+    } as any;
+
+    const response = await postStatusPost(request);
+
+    expect(response.status).toBe(400);
+    expect(mockedAcquireLocks).not.toHaveBeenCalled();
+  });
+
+  test('renew_locks extends held locks without touching GitHub or the feed', async () => {
+    mockedRenewLocks.mockResolvedValueOnce({
+      success: true,
+      renewed: [
+        {
+          file_path: 'src/a.ts',
+          user_id: 'agent-user',
+          user_name: 'agent-user',
+          status: 'WRITING',
+          agent_head: 'remote-head',
+          message: 'work',
+          timestamp: 100,
+          expiry: 600_100,
+        },
+      ],
+      missing: [],
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/a.ts'],
+        ttl_ms: 600_000,
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await renewLocksPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(true);
+    expect(payload.orchestration.action).toBe('PROCEED');
+    expect(mockedRenewLocks).toHaveBeenCalledWith('https://github.com/a/b', 'main', ['src/a.ts'], 'agent-user', 600_000);
+    expect(mockedGetRepoHead).not.toHaveBeenCalled();
+    expect(mockedPublishActivityEvents).not.toHaveBeenCalled();
+  });
+
+  test('update_locks applies a batch of transitions and publishes one event set', async () => {
+    const lock = (filePath: string, status: 'READING' | 'WRITING') => ({
+      file_path: filePath,
+      user_id: 'agent-user',
+      user_name: 'agent-user',
+      status,
+      agent_head: 'remote-head',
+      message: 'split work',
+      timestamp: 1,
+      expiry: 300_001,
+    });
+    mockedUpdateLocks.mockResolvedValueOnce({
+      success: true,
+      locks: [lock('src/a.ts', 'READING'), lock('src/c.ts', 'WRITING')],
+      released: ['src/b.ts'],
+    });
+
+    const transitions = [
+      { file_path: 'src/a.ts', status: 'READING' },
+      { file_path: 'src/b.ts', status: 'OPEN' },
+      { file_path: 'src/c.ts', status: 'WRITING' },
+    ];
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        transitions,
+        message: 'split work',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await updateLocksPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(true);
+    expect(payload.released).toEqual(['src/b.ts']);
+    expect(mockedUpdateLocks).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'agent-user',
+        transitions: [
+          { filePath: 'src/a.ts', status: 'READING' },
+          { filePath: 'src/b.ts', status: 'OPEN' },
+          { filePath: 'src/c.ts', status: 'WRITING' },
+        ],
+      }),
+    );
+    expect(mockedPublishActivityEvents).toHaveBeenCalledTimes(1);
+    expect(mockedPublishActivityEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transitions: [
+          { filePath: 'src/a.ts', status: 'READING' },
+          { filePath: 'src/c.ts', status: 'WRITING' },
+          { filePath: 'src/b.ts', status: 'OPEN' },
+        ],
+        message: 'split work',
+      }),
+    );
+  });
+
+  test('update_locks applies nothing and returns SWITCH_TASK on conflict', async () => {
+    mockedUpdateLocks.mockResolvedValueOnce({
+      success: false,
+      locks: [],
+      released: [],
+      reason: 'FILE_CONFLICT',
+      conflictingFile: 'src/c.ts',
+      conflictingUser: 'other-agent',
+      conflictingStatus: 'WRITING',
+      conflictingScope: 'src/**',
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        transitions: [{ file_path: 'src/c.ts', status: 'WRITING' }],
+        message: 'take c',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await updateLocksPost(request);
+    const payload = await response.json();
+
+    expect(payload.success).toBe(false);
+    expect(payload.orchestration.action).toBe('SWITCH_TASK');
+    expect(payload.orchestration.reason).toBe(
+      'FILE_CONFLICT: src/c.ts locked by other-agent via src/**. No transitions were applied.',
+    );
+    expect(mockedPublishActivityEvents).not.toHaveBeenCalled();
+  });
+
+  test('update_locks passes neighbour guards only in block mode and reports a late neighbour writer', async () => {
+    const coupled = { start: 'src/a.ts', neighbor: 'src/b.ts', includeSymbols: true, ...NEIGHBOR_EDGE };
+    mockedEvaluateNeighborLockPolicy.mockResolvedValueOnce({
+      policy: { neighbor_mode: 'block', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [],
+      neighbors: [coupled],
+    });
+    mockedUpdateLocks.mockResolvedValueOnce({
+      success: false,
+      locks: [],
+      released: [],
+      reason: 'NEIGHBOR_CONFLICT',
+      conflictingFile: 'src/b.ts',
+      conflictingScope: 'src/**',
+      conflictingUser: 'other-agent',
+      conflictingStatus: 'WRITING',
+    });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        transitions: [{ file_path: 'src/a.ts', status: 'WRITING' }],
+        message: 'take a',
+        agent_head: 'remote-head',
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const payload = await (await updateLocksPost(request)).json();
+
+    expect(mockedUpdateLocks).toHaveBeenCalledWith(expect.objectContaining({ neighborGuards: [coupled] }));
+    expect(payload.success).toBe(false);
+    expect(payload.neighbor_conflicts).toEqual([{ ...NEIGHBOR_CONFLICT, covered_by: 'src/**' }]);
+    expect(payload.orchestration.reason).toBe(
+      'NEIGHBOR_CONFLICT: src/b.ts is being written by other-agent (src/b.ts imports src/a.ts; 1 hop from src/a.ts). No transitions were applied.',
+    );
+
+    mockedEvaluateNeighborLockPolicy.mockResolvedValueOnce({
+      policy: { neighbor_mode: 'warn', neighbor_depth: 1, ignore_type_only_edges: false },
+      conflicts: [],
+      neighbors: [coupled],
+    });
+    await updateLocksPost(request);
+    expect(mockedUpdateLocks).toHaveBeenLastCalledWith(expect.objectContaining({ neighborGuards: [] }));
+  });
+
+  test('update_locks rejects malformed transitions and stale heads for writes', async () => {
+    const makeRequest = (transitions: unknown, agentHead = 'remote-head') =>
+      ({
+        json: async () => ({
+          repo_url: 'https://github.com/a/b',
+          branch: 'main',
+          transitions,
+          message: 'work',
+          agent_head: agentHead,
+        }),
+        headers: agentHeaders('agent-user'),
+      }) as any;
+
+    const malformed = await updateLocksPost(makeRequest([{ file_path: 'src/a.ts', status: 'EDITING' }]));
+    expect(malformed.status).toBe(400);
+
+    const stale = await updateLocksPost(makeRequest([{ file_path: 'src/a.ts', status: 'WRITING' }], 'old-head'));
+    const payload = await stale.json();
+    expect(payload.orchestration.action).toBe('PULL');
+    expect(mockedUpdateLocks).not.toHaveBeenCalled();
+  });
+
+  test('renew_locks returns STOP listing locks that are no longer held', async () => {
+    mockedRenewLocks.mockResolvedValueOnce({ success: true, renewed: [], missing: ['src/gone.ts'] });
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+        file_paths: ['src/gone.ts'],
+      }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await renewLocksPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(false);
+    expect(payload.missing).toEqual(['src/gone.ts']);
+    expect(payload.orchestration.action).toBe('STOP');
+  });
+
+  test('lock_queue reports a granted handoff as PROCEED', async () => {
+    mockedGetLockWaitState.mockResolvedValueOnce({
+      state: 'GRANTED',
+      locks: [
+        {
+          file_path: 'src/a.ts',
+          user_id: 'agent-user',
+          user_name: 'agent-user',
+          status: 'WRITING',
+          agent_head: 'remote-head',
+          message: 'work',
+          timestamp: 100,
+          expiry: 300_100,
+        },
+      ],
+      queuePositions: {},
+    });
+
+    const request = {
+      json: async () => ({ repo_url: 'https://github.com/a/b', branch: 'main', file_paths: ['src/a.ts'] }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await lockQueuePost(request);
+    const payload = await response.json();
+
+    expect(mockedExpireLapsedLocks).toHaveBeenCalledWith('https://github.com/a/b', 'main');
+    expect(mockedGetLockWaitState).toHaveBeenCalledWith('https://github.com/a/b', 'main', ['src/a.ts'], 'agent-user');
+    expect(payload.state).toBe('GRANTED');
+    expect(payload.orchestration.action).toBe('PROCEED');
+  });
+
+  test('lock_queue returns STOP when the caller is not queued', async () => {
+    const request = {
+      json: async () => ({ repo_url: 'https://github.com/a/b', branch: 'main', file_paths: ['src/a.ts'] }),
+      headers: agentHeaders('agent-user'),
+    } as any;
+
+    const response = await lockQueuePost(request);
+    const payload = await response.json();
+
+    expect(payload.state).toBe('NOT_QUEUED');
+    expect(payload.orchestration.action).toBe('STOP');
+  });
+
   test('cleanup route returns 401 when auth is missing', async () => {
     const request = { headers: new Headers() } as any;
     const response = await cleanupGet(request);
@@ -522,6 +1554,14 @@ describe('route smoke checks', () => {
     await expect(response.json()).resolves.toEqual({ error: 'repo_url is required' });
   });
 
+  test('graph route rejects unknown group_by values', async () => {
+    const request = { url: 'http://localhost:3000/api/graph?repo_url=https://github.com/a/b&group_by=owner' } as any;
+    const response = await graphGet(request);
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'Invalid filter', details: 'group_by must be package' });
+  });
+
   test('activity route returns 400 when repo_url is missing', async () => {
     const request = { url: 'http://localhost:3000/api/activity' } as any;
     const response = await activityGet(request);
@@ -562,6 +1602,105 @@ describe('route smoke checks', () => {
     expect(response.headers.get('Cache-Control')).toBe('no-store, max-age=0');
   });
 
+  test('locks route lists holders grouped by agent with their latest activity', async () => {
+    const writer = {
+      file_path: 'app/api/a.ts',
+      user_id: 'agent-a',
+      user_name: 'Agent A',
+      status: 'WRITING' as const,
+      agent_head: 'abc',
+      message: 'editing a',
+      timestamp: 1,
+      expiry: Date.now() + 60_000,
+    };
+    const reader = { ...writer, file_path: 'lib/b.ts', user_id: 'agent-b', user_name: 'Agent B', status: 'READING' as const };
+    mockedGetLocks.mockResolvedValueOnce({ 'app/api/a.ts': fileLock(writer), 'lib/b.ts': fileLock(reader) });
+    mockedGetRecentActivityEvents.mockResolvedValueOnce([
+      { id: 'evt-1', file_path: 'app/api/a.ts', user_id: 'agent-a', user_name: 'Agent A', status: 'WRITING', message: 'first pass', timestamp: 10 },
+      { id: 'evt-2', file_path: 'app/api/a.ts', user_id: 'agent-a', user_name: 'Agent A', status: 'WRITING', message: 'second pass', timestamp: 20 },
+    ]);
+
+    const request = {
+      url: 'http://localhost:3000/api/locks?repo_url=https://github.com/a/b&branch=main&path_prefix=app/&group_by=agent',
+    } as any;
+    const response = await locksGet(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockedExpireLapsedLocks).toHaveBeenCalledWith('https://github.com/a/b', 'main');
+    expect(payload.total).toBe(1);
+    expect(payload.locks[0]).toEqual(expect.objectContaining({ file_path: 'app/api/a.ts', user_id: 'agent-a' }));
+    expect(payload.agents).toEqual([
+      {
+        user_id: 'agent-a',
+        user_name: 'Agent A',
+        file_paths: ['app/api/a.ts'],
+        writing: 1,
+        reading: 0,
+        latest_activity: { file_path: 'app/api/a.ts', status: 'WRITING', message: 'second pass', timestamp: 20 },
+      },
+    ]);
+  });
+
+  test('locks route rejects unknown status filters', async () => {
+    const request = { url: 'http://localhost:3000/api/locks?repo_url=https://github.com/a/b&status=EDITING' } as any;
+    const response = await locksGet(request);
+
+    expect(response.status).toBe(400);
+    expect(mockedAuthorizeRepoAccess).not.toHaveBeenCalled();
+  });
+
+  test('impact route returns transitive dependents with lock state', async () => {
+    const writer = {
+      file_path: 'src/c.ts',
+      user_id: 'agent-c',
+      user_name: 'Agent C',
+      status: 'WRITING' as const,
+      agent_head: 'abc',
+      message: 'editing c',
+      timestamp: 1,
+      expiry: Date.now() + 60_000,
+    };
+    // getCached() attaches the live locks to the graph it returns.
+    getCachedGraphMock.mockResolvedValueOnce({
+      nodes: ['src/a.ts', 'src/b.ts', 'src/c.ts'].map((id) => ({ id, type: 'file' })),
+      edges: [
+        { source: 'src/b.ts', target: 'src/a.ts', type: 'runtime' },
+        { source: 'src/c.ts', target: 'src/b.ts', type: 'runtime' },
+      ],
+      locks: { 'src/c.ts': fileLock(writer) },
+      version: 'v7',
+      metadata: { generated_at: 1, files_processed: 3, edges_found: 2 },
+    } as any);
+
+    const request = { url: 'http://localhost:3000/api/impact?repo_url=https://github.com/a/b&file_paths=src/a.ts' } as any;
+    const response = await impactGet(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toEqual(expect.objectContaining({ available: true, graph_version: 'v7', total: 2, locked: 1 }));
+    expect(payload.dependents.map((entry: { file_path: string; depth: number }) => [entry.file_path, entry.depth])).toEqual([
+      ['src/b.ts', 1],
+      ['src/c.ts', 2],
+    ]);
+    expect(payload.dependents[1].lock).toEqual(
+      expect.objectContaining({ status: 'WRITING', holders: [expect.objectContaining({ user_id: 'agent-c' })] }),
+    );
+  });
+
+  test('impact route requires file paths and reports a missing graph', async () => {
+    const missing = await impactGet({ url: 'http://localhost:3000/api/impact?repo_url=https://github.com/a/b' } as any);
+    expect(missing.status).toBe(400);
+
+    const response = await impactGet({
+      url: 'http://localhost:3000/api/impact?repo_url=https://github.com/a/b&file_paths=src/a.ts',
+    } as any);
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toEqual(expect.objectContaining({ available: false, files: ['src/a.ts'] }));
+  });
+
   test('release_all_locks route returns 400 on missing fields', async () => {
     const request = { json: async () => ({}) } as any;
     const response = await releaseAllLocksPost(request);
@@ -593,6 +1732,33 @@ describe('route smoke checks', () => {
     });
   });
 
+  test('release_all_locks route requires a signed-in repo admin', async () => {
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+      }),
+    } as any;
+
+    mockedGetSessionPrincipal.mockResolvedValueOnce(null);
+    const unauthenticated = await releaseAllLocksPost(request);
+    expect(unauthenticated.status).toBe(401);
+
+    mockedAuthorizeRepoAccess.mockResolvedValueOnce(deniedAccess('agent', 'admin'));
+    const forbidden = await releaseAllLocksPost(request);
+    const payload = await forbidden.json();
+
+    expect(forbidden.status).toBe(403);
+    expect(mockedAuthorizeRepoAccess).toHaveBeenCalledWith(
+      'https://github.com/a/b',
+      { login: 'owner', agentName: null },
+      'admin',
+    );
+    expect(payload.required_role).toBe('admin');
+    expect(payload.orchestration.action).toBe('STOP');
+    expect(mockedReleaseAllLocks).not.toHaveBeenCalled();
+  });
+
   test('release_all_locks route returns 500 when release fails', async () => {
     mockedReleaseAllLocks.mockResolvedValueOnce({ success: false, released: 0 });
 
@@ -644,6 +1810,23 @@ describe('route smoke checks', () => {
     });
   });
 
+  test('clear_agent_and_feed route rejects non-admin callers', async () => {
+    mockedAuthorizeRepoAccess.mockResolvedValueOnce(deniedAccess('viewer', 'admin'));
+
+    const request = {
+      json: async () => ({
+        repo_url: 'https://github.com/a/b',
+        branch: 'main',
+      }),
+    } as any;
+
+    const response = await clearAgentAndFeedPost(request);
+
+    expect(response.status).toBe(403);
+    expect(mockedReleaseAllLocks).not.toHaveBeenCalled();
+    expect(mockedClearActivityEvents).not.toHaveBeenCalled();
+  });
+
   test('clear_agent_and_feed route returns 500 when clear operation fails', async () => {
     mockedReleaseAllLocks.mockResolvedValueOnce({ success: true, released: 2 });
     mockedClearActivityEvents.mockResolvedValueOnce({ success: false, cleared: 0 });
@@ -667,4 +1850,75 @@ describe('route smoke checks', () => {
       },
     });
   });
+
+  test('repos route registers a repository for its admins only', async () => {
+    const request = { json: async () => ({ repo_url: 'https://github.com/a/b' }) } as any;
+
+    mockedAuthorizeRepoAccess.mockResolvedValueOnce(deniedAccess('agent', 'admin'));
+    const forbidden = await reposPost(request);
+    expect(forbidden.status).toBe(403);
+    expect(mockedRegisterRepository).not.toHaveBeenCalled();
+
+    const response = await reposPost(request);
+    const payload = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockedRegisterRepository).toHaveBeenCalledWith('https://github.com/a/b', 'owner');
+    expect(payload).toEqual({
+      success: true,
+      repo: { repo_url: 'https://github.com/a/b', registered_by: 'owner', registered_at: 1 },
+    });
+  });
+
+  test('local_graph route only accepts paths under RELAY_LOCAL_GRAPH_ROOTS', async () => {
+    const previousRoots = process.env.RELAY_LOCAL_GRAPH_ROOTS;
+    process.env.RELAY_LOCAL_GRAPH_ROOTS = '/srv/repos';
+    try {
+      for (const localPath of ['/etc', '/srv/repos/../secrets', 'relative/path']) {
+        const request = {
+          json: async () => ({ repo_url: 'https://github.com/a/b', branch: 'main', local_path: localPath }),
+        } as any;
+        const response = await localGraphPost(request);
+        expect(response.status).toBe(400);
+        await expect(response.json()).resolves.toEqual({
+          error: 'local_path must be an absolute path under RELAY_LOCAL_GRAPH_ROOTS',
+        });
+      }
+      expect(mockedAuthorizeRepoAccess).not.toHaveBeenCalled();
+    } finally {
+      if (previousRoots === undefined) {
+        delete process.env.RELAY_LOCAL_GRAPH_ROOTS;
+      } else {
+        process.env.RELAY_LOCAL_GRAPH_ROOTS = previousRoots;
+      }
+    }
+  });
+
+  test('local_graph route refuses a checkout whose origin is another repository', async () => {
+    const previousRoots = process.env.RELAY_LOCAL_GRAPH_ROOTS;
+    const root = mkdtempSync(join(tmpdir(), 'relay-local-roots-'));
+    const checkout = join(root, 'other-tenant');
+    process.env.RELAY_LOCAL_GRAPH_ROOTS = root;
+    try {
+      execFileSync('git', ['init', '-q', checkout]);
+      execFileSync('git', ['-C', checkout, 'remote', 'add', 'origin', 'https://github.com/other/tenant.git']);
+      const request = {
+        json: async () => ({ repo_url: 'https://github.com/a/b', branch: 'main', local_path: checkout }),
+      } as any;
+
+      const response = await localGraphPost(request);
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toEqual({
+        error: 'local_path must be a clone of repo_url (its origin remote must point at repo_url)',
+      });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+      if (previousRoots === undefined) {
+        delete process.env.RELAY_LOCAL_GRAPH_ROOTS;
+      } else {
+        process.env.RELAY_LOCAL_GRAPH_ROOTS = previousRoots;
+      }
+    }
+  });
 });
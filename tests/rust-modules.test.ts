@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'vitest';
+import { RustImportResolver, parseCargoPackageName, parseRustModule, rustLanguage } from '@/lib/rust-modules';
+
+describe('Rust modules', () => {
+  test('reads the crate name from Cargo.toml', () => {
+    expect(parseCargoPackageName('[package]\nname = "relay-core"\nversion = "0.1.0"\n')).toBe('relay_core');
+    expect(parseCargoPackageName('[workspace]\nmembers = ["core"]\n')).toBeNull();
+  });
+
+  test('parses mod declarations, use trees and public items', () => {
+    const source = [
+      '//! Crate docs with a { brace',
+      '#![allow(dead_code)]',
+      'pub mod graph;',
+      'mod util;',
+      'mod inline { pub fn hidden() {} }',
+      'use crate::graph::{Graph, walk::{self, Walker as W}, edges::*};',
+      'pub use self::util::Helper;',
+      'extern crate serde;',
+      '',
+      '#[derive(Debug)]',
+      'pub struct Lock {',
+      '    owner: String, // "}"',
+      '}',
+      'pub(crate) trait Scope {}',
+      'pub const MAX: usize = 3;',
+      'pub async fn acquire<\'a>(name: &\'a str) -> char { \'{\' }',
+      'fn private() {}',
+    ].join('\n');
+
+    const parsed = parseRustModule(source);
+
+    expect(parsed.imports.map(({ module, names, kind }) => ({ module, names, kind }))).toEqual([
+      { module: 'self::graph', names: undefined, kind: 'static' },
+      { module: 'self::util', names: undefined, kind: 'static' },
+      { module: 'crate::graph::Graph', names: ['Graph'], kind: 'static' },
+      { module: 'crate::graph::walk', names: undefined, kind: 'static' },
+      { module: 'crate::graph::walk::Walker', names: ['Walker'], kind: 'static' },
+      { module: 'crate::graph::edges', names: ['*'], kind: 'static' },
+      { module: 'self::util::Helper', names: ['Helper'], kind: 're-export' },
+      { module: 'serde', names: undefined, kind: 'static' },
+    ]);
+    expect(parsed.exports.map(({ name, kind, lineNumber }) => [name, kind, lineNumber])).toEqual([
+      ['graph', 'namespace', 3],
+      ['Helper', 're-export', 7],
+      ['Lock', 'class', 11],
+      ['Scope', 'interface', 14],
+      ['MAX', 'variable', 15],
+      ['acquire', 'function', 16],
+    ]);
+    expect(parsed.exports[1].from).toEqual({ module: 'self::util::Helper', name: 'Helper' });
+  });
+
+  test('resolves crate, self, super and workspace crate paths to module files', () => {
+    const files = new Set([
+      'core/src/lib.rs',
+      'core/src/graph.rs',
+      'core/src/graph/walk.rs',
+      'core/src/util/mod.rs',
+      'cli/src/main.rs',
+    ]);
+    const resolver = new RustImportResolver(files, [
+      { name: 'relay_core', dir: 'core/src', rootFile: 'core/src/lib.rs' },
+      { name: 'relay_cli', dir: 'cli/src', rootFile: 'cli/src/main.rs' },
+    ]);
+
+    expect(resolver.resolve('self::graph', 'core/src/lib.rs')).toBe('core/src/graph.rs');
+    expect(resolver.resolve('self::walk', 'core/src/graph.rs')).toBe('core/src/graph/walk.rs');
+    expect(resolver.resolve('crate::util::Helper', 'core/src/graph/walk.rs')).toBe('core/src/util/mod.rs');
+    expect(resolver.resolve('super::Graph', 'core/src/graph/walk.rs')).toBe('core/src/graph.rs');
+    expect(resolver.resolve('crate::Error', 'core/src/graph.rs')).toBe('core/src/lib.rs');
+    expect(resolver.resolve('relay_core::graph::walk::Walker', 'cli/src/main.rs')).toBe('core/src/graph/walk.rs');
+    expect(resolver.resolve('graph::Graph', 'core/src/lib.rs')).toBe('core/src/graph.rs');
+    expect(resolver.resolve('serde::Deserialize', 'core/src/lib.rs')).toBeNull();
+    expect(resolver.resolve('self::Local', 'core/src/graph.rs')).toBeNull();
+  });
+
+  test('falls back to the nearest lib.rs or main.rs without a Cargo.toml', async () => {
+    const { resolver } = await rustLanguage.createResolver({
+      filePaths: new Set(['tool/main.rs', 'tool/args.rs']),
+      blobPaths: ['tool/main.rs', 'tool/args.rs'],
+      readProjectFile: async () => null,
+    });
+
+    expect(resolver.resolve('self::args', 'tool/main.rs')).toBe('tool/args.rs');
+  });
+});
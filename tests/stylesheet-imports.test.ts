@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest';
+import { parseStylesheetImports, resolveStylesheetImport } from '@/lib/stylesheet-imports';
+
+describe('stylesheet imports', () => {
+  test('parses @import, @use and @forward rules', () => {
+    const source = [
+      "@import 'tailwindcss';",
+      '@import url("./fonts.css") screen;',
+      "@import 'reset', 'typography';",
+      "@use 'sass:math';",
+      "@use './tokens' with ($accent: 'blue');",
+      "@forward 'mixins';",
+      '/* @import "commented.css"; */',
+      '// @import "line-comment";',
+      "@import url('https://fonts.googleapis.com/css2?family=Inter');",
+      "@import '~bootstrap/scss/bootstrap';",
+      '.panel { background: url(./bg.png); }',
+    ].join('\n');
+
+    expect(parseStylesheetImports(source).imports.map(({ module, lineNumber }) => [module, lineNumber])).toEqual([
+      ['tailwindcss', 1],
+      ['./fonts.css', 2],
+      ['reset', 3],
+      ['typography', 3],
+      ['./tokens', 5],
+      ['mixins', 6],
+    ]);
+  });
+
+  test('resolves relative files, Sass partials and index files', () => {
+    const files = new Set([
+      'app/globals.css',
+      'app/fonts.css',
+      'styles/main.scss',
+      'styles/_tokens.scss',
+      'styles/mixins/_index.scss',
+    ]);
+
+    expect(resolveStylesheetImport('./fonts.css', 'app/globals.css', files)).toBe('app/fonts.css');
+    expect(resolveStylesheetImport('tokens', 'styles/main.scss', files)).toBe('styles/_tokens.scss');
+    expect(resolveStylesheetImport('mixins', 'styles/main.scss', files)).toBe('styles/mixins/_index.scss');
+    expect(resolveStylesheetImport('../app/globals.css', 'styles/main.scss', files)).toBe('app/globals.css');
+    expect(resolveStylesheetImport('tailwindcss', 'app/globals.css', files)).toBeNull();
+  });
+});
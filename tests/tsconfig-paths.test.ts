@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import { findPathAliasConfig, loadPathAliasConfigs, parseJsonWithComments } from '@/lib/tsconfig-paths';
+
+function reader(files: Record<string, string>) {
+  return async (path: string) => files[path] ?? null;
+}
+
+describe('tsconfig path aliases', () => {
+  test('parses JSONC with comments and trailing commas', () => {
+    expect(
+      parseJsonWithComments(`{
+        // line comment
+        "compilerOptions": { /* block */ "paths": { "@/*": ["./*",], }, "url": "http://x//y" },
+      }`),
+    ).toEqual({ compilerOptions: { paths: { '@/*': ['./*'] }, url: 'http://x//y' } });
+  });
+
+  test('follows extends chains and resolves paths against baseUrl', async () => {
+    const configs = await loadPathAliasConfigs(
+      ['apps/web/tsconfig.json'],
+      reader({
+        'tsconfig.base.json': '{ "compilerOptions": { "baseUrl": ".", "paths": { "@shared/*": ["packages/shared/src/*"] } } }',
+        'apps/web/tsconfig.json': '{ "extends": "../../tsconfig.base", "compilerOptions": { "strict": true } }',
+      }),
+    );
+
+    expect(configs).toEqual([
+      {
+        configPath: 'apps/web/tsconfig.json',
+        configDir: 'apps/web',
+        baseUrl: '',
+        pathsBase: '',
+        paths: { '@shared/*': ['packages/shared/src/*'] },
+      },
+    ]);
+  });
+
+  test('resolves paths against the declaring config when no baseUrl is set', async () => {
+    const configs = await loadPathAliasConfigs(
+      ['app/tsconfig.json', 'app/jsconfig.json', 'tsconfig.json'],
+      reader({
+        'tsconfig.json': '{ "compilerOptions": { "paths": { "~/*": ["./src/*"] } } }',
+        'app/tsconfig.json': '{ "extends": ["@tsconfig/next", "../tsconfig.json"] }',
+        'app/jsconfig.json': '{ "compilerOptions": { "baseUrl": "js" } }',
+      }),
+    );
+
+    expect(configs.map((config) => [config.configPath, config.pathsBase])).toEqual([
+      ['app/tsconfig.json', ''],
+      ['tsconfig.json', ''],
+    ]);
+    expect(findPathAliasConfig(configs, 'app/page.tsx')?.configPath).toBe('app/tsconfig.json');
+    expect(findPathAliasConfig(configs, 'lib/kv.ts')?.configPath).toBe('tsconfig.json');
+  });
+
+  test('ignores configs without aliases and cyclic extends', async () => {
+    const configs = await loadPathAliasConfigs(
+      ['a/tsconfig.json', 'b/tsconfig.json'],
+      reader({
+        'a/tsconfig.json': '{ "compilerOptions": { "strict": true } }',
+        'b/tsconfig.json': '{ "extends": "./tsconfig.json" }',
+      }),
+    );
+
+    expect(configs).toEqual([]);
+  });
+});
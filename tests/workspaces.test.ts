@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest';
+import {
+  findWorkspacePackage,
+  getWorkspaceImportTargets,
+  loadWorkspacePackages,
+  matchesWorkspaceGlobs,
+  parsePackageJsonWorkspaces,
+  parsePnpmWorkspacePackages,
+} from '@/lib/workspaces';
+
+describe('workspace discovery', () => {
+  test('reads workspace globs from package.json and pnpm-workspace.yaml', () => {
+    expect(parsePackageJsonWorkspaces('{ "workspaces": ["apps/*", "packages/*"] }')).toEqual(['apps/*', 'packages/*']);
+    expect(parsePackageJsonWorkspaces('{ "workspaces": { "packages": ["libs/**"] } }')).toEqual(['libs/**']);
+    expect(parsePackageJsonWorkspaces('{ "name": "solo" }')).toEqual([]);
+    expect(parsePackageJsonWorkspaces('not json')).toEqual([]);
+    expect(
+      parsePnpmWorkspacePackages(
+        ["packages:", "  - 'apps/*'", '  - "packages/**" # shared', "  - '!**/test/**'", 'catalog:', '  react: ^18'].join('\n'),
+      ),
+    ).toEqual(['apps/*', 'packages/**', '!**/test/**']);
+  });
+
+  test('matches package directories against include and exclude globs', () => {
+    expect(matchesWorkspaceGlobs('apps/web', ['apps/*'])).toBe(true);
+    expect(matchesWorkspaceGlobs('apps/web/nested', ['apps/*'])).toBe(false);
+    expect(matchesWorkspaceGlobs('packages/ui/icons', ['packages/**'])).toBe(true);
+    expect(matchesWorkspaceGlobs('packages/test/fixture', ['packages/**', '!**/test/**'])).toBe(false);
+  });
+
+  test('loads the packages listed by the root manifest', async () => {
+    const manifests: Record<string, string> = {
+      'package.json': '{ "private": true, "workspaces": ["apps/*", "packages/*"] }',
+      'apps/web/package.json': '{ "name": "web" }',
+      'packages/ui/package.json': '{ "name": "@acme/ui", "exports": "./src/index.ts", "types": "./dist/index.d.ts" }',
+      'examples/demo/package.json': '{ "name": "demo" }',
+    };
+
+    const packages = await loadWorkspacePackages(Object.keys(manifests), async (path) => manifests[path] ?? null);
+
+    expect(packages).toEqual([
+      { name: 'web', dir: 'apps/web' },
+      { name: '@acme/ui', dir: 'packages/ui', exports: './src/index.ts', types: './dist/index.d.ts' },
+    ]);
+    expect(findWorkspacePackage('packages/ui/src/button.tsx', packages)?.name).toBe('@acme/ui');
+    expect(findWorkspacePackage('scripts/build.ts', packages)).toBeNull();
+    await expect(loadWorkspacePackages(['package.json'], async () => '{ "name": "solo" }')).resolves.toEqual([]);
+  });
+
+  test('picks exports targets by subpath and condition', () => {
+    const packages = [
+      {
+        name: '@acme/ui',
+        dir: 'packages/ui',
+        exports: {
+          '.': { require: './dist/index.cjs', import: './dist/index.mjs', types: './dist/index.d.ts' },
+          './components/*': './src/components/*.tsx',
+          './package.json': './package.json',
+        },
+      },
+    ];
+
+    expect(getWorkspaceImportTargets('@acme/ui', packages)?.targets).toEqual([
+      'packages/ui/dist/index.d.ts',
+      'packages/ui/dist/index.mjs',
+      'packages/ui/dist/index.cjs',
+    ]);
+    expect(getWorkspaceImportTargets('@acme/ui/components/button', packages)?.targets).toEqual([
+      'packages/ui/src/components/button.tsx',
+    ]);
+    expect(getWorkspaceImportTargets('@acme/ui/internal', packages)?.targets).toEqual([]);
+    expect(getWorkspaceImportTargets('@acme/uikit', packages)).toBeNull();
+  });
+});